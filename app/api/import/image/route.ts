@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { isAuthorized } from "../../../../lib/server/auth";
+import { fetchPublic, readLimited } from "../../../../lib/server/fetch";
+import { rateLimited } from "../../../../lib/server/rateLimit";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_IMAGE_BYTES = 15 * 1024 * 1024;
+// Each import previews and then downloads its images, so this is well above
+// the page limit.
+const RATE_LIMIT = Number(process.env.IMPORT_IMAGE_RATE_LIMIT) || 200;
+
+// Serves remote product images from our own origin so the editor can draw
+// them without tainting the canvas. SVG is refused: served same-origin it
+// could run script.
+export async function GET(request: Request) {
+  if (!isAuthorized(request)) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  const wait = rateLimited(request, "image", RATE_LIMIT);
+  if (wait) {
+    return NextResponse.json(
+      { error: "Too many image requests, try again in a minute" },
+      { status: 429, headers: { "Retry-After": String(wait) } }
+    );
+  }
+  const url = new URL(request.url).searchParams.get("url") ?? "";
+  if (!/^https?:\/\/\S+$/i.test(url)) {
+    return NextResponse.json({ error: "Missing image URL" }, { status: 400 });
+  }
+
+  try {
+    const { response } = await fetchPublic(url, { headers: { Accept: "image/avif,image/webp,image/*" } });
+    if (!response.ok) throw new Error(`The image returned HTTP ${response.status}`);
+    const type = (response.headers.get("content-type") ?? "").split(";")[0].trim().toLowerCase();
+    if (!type.startsWith("image/") || type === "image/svg+xml") {
+      return NextResponse.json({ error: `Not a supported image (${type || "unknown type"})` }, { status: 415 });
+    }
+    const bytes = await readLimited(response, MAX_IMAGE_BYTES);
+    return new Response(bytes as BodyInit, {
+      headers: {
+        "Content-Type": type,
+        "Cache-Control": "private, max-age=3600",
+        "X-Content-Type-Options": "nosniff"
+      }
+    });
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Could not fetch the image" },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { parseProductPage } from "../../../lib/productPage";
+import { isAuthorized } from "../../../lib/server/auth";
+import { fetchPublic, readLimited } from "../../../lib/server/fetch";
+import { rateLimited } from "../../../lib/server/rateLimit";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_PAGE_BYTES = 5 * 1024 * 1024;
+const RATE_LIMIT = Number(process.env.IMPORT_RATE_LIMIT) || 20;
+
+// Marketplaces serve reduced or bot pages to unknown clients.
+const PAGE_HEADERS = {
+  "User-Agent":
+    "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0 Safari/537.36",
+  Accept: "text/html,application/xhtml+xml",
+  "Accept-Language": "en-US,en;q=0.9"
+};
+
+// Fetches a product page and returns the details found on it. Body:
+// `{ "url": "https://..." }`.
+export async function POST(request: Request) {
+  if (!isAuthorized(request)) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  const wait = rateLimited(request, "import", RATE_LIMIT);
+  if (wait) {
+    return NextResponse.json(
+      { error: "Too many imports, try again in a minute" },
+      { status: 429, headers: { "Retry-After": String(wait) } }
+    );
+  }
+  const body = await request.json().catch(() => null);
+  const url = typeof body?.url === "string" ? body.url.trim() : "";
+  if (!/^https?:\/\/\S+$/i.test(url)) {
+    return NextResponse.json({ error: "Enter a product page URL starting with http:// or https://" }, { status: 400 });
+  }
+
+  try {
+    const { response, url: finalUrl } = await fetchPublic(url, { headers: PAGE_HEADERS });
+    if (!response.ok) throw new Error(`The page returned HTTP ${response.status}`);
+    const html = new TextDecoder().decode(await readLimited(response, MAX_PAGE_BYTES));
+    const product = parseProductPage(html, finalUrl);
+    if (!product.title && product.images.length === 0) {
+      return NextResponse.json({ error: "No product details found on that page" }, { status: 422 });
+    }
+    return NextResponse.json(product);
+  } catch (err) {
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : "Could not fetch the page" },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { createReadStream } from "node:fs";
+import { stat } from "node:fs/promises";
+import { Readable } from "node:stream";
+import { NextResponse } from "next/server";
+import { isAuthorized } from "../../../../../lib/server/auth";
+import { getRenderJob, outputPath } from "../../../../../lib/server/queue";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const CONTENT_TYPES = { mp4: "video/mp4", webm: "video/webm" };
+
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  if (!isAuthorized(request)) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  const job = await getRenderJob(params.id);
+  if (!job) return NextResponse.json({ error: "Job not found" }, { status: 404 });
+  if (job.status !== "done") {
+    return NextResponse.json({ error: `Render is ${job.status}` }, { status: 409 });
+  }
+  const file = outputPath(job);
+  const { size } = await stat(file);
+  return new Response(Readable.toWeb(createReadStream(file)) as ReadableStream, {
+    headers: {
+      "Content-Type": CONTENT_TYPES[job.format],
+      "Content-Length": String(size),
+      "Content-Disposition": `attachment; filename="faceless-affiliate-${job.id}.${job.format}"`
+    }
+  });
+}
@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { isAuthorized } from "../../../../lib/server/auth";
+import { getRenderJob } from "../../../../lib/server/queue";
+import { describeJob } from "../describe";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  if (!isAuthorized(request)) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  const job = await getRenderJob(params.id);
+  if (!job) return NextResponse.json({ error: "Job not found" }, { status: 404 });
+  return NextResponse.json(describeJob(job));
+}
@@ -0,0 +1,10 @@
+import type { JobRecord } from "../../../lib/server/queue";
+
+// Job record plus the URLs a client polls and downloads from.
+export function describeJob(job: JobRecord) {
+  return {
+    ...job,
+    statusUrl: `/api/render/${job.id}`,
+    downloadUrl: job.status === "done" ? `/api/render/${job.id}/file` : null
+  };
+}
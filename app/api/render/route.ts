@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { decodeProjectFile } from "../../../lib/project";
+import { isAuthorized } from "../../../lib/server/auth";
+import { readLimited } from "../../../lib/server/fetch";
+import { enqueueRender } from "../../../lib/server/queue";
+import { describeJob } from "./describe";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_UPLOAD_BYTES = Math.max(1, Number(process.env.RENDER_MAX_UPLOAD_MB) || 200) * 1024 * 1024;
+
+// Queues a render of a saved project (.favproj), sent either as the raw
+// request body or as the `project` field of a multipart form.
+export async function POST(request: Request) {
+  if (!isAuthorized(request)) return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+
+  // Checks the declared length up front, then counts the streamed bytes.
+  let body: Uint8Array;
+  try {
+    body = await readLimited(request, MAX_UPLOAD_BYTES);
+  } catch {
+    const limit = MAX_UPLOAD_BYTES / 1024 / 1024;
+    return NextResponse.json({ error: `Projects over ${limit} MB can't be rendered here` }, { status: 413 });
+  }
+
+  let file: Blob;
+  const contentType = request.headers.get("content-type") ?? "";
+  if (contentType.startsWith("multipart/form-data")) {
+    const form = await new Response(body as BodyInit, { headers: { "content-type": contentType } }).formData().catch(() => null);
+    const field = form?.get("project");
+    if (!(field instanceof Blob)) {
+      return NextResponse.json({ error: "Missing \"project\" file field" }, { status: 400 });
+    }
+    file = field;
+  } else {
+    file = new Blob([body as BlobPart]);
+  }
+
+  let project;
+  try {
+    project = await decodeProjectFile(file);
+  } catch (err) {
+    return NextResponse.json({ error: err instanceof Error ? err.message : "Invalid project" }, { status: 400 });
+  }
+  // Clip frames are decoded by the browser; there is no decoder here.
+  if (Object.keys(project.clips).length > 0) {
+    return NextResponse.json({ error: "Projects with video clips can only be rendered in the editor" }, { status: 400 });
+  }
+  const job = await enqueueRender(file, project);
+  if (!job) return NextResponse.json({ error: "The render queue is full; try again later" }, { status: 429 });
+  return NextResponse.json(describeJob(job), { status: 202 });
+}
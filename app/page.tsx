@@ -1,15 +1,58 @@
 "use client";
 
-import React, { useCallback, useMemo, useRef, useState } from "react";
-
-type Aspect = "9:16" | "1:1" | "16:9";
-
-type UploadedImage = {
-  id: string;
-  file: File;
-  url: string;
-  element?: HTMLImageElement;
-};
+import React, { useCallback, useEffect, useMemo, useReducer, useRef, useState } from "react";
+import { PROJECT_FILE_EXTENSION, decodeProjectFile, encodeProjectFile, type Project } from "../lib/project";
+import AudioMixer from "../components/AudioMixer";
+import BatchPanel from "../components/BatchPanel";
+import BrandKitPanel from "../components/BrandKitPanel";
+import CaptionEditor from "../components/CaptionEditor";
+import ClipEditor from "../components/ClipEditor";
+import HistoryPanel from "../components/HistoryPanel";
+import ImageEditor from "../components/ImageEditor";
+import LayerEditor from "../components/LayerEditor";
+import LinkPanel from "../components/LinkPanel";
+import MediaThumb from "../components/MediaThumb";
+import MotionSettings from "../components/MotionSettings";
+import MusicPanel from "../components/MusicPanel";
+import PreflightPanel from "../components/PreflightPanel";
+import PreviewPlayer from "../components/PreviewPlayer";
+import ProductImport, { type ImportedProduct } from "../components/ProductImport";
+import RenderProgress, { type RenderStatus } from "../components/RenderProgress";
+import StillExports from "../components/StillExports";
+import TemplatePicker from "../components/TemplatePicker";
+import VariantPanel from "../components/VariantPanel";
+import VoiceTiming from "../components/VoiceTiming";
+import Timeline from "../components/Timeline";
+import { decodeAudioFile, type MusicSource } from "../lib/audio";
+import { detectBeats, type BeatGrid } from "../lib/beats";
+import { loadBrandAssets, NO_BRAND_ASSETS, type LoadedBrandAssets } from "../lib/brand";
+import { loadImage } from "../lib/canvas";
+import { formatCaptions, type CaptionFormat } from "../lib/captions";
+import { decodeMedia, DEFAULT_CLIP, isClipFile } from "../lib/clips";
+import { toSceneSlides, type Scene } from "../lib/draw";
+import {
+  createHistory,
+  editorProject,
+  fitMediaBudget,
+  historyReducer,
+  initialEditorState,
+  MAX_CLIP_SECONDS,
+  MEDIA_BUDGET_BYTES,
+  mediaUsage,
+  presentState,
+  projectEditorState,
+  type EditorAction,
+  type EditorFields
+} from "../lib/editor";
+import { getSafeZone, safeZonesFor } from "../lib/layout";
+import { exportLogCsv, type ExportRecord } from "../lib/links";
+import { renderVideoFile, type OutputFormat, type RenderProgress as Progress, type RenderStage } from "../lib/render";
+import { hasErrors, runPreflight, slideTexts, type PreflightFix, type PreflightIssue } from "../lib/preflight";
+import { ASPECTS, buildScene, FPS, playedSlides } from "../lib/scene";
+import { addExportRecord, clearExportRecords, listExportRecords, loadAutosave, saveAutosave } from "../lib/storage";
+import { getTemplate, type TemplateField } from "../lib/templates";
+import { createZip } from "../lib/zip";
+import type { Aspect, UploadedImage } from "../lib/types";
 
 function useObjectUrls() {
   const urlsRef = useRef<string[]>([]);
@@ -18,114 +61,289 @@ function useObjectUrls() {
     urlsRef.current.push(url);
     return url;
   }, []);
+  const revoke = useCallback((url: string) => {
+    URL.revokeObjectURL(url);
+    urlsRef.current = urlsRef.current.filter((u) => u !== url);
+  }, []);
   const revokeAll = useCallback(() => {
     urlsRef.current.forEach((u) => URL.revokeObjectURL(u));
     urlsRef.current = [];
   }, []);
-  return { make, revokeAll };
+  return { make, revoke, revokeAll };
 }
 
-function parseLines(input: string): string[] {
-  return input
-    .split(/\r?\n/)
-    .map((s) => s.trim())
-    .filter(Boolean);
+function aspectFileName(aspect: Aspect, format: OutputFormat) {
+  return `faceless-affiliate-${aspect.replace(":", "x")}.${format}`;
 }
 
-function getCanvasSize(aspect: Aspect): { width: number; height: number } {
-  switch (aspect) {
-    case "9:16":
-      return { width: 1080, height: 1920 };
-    case "1:1":
-      return { width: 1080, height: 1080 };
-    case "16:9":
-      return { width: 1920, height: 1080 };
-  }
-}
+const STAGE_LABELS: Record<RenderStage, string> = {
+  frames: "Drawing frames",
+  audio: "Mixing audio",
+  finishing: "Finishing"
+};
 
-function wrapText(
-  ctx: CanvasRenderingContext2D,
-  text: string,
-  x: number,
-  y: number,
-  maxWidth: number,
-  lineHeight: number
-): number {
-  const words = text.split(" ");
-  let line = "";
-  let cursorY = y;
-  for (let n = 0; n < words.length; n++) {
-    const testLine = line + words[n] + " ";
-    const metrics = ctx.measureText(testLine);
-    const testWidth = metrics.width;
-    if (testWidth > maxWidth && n > 0) {
-      ctx.fillText(line, x, cursorY);
-      line = words[n] + " ";
-      cursorY += lineHeight;
-    } else {
-      line = testLine;
-    }
-  }
-  ctx.fillText(line, x, cursorY);
-  return cursorY + lineHeight;
+// Cancelled renders aren't errors.
+function renderErrorMessage(err: unknown) {
+  if (err instanceof DOMException && err.name === "AbortError") return null;
+  return err instanceof Error ? err.message : "Render failed";
 }
 
-async function loadImage(url: string): Promise<HTMLImageElement> {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    img.crossOrigin = "anonymous";
-    img.onload = () => resolve(img);
-    img.onerror = reject;
-    img.src = url;
-  });
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
 }
 
 export default function Page() {
-  const [productTitle, setProductTitle] = useState("Amazing Gadget 3000");
-  const [subtitle, setSubtitle] = useState("Boost productivity with zero effort");
-  const [benefitsText, setBenefitsText] = useState(
-    ["One-tap setup", "Long-lasting battery", "Seamless integration", "Budget-friendly"].join("\n")
-  );
-  const [cta, setCta] = useState("Grab yours today ? link in bio");
-  const [brandColor, setBrandColor] = useState("#3B82F6");
-  const [aspect, setAspect] = useState<Aspect>("9:16");
-  const [secondsPerSlide, setSecondsPerSlide] = useState(2.5);
-
-  const [images, setImages] = useState<UploadedImage[]>([]);
-  const [voiceFile, setVoiceFile] = useState<File | null>(null);
-  const [bgMusicEnabled, setBgMusicEnabled] = useState(true);
+  const [history, dispatchHistory] = useReducer(historyReducer, initialEditorState, createHistory);
+  const state = presentState(history);
+  const {
+    productTitle,
+    subtitle,
+    cta,
+    link,
+    disclosure,
+    brandKit,
+    aspect,
+    safeZones,
+    secondsPerSlide,
+    templateId,
+    transition,
+    animations,
+    captions,
+    captionStyle,
+    slides,
+    images,
+    voiceFile,
+    bgMusicEnabled,
+    music,
+    musicFile,
+    mix,
+    outputFormat
+  } = state;
+
+  const [brandAssets, setBrandAssets] = useState<LoadedBrandAssets>(NO_BRAND_ASSETS);
+  const [trackGrid, setTrackGrid] = useState<BeatGrid | null>(null);
   const [recordingVoice, setRecordingVoice] = useState(false);
-  const [voiceRecordingUrl, setVoiceRecordingUrl] = useState<string | null>(null);
   const [rendering, setRendering] = useState(false);
-  const [outputUrl, setOutputUrl] = useState<string | null>(null);
-
-  const { make, revokeAll } = useObjectUrls();
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const [output, setOutput] = useState<{ url: string; format: OutputFormat } | null>(null);
+  const [aspectOutputs, setAspectOutputs] = useState<{ aspect: Aspect; url: string; blob: Blob; format: OutputFormat }[]>([]);
+  const [renderingAspect, setRenderingAspect] = useState<Aspect | null>(null);
+  const [renderStatus, setRenderStatus] = useState<RenderStatus | null>(null);
+  const [renderError, setRenderError] = useState<string | null>(null);
+  const [projectError, setProjectError] = useState<string | null>(null);
+  const [editingImageId, setEditingImageId] = useState<string | null>(null);
+  const [mediaNotice, setMediaNotice] = useState<string | null>(null);
+  const [exportLog, setExportLog] = useState<ExportRecord[]>([]);
+  const [voiceSeconds, setVoiceSeconds] = useState<number | null>(null);
+  const [preflight, setPreflight] = useState<PreflightIssue[] | null>(null);
+
+  const { make, revoke } = useObjectUrls();
+
+  // Media URLs are revoked once no history entry holds their image, e.g.
+  // after a fresh load or when old entries drop off the end of the history.
+  const mediaUrlsRef = useRef(new Set<string>());
+  useEffect(() => {
+    const held = new Set(history.entries.flatMap((entry) => entry.state.images.map((img) => img.url)));
+    mediaUrlsRef.current.forEach((url) => {
+      if (!held.has(url)) revoke(url);
+    });
+    mediaUrlsRef.current = held;
+  }, [history.entries, revoke]);
+  const hydratedRef = useRef(false);
+  const projectInputRef = useRef<HTMLInputElement | null>(null);
   const micRecorderRef = useRef<MediaRecorder | null>(null);
   const micStreamRef = useRef<MediaStream | null>(null);
-  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const renderAbortRef = useRef<AbortController | null>(null);
+
+  const edit = useCallback((action: EditorAction) => dispatchHistory({ type: "apply", action, at: Date.now() }), []);
+  const set = useCallback(
+    <K extends keyof EditorFields>(key: K, value: EditorFields[K], coalesce = false) =>
+      edit({ type: "set", patch: { [key]: value } as Partial<EditorFields>, coalesce }),
+    [edit]
+  );
+
+  // Ctrl+Z / Ctrl+Shift+Z everywhere, including text fields: their edits are
+  // in the store's history, not the browser's.
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || e.key.toLowerCase() !== "z") return;
+      e.preventDefault();
+      dispatchHistory({ type: e.shiftKey ? "redo" : "undo" });
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  const template = getTemplate(templateId);
+  const editingImage = images.find((img) => img.id === editingImageId);
+  const usage = mediaUsage(images);
+
+  const musicSource = useMemo<MusicSource | null>(
+    () => (bgMusicEnabled ? { settings: music, track: musicFile } : null),
+    [bgMusicEnabled, music, musicFile]
+  );
 
-  const benefits = useMemo(() => parseLines(benefitsText), [benefitsText]);
-  const totalSlides = useMemo(() => Math.max(benefits.length, 1), [benefits.length]);
-  const { width, height } = getCanvasSize(aspect);
+  // Uploaded tracks are analysed once for tempo and beat phase.
+  useEffect(() => {
+    setTrackGrid(null);
+    if (!musicFile) return;
+    let cancelled = false;
+    decodeAudioFile(new OfflineAudioContext(1, 1, 44100), musicFile)
+      .then((buffer) => {
+        if (!cancelled) setTrackGrid(detectBeats(buffer));
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [musicFile]);
+
+  useEffect(() => {
+    setVoiceSeconds(null);
+    if (!voiceFile) return;
+    let cancelled = false;
+    decodeAudioFile(new OfflineAudioContext(1, 1, 44100), voiceFile)
+      .then((buffer) => {
+        if (!cancelled) setVoiceSeconds(buffer.duration);
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [voiceFile]);
+
+  // Brand fonts and images load only when the kit's files change, not on
+  // every color or opacity edit.
+  const { headingFont, bodyFont, logo, watermarkImage } = brandKit;
+  useEffect(() => {
+    let cancelled = false;
+    loadBrandAssets({ headingFont, bodyFont, logo, watermarkImage }, (blob) => loadImage(make(blob)))
+      .then((loaded) => {
+        if (!cancelled) setBrandAssets(loaded);
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [bodyFont, headingFont, logo, make, watermarkImage]);
 
-  const onSelectImages = useCallback(async (files: FileList | null) => {
-    if (!files) return;
+  const timedSlides = useMemo(
+    () => playedSlides(slides, musicSource, trackGrid),
+    [musicSource, slides, trackGrid]
+  );
+
+  const project = useMemo<Project>(() => editorProject(state), [state]);
+
+  const voiceUrl = useMemo(() => (voiceFile ? make(voiceFile) : null), [make, voiceFile]);
+
+  const scene = useMemo<Scene>(
+    () => buildScene(project, toSceneSlides(timedSlides, images), brandAssets),
+    [brandAssets, images, project, timedSlides]
+  );
+
+  const checkProject = useCallback(
+    (target: Scene, targetAspect: Aspect) =>
+      runPreflight({
+        scene: target,
+        fps: FPS,
+        aspect: targetAspect,
+        settings: { brandKit, disclosure, link, mix, slides },
+        voiceSeconds,
+        hasAudio: Boolean(musicSource || voiceFile) || images.some((img) => img.clip && !img.clip.muted),
+        texts: slideTexts(target)
+      }),
+    [brandKit, disclosure, images, link, mix, musicSource, slides, voiceFile, voiceSeconds]
+  );
+
+  // Drawing every slide to check it is too slow for each keystroke.
+  useEffect(() => {
+    const timer = setTimeout(() => setPreflight(checkProject(scene, aspect)), 300);
+    return () => clearTimeout(timer);
+  }, [aspect, checkProject, scene]);
+
+  const exportBlocked = preflight !== null && hasErrors(preflight);
+
+  // Checks again right before an export, so a stale checklist can't let
+  // errors through. Aspects other than the one being edited only add their
+  // errors to the checklist, labelled with the aspect.
+  const passesPreflight = useCallback(
+    (aspects: readonly Aspect[] = [aspect]) => {
+      const issues = checkProject(scene, aspect);
+      const sceneSlides = toSceneSlides(timedSlides, images);
+      for (const a of aspects) {
+        if (a === aspect) continue;
+        for (const issue of checkProject(buildScene({ ...project, aspect: a }, sceneSlides, brandAssets), a)) {
+          if (issue.severity !== "error" || issues.some((i) => i.rule === issue.rule && i.message === issue.message)) continue;
+          issues.push({ ...issue, message: `${a}: ${issue.message}` });
+        }
+      }
+      setPreflight(issues);
+      return !hasErrors(issues);
+    },
+    [aspect, brandAssets, checkProject, images, project, scene, timedSlides]
+  );
+
+  const applyFix = useCallback((fix: PreflightFix) => {
+    if (fix.patch) edit({ type: "set", patch: fix.patch });
+    if (fix.section) document.getElementById(`section-${fix.section}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [edit]);
+
+  const unusedHint = (field: TemplateField) =>
+    !template.fields.includes(field) && (
+      <span className="ml-1 text-xs font-normal text-gray-400">not used by {template.name}</span>
+    );
+
+  const decodeImages = useCallback(async (files: File[]) => {
     const list: UploadedImage[] = [];
-    for (const file of Array.from(files)) {
-      const url = make(file);
-      list.push({ id: crypto.randomUUID(), file, url });
+    for (const file of files) {
+      const item: UploadedImage = {
+        id: crypto.randomUUID(),
+        file,
+        url: make(file),
+        clip: isClipFile(file) ? DEFAULT_CLIP : undefined
+      };
+      list.push(await decodeMedia(item).catch(() => item));
     }
-    setImages((prev) => [...prev, ...list].slice(0, 20));
+    return list;
   }, [make]);
 
-  const onRemoveImage = useCallback((id: string) => {
-    setImages((prev) => prev.filter((i) => i.id !== id));
+  // Tracked from the edit that adds them, so any the media budget leaves out
+  // are revoked too.
+  const trackMedia = useCallback((items: UploadedImage[]) => {
+    items.forEach((item) => mediaUrlsRef.current.add(item.url));
   }, []);
 
+  const addImages = useCallback(async (files: File[]) => {
+    const decoded = await decodeImages(files);
+    const skipped = decoded.length - fitMediaBudget(images, decoded).length;
+    setMediaNotice(skipped > 0 ? `${skipped} file${skipped === 1 ? "" : "s"} left out: the media budget is full.` : null);
+    trackMedia(decoded);
+    edit({ type: "addImages", images: decoded });
+  }, [decodeImages, edit, images, trackMedia]);
+
+  const applyImport = useCallback(async (imported: ImportedProduct) => {
+    const decoded = await decodeImages(imported.images);
+    trackMedia(decoded);
+    edit({
+      type: "importProduct",
+      title: imported.title,
+      subtitle: imported.subtitle,
+      benefits: imported.benefits,
+      images: decoded
+    });
+  }, [decodeImages, edit, trackMedia]);
+
+  const onRemoveImage = useCallback((id: string) => {
+    edit({ type: "removeImage", id });
+  }, [edit]);
+
   const onSelectVoice = useCallback((file: File | null) => {
-    setVoiceFile(file);
-  }, []);
+    set("voiceFile", file);
+  }, [set]);
 
   const startMicRecording = useCallback(async () => {
     if (recordingVoice) return;
@@ -140,285 +358,310 @@ export default function Page() {
     };
     rec.onstop = () => {
       const blob = new Blob(chunks, { type: "audio/webm" });
-      const url = make(blob);
-      setVoiceRecordingUrl(url);
-      setVoiceFile(new File([blob], "voiceover.webm", { type: "audio/webm" }));
+      set("voiceFile", new File([blob], "voiceover.webm", { type: "audio/webm" }));
       setRecordingVoice(false);
       micStreamRef.current?.getTracks().forEach((t) => t.stop());
       micStreamRef.current = null;
     };
     rec.start();
-  }, [make, recordingVoice]);
+  }, [recordingVoice, set]);
 
   const stopMicRecording = useCallback(() => {
     micRecorderRef.current?.stop();
   }, []);
 
-  const drawSlide = useCallback(async (ctx: CanvasRenderingContext2D, slideIndex: number, progress01: number) => {
-    ctx.clearRect(0, 0, width, height);
-
-    // Background gradient
-    const grd = ctx.createLinearGradient(0, 0, width, height);
-    grd.addColorStop(0, brandColor);
-    grd.addColorStop(1, "#111827");
-    ctx.fillStyle = grd;
-    ctx.fillRect(0, 0, width, height);
-
-    // Image (if available)
-    const img = images[slideIndex]?.element;
-    if (img) {
-      const scale = Math.max(width / img.width, height / img.height);
-      const iw = img.width * scale;
-      const ih = img.height * scale;
-      const ix = (width - iw) / 2;
-      const iy = (height - ih) / 2;
-      ctx.globalAlpha = 0.25;
-      ctx.drawImage(img, ix, iy, iw, ih);
-      ctx.globalAlpha = 1;
-    }
-
-    // Title and subtitle with slight entrance animation
-    ctx.fillStyle = "#ffffff";
-    ctx.textAlign = "left";
-    const titleFontSize = Math.round(height * 0.05);
-    const subtitleFontSize = Math.round(height * 0.028);
-    const benefitFontSize = Math.round(height * 0.04);
-    ctx.font = `700 ${titleFontSize}px system-ui, -apple-system, Segoe UI, Roboto`;
-    const titleX = Math.round(width * 0.08);
-    const titleY = Math.round(height * 0.12 + (1 - progress01) * 16);
-    ctx.fillText(productTitle, titleX, titleY);
-    ctx.font = `500 ${subtitleFontSize}px system-ui, -apple-system, Segoe UI, Roboto`;
-    ctx.globalAlpha = 0.9;
-    ctx.fillText(subtitle, titleX, titleY + subtitleFontSize + 10);
-    ctx.globalAlpha = 1;
-
-    // Benefit text block
-    const benefit = benefits[Math.min(slideIndex, benefits.length - 1)] ?? "";
-    const blockY = Math.round(height * 0.35);
-    const blockW = Math.round(width * 0.84);
-    const blockX = Math.round(width * 0.08);
-
-    // Card background
-    ctx.fillStyle = "rgba(255,255,255,0.08)";
-    const cardH = Math.round(height * 0.32);
-    const radius = 24;
-    roundRect(ctx, blockX - 16, blockY - 24, blockW + 32, cardH, radius);
-    ctx.fill();
-
-    // Benefit text
-    ctx.fillStyle = "#ffffff";
-    ctx.font = `800 ${benefitFontSize}px system-ui, -apple-system, Segoe UI, Roboto`;
-    const benefitMax = blockW;
-    const baseline = blockY + Math.round(benefitFontSize * 1.25);
-    wrapText(ctx, benefit, blockX, baseline, benefitMax, Math.round(benefitFontSize * 1.25));
-
-    // CTA pill
-    const ctaText = cta;
-    ctx.font = `700 ${Math.round(height * 0.028)}px system-ui, -apple-system, Segoe UI, Roboto`;
-    const ctaMetrics = ctx.measureText(ctaText);
-    const pillPadX = 18;
-    const pillH = Math.round(height * 0.05);
-    const pillW = Math.round(ctaMetrics.width + pillPadX * 2);
-    const pillX = blockX;
-    const pillY = blockY + cardH - pillH - 20;
-    ctx.fillStyle = "#ffffff";
-    roundRect(ctx, pillX, pillY, pillW, pillH, pillH / 2);
-    ctx.fill();
-    ctx.fillStyle = brandColor;
-    ctx.textAlign = "center";
-    ctx.fillText(ctaText, pillX + pillW / 2, pillY + pillH / 2 + 8);
-
-    // Watermark
-    ctx.textAlign = "right";
-    ctx.fillStyle = "rgba(255,255,255,0.7)";
-    ctx.font = `600 ${Math.round(height * 0.02)}px system-ui, -apple-system, Segoe UI, Roboto`;
-    ctx.fillText("#affiliate", width - 24, height - 24);
-  }, [brandColor, benefits, cta, height, images, productTitle, subtitle, width]);
-
   const ensureImagesLoaded = useCallback(async () => {
-    const loaded = await Promise.all(
-      images.map(async (img) => {
-        const el = await loadImage(img.url);
-        return { ...img, element: el };
-      })
-    );
-    setImages(loaded);
-  }, [images]);
-
-  const renderVideo = useCallback(async () => {
-    if (rendering) return;
-    setRendering(true);
-    setOutputUrl(null);
-    revokeAll();
-    await ensureImagesLoaded();
-
-    // Prepare canvas
-    const canvas = document.createElement("canvas");
-    canvas.width = width;
-    canvas.height = height;
-    canvasRef.current = canvas;
-    const ctx = canvas.getContext("2d");
-    if (!ctx) {
-      setRendering(false);
-      return;
-    }
-
-    // Media streams
-    const fps = 30;
-    const canvasStream = (canvas as HTMLCanvasElement).captureStream(fps);
-    const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-    const dest = audioContext.createMediaStreamDestination();
-
-    // Optional BG music
-    let bgGain: GainNode | null = null;
-    if (bgMusicEnabled) {
-      const musicGain = audioContext.createGain();
-      musicGain.gain.value = 0.15;
-      createCalmMusic(audioContext, totalSlides * secondsPerSlide).connect(musicGain);
-      musicGain.connect(dest);
-      bgGain = musicGain;
-    }
-
-    // Optional voiceover from file
-    let voiceEl: HTMLAudioElement | null = null;
-    if (voiceFile) {
-      const url = make(voiceFile);
-      voiceEl = new Audio(url);
-      voiceEl.crossOrigin = "anonymous";
-      voiceEl.preload = "auto";
-      const node = audioContext.createMediaElementSource(voiceEl);
-      const voiceGain = audioContext.createGain();
-      voiceGain.gain.value = 0.9;
-      node.connect(voiceGain).connect(dest);
-    }
+    const loaded = await Promise.all(images.map(decodeMedia));
+    edit({ type: "imagesDecoded", images: loaded });
+    return loaded;
+  }, [edit, images]);
+
+  // Logs which link variant a rendered file carries.
+  const recordExport = useCallback((file: string, exported: Scene, exportAspect: Aspect, format: string) => {
+    const record: ExportRecord = {
+      id: crypto.randomUUID(),
+      at: new Date().toISOString(),
+      file,
+      productTitle: exported.productTitle,
+      aspect: exportAspect,
+      format,
+      variant: exported.link?.variant ?? "",
+      code: exported.link?.code ?? "",
+      url: exported.link?.url ?? null
+    };
+    setExportLog((prev) => [record, ...prev]);
+    addExportRecord(record).catch(() => {
+      // the log is best effort; the render itself succeeded
+    });
+  }, []);
 
-    // Merge tracks
-    const output = new MediaStream();
-    canvasStream.getTracks().forEach((t) => output.addTrack(t));
-    dest.stream.getAudioTracks().forEach((t) => output.addTrack(t));
+  const loadedScene = useCallback(async () => {
+    const loaded = await ensureImagesLoaded();
+    return { ...scene, slides: toSceneSlides(timedSlides, loaded) };
+  }, [ensureImagesLoaded, scene, timedSlides]);
 
-    const chunks: BlobPart[] = [];
-    const rec = new MediaRecorder(output, { mimeType: "video/webm;codecs=vp9,opus" });
-    mediaRecorderRef.current = rec;
-    rec.ondataavailable = (e) => {
-      if (e.data && e.data.size > 0) chunks.push(e.data);
+  // Starts a cancellable render; `track` turns each render's progress into
+  // the status shown under the buttons.
+  const beginRender = useCallback(() => {
+    const controller = new AbortController();
+    renderAbortRef.current = controller;
+    setRendering(true);
+    setRenderError(null);
+    const startedAt = Date.now();
+    setRenderStatus({ label: "Loading images", fraction: 0, startedAt });
+    const track = (label: (p: Progress) => string, scale = (f: number) => f) => (p: Progress) => {
+      const fraction = Math.round(scale(p.fraction) * 200) / 200;
+      const next = label(p);
+      setRenderStatus((prev) => (prev && prev.fraction === fraction && prev.label === next ? prev : { label: next, fraction, startedAt }));
     };
-    const done = new Promise<Blob>((resolve) => {
-      rec.onstop = () => resolve(new Blob(chunks, { type: "video/webm" }));
-    });
+    return { signal: controller.signal, track };
+  }, []);
 
-    // Start audio
-    await audioContext.resume();
-    if (voiceEl) {
-      try {
-        await voiceEl.play();
-      } catch {
-        // ignore autoplay block
-      }
-    }
+  const endRender = useCallback((err?: unknown) => {
+    if (err !== undefined) setRenderError(renderErrorMessage(err));
+    renderAbortRef.current = null;
+    setRenderStatus(null);
+    setRenderingAspect(null);
+    setRendering(false);
+  }, []);
 
-    // Render frames
-    rec.start();
-    const slideFrames = Math.floor(secondsPerSlide * fps);
-    const totalFrames = Math.max(1, totalSlides) * slideFrames;
-    let frame = 0;
-    while (frame < totalFrames) {
-      const slideIndex = Math.floor(frame / slideFrames);
-      const within = frame - slideIndex * slideFrames;
-      const progress = within / slideFrames;
-      await drawSlide(ctx, slideIndex, easeOutCubic(Math.min(1, progress * 1.2)));
-      await nextAnimationFrame();
-      frame++;
-    }
+  const cancelRender = useCallback(() => renderAbortRef.current?.abort(), []);
 
-    // Tail frames
-    const tailFrames = Math.floor(0.3 * fps);
-    for (let i = 0; i < tailFrames; i++) {
-      await nextAnimationFrame();
-    }
+  useEffect(() => () => renderAbortRef.current?.abort(), []);
 
-    rec.stop();
-    const blob = await done;
-    const url = make(blob);
-    setOutputUrl(url);
-    setRendering(false);
+  const renderVideo = useCallback(async () => {
+    if (rendering || !passesPreflight()) return;
+    const { signal, track } = beginRender();
+    if (output) URL.revokeObjectURL(output.url);
+    setOutput(null);
+    try {
+      const loaded = await ensureImagesLoaded();
+      signal.throwIfAborted();
+      const result = await renderVideoFile(
+        {
+          scene: { ...scene, slides: toSceneSlides(timedSlides, loaded) },
+          fps: FPS,
+          music: musicSource,
+          voice: voiceFile,
+          mix,
+          format: outputFormat
+        },
+        { signal, onProgress: track((p) => STAGE_LABELS[p.stage]) }
+      );
+      setOutput({ url: make(result.blob), format: result.format });
+      recordExport(`faceless-affiliate.${result.format}`, scene, aspect, result.format);
+      endRender();
+    } catch (err) {
+      endRender(err);
+    }
+  }, [
+    aspect,
+    beginRender,
+    endRender,
+    ensureImagesLoaded,
+    make,
+    mix,
+    musicSource,
+    output,
+    outputFormat,
+    passesPreflight,
+    recordExport,
+    rendering,
+    scene,
+    timedSlides,
+    voiceFile
+  ]);
 
-    setTimeout(() => {
-      dest.disconnect();
-      bgGain?.disconnect();
-      audioContext.close();
-      if (voiceEl) {
-        voiceEl.pause();
-        voiceEl.src = "";
+  // One render per aspect from the same project; each gets its own size and
+  // safe zone through `buildScene`. Cancelling keeps the formats already done.
+  const renderAllFormats = useCallback(async () => {
+    if (rendering || !passesPreflight(ASPECTS)) return;
+    const { signal, track } = beginRender();
+    aspectOutputs.forEach((o) => URL.revokeObjectURL(o.url));
+    setAspectOutputs([]);
+    try {
+      const loaded = await ensureImagesLoaded();
+      const sceneSlides = toSceneSlides(timedSlides, loaded);
+      for (const [index, a] of ASPECTS.entries()) {
+        signal.throwIfAborted();
+        setRenderingAspect(a);
+        const aspectScene = buildScene({ ...project, aspect: a }, sceneSlides, brandAssets);
+        const result = await renderVideoFile(
+          {
+            scene: aspectScene,
+            fps: FPS,
+            music: musicSource,
+            voice: voiceFile,
+            mix,
+            format: outputFormat
+          },
+          {
+            signal,
+            onProgress: track(
+              (p) => `${a}: ${STAGE_LABELS[p.stage]}`,
+              (f) => (index + f) / ASPECTS.length
+            )
+          }
+        );
+        setAspectOutputs((prev) => [...prev, { aspect: a, url: make(result.blob), blob: result.blob, format: result.format }]);
+        recordExport(aspectFileName(a, result.format), aspectScene, a, result.format);
       }
-    }, 250);
+      endRender();
+    } catch (err) {
+      endRender(err);
+    }
   }, [
-    bgMusicEnabled,
-    benefits.length,
-    drawSlide,
-    make,
-    revokeAll,
-    secondsPerSlide,
-    totalSlides,
-    voiceFile,
-    width,
-    height,
+    aspectOutputs,
+    beginRender,
+    brandAssets,
+    endRender,
     ensureImagesLoaded,
-    rendering
+    make,
+    mix,
+    musicSource,
+    outputFormat,
+    passesPreflight,
+    project,
+    recordExport,
+    rendering,
+    timedSlides,
+    voiceFile
   ]);
 
+  const downloadAllFormats = useCallback(async () => {
+    const zip = await createZip(aspectOutputs.map((o) => ({ name: aspectFileName(o.aspect, o.format), data: o.blob })));
+    downloadBlob(zip, "faceless-affiliate-all-formats.zip");
+  }, [aspectOutputs]);
+
   const clearAll = useCallback(() => {
-    setOutputUrl(null);
-    setImages([]);
-    setVoiceFile(null);
-    setVoiceRecordingUrl(null);
+    setOutput(null);
+    setAspectOutputs([]);
+    edit({ type: "clearMedia" });
+  }, [edit]);
+
+  // `fresh` starts a new undo history, as when restoring the last session.
+  const applyProject = useCallback((p: Project, fresh: boolean) => {
+    const next = projectEditorState(p, make);
+    edit({ type: "load", state: next, fresh });
+    // Decode in the background so the preview can show them.
+    Promise.all(next.images.map((img) => decodeMedia(img).catch(() => img))).then((images) =>
+      edit({ type: "imagesDecoded", images })
+    );
+    setOutput(null);
+    setAspectOutputs([]);
+  }, [edit, make]);
+
+  // Restore the last session once, then keep IndexedDB in sync with edits.
+  useEffect(() => {
+    let cancelled = false;
+    loadAutosave()
+      .then((saved) => {
+        if (!cancelled && saved) applyProject(saved, true);
+      })
+      .catch(() => {
+        // ignore unavailable or unreadable autosave
+      })
+      .finally(() => {
+        hydratedRef.current = true;
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [applyProject]);
+
+  useEffect(() => {
+    if (!hydratedRef.current) return;
+    const timer = setTimeout(() => {
+      saveAutosave(project).catch(() => {
+        // ignore quota or private-mode failures
+      });
+    }, 800);
+    return () => clearTimeout(timer);
+  }, [project]);
+
+  useEffect(() => {
+    listExportRecords()
+      .then(setExportLog)
+      .catch(() => setExportLog([]));
   }, []);
 
+  const downloadExportLog = useCallback(() => {
+    downloadBlob(new Blob([exportLogCsv(exportLog)], { type: "text/csv" }), "export-log.csv");
+  }, [exportLog]);
+
+  const clearExportLog = useCallback(() => {
+    setExportLog([]);
+    clearExportRecords().catch(() => undefined);
+  }, []);
+
+  const saveProject = useCallback(() => {
+    downloadBlob(encodeProjectFile(project), `${project.productTitle.trim() || "project"}${PROJECT_FILE_EXTENSION}`);
+  }, [project]);
+
+  const downloadCaptions = useCallback((format: CaptionFormat) => {
+    const type = format === "srt" ? "application/x-subrip" : "text/vtt";
+    downloadBlob(new Blob([formatCaptions(scene.captions, format)], { type }), `faceless-affiliate.${format}`);
+  }, [scene.captions]);
+
+  const openProject = useCallback(async (file: File | null) => {
+    if (!file) return;
+    setProjectError(null);
+    try {
+      applyProject(await decodeProjectFile(file), false);
+    } catch (err) {
+      setProjectError(err instanceof Error ? err.message : "Could not open project");
+    }
+  }, [applyProject]);
+
   return (
     <main className="space-y-6">
       <section className="card p-5">
         <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
           <div className="md:col-span-2 space-y-4">
             <div>
-              <label className="label">Product title</label>
-              <input className="input" value={productTitle} onChange={(e) => setProductTitle(e.target.value)} />
+              <label className="label">Template</label>
+              <TemplatePicker scene={scene} value={templateId} onChange={(id) => set("templateId", id)} />
             </div>
             <div>
-              <label className="label">Subtitle</label>
-              <input className="input" value={subtitle} onChange={(e) => setSubtitle(e.target.value)} />
+              <label className="label">Import from product page</label>
+              <ProductImport onApply={applyImport} />
+            </div>
+            <div id="section-product">
+              <label className="label">Product title{unusedHint("productTitle")}</label>
+              <input className="input" value={productTitle} onChange={(e) => set("productTitle", e.target.value, true)} />
             </div>
             <div>
-              <label className="label">Benefits (one per line)</label>
-              <textarea
-                className="input h-32 resize-y"
-                value={benefitsText}
-                onChange={(e) => setBenefitsText(e.target.value)}
-              />
+              <label className="label">Subtitle{unusedHint("subtitle")}</label>
+              <input className="input" value={subtitle} onChange={(e) => set("subtitle", e.target.value, true)} />
             </div>
             <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
-              <div>
-                <label className="label">Brand color</label>
-                <input
-                  type="color"
-                  className="h-10 w-full cursor-pointer rounded border border-gray-300"
-                  value={brandColor}
-                  onChange={(e) => setBrandColor(e.target.value)}
-                />
-              </div>
               <div>
                 <label className="label">Aspect ratio</label>
                 <select
                   className="input"
                   value={aspect}
-                  onChange={(e) => setAspect(e.target.value as Aspect)}
+                  onChange={(e) => set("aspect", e.target.value as Aspect)}
                 >
                   <option value="9:16">9:16 (TikTok/Reels/Shorts)</option>
                   <option value="1:1">1:1 (Square)</option>
+                  <option value="4:5">4:5 (Instagram/Facebook feed)</option>
                   <option value="16:9">16:9 (YouTube)</option>
                 </select>
               </div>
               <div>
-                <label className="label">Seconds per slide</label>
+                <label className="label">Safe zone</label>
+                <select
+                  className="input"
+                  value={getSafeZone(aspect, safeZones[aspect]).id}
+                  onChange={(e) => set("safeZones", { ...safeZones, [aspect]: e.target.value })}
+                >
+                  {safeZonesFor(aspect).map((zone) => (
+                    <option key={zone.id} value={zone.id}>{zone.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="label">Default seconds per slide</label>
                 <input
                   className="input"
                   type="number"
@@ -426,32 +669,62 @@ export default function Page() {
                   min="1"
                   max="8"
                   value={secondsPerSlide}
-                  onChange={(e) => setSecondsPerSlide(Number(e.target.value))}
+                  onChange={(e) => set("secondsPerSlide", Number(e.target.value), true)}
                 />
               </div>
             </div>
             <div>
-              <label className="label">Call to action</label>
-              <input className="input" value={cta} onChange={(e) => setCta(e.target.value)} />
+              <label className="label">Call to action{unusedHint("cta")}</label>
+              <input className="input" value={cta} onChange={(e) => set("cta", e.target.value, true)} />
+            </div>
+            <div id="section-link">
+              <LinkPanel
+                link={link}
+                productTitle={productTitle}
+                log={exportLog}
+                onChange={(value) => set("link", value, true)}
+                onDownloadLog={downloadExportLog}
+                onClearLog={clearExportLog}
+              />
+            </div>
+            <div id="section-brand">
+              <label className="label">Brand kit</label>
+              <BrandKitPanel kit={brandKit} onChange={(kit) => set("brandKit", kit, true)} />
+            </div>
+            <div>
+              <label className="label">Motion</label>
+              <MotionSettings
+                transition={transition}
+                animations={animations}
+                onTransitionChange={(value) => set("transition", value, true)}
+                onAnimationsChange={(value) => set("animations", value)}
+              />
             </div>
           </div>
           <div className="space-y-4">
             <div>
-              <label className="label">Upload product images</label>
+              <label className="label">History</label>
+              <HistoryPanel history={history} onAction={dispatchHistory} />
+            </div>
+            <div>
+              <label className="label">Upload product images or clips{unusedHint("images")}</label>
               <input
                 type="file"
-                accept="image/*"
+                accept="image/*,video/*"
                 multiple
-                onChange={(e) => onSelectImages(e.target.files)}
+                onChange={(e) => addImages(Array.from(e.target.files ?? []))}
               />
               {images.length > 0 && (
                 <div className="mt-3 grid grid-cols-5 gap-2">
                   {images.map((img) => (
                     <div key={img.id} className="relative">
-                      <img
-                        src={img.url}
-                        alt="uploaded"
-                        className="h-16 w-full rounded object-cover"
+                      <MediaThumb
+                        item={img}
+                        title={img.clip ? "Edit clip" : "Edit image"}
+                        className={`h-16 w-full cursor-pointer rounded object-cover ${
+                          img.id === editingImageId ? "ring-2 ring-brand-500" : img.edits ? "ring-1 ring-gray-400" : ""
+                        }`}
+                        onClick={() => setEditingImageId(img.id === editingImageId ? null : img.id)}
                       />
                       <button
                         className="absolute right-1 top-1 rounded bg-black/60 px-1 text-[10px] text-white"
@@ -463,6 +736,32 @@ export default function Page() {
                   ))}
                 </div>
               )}
+              {images.length > 0 && (
+                <p className="mt-2 text-xs text-gray-500">
+                  Media budget: {Math.round((usage.bytes / MEDIA_BUDGET_BYTES) * 100)}% of memory
+                  {usage.seconds > 0 && `, ${Math.round(usage.seconds)}s of ${MAX_CLIP_SECONDS}s of clips`}
+                </p>
+              )}
+              {mediaNotice && <p className="mt-1 text-xs text-amber-600">{mediaNotice}</p>}
+              {editingImage?.clip && (
+                <div className="mt-3">
+                  <ClipEditor
+                    item={editingImage}
+                    clip={editingImage.clip}
+                    onChange={(clip) => edit({ type: "editClip", id: editingImage.id, clip })}
+                    onClose={() => setEditingImageId(null)}
+                  />
+                </div>
+              )}
+              {editingImage && !editingImage.clip && (
+                <div className="mt-3">
+                  <ImageEditor
+                    image={editingImage}
+                    onChange={(edits) => edit({ type: "editImage", id: editingImage.id, edits })}
+                    onClose={() => setEditingImageId(null)}
+                  />
+                </div>
+              )}
             </div>
             <div className="space-y-2">
               <label className="label">Voiceover</label>
@@ -481,112 +780,200 @@ export default function Page() {
                   <input
                     type="checkbox"
                     checked={bgMusicEnabled}
-                    onChange={(e) => setBgMusicEnabled(e.target.checked)}
+                    onChange={(e) => set("bgMusicEnabled", e.target.checked)}
                   />
                   Background music
                 </label>
               </div>
-              {voiceRecordingUrl && (
-                <audio className="w-full" src={voiceRecordingUrl} controls />
+              {voiceUrl && (
+                <audio className="w-full" src={voiceUrl} controls />
               )}
             </div>
+            {bgMusicEnabled && (
+              <div>
+                <label className="label">Music</label>
+                <MusicPanel
+                  settings={music}
+                  onChange={(value) => set("music", value, true)}
+                  track={musicFile}
+                  onTrackChange={(file) => set("musicFile", file)}
+                  grid={trackGrid}
+                />
+              </div>
+            )}
           </div>
         </div>
+        <div id="section-slides" className="mt-6">
+          <label className="label">Slides{unusedHint("text")}</label>
+          {voiceFile && (
+            <div className="mb-3">
+              <VoiceTiming slides={slides} voice={voiceFile} mix={mix} onApply={(value) => set("slides", value)} />
+            </div>
+          )}
+          <Timeline slides={slides} images={images} defaultDuration={secondsPerSlide} onChange={(value, coalesce) => set("slides", value, coalesce)} />
+        </div>
+        <div className="mt-6">
+          <label className="label">Layers</label>
+          <LayerEditor scene={scene} slides={slides} onChange={(value, coalesce) => set("slides", value, coalesce)} />
+        </div>
+        <div className="mt-6">
+          <label className="label">Captions</label>
+          <CaptionEditor
+            cues={captions}
+            style={captionStyle}
+            onCuesChange={(cues, coalesce) => set("captions", cues, coalesce)}
+            onStyleChange={(style) => set("captionStyle", style)}
+          />
+        </div>
+        <div id="section-audio" className="mt-6">
+          <label className="label">Audio mix</label>
+          <AudioMixer
+            scene={scene}
+            fps={FPS}
+            music={musicSource}
+            voice={voiceFile}
+            mix={mix}
+            onChange={(value) => set("mix", value, true)}
+          />
+        </div>
+        <div className="mt-6">
+          <PreflightPanel
+            issues={preflight}
+            disclosure={disclosure}
+            onDisclosureChange={(value) => set("disclosure", value, true)}
+            onFix={applyFix}
+          />
+        </div>
         <div className="mt-6 flex flex-wrap items-center gap-3">
+          <select
+            className="input w-auto"
+            value={outputFormat}
+            onChange={(e) => set("outputFormat", e.target.value as OutputFormat)}
+          >
+            <option value="mp4">MP4 (H.264/AAC)</option>
+            <option value="webm">WebM (VP9/Opus)</option>
+          </select>
           <button
             className="btn btn-primary disabled:opacity-50"
-            disabled={rendering}
+            disabled={rendering || exportBlocked}
             onClick={renderVideo}
           >
-            {rendering ? "Rendering..." : "Generate Video"}
+            {rendering && !renderingAspect ? "Rendering..." : "Generate Video"}
+          </button>
+          <button
+            className="btn btn-secondary disabled:opacity-50"
+            disabled={rendering || exportBlocked}
+            onClick={renderAllFormats}
+          >
+            {renderingAspect ? `Rendering ${renderingAspect}...` : "Render all formats"}
           </button>
           <button className="btn btn-secondary" onClick={clearAll}>Reset</button>
+          <button className="btn btn-secondary" onClick={saveProject}>Save project</button>
+          <button className="btn btn-secondary" onClick={() => projectInputRef.current?.click()}>Open project</button>
+          <input
+            ref={projectInputRef}
+            type="file"
+            accept={PROJECT_FILE_EXTENSION}
+            className="hidden"
+            onChange={(e) => {
+              openProject(e.target.files?.[0] ?? null);
+              e.target.value = "";
+            }}
+          />
+          {projectError && <span className="text-sm text-red-600">{projectError}</span>}
         </div>
+        {renderStatus && (
+          <div className="mt-3">
+            <RenderProgress status={renderStatus} onCancel={cancelRender} />
+          </div>
+        )}
+        {renderError && <p className="mt-3 text-sm text-red-600">Render failed: {renderError}</p>}
+      </section>
+
+      <section className="card p-5">
+        <h2 className="mb-3 text-lg font-semibold">Preview</h2>
+        <PreviewPlayer scene={scene} fps={FPS} music={musicSource} voice={voiceFile} mix={mix} />
       </section>
 
       <section className="card p-5">
         <h2 className="mb-3 text-lg font-semibold">Output</h2>
-        {outputUrl ? (
+        {output ? (
           <div className="space-y-3">
             <video
               className="w-full rounded border"
-              src={outputUrl}
+              src={output.url}
               controls
               playsInline
             />
             <div className="flex gap-2">
-              <a className="btn btn-primary" href={outputUrl} download="faceless-affiliate.webm">Download .webm</a>
-              <span className="text-sm text-gray-500 self-center">WebM (VP9/Opus) compatible with most platforms</span>
+              <a className="btn btn-primary" href={output.url} download={`faceless-affiliate.${output.format}`}>
+                Download .{output.format}
+              </a>
+              {captions.length > 0 && (
+                <>
+                  <button className="btn btn-secondary" onClick={() => downloadCaptions("srt")}>.srt</button>
+                  <button className="btn btn-secondary" onClick={() => downloadCaptions("vtt")}>.vtt</button>
+                </>
+              )}
+              <span className="text-sm text-gray-500 self-center">
+                {output.format === "mp4"
+                  ? "MP4 (H.264) plays on every major platform"
+                  : "WebM (VP9/Opus) compatible with most platforms"}
+              </span>
             </div>
           </div>
         ) : (
-          <p className="text-sm text-gray-500">Your rendered video will appear here.</p>
+          aspectOutputs.length === 0 && <p className="text-sm text-gray-500">Your rendered video will appear here.</p>
+        )}
+        {aspectOutputs.length > 0 && (
+          <div className="mt-3 flex flex-wrap items-center gap-2">
+            <span className="text-sm font-medium">All formats:</span>
+            {aspectOutputs.map((o) => (
+              <a key={o.aspect} className="btn btn-secondary" href={o.url} download={aspectFileName(o.aspect, o.format)}>
+                {o.aspect}
+              </a>
+            ))}
+            {aspectOutputs.length === ASPECTS.length && (
+              <button className="btn btn-primary" onClick={downloadAllFormats}>Download all (.zip)</button>
+            )}
+          </div>
         )}
       </section>
-    </main>
-  );
-}
 
-function nextAnimationFrame(): Promise<number> {
-  return new Promise((resolve) => requestAnimationFrame(resolve));
-}
-
-function easeOutCubic(t: number) {
-  return 1 - Math.pow(1 - t, 3);
-}
+      <section className="card p-5">
+        <h2 className="mb-3 text-lg font-semibold">Cover &amp; stills</h2>
+        <StillExports scene={scene} fps={FPS} loadScene={loadedScene} onDownload={downloadBlob} />
+      </section>
 
-function roundRect(
-  ctx: CanvasRenderingContext2D,
-  x: number,
-  y: number,
-  width: number,
-  height: number,
-  radius: number
-) {
-  const r = Math.min(radius, width / 2, height / 2);
-  ctx.beginPath();
-  ctx.moveTo(x + r, y);
-  ctx.arcTo(x + width, y, x + width, y + height, r);
-  ctx.arcTo(x + width, y + height, x, y + height, r);
-  ctx.arcTo(x, y + height, x, y, r);
-  ctx.arcTo(x, y, x + width, y, r);
-  ctx.closePath();
-}
+      <section className="card p-5">
+        <h2 className="mb-3 text-lg font-semibold">Batch</h2>
+        <BatchPanel
+          base={{
+            scene,
+            slides: timedSlides,
+            defaultDuration: secondsPerSlide,
+            fps: FPS,
+            music: musicSource,
+            mix,
+            format: outputFormat
+          }}
+          onDownload={downloadBlob}
+          onExport={(file, title, format) => recordExport(file, { ...scene, productTitle: title }, aspect, format)}
+          blocked={exportBlocked}
+          check={(itemScene) => checkProject(itemScene, aspect)}
+        />
+      </section>
 
-function createCalmMusic(audioContext: AudioContext, seconds: number): AudioNode {
-  const out = audioContext.createGain();
-  const now = audioContext.currentTime;
-  const end = now + Math.max(1, seconds + 0.6);
-  const baseFreqs = [220, 247, 196, 262];
-  const beat = 0.5;
-  let t = now;
-  let chord = 0;
-  while (t < end) {
-    const base = baseFreqs[chord % baseFreqs.length];
-    const osc1 = audioContext.createOscillator();
-    const osc2 = audioContext.createOscillator();
-    const gain = audioContext.createGain();
-    gain.gain.value = 0.0;
-    osc1.type = "sine";
-    osc2.type = "triangle";
-    osc1.frequency.value = base;
-    osc2.frequency.value = base * 1.5;
-    osc1.connect(gain);
-    osc2.connect(gain);
-    gain.connect(out);
-    const attack = 0.05;
-    const release = 0.25;
-    gain.gain.setValueAtTime(0, t);
-    gain.gain.linearRampToValueAtTime(0.2, t + attack);
-    gain.gain.linearRampToValueAtTime(0.0, t + beat - release);
-    osc1.start(t);
-    osc2.start(t);
-    osc1.stop(t + beat);
-    osc2.stop(t + beat);
-    t += beat;
-    if (Math.floor((t - now) / (beat * 4)) % 1 === 0) {
-      chord++;
-    }
-  }
-  return out;
+      <section className="card p-5">
+        <h2 className="mb-3 text-lg font-semibold">A/B variants</h2>
+        <VariantPanel
+          base={{ scene, fps: FPS, music: musicSource, voice: voiceFile, mix, format: outputFormat }}
+          onDownload={downloadBlob}
+          onExport={(file, variantScene, format) => recordExport(file, variantScene, aspect, format)}
+          blocked={exportBlocked}
+          check={(variantScene) => checkProject(variantScene, aspect)}
+        />
+      </section>
+    </main>
+  );
 }
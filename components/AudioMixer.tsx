@@ -0,0 +1,219 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { DEFAULT_MIX, renderAudioTracks, waveformPeaks, type AudioTracks, type MusicSource } from "../lib/audio";
+import { sceneClipAudio, sceneTimeline, type Scene } from "../lib/draw";
+import type { AudioMix } from "../lib/types";
+
+const WAVEFORM_WIDTH = 600;
+const WAVEFORM_HEIGHT = 48;
+const AUDIO_SAMPLE_RATE = 22050;
+const AUDIO_DEBOUNCE_MS = 400;
+
+function Waveform({
+  buffer,
+  boundaries,
+  seconds,
+  color
+}: {
+  buffer: AudioBuffer | null;
+  boundaries: number[];
+  seconds: number;
+  color: string;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+    canvas.width = WAVEFORM_WIDTH;
+    canvas.height = WAVEFORM_HEIGHT;
+    ctx.fillStyle = "#f3f4f6";
+    ctx.fillRect(0, 0, WAVEFORM_WIDTH, WAVEFORM_HEIGHT);
+
+    const mid = WAVEFORM_HEIGHT / 2;
+    if (buffer) {
+      const peaks = waveformPeaks(buffer, WAVEFORM_WIDTH);
+      const loudest = Math.max(0.05, ...peaks);
+      ctx.fillStyle = color;
+      peaks.forEach((peak, x) => {
+        const h = Math.max(1, (peak / loudest) * mid);
+        ctx.fillRect(x, mid - h, 1, h * 2);
+      });
+    }
+
+    // Slide boundaries
+    ctx.fillStyle = "rgba(17,24,39,0.35)";
+    for (const t of boundaries) {
+      ctx.fillRect(Math.round((t / seconds) * WAVEFORM_WIDTH), 0, 1, WAVEFORM_HEIGHT);
+    }
+  }, [boundaries, buffer, color, seconds]);
+
+  return <canvas ref={canvasRef} className="h-12 w-full rounded" />;
+}
+
+function NumberField({
+  label,
+  value,
+  onChange,
+  step = 0.1,
+  min = 0,
+  max
+}: {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  step?: number;
+  min?: number;
+  max?: number;
+}) {
+  return (
+    <div>
+      <label className="label">{label}</label>
+      <input
+        className="input"
+        type="number"
+        step={step}
+        min={min}
+        max={max}
+        value={value}
+        onChange={(e) => onChange(Math.max(min, Number(e.target.value) || 0))}
+      />
+    </div>
+  );
+}
+
+// Per-track volume and mute for music, voice and clip sound, voiceover
+// placement, ducking and master processing, with each track's waveform drawn
+// against the slide timeline.
+export default function AudioMixer({
+  scene,
+  fps,
+  music,
+  voice,
+  mix,
+  onChange
+}: {
+  scene: Scene;
+  fps: number;
+  music: MusicSource | null;
+  voice: Blob | null;
+  mix: AudioMix;
+  onChange: (mix: AudioMix) => void;
+}) {
+  const [tracks, setTracks] = useState<AudioTracks | null>(null);
+  const timeline = sceneTimeline(scene, fps);
+  const seconds = Math.max(0.1, timeline.totalFrames / fps);
+  const boundaries = timeline.entries.slice(1).map((entry) => entry.startFrame / fps);
+  const clips = useMemo(() => sceneClipAudio(scene, fps), [fps, scene]);
+
+  const set = <K extends keyof AudioMix>(key: K, value: AudioMix[K]) => onChange({ ...mix, [key]: value });
+
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      renderAudioTracks({ seconds, sampleRate: AUDIO_SAMPLE_RATE, numberOfChannels: 1, music, voice, clips, mix })
+        .then((result) => {
+          if (!cancelled) setTracks(result);
+        })
+        .catch(() => {
+          if (!cancelled) setTracks(null);
+        });
+    }, AUDIO_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [clips, mix, music, seconds, voice]);
+
+  const overrun = tracks ? tracks.voiceEnd - seconds : 0;
+
+  const trackRow = (
+    name: string,
+    color: string,
+    buffer: AudioBuffer | null,
+    volume: "musicVolume" | "voiceVolume" | "clipVolume",
+    muted: "musicMuted" | "voiceMuted" | "clipMuted",
+    available: boolean
+  ) => (
+    <div className="space-y-1">
+      <div className="flex items-center gap-3 text-sm">
+        <span className="w-12 font-medium text-gray-700">{name}</span>
+        <input
+          className="flex-1"
+          type="range"
+          min={0}
+          max={1.5}
+          step={0.05}
+          disabled={!available}
+          value={mix[volume]}
+          onChange={(e) => set(volume, Number(e.target.value))}
+        />
+        <span className="w-10 text-right text-xs tabular-nums text-gray-500">{Math.round(mix[volume] * 100)}%</span>
+        <label className="inline-flex items-center gap-1 text-xs">
+          <input type="checkbox" checked={mix[muted]} onChange={(e) => set(muted, e.target.checked)} />
+          Mute
+        </label>
+      </div>
+      <Waveform buffer={available ? buffer : null} boundaries={boundaries} seconds={seconds} color={color} />
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      {trackRow("Music", "#60a5fa", tracks?.music ?? null, "musicVolume", "musicMuted", Boolean(music))}
+      {trackRow("Voice", "#34d399", tracks?.voice ?? null, "voiceVolume", "voiceMuted", Boolean(voice))}
+      {clips.length > 0 && trackRow("Clips", "#f472b6", tracks?.clips ?? null, "clipVolume", "clipMuted", true)}
+      {voice && (
+        <div className="grid grid-cols-3 gap-3">
+          <NumberField label="Voice starts at (s)" value={mix.voiceOffset} onChange={(v) => set("voiceOffset", v)} />
+          <NumberField label="Trim start (s)" value={mix.voiceTrimStart} onChange={(v) => set("voiceTrimStart", v)} />
+          <NumberField label="Trim end (s)" value={mix.voiceTrimEnd} onChange={(v) => set("voiceTrimEnd", v)} />
+        </div>
+      )}
+      {overrun > 0.05 && (
+        <p className="text-sm text-amber-600">
+          The voiceover runs {overrun.toFixed(1)}s past the last slide and will be cut off.
+        </p>
+      )}
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+        <div>
+          <label className="label">Duck music ({mix.duckDb} dB)</label>
+          <input
+            className="w-full"
+            type="range"
+            min={-24}
+            max={0}
+            step={1}
+            value={mix.duckDb}
+            onChange={(e) => set("duckDb", Number(e.target.value))}
+          />
+        </div>
+        <NumberField label="Fade in (s)" value={mix.fadeIn} onChange={(v) => set("fadeIn", v)} />
+        <NumberField label="Fade out (s)" value={mix.fadeOut} onChange={(v) => set("fadeOut", v)} />
+        <div>
+          <label className="label">
+            <input
+              type="checkbox"
+              className="mr-1"
+              checked={mix.normalize}
+              onChange={(e) => set("normalize", e.target.checked)}
+            />
+            Normalize (LUFS)
+          </label>
+          <input
+            className="input disabled:opacity-50"
+            type="number"
+            step={1}
+            min={-30}
+            max={-6}
+            disabled={!mix.normalize}
+            value={mix.targetLufs}
+            onChange={(e) => set("targetLufs", Number(e.target.value) || DEFAULT_MIX.targetLufs)}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
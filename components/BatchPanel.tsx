@@ -0,0 +1,189 @@
+"use client";
+
+import React, { useRef, useState } from "react";
+import type { Scene } from "../lib/draw";
+import type { PreflightIssue } from "../lib/preflight";
+import {
+  batchFileName,
+  batchManifest,
+  imageKey,
+  renderBatchItem,
+  type BatchBase,
+  type BatchResult,
+  type BatchStatus
+} from "../lib/batch";
+import { parseFeed } from "../lib/feed";
+import { createZip } from "../lib/zip";
+
+const STATUS_STYLES: Record<BatchStatus, string> = {
+  queued: "text-gray-500",
+  rendering: "text-brand-600",
+  done: "text-emerald-600",
+  error: "text-red-600"
+};
+
+// Renders one video per feed row, one after another, using the open project
+// as the template for everything the feed does not set.
+export default function BatchPanel({
+  base,
+  onDownload,
+  onExport,
+  blocked = false,
+  check
+}: {
+  base: BatchBase;
+  onDownload: (blob: Blob, filename: string) => void;
+  // Called with each rendered file's name, product title and format.
+  onExport?: (file: string, title: string, format: string) => void;
+  // Preflight errors in the template project stop the batch from starting.
+  blocked?: boolean;
+  // Preflight for each item's own scene; items with errors are not rendered.
+  check?: (scene: Scene) => PreflightIssue[];
+}) {
+  const [results, setResults] = useState<BatchResult[]>([]);
+  const [files, setFiles] = useState<Map<string, File>>(new Map());
+  const [feedError, setFeedError] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+  const [zipping, setZipping] = useState(false);
+  const stopRef = useRef(false);
+
+  const loadFeed = async (file: File | null) => {
+    if (!file) return;
+    setFeedError(null);
+    try {
+      const items = parseFeed(await file.text(), file.name);
+      setResults(
+        items.map((item) => ({
+          item,
+          status: item.error ? "error" : "queued",
+          file: null,
+          blob: null,
+          seconds: 0,
+          error: item.error
+        }))
+      );
+    } catch (err) {
+      setResults([]);
+      setFeedError(err instanceof Error ? err.message : "Could not read the feed");
+    }
+  };
+
+  const addImages = (list: FileList | null) => {
+    if (!list) return;
+    setFiles((prev) => {
+      const next = new Map(prev);
+      for (const file of Array.from(list)) next.set(imageKey(file.name), file);
+      return next;
+    });
+  };
+
+  const update = (index: number, patch: Partial<BatchResult>) => {
+    setResults((prev) => prev.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+  };
+
+  const run = async () => {
+    setRunning(true);
+    stopRef.current = false;
+    for (let i = 0; i < results.length; i++) {
+      if (stopRef.current) break;
+      const { item, status } = results[i];
+      if (status === "done" || item.error) continue;
+      update(i, { status: "rendering", error: null });
+      try {
+        const result = await renderBatchItem(base, item, files, check);
+        const file = batchFileName(item, result.format);
+        update(i, { status: "done", blob: result.blob, file, seconds: result.seconds });
+        onExport?.(file, item.title, result.format);
+      } catch (err) {
+        update(i, { status: "error", error: err instanceof Error ? err.message : "Render failed" });
+      }
+    }
+    setRunning(false);
+  };
+
+  const downloadZip = async () => {
+    setZipping(true);
+    try {
+      const done = results.filter((r) => r.blob && r.file);
+      const manifest = new Blob([JSON.stringify(batchManifest(base, results), null, 2)], { type: "application/json" });
+      const zip = await createZip([
+        ...done.map((r) => ({ name: r.file as string, data: r.blob as Blob })),
+        { name: "manifest.json", data: manifest }
+      ]);
+      onDownload(zip, "faceless-affiliate-batch.zip");
+    } finally {
+      setZipping(false);
+    }
+  };
+
+  const pending = results.filter((r) => r.status === "queued").length;
+  const finished = results.filter((r) => r.status === "done").length;
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+        <div>
+          <label className="label">Product feed (CSV or JSON)</label>
+          <input type="file" accept=".csv,.json,text/csv,application/json" onChange={(e) => loadFeed(e.target.files?.[0] ?? null)} />
+          {feedError && <p className="mt-1 text-sm text-red-600">{feedError}</p>}
+        </div>
+        <div>
+          <label className="label">Product images ({files.size})</label>
+          <input type="file" accept="image/*" multiple onChange={(e) => addImages(e.target.files)} />
+        </div>
+      </div>
+      <p className="text-xs text-gray-500">
+        Columns: title, subtitle, benefits (separated by |), cta, brandColor, images (file names separated by |).
+        Hook and CTA slides, template, motion and music come from this project.
+      </p>
+      {results.length > 0 && (
+        <div className="max-h-72 overflow-y-auto rounded border border-gray-200">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-gray-50 text-xs text-gray-500">
+              <tr>
+                <th className="px-2 py-1">Row</th>
+                <th className="px-2 py-1">Product</th>
+                <th className="px-2 py-1">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.map((r, i) => (
+                <tr key={i} className="border-t border-gray-100">
+                  <td className="px-2 py-1 tabular-nums text-gray-500">{r.item.row}</td>
+                  <td className="px-2 py-1">
+                    <div className="truncate">{r.item.title || "Untitled"}</div>
+                    <div className="text-xs text-gray-500">
+                      {r.item.benefits.length} benefits · {r.item.images.length} images
+                    </div>
+                  </td>
+                  <td className={`px-2 py-1 ${STATUS_STYLES[r.status]}`}>
+                    {r.status === "done" ? `${r.file} · ${r.seconds.toFixed(1)}s` : r.error ?? r.status}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      <div className="flex flex-wrap items-center gap-3">
+        {!running ? (
+          <button className="btn btn-primary disabled:opacity-50" disabled={pending === 0 || blocked} onClick={run}>
+            Render {pending} {pending === 1 ? "video" : "videos"}
+          </button>
+        ) : (
+          <button className="btn btn-secondary" onClick={() => (stopRef.current = true)}>
+            Stop after current
+          </button>
+        )}
+        <button
+          className="btn btn-secondary disabled:opacity-50"
+          disabled={running || zipping || finished === 0}
+          onClick={downloadZip}
+        >
+          {zipping ? "Zipping..." : `Download ZIP (${finished})`}
+        </button>
+        {blocked && !running && <span className="text-xs text-red-600">Fix the preflight errors above first.</span>}
+      </div>
+    </div>
+  );
+}
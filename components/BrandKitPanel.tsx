@@ -0,0 +1,264 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import {
+  BRAND_FILE_EXTENSION,
+  decodeBrandKitFile,
+  DEFAULT_BRAND_KIT,
+  encodeBrandKitFile,
+  LOGO_PLACEMENTS,
+  type BrandKit,
+  type BrandPalette,
+  type WatermarkKind
+} from "../lib/brand";
+import type { BundleAsset } from "../lib/bundle";
+import { deleteBrandKit, listBrandKits, saveBrandKit } from "../lib/storage";
+
+const FONT_ACCEPT = ".ttf,.otf,.woff,.woff2,font/*";
+
+const PALETTE_FIELDS: { label: string; get: (p: BrandPalette) => string; set: (p: BrandPalette, v: string) => BrandPalette }[] = [
+  { label: "Primary", get: (p) => p.primary, set: (p, v) => ({ ...p, primary: v }) },
+  { label: "Accent", get: (p) => p.accent, set: (p, v) => ({ ...p, accent: v }) },
+  { label: "Text", get: (p) => p.text, set: (p, v) => ({ ...p, text: v }) },
+  { label: "Gradient start", get: (p) => p.gradient[0], set: (p, v) => ({ ...p, gradient: [v, p.gradient[1]] }) },
+  { label: "Gradient end", get: (p) => p.gradient[1], set: (p, v) => ({ ...p, gradient: [p.gradient[0], v] }) }
+];
+
+function toAsset(file: File): BundleAsset {
+  return { id: crypto.randomUUID(), name: file.name, type: file.type, blob: file };
+}
+
+function fileSlug(name: string) {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "brand-kit";
+}
+
+function AssetInput({
+  label,
+  accept,
+  asset,
+  onChange
+}: {
+  label: string;
+  accept: string;
+  asset: BundleAsset | null;
+  onChange: (asset: BundleAsset | null) => void;
+}) {
+  return (
+    <div>
+      <label className="label">{label}</label>
+      {asset ? (
+        <div className="flex items-center gap-2 text-sm">
+          <span className="truncate">{asset.name}</span>
+          <button className="text-xs text-gray-500 underline" onClick={() => onChange(null)}>Remove</button>
+        </div>
+      ) : (
+        <input
+          type="file"
+          accept={accept}
+          className="text-sm"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onChange(toAsset(file));
+            e.target.value = "";
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+// Edits the project's brand kit and manages the kits saved in this browser.
+// Exported `.favbrand` files carry the fonts and images, so importing one
+// reproduces the kit exactly on another machine.
+export default function BrandKitPanel({ kit, onChange }: { kit: BrandKit; onChange: (kit: BrandKit) => void }) {
+  const [saved, setSaved] = useState<BrandKit[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+  const importRef = useRef<HTMLInputElement | null>(null);
+
+  const refresh = () =>
+    listBrandKits()
+      .then(setSaved)
+      .catch(() => setSaved([]));
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const set = <K extends keyof BrandKit>(key: K, value: BrandKit[K]) => onChange({ ...kit, [key]: value });
+
+  const save = async () => {
+    // The built-in default is never overwritten; saving it makes a new kit.
+    const next = kit.id === DEFAULT_BRAND_KIT.id ? { ...kit, id: crypto.randomUUID() } : kit;
+    try {
+      await saveBrandKit(next);
+      onChange(next);
+      setMessage(`Saved "${next.name}"`);
+      refresh();
+    } catch {
+      setMessage("Could not save the brand kit");
+    }
+  };
+
+  const remove = async () => {
+    await deleteBrandKit(kit.id).catch(() => undefined);
+    setMessage(`Deleted "${kit.name}"`);
+    refresh();
+  };
+
+  const exportKit = () => {
+    const url = URL.createObjectURL(encodeBrandKitFile(kit));
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${fileSlug(kit.name)}${BRAND_FILE_EXTENSION}`;
+    a.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const importKit = async (file: File | null) => {
+    if (!file) return;
+    try {
+      const imported = await decodeBrandKitFile(file);
+      await saveBrandKit(imported).catch(() => undefined);
+      onChange(imported);
+      setMessage(`Imported "${imported.name}"`);
+      refresh();
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : "Could not open the brand kit");
+    }
+  };
+
+  const isSaved = saved.some((k) => k.id === kit.id);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          className="input w-auto"
+          value={isSaved || kit.id === DEFAULT_BRAND_KIT.id ? kit.id : ""}
+          onChange={(e) => {
+            const chosen = e.target.value === DEFAULT_BRAND_KIT.id ? DEFAULT_BRAND_KIT : saved.find((k) => k.id === e.target.value);
+            if (chosen) onChange(chosen);
+          }}
+        >
+          <option value="" disabled>Unsaved kit</option>
+          <option value={DEFAULT_BRAND_KIT.id}>Default</option>
+          {saved.map((k) => (
+            <option key={k.id} value={k.id}>{k.name}</option>
+          ))}
+        </select>
+        <input className="input w-40" value={kit.name} onChange={(e) => set("name", e.target.value)} />
+        <button className="btn btn-secondary" onClick={save}>Save kit</button>
+        {isSaved && <button className="btn btn-secondary" onClick={remove}>Delete</button>}
+        <button className="btn btn-secondary" onClick={exportKit}>Export</button>
+        <button className="btn btn-secondary" onClick={() => importRef.current?.click()}>Import</button>
+        <input
+          ref={importRef}
+          type="file"
+          accept={BRAND_FILE_EXTENSION}
+          className="hidden"
+          onChange={(e) => {
+            importKit(e.target.files?.[0] ?? null);
+            e.target.value = "";
+          }}
+        />
+        {message && <span className="text-xs text-gray-500">{message}</span>}
+      </div>
+      <div className="grid grid-cols-5 gap-2">
+        {PALETTE_FIELDS.map((field) => (
+          <div key={field.label}>
+            <label className="label text-xs">{field.label}</label>
+            <input
+              type="color"
+              className="h-10 w-full cursor-pointer rounded border border-gray-300"
+              value={field.get(kit.palette)}
+              onChange={(e) => set("palette", field.set(kit.palette, e.target.value))}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <AssetInput label="Heading font" accept={FONT_ACCEPT} asset={kit.headingFont} onChange={(a) => set("headingFont", a)} />
+        <AssetInput label="Body font" accept={FONT_ACCEPT} asset={kit.bodyFont} onChange={(a) => set("bodyFont", a)} />
+      </div>
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+        <AssetInput label="Logo" accept="image/*" asset={kit.logo} onChange={(a) => set("logo", a)} />
+        <div>
+          <label className="label">Logo position</label>
+          <select
+            className="input"
+            value={kit.logoPlacement}
+            onChange={(e) => set("logoPlacement", e.target.value as BrandKit["logoPlacement"])}
+          >
+            {LOGO_PLACEMENTS.map((p) => (
+              <option key={p} value={p}>{p.replace("-", " ")}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="label">Logo size</label>
+          <input
+            className="w-full"
+            type="range"
+            min={0.05}
+            max={0.4}
+            step={0.01}
+            value={kit.logoSize}
+            onChange={(e) => set("logoSize", Number(e.target.value))}
+          />
+        </div>
+        <div>
+          <label className="label">Logo opacity</label>
+          <input
+            className="w-full"
+            type="range"
+            min={0.1}
+            max={1}
+            step={0.05}
+            value={kit.logoOpacity}
+            onChange={(e) => set("logoOpacity", Number(e.target.value))}
+          />
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+        <div>
+          <label className="label">Watermark</label>
+          <select className="input" value={kit.watermark} onChange={(e) => set("watermark", e.target.value as WatermarkKind)}>
+            <option value="none">None</option>
+            <option value="text">Text</option>
+            <option value="image">Image</option>
+          </select>
+        </div>
+        {kit.watermark === "text" && (
+          <div className="sm:col-span-2">
+            <label className="label">Watermark text</label>
+            <input className="input" value={kit.watermarkText} onChange={(e) => set("watermarkText", e.target.value)} />
+          </div>
+        )}
+        {kit.watermark === "image" && (
+          <div className="sm:col-span-2">
+            <AssetInput
+              label="Watermark image"
+              accept="image/*"
+              asset={kit.watermarkImage}
+              onChange={(a) => set("watermarkImage", a)}
+            />
+          </div>
+        )}
+        {kit.watermark !== "none" && (
+          <div>
+            <label className="label">Watermark opacity</label>
+            <input
+              className="w-full"
+              type="range"
+              min={0.1}
+              max={1}
+              step={0.05}
+              value={kit.watermarkOpacity}
+              onChange={(e) => set("watermarkOpacity", Number(e.target.value))}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
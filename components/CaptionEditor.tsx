@@ -0,0 +1,116 @@
+"use client";
+
+import React, { useState } from "react";
+import { CAPTION_STYLE_LABELS, parseCaptions, sortCues } from "../lib/captions";
+import type { CaptionCue, CaptionStyle } from "../lib/types";
+
+export default function CaptionEditor({
+  cues,
+  style,
+  onCuesChange,
+  onStyleChange
+}: {
+  cues: CaptionCue[];
+  style: CaptionStyle;
+  onCuesChange: (cues: CaptionCue[], coalesce?: boolean) => void;
+  onStyleChange: (style: CaptionStyle) => void;
+}) {
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (id: string, patch: Partial<CaptionCue>) => {
+    onCuesChange(cues.map((cue) => (cue.id === id ? { ...cue, ...patch } : cue)), true);
+  };
+
+  const add = () => {
+    const start = cues.reduce((max, cue) => Math.max(max, cue.end), 0);
+    onCuesChange([...cues, { id: crypto.randomUUID(), start, end: start + 2, text: "" }]);
+  };
+
+  const importFile = async (file: File | null) => {
+    if (!file) return;
+    setError(null);
+    try {
+      onCuesChange(parseCaptions(await file.text()));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not read captions");
+    }
+  };
+
+  const seconds = (value: string) => Math.max(0, Number(value) || 0);
+
+  // Reorders after a start time is edited; leaving a field without moving a
+  // cue adds nothing to the undo history.
+  const resort = () => {
+    const sorted = sortCues(cues);
+    if (sorted.some((cue, i) => cue !== cues[i])) onCuesChange(sorted);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          className="input w-auto"
+          value={style}
+          onChange={(e) => onStyleChange(e.target.value as CaptionStyle)}
+        >
+          {(Object.keys(CAPTION_STYLE_LABELS) as CaptionStyle[]).map((key) => (
+            <option key={key} value={key}>{CAPTION_STYLE_LABELS[key]}</option>
+          ))}
+        </select>
+        <input
+          type="file"
+          accept=".srt,.vtt,text/vtt"
+          onChange={(e) => {
+            importFile(e.target.files?.[0] ?? null);
+            e.target.value = "";
+          }}
+        />
+        {error && <span className="text-sm text-red-600">{error}</span>}
+      </div>
+      {cues.length > 0 && (
+        <div className="max-h-64 space-y-2 overflow-y-auto">
+          {cues.map((cue) => (
+            <div key={cue.id} className="flex items-center gap-2">
+              <input
+                className="input w-20"
+                type="number"
+                step="0.1"
+                min="0"
+                title="Start (s)"
+                value={cue.start}
+                onChange={(e) => update(cue.id, { start: seconds(e.target.value) })}
+                onBlur={resort}
+              />
+              <input
+                className="input w-20"
+                type="number"
+                step="0.1"
+                min="0"
+                title="End (s)"
+                value={cue.end}
+                onChange={(e) => update(cue.id, { end: seconds(e.target.value) })}
+              />
+              <input
+                className="input"
+                value={cue.text}
+                placeholder="Caption text"
+                onChange={(e) => update(cue.id, { text: e.target.value })}
+              />
+              <button
+                className="btn btn-secondary"
+                onClick={() => onCuesChange(cues.filter((c) => c.id !== cue.id))}
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      <p className="text-xs text-gray-500">
+        With a voiceover, cue times count from the start of its file and move with the voice start and trim in the audio
+        mix.
+      </p>
+      <button className="btn btn-secondary" onClick={add}>+ Cue</button>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+"use client";
+
+import React, { useRef } from "react";
+import { CLIP_RATES, clipRange, clipSeconds } from "../lib/clips";
+import type { Clip, UploadedImage } from "../lib/types";
+
+// Trim in/out, speed and sound for one clip. "Set in" and "Set out" take the
+// preview's current time, so trims can be picked by scrubbing.
+export default function ClipEditor({
+  item,
+  clip,
+  onChange,
+  onClose
+}: {
+  item: UploadedImage;
+  clip: Clip;
+  onChange: (clip: Clip) => void;
+  onClose: () => void;
+}) {
+  const previewRef = useRef<HTMLVideoElement | null>(null);
+  const duration = item.video && Number.isFinite(item.video.duration) ? item.video.duration : 0;
+  const { start, end } = clipRange(clip, duration);
+
+  const update = (patch: Partial<Clip>) => onChange({ ...clip, ...patch });
+  const current = () => previewRef.current?.currentTime ?? 0;
+
+  return (
+    <div className="space-y-3 rounded border border-gray-200 p-3">
+      <div className="flex items-center gap-2">
+        <span className="text-sm font-medium text-gray-700">{item.file.name}</span>
+        <button className="ml-auto text-sm text-gray-500 underline" onClick={onClose}>Done</button>
+      </div>
+      <video ref={previewRef} src={item.url} controls muted={clip.muted} playsInline className="max-h-64 rounded" />
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="label text-xs">In (s)</label>
+          <div className="flex gap-2">
+            <input
+              className="input"
+              type="number"
+              step={0.1}
+              min={0}
+              max={duration}
+              value={Number(start.toFixed(2))}
+              onChange={(e) => update({ trimStart: Math.max(0, Number(e.target.value) || 0) })}
+            />
+            <button className="btn btn-secondary" onClick={() => update({ trimStart: current() })}>Set in</button>
+          </div>
+        </div>
+        <div>
+          <label className="label text-xs">Out (s)</label>
+          <div className="flex gap-2">
+            <input
+              className="input"
+              type="number"
+              step={0.1}
+              min={0}
+              max={duration}
+              value={Number(end.toFixed(2))}
+              onChange={(e) => update({ trimEnd: Math.max(0, duration - (Number(e.target.value) || 0)) })}
+            />
+            <button className="btn btn-secondary" onClick={() => update({ trimEnd: Math.max(0, duration - current()) })}>
+              Set out
+            </button>
+          </div>
+        </div>
+        <div>
+          <label className="label text-xs">Speed</label>
+          <select className="input" value={clip.rate} onChange={(e) => update({ rate: Number(e.target.value) })}>
+            {CLIP_RATES.map((rate) => (
+              <option key={rate} value={rate}>{rate}×</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="label text-xs">Clip volume</label>
+          <div className="flex items-center gap-2">
+            <input
+              className="flex-1"
+              type="range"
+              min={0}
+              max={1.5}
+              step={0.05}
+              disabled={clip.muted}
+              value={clip.volume}
+              onChange={(e) => update({ volume: Number(e.target.value) })}
+            />
+            <label className="inline-flex items-center gap-1 text-xs">
+              <input type="checkbox" checked={clip.muted} onChange={(e) => update({ muted: e.target.checked })} />
+              Mute
+            </label>
+          </div>
+        </div>
+      </div>
+      {duration > 0 && (
+        <p className="text-xs text-gray-500">
+          Plays {clipSeconds(clip, duration).toFixed(1)}s before looping. Clip sound is mixed on its own track.
+        </p>
+      )}
+    </div>
+  );
+}
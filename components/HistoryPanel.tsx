@@ -0,0 +1,51 @@
+"use client";
+
+import React from "react";
+import { canRedo, canUndo, type EditorHistory, type HistoryAction } from "../lib/editor";
+
+// Undo/redo buttons and the list of edits. Clicking an entry moves back or
+// forward to it; later entries stay until the next edit replaces them.
+export default function HistoryPanel({
+  history,
+  onAction
+}: {
+  history: EditorHistory;
+  onAction: (action: HistoryAction) => void;
+}) {
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <button
+          className="btn btn-secondary disabled:opacity-50"
+          disabled={!canUndo(history)}
+          onClick={() => onAction({ type: "undo" })}
+          title="Ctrl+Z"
+        >
+          Undo
+        </button>
+        <button
+          className="btn btn-secondary disabled:opacity-50"
+          disabled={!canRedo(history)}
+          onClick={() => onAction({ type: "redo" })}
+          title="Ctrl+Shift+Z"
+        >
+          Redo
+        </button>
+      </div>
+      <ol className="max-h-48 overflow-y-auto rounded border border-gray-200 text-sm">
+        {history.entries.map((entry, i) => (
+          <li key={i}>
+            <button
+              className={`w-full px-2 py-1 text-left ${
+                i === history.index ? "bg-brand-50 font-medium" : i > history.index ? "text-gray-400" : ""
+              }`}
+              onClick={() => onAction({ type: "jump", index: i })}
+            >
+              {entry.label}
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
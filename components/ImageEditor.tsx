@@ -0,0 +1,213 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { DEFAULT_CUTOUT, DEFAULT_IMAGE_EDITS, editedImage } from "../lib/imageEdits";
+import type { CutoutMode, ImageEdits, UploadedImage } from "../lib/types";
+
+type Mode = "crop" | "focus";
+
+type Crop = ImageEdits["crop"];
+
+const MIN_CROP = 0.05;
+
+const FILTERS: { key: "brightness" | "contrast" | "saturation" | "opacity"; label: string; min: number; max: number }[] = [
+  { key: "brightness", label: "Brightness", min: 0.2, max: 2 },
+  { key: "contrast", label: "Contrast", min: 0.2, max: 2 },
+  { key: "saturation", label: "Saturation", min: 0, max: 2 },
+  { key: "opacity", label: "Opacity", min: 0.1, max: 1 }
+];
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+function pointIn(e: React.PointerEvent<HTMLElement>) {
+  const rect = e.currentTarget.getBoundingClientRect();
+  return { x: clamp01((e.clientX - rect.left) / rect.width), y: clamp01((e.clientY - rect.top) / rect.height) };
+}
+
+// Draws the processed image on a checkerboard, so cut-out edges show.
+function ResultPreview({ image, edits }: { image: HTMLImageElement; edits: ImageEdits }) {
+  const ref = useRef<HTMLCanvasElement | null>(null);
+  useEffect(() => {
+    const canvas = ref.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+    const result = editedImage(image, edits);
+    const scale = Math.min(canvas.width / result.width, canvas.height / result.height);
+    const w = result.width * scale;
+    const h = result.height * scale;
+    const cell = 8;
+    for (let y = 0; y < canvas.height; y += cell) {
+      for (let x = 0; x < canvas.width; x += cell) {
+        ctx.fillStyle = (x / cell + y / cell) % 2 === 0 ? "#e5e7eb" : "#f9fafb";
+        ctx.fillRect(x, y, cell, cell);
+      }
+    }
+    ctx.globalAlpha = edits.opacity;
+    ctx.drawImage(result, (canvas.width - w) / 2, (canvas.height - h) / 2, w, h);
+    ctx.globalAlpha = 1;
+  }, [edits, image]);
+  return <canvas ref={ref} width={240} height={240} className="h-40 w-40 rounded border border-gray-200" />;
+}
+
+// Crop, focal point, filters and background removal for one uploaded image.
+// Dragging on the image draws the crop; in focal point mode a click picks
+// the point templates keep in view.
+export default function ImageEditor({
+  image,
+  onChange,
+  onClose
+}: {
+  image: UploadedImage;
+  onChange: (edits: ImageEdits) => void;
+  onClose: () => void;
+}) {
+  const edits = image.edits ?? DEFAULT_IMAGE_EDITS;
+  const { cutout } = edits;
+  const [mode, setMode] = useState<Mode>("crop");
+  // The crop being dragged; committed on release so each drag is one edit.
+  const [draft, setDraft] = useState<Crop | null>(null);
+  const startRef = useRef<{ x: number; y: number } | null>(null);
+  const crop = draft ?? edits.crop;
+
+  const update = (patch: Partial<ImageEdits>) => onChange({ ...edits, ...patch });
+
+  const onPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    const p = pointIn(e);
+    if (mode === "focus") {
+      update({
+        focus: {
+          x: clamp01((p.x - edits.crop.x) / edits.crop.width),
+          y: clamp01((p.y - edits.crop.y) / edits.crop.height)
+        }
+      });
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    startRef.current = p;
+    setDraft({ x: p.x, y: p.y, width: 0, height: 0 });
+  };
+
+  const onPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = startRef.current;
+    if (!start) return;
+    const p = pointIn(e);
+    setDraft({
+      x: Math.min(start.x, p.x),
+      y: Math.min(start.y, p.y),
+      width: Math.abs(p.x - start.x),
+      height: Math.abs(p.y - start.y)
+    });
+  };
+
+  const onPointerUp = () => {
+    if (!startRef.current) return;
+    startRef.current = null;
+    // A click without a drag leaves the crop alone.
+    if (draft && draft.width >= MIN_CROP && draft.height >= MIN_CROP) update({ crop: draft });
+    setDraft(null);
+  };
+
+  const focusX = edits.crop.x + edits.focus.x * edits.crop.width;
+  const focusY = edits.crop.y + edits.focus.y * edits.crop.height;
+
+  return (
+    <div className="space-y-3 rounded border border-gray-200 p-3">
+      <div className="flex items-center gap-2">
+        <button
+          className={`btn ${mode === "crop" ? "btn-primary" : "btn-secondary"}`}
+          onClick={() => setMode("crop")}
+        >
+          Crop
+        </button>
+        <button
+          className={`btn ${mode === "focus" ? "btn-primary" : "btn-secondary"}`}
+          onClick={() => setMode("focus")}
+        >
+          Focal point
+        </button>
+        <button className="btn btn-secondary" onClick={() => onChange(DEFAULT_IMAGE_EDITS)}>Reset</button>
+        <button className="ml-auto text-sm text-gray-500 underline" onClick={onClose}>Done</button>
+      </div>
+      <div className="flex flex-wrap gap-3">
+        <div
+          className="relative max-w-xs cursor-crosshair touch-none select-none overflow-hidden rounded"
+          onPointerDown={onPointerDown}
+          onPointerMove={onPointerMove}
+          onPointerUp={onPointerUp}
+        >
+          <img src={image.url} alt="" className="block max-h-64 w-auto" draggable={false} />
+          <div
+            className="pointer-events-none absolute border-2 border-white shadow-[0_0_0_9999px_rgba(0,0,0,0.45)]"
+            style={{
+              left: `${crop.x * 100}%`,
+              top: `${crop.y * 100}%`,
+              width: `${crop.width * 100}%`,
+              height: `${crop.height * 100}%`
+            }}
+          />
+          {!draft && (
+            <div
+              className="pointer-events-none absolute h-3 w-3 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white bg-brand-500"
+              style={{ left: `${focusX * 100}%`, top: `${focusY * 100}%` }}
+            />
+          )}
+        </div>
+        {image.element && <ResultPreview image={image.element} edits={edits} />}
+      </div>
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+        {FILTERS.map((f) => (
+          <div key={f.key}>
+            <label className="label text-xs">{f.label}</label>
+            <input
+              className="w-full"
+              type="range"
+              min={f.min}
+              max={f.max}
+              step={0.05}
+              value={edits[f.key]}
+              onChange={(e) => update({ [f.key]: Number(e.target.value) })}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="label text-xs">Cut out product</label>
+          <select
+            className="input"
+            value={cutout?.mode ?? "none"}
+            onChange={(e) =>
+              update({
+                cutout:
+                  e.target.value === "none"
+                    ? null
+                    : { ...(cutout ?? DEFAULT_CUTOUT), mode: e.target.value as CutoutMode }
+              })
+            }
+          >
+            <option value="none">Off</option>
+            <option value="flood">Background touching the edges</option>
+            <option value="key">Every background-colored pixel</option>
+          </select>
+        </div>
+        {cutout && (
+          <div>
+            <label className="label text-xs">Tolerance</label>
+            <input
+              className="w-full"
+              type="range"
+              min={0.02}
+              max={0.4}
+              step={0.01}
+              value={cutout.tolerance}
+              onChange={(e) => update({ cutout: { ...cutout, tolerance: Number(e.target.value) } })}
+            />
+          </div>
+        )}
+      </div>
+      <p className="text-xs text-gray-500">
+        Cut-outs work best on plain or studio backgrounds and are drawn whole, with a shadow, over the template.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+"use client";
+
+import React from "react";
+import { KEN_BURNS_PRESETS } from "../lib/animation";
+import { EASING_LABELS, type EasingName } from "../lib/easing";
+import type { Framing, KenBurns } from "../lib/types";
+
+const PRESET_LABELS: Record<string, string> = {
+  none: "Still",
+  "zoom-in": "Zoom in",
+  "zoom-out": "Zoom out",
+  "pan-left": "Pan left",
+  "pan-right": "Pan right"
+};
+
+function FramingInputs({
+  label,
+  value,
+  onChange
+}: {
+  label: string;
+  value: Framing;
+  onChange: (value: Framing) => void;
+}) {
+  const field = (key: keyof Framing, min: number, max: number) => (
+    <input
+      className="input px-2"
+      type="number"
+      step="0.05"
+      min={min}
+      max={max}
+      title={key}
+      value={value[key]}
+      onChange={(e) => onChange({ ...value, [key]: Math.min(max, Math.max(min, Number(e.target.value) || 0)) })}
+    />
+  );
+  return (
+    <div>
+      <span className="text-xs text-gray-500">{label} (zoom, x, y)</span>
+      <div className="grid grid-cols-3 gap-1">
+        {field("zoom", 1, 3)}
+        {field("x", 0, 1)}
+        {field("y", 0, 1)}
+      </div>
+    </div>
+  );
+}
+
+export default function KenBurnsFields({
+  value,
+  onChange
+}: {
+  value: KenBurns | undefined;
+  onChange: (value: KenBurns | undefined) => void;
+}) {
+  const preset = value
+    ? Object.keys(KEN_BURNS_PRESETS).find((key) => JSON.stringify(KEN_BURNS_PRESETS[key]) === JSON.stringify(value)) ??
+      "custom"
+    : "none";
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="label">Image motion</label>
+          <select
+            className="input"
+            value={preset}
+            onChange={(e) => onChange(KEN_BURNS_PRESETS[e.target.value] ?? undefined)}
+          >
+            {Object.keys(KEN_BURNS_PRESETS).map((key) => (
+              <option key={key} value={key}>{PRESET_LABELS[key] ?? key}</option>
+            ))}
+            {preset === "custom" && <option value="custom">Custom</option>}
+          </select>
+        </div>
+        <div>
+          <label className="label">Easing</label>
+          <select
+            className="input disabled:opacity-50"
+            disabled={!value}
+            value={value?.easing ?? "linear"}
+            onChange={(e) => value && onChange({ ...value, easing: e.target.value as EasingName })}
+          >
+            {(Object.keys(EASING_LABELS) as EasingName[]).map((name) => (
+              <option key={name} value={name}>{EASING_LABELS[name]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      {value && (
+        <div className="grid grid-cols-2 gap-3">
+          <FramingInputs label="Start" value={value.from} onChange={(from) => onChange({ ...value, from })} />
+          <FramingInputs label="End" value={value.to} onChange={(to) => onChange({ ...value, to })} />
+        </div>
+      )}
+    </div>
+  );
+}
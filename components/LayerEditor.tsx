@@ -0,0 +1,467 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { TEXT_ANIMATION_LABELS } from "../lib/animation";
+import { drawSlide, type Scene } from "../lib/draw";
+import {
+  LAYER_KINDS,
+  LAYER_KIND_IDS,
+  MAX_LAYER_SIZE,
+  MIN_LAYER_SIZE,
+  createLayer,
+  drawLayer,
+  hitLayer,
+  layerBox,
+  settledTime,
+  toLayerSpace
+} from "../lib/layers";
+import type { LayerKind, OverlayLayer, Slide, TextAnimation } from "../lib/types";
+
+const CANVAS_SIZE = 420;
+// Handle radius and the rotate handle's distance above the layer, in screen pixels.
+const HANDLE_PX = 7;
+const ROTATE_OFFSET_PX = 22;
+const STICKERS = ["🔥", "⭐", "💥", "👉", "✅", "😍", "⚡", "🎁"];
+
+type Drag =
+  | { mode: "move"; id: string; dx: number; dy: number }
+  | { mode: "resize"; id: string }
+  | { mode: "rotate"; id: string };
+
+const SLIDE_KIND_LABELS = { intro: "Hook", benefit: "Benefit", outro: "CTA" };
+
+// Places overlay layers on one slide. Layers are dragged on the canvas; the
+// corner handle resizes and the top handle rotates (Shift snaps to 15°).
+// The canvas shows every layer as it looks once it has entered.
+export default function LayerEditor({
+  scene,
+  slides,
+  onChange
+}: {
+  scene: Scene;
+  slides: Slide[];
+  onChange: (slides: Slide[], coalesce?: boolean) => void;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [slideId, setSlideId] = useState<string | null>(slides[0]?.id ?? null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [drag, setDrag] = useState<Drag | null>(null);
+
+  const index = Math.max(0, slides.findIndex((s) => s.id === slideId));
+  const slide = slides[index];
+  const layers = slide?.layers ?? [];
+  const selected = layers.find((l) => l.id === selectedId) ?? null;
+  const scale = Math.min(CANVAS_SIZE / scene.width, CANVAS_SIZE / scene.height);
+
+  const setLayers = (next: OverlayLayer[], coalesce = false) => {
+    if (slide) onChange(slides.map((s) => (s.id === slide.id ? { ...s, layers: next } : s)), coalesce);
+  };
+  // Drags and field edits of one layer merge into one undo step.
+  const updateLayer = (id: string, patch: Partial<OverlayLayer>) =>
+    setLayers(layers.map((l) => (l.id === id ? { ...l, ...patch } : l)), true);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx || !scene.slides[index]) return;
+    canvas.width = Math.round(scene.width * scale);
+    canvas.height = Math.round(scene.height * scale);
+    ctx.setTransform(scale, 0, 0, scale, 0, 0);
+    // The template at its settled state, then the layers from the editor
+    // rather than the scene so drags show before the scene rebuilds.
+    const bare: Scene = {
+      ...scene,
+      slides: scene.slides.map((s, i) => (i === index ? { ...s, layers: undefined } : s))
+    };
+    drawSlide(ctx, bare, index, 1);
+    for (const layer of layers) drawLayer(ctx, scene, layer, settledTime(layer));
+
+    if (!selected) return;
+    const { cx, cy, width, height } = layerBox(scene, selected);
+    const handle = HANDLE_PX / scale;
+    ctx.save();
+    ctx.translate(cx, cy);
+    ctx.rotate((selected.rotation * Math.PI) / 180);
+    ctx.strokeStyle = "#3B82F6";
+    ctx.fillStyle = "#ffffff";
+    ctx.lineWidth = 2 / scale;
+    ctx.setLineDash([6 / scale, 4 / scale]);
+    ctx.strokeRect(-width / 2, -height / 2, width, height);
+    ctx.setLineDash([]);
+    ctx.beginPath();
+    ctx.moveTo(0, -height / 2);
+    ctx.lineTo(0, -height / 2 - ROTATE_OFFSET_PX / scale);
+    ctx.stroke();
+    for (const [x, y] of [
+      [width / 2, height / 2],
+      [0, -height / 2 - ROTATE_OFFSET_PX / scale]
+    ]) {
+      ctx.beginPath();
+      ctx.arc(x, y, handle, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.stroke();
+    }
+    ctx.restore();
+  }, [index, layers, scale, scene, selected]);
+
+  // Pointer position in frame pixels.
+  const framePoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * scene.width,
+      y: ((e.clientY - rect.top) / rect.height) * scene.height
+    };
+  };
+
+  const onPointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const p = framePoint(e);
+    const reach = (HANDLE_PX * 2) / scale;
+    if (selected) {
+      const { width, height } = layerBox(scene, selected);
+      const local = toLayerSpace(scene, selected, p.x, p.y);
+      const near = (x: number, y: number) => Math.hypot(local.x - x, local.y - y) <= reach;
+      const mode = near(width / 2, height / 2)
+        ? "resize"
+        : near(0, -height / 2 - ROTATE_OFFSET_PX / scale)
+          ? "rotate"
+          : null;
+      if (mode) {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        setDrag({ mode, id: selected.id });
+        return;
+      }
+    }
+    const hit = hitLayer(scene, layers, p.x, p.y);
+    setSelectedId(hit?.id ?? null);
+    if (!hit) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const { cx, cy } = layerBox(scene, hit);
+    setDrag({ mode: "move", id: hit.id, dx: p.x - cx, dy: p.y - cy });
+  };
+
+  const onPointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const layer = drag && layers.find((l) => l.id === drag.id);
+    if (!drag || !layer) return;
+    const p = framePoint(e);
+    if (drag.mode === "move") {
+      const x = Math.min(1, Math.max(0, (p.x - drag.dx) / scene.width));
+      const y = Math.min(1, Math.max(0, (p.y - drag.dy) / scene.height));
+      updateLayer(layer.id, { x: Math.round(x * 1000) / 1000, y: Math.round(y * 1000) / 1000 });
+    } else if (drag.mode === "resize") {
+      const local = toLayerSpace(scene, layer, p.x, p.y);
+      const width = Math.max(Math.abs(local.x) * 2, Math.abs(local.y) * 2 * LAYER_KINDS[layer.kind].aspect);
+      const size = width / Math.min(scene.width, scene.height);
+      updateLayer(layer.id, { size: Math.round(Math.min(MAX_LAYER_SIZE, Math.max(MIN_LAYER_SIZE, size)) * 1000) / 1000 });
+    } else {
+      const { cx, cy } = layerBox(scene, layer);
+      const degrees = (Math.atan2(p.y - cy, p.x - cx) * 180) / Math.PI + 90;
+      const step = e.shiftKey ? 15 : 1;
+      const rotation = Math.round(degrees / step) * step;
+      updateLayer(layer.id, { rotation: ((rotation + 540) % 360) - 180 });
+    }
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLCanvasElement>) => {
+    if (!selected) return;
+    const nudge = e.shiftKey ? 0.05 : 0.005;
+    const moves: Record<string, [number, number]> = {
+      ArrowLeft: [-nudge, 0],
+      ArrowRight: [nudge, 0],
+      ArrowUp: [0, -nudge],
+      ArrowDown: [0, nudge]
+    };
+    if (e.key === "Delete" || e.key === "Backspace") {
+      e.preventDefault();
+      remove(selected.id);
+    } else if (moves[e.key]) {
+      e.preventDefault();
+      const [dx, dy] = moves[e.key];
+      updateLayer(selected.id, {
+        x: Math.min(1, Math.max(0, selected.x + dx)),
+        y: Math.min(1, Math.max(0, selected.y + dy))
+      });
+    }
+  };
+
+  const add = (kind: LayerKind) => {
+    const layer = createLayer(kind, crypto.randomUUID());
+    setLayers([...layers, layer]);
+    setSelectedId(layer.id);
+  };
+
+  const remove = (id: string) => {
+    setLayers(layers.filter((l) => l.id !== id));
+    setSelectedId(null);
+  };
+
+  // Later layers draw on top; `delta` 1 brings the layer forward.
+  const restack = (id: string, delta: number) => {
+    const from = layers.findIndex((l) => l.id === id);
+    const to = Math.min(layers.length - 1, Math.max(0, from + delta));
+    if (from < 0 || from === to) return;
+    const next = layers.slice();
+    next.splice(to, 0, next.splice(from, 1)[0]);
+    setLayers(next);
+  };
+
+  if (!slide) return null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          className="input w-auto"
+          value={slide.id}
+          onChange={(e) => {
+            setSlideId(e.target.value);
+            setSelectedId(null);
+          }}
+        >
+          {slides.map((s, i) => (
+            <option key={s.id} value={s.id}>
+              {i + 1}. {SLIDE_KIND_LABELS[s.kind]} — {s.text.slice(0, 32) || "Untitled"}
+              {s.layers?.length ? ` (${s.layers.length})` : ""}
+            </option>
+          ))}
+        </select>
+        {LAYER_KIND_IDS.map((kind) => (
+          <button key={kind} className="btn btn-secondary" onClick={() => add(kind)}>
+            + {LAYER_KINDS[kind].label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-start gap-4">
+        <canvas
+          ref={canvasRef}
+          tabIndex={0}
+          className="touch-none rounded bg-gray-900 outline-none focus:ring-2 focus:ring-brand-500"
+          style={{ cursor: drag ? "grabbing" : "default" }}
+          onPointerDown={onPointerDown}
+          onPointerMove={onPointerMove}
+          onPointerUp={() => setDrag(null)}
+          onPointerCancel={() => setDrag(null)}
+          onKeyDown={onKeyDown}
+        />
+
+        <div className="min-w-[16rem] flex-1 space-y-3">
+          {layers.length === 0 ? (
+            <p className="text-sm text-gray-500">No layers on this slide. Add one above, then drag it into place.</p>
+          ) : (
+            <ul className="space-y-1 text-sm">
+              {layers
+                .map((layer, z) => ({ layer, z }))
+                .reverse()
+                .map(({ layer, z }) => (
+                  <li key={layer.id}>
+                    <button
+                      className={`w-full truncate rounded px-2 py-1 text-left ${layer.id === selectedId ? "bg-brand-50 text-brand-700" : "hover:bg-gray-50"}`}
+                      onClick={() => setSelectedId(layer.id)}
+                    >
+                      <span className="tabular-nums text-gray-400">{z + 1}</span> {LAYER_KINDS[layer.kind].label}
+                      {layer.text && <span className="text-gray-500"> · {layer.text}</span>}
+                    </button>
+                  </li>
+                ))}
+            </ul>
+          )}
+
+          {selected && (
+            <LayerFields
+              layer={selected}
+              slideDuration={slide.duration}
+              onChange={(patch) => updateLayer(selected.id, patch)}
+              onForward={() => restack(selected.id, 1)}
+              onBackward={() => restack(selected.id, -1)}
+              onRemove={() => remove(selected.id)}
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function LayerFields({
+  layer,
+  slideDuration,
+  onChange,
+  onForward,
+  onBackward,
+  onRemove
+}: {
+  layer: OverlayLayer;
+  slideDuration: number;
+  onChange: (patch: Partial<OverlayLayer>) => void;
+  onForward: () => void;
+  onBackward: () => void;
+  onRemove: () => void;
+}) {
+  const number = (value: string, fallback: number) => {
+    const n = Number(value);
+    return value.trim() !== "" && Number.isFinite(n) ? n : fallback;
+  };
+
+  return (
+    <div className="space-y-3 rounded border border-gray-200 p-3 text-sm">
+      {layer.kind === "price" && (
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="label text-xs">Price</label>
+            <input className="input" value={layer.text} onChange={(e) => onChange({ text: e.target.value })} />
+          </div>
+          <div>
+            <label className="label text-xs">Was (struck through)</label>
+            <input className="input" value={layer.detail} onChange={(e) => onChange({ detail: e.target.value })} />
+          </div>
+        </div>
+      )}
+      {layer.kind === "rating" && (
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="label text-xs">Stars</label>
+            <input
+              className="input"
+              type="number"
+              min={0}
+              max={5}
+              step={0.5}
+              value={layer.value}
+              onChange={(e) => onChange({ value: Math.min(5, Math.max(0, number(e.target.value, layer.value))) })}
+            />
+          </div>
+          <div>
+            <label className="label text-xs">Reviews</label>
+            <input className="input" value={layer.detail} onChange={(e) => onChange({ detail: e.target.value })} />
+          </div>
+        </div>
+      )}
+      {layer.kind === "countdown" && (
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="label text-xs">Label</label>
+            <input className="input" value={layer.text} onChange={(e) => onChange({ text: e.target.value })} />
+          </div>
+          <div>
+            <label className="label text-xs">Starts at (minutes)</label>
+            <input
+              className="input"
+              type="number"
+              min={0}
+              value={Math.round((layer.value / 60) * 100) / 100}
+              onChange={(e) => onChange({ value: Math.max(0, number(e.target.value, layer.value / 60)) * 60 })}
+            />
+          </div>
+        </div>
+      )}
+      {layer.kind === "sticker" && (
+        <div>
+          <label className="label text-xs">Emoji</label>
+          <div className="flex flex-wrap items-center gap-1">
+            <input className="input w-20" value={layer.text} onChange={(e) => onChange({ text: e.target.value })} />
+            {STICKERS.map((emoji) => (
+              <button key={emoji} className="rounded px-1 text-lg hover:bg-gray-100" onClick={() => onChange({ text: emoji })}>
+                {emoji}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+      {layer.kind === "text" && (
+        <div>
+          <label className="label text-xs">Text</label>
+          <textarea className="input h-16" value={layer.text} onChange={(e) => onChange({ text: e.target.value })} />
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="space-y-1">
+          <span className="label text-xs">Size</span>
+          <input
+            className="w-full"
+            type="range"
+            min={MIN_LAYER_SIZE}
+            max={MAX_LAYER_SIZE}
+            step={0.01}
+            value={layer.size}
+            onChange={(e) => onChange({ size: Number(e.target.value) })}
+          />
+        </label>
+        <label className="space-y-1">
+          <span className="label text-xs">Rotation ({layer.rotation}°)</span>
+          <input
+            className="w-full"
+            type="range"
+            min={-180}
+            max={180}
+            value={layer.rotation}
+            onChange={(e) => onChange({ rotation: Number(e.target.value) })}
+          />
+        </label>
+        <div>
+          <label className="label text-xs">Appears at (s)</label>
+          <input
+            className="input"
+            type="number"
+            min={0}
+            max={slideDuration}
+            step={0.1}
+            value={layer.start}
+            onChange={(e) => {
+              const start = Math.max(0, number(e.target.value, layer.start));
+              onChange({ start, end: layer.end !== null && layer.end <= start ? null : layer.end });
+            }}
+          />
+        </div>
+        <div>
+          <label className="label text-xs">Leaves at (s)</label>
+          <input
+            className="input"
+            type="number"
+            min={0}
+            step={0.1}
+            placeholder="Slide end"
+            value={layer.end ?? ""}
+            onChange={(e) => {
+              const end = number(e.target.value, -1);
+              onChange({ end: end > layer.start ? end : null });
+            }}
+          />
+        </div>
+        <div>
+          <label className="label text-xs">Entrance</label>
+          <select
+            className="input"
+            value={layer.animation}
+            onChange={(e) => onChange({ animation: e.target.value as TextAnimation })}
+          >
+            {(Object.keys(TEXT_ANIMATION_LABELS) as TextAnimation[]).map((a) => (
+              <option key={a} value={a}>{TEXT_ANIMATION_LABELS[a]}</option>
+            ))}
+          </select>
+        </div>
+        {layer.kind !== "sticker" && (
+          <div>
+            <label className="label text-xs">Color</label>
+            <div className="flex items-center gap-2">
+              <input type="color" value={layer.color ?? "#ffffff"} onChange={(e) => onChange({ color: e.target.value })} />
+              <button
+                className="text-xs text-gray-500 underline disabled:opacity-40"
+                disabled={layer.color === null}
+                onClick={() => onChange({ color: null })}
+              >
+                Use brand
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <button className="btn btn-secondary" onClick={onForward}>Bring forward</button>
+        <button className="btn btn-secondary" onClick={onBackward}>Send backward</button>
+        <button className="btn btn-secondary ml-auto" onClick={onRemove}>Delete layer</button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import {
+  CODE_PLACEHOLDER,
+  activeVariant,
+  linkUrl,
+  shortCode,
+  variantCode,
+  type AffiliateLink,
+  type ExportRecord,
+  type LinkVariant
+} from "../lib/links";
+import { drawQr, encodeQr } from "../lib/qr";
+
+const QR_PREVIEW_SIZE = 132;
+const LOG_ROWS = 8;
+
+const VARIANT_FIELDS: { key: "name" | "source" | "medium"; label: string }[] = [
+  { key: "name", label: "Variant" },
+  { key: "source", label: "utm_source" },
+  { key: "medium", label: "utm_medium" }
+];
+
+// Base URL, UTM fields and one variant per platform. Renders use the
+// selected variant; the log below lists which variant every export carried.
+export default function LinkPanel({
+  link,
+  productTitle,
+  log,
+  onChange,
+  onDownloadLog,
+  onClearLog
+}: {
+  link: AffiliateLink;
+  productTitle: string;
+  log: ExportRecord[];
+  onChange: (link: AffiliateLink) => void;
+  onDownloadLog: () => void;
+  onClearLog: () => void;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const variant = activeVariant(link);
+  const code = variantCode(variant, productTitle);
+  const url = linkUrl(link, variant, code);
+
+  const { qr, qrError } = useMemo(() => {
+    if (!url || !link.showQr) return { qr: null, qrError: null };
+    try {
+      return { qr: encodeQr(url), qrError: null };
+    } catch (err) {
+      return { qr: null, qrError: err instanceof Error ? err.message : "Link too long for a QR code" };
+    }
+  }, [link.showQr, url]);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (ctx && qr) drawQr(ctx, qr, 0, 0, QR_PREVIEW_SIZE);
+  }, [qr]);
+
+  const set = <K extends keyof AffiliateLink>(key: K, value: AffiliateLink[K]) => onChange({ ...link, [key]: value });
+
+  const updateVariant = (id: string, patch: Partial<LinkVariant>) =>
+    set("variants", link.variants.map((v) => (v.id === id ? { ...v, ...patch } : v)));
+
+  const addVariant = () => {
+    const added: LinkVariant = { id: crypto.randomUUID(), name: "New variant", source: "", medium: "social", code: "" };
+    onChange({ ...link, variants: [...link.variants, added], variantId: added.id });
+  };
+
+  const removeVariant = (id: string) => {
+    if (link.variants.length <= 1) return;
+    const variants = link.variants.filter((v) => v.id !== id);
+    onChange({ ...link, variants, variantId: link.variantId === id ? variants[0].id : link.variantId });
+  };
+
+  const copy = async () => {
+    if (!url) return;
+    await navigator.clipboard.writeText(url).catch(() => undefined);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="label">Affiliate link</label>
+        <input
+          className="input"
+          type="url"
+          placeholder="https://www.example.com/product?tag=yourid-20"
+          value={link.baseUrl}
+          onChange={(e) => set("baseUrl", e.target.value)}
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="label text-xs">utm_campaign</label>
+          <input className="input" value={link.campaign} onChange={(e) => set("campaign", e.target.value)} />
+        </div>
+        <div>
+          <label className="label text-xs">utm_term</label>
+          <input className="input" value={link.term} onChange={(e) => set("term", e.target.value)} />
+        </div>
+      </div>
+
+      <div className="overflow-x-auto rounded border border-gray-200">
+        <table className="w-full text-left text-sm">
+          <thead className="bg-gray-50 text-xs text-gray-500">
+            <tr>
+              <th className="px-2 py-1">Use</th>
+              {VARIANT_FIELDS.map((f) => (
+                <th key={f.key} className="px-2 py-1">{f.label}</th>
+              ))}
+              <th className="px-2 py-1">Code (utm_content)</th>
+              <th className="px-2 py-1" />
+            </tr>
+          </thead>
+          <tbody>
+            {link.variants.map((v) => (
+              <tr key={v.id} className="border-t border-gray-100">
+                <td className="px-2 py-1">
+                  <input type="radio" name="link-variant" checked={v.id === variant.id} onChange={() => set("variantId", v.id)} />
+                </td>
+                {VARIANT_FIELDS.map((f) => (
+                  <td key={f.key} className="px-1 py-1">
+                    <input className="input" value={v[f.key]} onChange={(e) => updateVariant(v.id, { [f.key]: e.target.value })} />
+                  </td>
+                ))}
+                <td className="px-1 py-1">
+                  <input
+                    className="input font-mono"
+                    placeholder={shortCode(productTitle, v)}
+                    value={v.code}
+                    onChange={(e) => updateVariant(v.id, { code: e.target.value.toUpperCase().replace(/\s+/g, "-") })}
+                  />
+                </td>
+                <td className="px-2 py-1">
+                  <button
+                    className="text-xs text-gray-500 underline disabled:opacity-40"
+                    disabled={link.variants.length <= 1}
+                    onClick={() => removeVariant(v.id)}
+                  >
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <button className="btn btn-secondary" onClick={addVariant}>Add variant</button>
+
+      <div className="flex flex-wrap items-start gap-4">
+        {qr && <canvas ref={canvasRef} width={QR_PREVIEW_SIZE} height={QR_PREVIEW_SIZE} className="rounded border" />}
+        <div className="min-w-0 flex-1 space-y-2">
+          {url ? (
+            <div className="flex items-center gap-2">
+              <code className="min-w-0 flex-1 break-all rounded bg-gray-50 px-2 py-1 text-xs">{url}</code>
+              <button className="btn btn-secondary" onClick={copy}>{copied ? "Copied" : "Copy"}</button>
+            </div>
+          ) : (
+            <p className="text-xs text-gray-500">
+              {link.baseUrl.trim() ? "Enter a full http(s) address." : "Add a link to track clicks from this video."}
+            </p>
+          )}
+          <label className="inline-flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={link.showQr} onChange={(e) => set("showQr", e.target.checked)} />
+            QR code beside the CTA on the last slide
+          </label>
+          {qrError && <p className="text-xs text-red-600">{qrError}</p>}
+          <p className="text-xs text-gray-500">
+            Write <code>{CODE_PLACEHOLDER}</code> in the call to action to show the code ({code}).
+          </p>
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-medium">Export log</span>
+          <button className="ml-auto text-xs text-gray-500 underline disabled:opacity-40" disabled={log.length === 0} onClick={onDownloadLog}>
+            Download .csv
+          </button>
+          <button className="text-xs text-gray-500 underline disabled:opacity-40" disabled={log.length === 0} onClick={onClearLog}>
+            Clear
+          </button>
+        </div>
+        {log.length === 0 ? (
+          <p className="text-xs text-gray-500">Rendered videos and the link variant they carry are listed here.</p>
+        ) : (
+          <ul className="mt-1 space-y-1 text-xs text-gray-600">
+            {log.slice(0, LOG_ROWS).map((r) => (
+              <li key={r.id} className="flex gap-2">
+                <span className="tabular-nums text-gray-400">{new Date(r.at).toLocaleString()}</span>
+                <span className="truncate">{r.file}</span>
+                <span className="ml-auto whitespace-nowrap font-mono">{r.url ? `${r.variant} · ${r.code}` : "no link"}</span>
+              </li>
+            ))}
+            {log.length > LOG_ROWS && <li className="text-gray-400">and {log.length - LOG_ROWS} more in the .csv</li>}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
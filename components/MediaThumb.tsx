@@ -0,0 +1,28 @@
+"use client";
+
+import React from "react";
+import type { UploadedImage } from "../lib/types";
+
+// Thumbnail of an uploaded image, or the first frame of a clip with a
+// play badge.
+export default function MediaThumb({
+  item,
+  className = "",
+  title,
+  onClick
+}: {
+  item: UploadedImage;
+  className?: string;
+  title?: string;
+  onClick?: () => void;
+}) {
+  if (!item.clip) return <img src={item.url} alt="" title={title} className={className} onClick={onClick} />;
+  return (
+    <div className="relative" title={title} onClick={onClick}>
+      <video src={item.url} muted playsInline preload="metadata" className={className} />
+      <span className="pointer-events-none absolute bottom-1 left-1 rounded bg-black/60 px-1 text-[10px] text-white">
+        ▶ clip
+      </span>
+    </div>
+  );
+}
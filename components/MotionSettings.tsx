@@ -0,0 +1,90 @@
+"use client";
+
+import React from "react";
+import { TEXT_ANIMATION_LABELS, type AnimatedElement } from "../lib/animation";
+import { TRANSITION_LABELS } from "../lib/transitions";
+import type { ElementAnimations, TextAnimation, Transition, TransitionKind } from "../lib/types";
+
+const ELEMENT_LABELS: Record<AnimatedElement, string> = {
+  title: "Title",
+  text: "Slide text",
+  cta: "CTA pill"
+};
+
+export function TransitionFields({
+  value,
+  onChange,
+  inheritLabel
+}: {
+  value: Transition | undefined;
+  onChange: (value: Transition | undefined) => void;
+  inheritLabel?: string;
+}) {
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <div>
+        <label className="label">Transition</label>
+        <select
+          className="input"
+          value={value?.kind ?? ""}
+          onChange={(e) => {
+            const kind = e.target.value as TransitionKind | "";
+            onChange(kind ? { kind, duration: value?.duration ?? 0.5 } : undefined);
+          }}
+        >
+          {inheritLabel && <option value="">{inheritLabel}</option>}
+          {(Object.keys(TRANSITION_LABELS) as TransitionKind[]).map((kind) => (
+            <option key={kind} value={kind}>{TRANSITION_LABELS[kind]}</option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <label className="label">Transition (s)</label>
+        <input
+          className="input disabled:opacity-50"
+          type="number"
+          step="0.1"
+          min="0.1"
+          max="3"
+          disabled={!value || value.kind === "none"}
+          value={value?.duration ?? 0.5}
+          onChange={(e) => value && onChange({ ...value, duration: Math.max(0.1, Number(e.target.value) || 0) })}
+        />
+      </div>
+    </div>
+  );
+}
+
+export default function MotionSettings({
+  transition,
+  animations,
+  onTransitionChange,
+  onAnimationsChange
+}: {
+  transition: Transition;
+  animations: ElementAnimations;
+  onTransitionChange: (value: Transition) => void;
+  onAnimationsChange: (value: ElementAnimations) => void;
+}) {
+  return (
+    <div className="space-y-3">
+      <TransitionFields value={transition} onChange={(value) => value && onTransitionChange(value)} />
+      <div className="grid grid-cols-3 gap-3">
+        {(Object.keys(ELEMENT_LABELS) as AnimatedElement[]).map((element) => (
+          <div key={element}>
+            <label className="label">{ELEMENT_LABELS[element]}</label>
+            <select
+              className="input"
+              value={animations[element]}
+              onChange={(e) => onAnimationsChange({ ...animations, [element]: e.target.value as TextAnimation })}
+            >
+              {(Object.keys(TEXT_ANIMATION_LABELS) as TextAnimation[]).map((animation) => (
+                <option key={animation} value={animation}>{TEXT_ANIMATION_LABELS[animation]}</option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
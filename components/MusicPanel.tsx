@@ -0,0 +1,91 @@
+"use client";
+
+import React from "react";
+import type { BeatGrid } from "../lib/beats";
+import { MOOD_LABELS, NOTE_NAMES, moodTempo } from "../lib/music";
+import type { MusicMood, MusicSettings } from "../lib/types";
+
+export default function MusicPanel({
+  settings,
+  onChange,
+  track,
+  onTrackChange,
+  grid
+}: {
+  settings: MusicSettings;
+  onChange: (settings: MusicSettings) => void;
+  track: File | null;
+  onTrackChange: (file: File | null) => void;
+  grid: BeatGrid | null;
+}) {
+  const set = <K extends keyof MusicSettings>(key: K, value: MusicSettings[K]) => onChange({ ...settings, [key]: value });
+  const uploading = settings.source === "upload";
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-4 text-sm">
+        <label className="inline-flex items-center gap-2">
+          <input type="radio" checked={!uploading} onChange={() => set("source", "generated")} />
+          Generated
+        </label>
+        <label className="inline-flex items-center gap-2">
+          <input type="radio" checked={uploading} onChange={() => set("source", "upload")} />
+          My track
+        </label>
+      </div>
+      {uploading ? (
+        <div className="space-y-1">
+          <input type="file" accept="audio/*" onChange={(e) => onTrackChange(e.target.files?.[0] ?? null)} />
+          <p className="text-xs text-gray-500">
+            {!track
+              ? "No track chosen; the generated music plays instead."
+              : grid
+                ? `${track.name} · ${Math.round(grid.bpm)} BPM detected`
+                : `${track.name} · no steady beat found`}
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-3 gap-3">
+          <div>
+            <label className="label">Mood</label>
+            <select
+              className="input"
+              value={settings.mood}
+              onChange={(e) => {
+                const mood = e.target.value as MusicMood;
+                onChange({ ...settings, mood, bpm: moodTempo(mood) });
+              }}
+            >
+              {(Object.keys(MOOD_LABELS) as MusicMood[]).map((mood) => (
+                <option key={mood} value={mood}>{MOOD_LABELS[mood]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="label">BPM</label>
+            <input
+              className="input"
+              type="number"
+              min="60"
+              max="180"
+              value={settings.bpm}
+              onChange={(e) => set("bpm", Math.min(180, Math.max(60, Number(e.target.value) || 0)))}
+            />
+          </div>
+          <div>
+            <label className="label">Key</label>
+            <select className="input" value={settings.key} onChange={(e) => set("key", Number(e.target.value))}>
+              {NOTE_NAMES.map((name, i) => (
+                <option key={name} value={i}>{name}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      )}
+      <label className="inline-flex items-center gap-2 text-sm">
+        <input type="checkbox" checked={settings.snapToBeat} onChange={(e) => set("snapToBeat", e.target.checked)} />
+        Snap slide cuts to the beat
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+"use client";
+
+import React from "react";
+import { listPreflightRules, type PreflightFix, type PreflightIssue } from "../lib/preflight";
+
+const SEVERITY_STYLES = {
+  error: "text-red-600",
+  warning: "text-amber-600"
+};
+
+// The preflight checklist: every rule with its issues, or a tick when it
+// passes. Fixes either apply at once or scroll to the field to change.
+export default function PreflightPanel({
+  issues,
+  disclosure,
+  onDisclosureChange,
+  onFix
+}: {
+  issues: PreflightIssue[] | null;
+  disclosure: string;
+  onDisclosureChange: (value: string) => void;
+  onFix: (fix: PreflightFix) => void;
+}) {
+  const errors = issues?.filter((i) => i.severity === "error").length ?? 0;
+  const warnings = issues?.filter((i) => i.severity === "warning").length ?? 0;
+
+  return (
+    <div className="space-y-3 rounded border border-gray-200 p-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-sm font-medium">Preflight</span>
+        <span className="text-xs text-gray-500">
+          {issues === null
+            ? "Checking…"
+            : errors > 0
+              ? `${errors} ${errors === 1 ? "error" : "errors"} to fix before export`
+              : warnings > 0
+                ? `Ready to export · ${warnings} ${warnings === 1 ? "warning" : "warnings"}`
+                : "Ready to export"}
+        </span>
+        <label className="ml-auto inline-flex items-center gap-2 text-xs text-gray-600">
+          Required disclosure
+          <input
+            className="input w-32"
+            placeholder="#ad"
+            value={disclosure}
+            onChange={(e) => onDisclosureChange(e.target.value)}
+          />
+        </label>
+      </div>
+      <ul className="space-y-1 text-sm">
+        {listPreflightRules().map((rule) => {
+          const found = issues?.filter((i) => i.rule === rule.id) ?? [];
+          const failed = found.some((i) => i.severity === "error");
+          return (
+            <li key={rule.id}>
+              <div className="flex items-center gap-2">
+                <span className={found.length === 0 ? "text-emerald-600" : SEVERITY_STYLES[failed ? "error" : "warning"]}>
+                  {issues === null ? "…" : found.length === 0 ? "✓" : failed ? "✕" : "!"}
+                </span>
+                <span className="font-medium text-gray-700">{rule.label}</span>
+              </div>
+              {found.map((issue, n) => (
+                <div key={n} className="ml-6 flex flex-wrap items-center gap-2 text-xs">
+                  <span className={SEVERITY_STYLES[issue.severity]}>{issue.message}</span>
+                  {issue.fix && (
+                    <button className="text-brand-600 underline" onClick={() => onFix(issue.fix!)}>
+                      {issue.fix.label}
+                    </button>
+                  )}
+                </div>
+              ))}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { renderAudioOffline, type MusicSource } from "../lib/audio";
+import { drawFrame, prepareFrame, sceneClipAudio, sceneHasClips, sceneTimeline, type Scene } from "../lib/draw";
+import { drawSafeZoneOverlay } from "../lib/layout";
+import { locateFrame } from "../lib/slides";
+import type { AudioMix } from "../lib/types";
+
+const PREVIEW_WIDTH = 540;
+const AUDIO_SAMPLE_RATE = 44100;
+const AUDIO_DEBOUNCE_MS = 300;
+
+function formatTime(frame: number, fps: number) {
+  const seconds = frame / fps;
+  const minutes = Math.floor(seconds / 60);
+  const rest = (seconds % 60).toFixed(2).padStart(5, "0");
+  return `${minutes}:${rest}`;
+}
+
+// Plays the scene through the same `drawFrame` and audio mix as the export,
+// so what you see here is what ends up in the file.
+export default function PreviewPlayer({
+  scene,
+  fps,
+  music,
+  voice,
+  mix
+}: {
+  scene: Scene;
+  fps: number;
+  music: MusicSource | null;
+  voice: Blob | null;
+  mix: AudioMix;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const audioRef = useRef<AudioContext | null>(null);
+  const [frame, setFrame] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [loop, setLoop] = useState(false);
+  const [showSafeZone, setShowSafeZone] = useState(false);
+  const [seekCount, setSeekCount] = useState(0);
+  const [mixed, setMixed] = useState<AudioBuffer | null>(null);
+  const frameRef = useRef(0);
+  const seekChainRef = useRef<Promise<void>>(Promise.resolve());
+
+  const timeline = sceneTimeline(scene, fps);
+  const lastFrame = Math.max(0, timeline.totalFrames - 1);
+  const current = Math.min(frame, lastFrame);
+  const { index } = locateFrame(timeline, current);
+  frameRef.current = current;
+
+  const seek = useCallback((next: number) => {
+    setFrame(next);
+    frameRef.current = next;
+    // A running playback restarts its clock and audio from the new frame.
+    setSeekCount((n) => n + 1);
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+    const scale = Math.min(1, PREVIEW_WIDTH / scene.width);
+    const width = Math.round(scene.width * scale);
+    const height = Math.round(scene.height * scale);
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+    const paint = () => {
+      ctx.setTransform(scale, 0, 0, scale, 0, 0);
+      drawFrame(ctx, scene, current, fps);
+      if (showSafeZone) drawSafeZoneOverlay(ctx, scene);
+    };
+    if (!sceneHasClips(scene)) {
+      paint();
+      return;
+    }
+    // Clips seek before each frame. Frames that are stale by the time their
+    // turn comes are skipped, so playback drops frames instead of lagging.
+    let cancelled = false;
+    seekChainRef.current = seekChainRef.current.then(async () => {
+      if (cancelled) return;
+      await prepareFrame(scene, current, fps).catch(() => undefined);
+      if (!cancelled) paint();
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [current, fps, scene, showSafeZone]);
+
+  // Mix music, voice and clip sound offline exactly as the export does.
+  // Debounced because slide durations change on every keystroke.
+  const seconds = timeline.totalFrames / fps;
+  const clips = useMemo(() => sceneClipAudio(scene, fps), [fps, scene]);
+  useEffect(() => {
+    if (!music && !voice && clips.length === 0) {
+      setMixed(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      renderAudioOffline({ seconds, sampleRate: AUDIO_SAMPLE_RATE, numberOfChannels: 2, music, voice, clips, mix })
+        .then((buffer) => {
+          if (!cancelled) setMixed(buffer);
+        })
+        .catch(() => {
+          if (!cancelled) setMixed(null);
+        });
+    }, AUDIO_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [clips, mix, music, seconds, voice]);
+
+  // The audio clock drives playback so picture and sound cannot drift apart.
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!playing || !audio) return;
+    let source: AudioBufferSourceNode | null = null;
+    let startTime = 0;
+    let raf = 0;
+    const start = (from: number) => {
+      source?.stop();
+      source = null;
+      startTime = audio.currentTime - from / fps;
+      if (mixed && from / fps < mixed.duration) {
+        source = audio.createBufferSource();
+        source.buffer = mixed;
+        source.connect(audio.destination);
+        source.start(0, from / fps);
+      }
+    };
+    const tick = () => {
+      let next = Math.floor((audio.currentTime - startTime) * fps);
+      if (next > lastFrame) {
+        if (!loop) {
+          seek(lastFrame);
+          setPlaying(false);
+          return;
+        }
+        start(0);
+        next = 0;
+      }
+      frameRef.current = next;
+      setFrame(next);
+      raf = requestAnimationFrame(tick);
+    };
+    start(frameRef.current >= lastFrame ? 0 : frameRef.current);
+    raf = requestAnimationFrame(tick);
+    return () => {
+      cancelAnimationFrame(raf);
+      source?.stop();
+    };
+  }, [fps, lastFrame, loop, mixed, playing, seek, seekCount]);
+
+  useEffect(() => () => void audioRef.current?.close(), []);
+
+  const togglePlay = () => {
+    if (playing) {
+      setPlaying(false);
+      return;
+    }
+    // Created and resumed inside the click so autoplay rules allow sound.
+    const audio = audioRef.current ?? new AudioContext();
+    audioRef.current = audio;
+    audio.resume();
+    setPlaying(true);
+  };
+
+  const step = (delta: number) => {
+    setPlaying(false);
+    seek(Math.min(lastFrame, Math.max(0, current + delta)));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-center rounded bg-gray-900">
+        <canvas ref={canvasRef} className="max-h-[540px] max-w-full" />
+      </div>
+      <input
+        className="w-full"
+        type="range"
+        min={0}
+        max={lastFrame}
+        value={current}
+        onChange={(e) => seek(Number(e.target.value))}
+      />
+      <div className="flex flex-wrap items-center gap-2">
+        <button className="btn btn-secondary" title="Previous frame" onClick={() => step(-1)}>‹</button>
+        <button className="btn btn-primary w-20" onClick={togglePlay}>{playing ? "Pause" : "Play"}</button>
+        <button className="btn btn-secondary" title="Next frame" onClick={() => step(1)}>›</button>
+        <label className="inline-flex items-center gap-2 text-sm">
+          <input type="checkbox" checked={loop} onChange={(e) => setLoop(e.target.checked)} />
+          Loop
+        </label>
+        <label className="inline-flex items-center gap-2 text-sm">
+          <input type="checkbox" checked={showSafeZone} onChange={(e) => setShowSafeZone(e.target.checked)} />
+          Safe zone
+        </label>
+        <span className="ml-auto text-xs tabular-nums text-gray-500">
+          {formatTime(current, fps)} / {formatTime(timeline.totalFrames, fps)} · slide {index + 1}/{scene.slides.length}
+          {" "}· frame {current}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+"use client";
+
+import React, { useState } from "react";
+import { productBenefits, productSubtitle, type ScrapedProduct } from "../lib/productPage";
+
+export type ImportedProduct = {
+  title: string;
+  subtitle: string;
+  benefits: string[];
+  images: File[];
+};
+
+function proxied(url: string) {
+  return `/api/import/image?url=${encodeURIComponent(url)}`;
+}
+
+// The import API may require the server's access token. It is kept in a
+// cookie rather than a header so the `<img>` previews send it too.
+function saveToken(token: string) {
+  document.cookie = `api_token=${encodeURIComponent(token)}; path=/api; SameSite=Strict`;
+}
+
+function fileName(url: string, type: string, index: number) {
+  const base = new URL(url).pathname.split("/").pop()?.replace(/\.[a-z0-9]+$/i, "") || `image-${index + 1}`;
+  return `${base}.${type.split("/")[1] ?? "jpg"}`;
+}
+
+// Pulls product details from a product page URL. The scraped result is shown
+// for review first; nothing in the editor changes until it is applied.
+export default function ProductImport({ onApply }: { onApply: (product: ImportedProduct) => void | Promise<void> }) {
+  const [url, setUrl] = useState("");
+  const [product, setProduct] = useState<ScrapedProduct | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [needsToken, setNeedsToken] = useState(false);
+  const [token, setToken] = useState("");
+
+  const fetchProduct = async () => {
+    setBusy(true);
+    setError(null);
+    setProduct(null);
+    try {
+      const res = await fetch("/api/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ url })
+      });
+      if (res.status === 401) {
+        setNeedsToken(true);
+        throw new Error("This server needs an access token for imports");
+      }
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error ?? `Import failed (HTTP ${res.status})`);
+      setProduct(data);
+      setSelected(new Set(data.images.slice(0, 5)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Import failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const apply = async () => {
+    if (!product) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const chosen = product.images.filter((src) => selected.has(src));
+      const images: File[] = [];
+      for (const [i, src] of chosen.entries()) {
+        const res = await fetch(proxied(src)).catch(() => null);
+        if (!res?.ok) continue;
+        const blob = await res.blob();
+        images.push(new File([blob], fileName(src, blob.type, i), { type: blob.type }));
+      }
+      await onApply({
+        title: product.title,
+        subtitle: productSubtitle(product),
+        benefits: productBenefits(product),
+        images
+      });
+      if (images.length < chosen.length) setError(`${chosen.length - images.length} images could not be downloaded`);
+      setProduct(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not use the imported details");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggle = (src: string) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(src)) next.add(src);
+      return next;
+    });
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <input
+          className="input"
+          type="url"
+          placeholder="https://… product page"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && url && !busy && fetchProduct()}
+        />
+        <button className="btn btn-secondary shrink-0 disabled:opacity-50" disabled={!url || busy} onClick={fetchProduct}>
+          {busy && !product ? "Importing..." : "Import"}
+        </button>
+      </div>
+      {needsToken && (
+        <div className="flex gap-2">
+          <input
+            className="input"
+            type="password"
+            placeholder="Access token"
+            value={token}
+            onChange={(e) => setToken(e.target.value)}
+          />
+          <button
+            className="btn btn-secondary shrink-0 disabled:opacity-50"
+            disabled={!token || busy}
+            onClick={() => {
+              saveToken(token);
+              setNeedsToken(false);
+              if (url) fetchProduct();
+            }}
+          >
+            Save token
+          </button>
+        </div>
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {product && (
+        <div className="space-y-2 rounded-md border border-dashed border-gray-300 p-3 text-sm">
+          <div className="font-medium">{product.title || "Untitled product"}</div>
+          <div className="text-xs text-gray-500">
+            {[
+              product.price,
+              product.rating !== null && `★ ${product.rating.toFixed(1)}`,
+              product.reviewCount !== null && `${product.reviewCount.toLocaleString()} reviews`
+            ]
+              .filter(Boolean)
+              .join(" · ")}
+          </div>
+          <p className="text-gray-600">{productSubtitle(product)}</p>
+          <ul className="list-disc pl-5 text-gray-600">
+            {productBenefits(product).map((line, i) => (
+              <li key={i}>{line}</li>
+            ))}
+          </ul>
+          {product.images.length > 0 && (
+            <div className="grid grid-cols-6 gap-2">
+              {product.images.map((src) => (
+                <button
+                  key={src}
+                  className={`relative rounded border-2 ${selected.has(src) ? "border-brand-500" : "border-transparent opacity-50"}`}
+                  onClick={() => toggle(src)}
+                >
+                  <img src={proxied(src)} alt="" className="h-14 w-full rounded object-cover" />
+                </button>
+              ))}
+            </div>
+          )}
+          <div className="flex gap-2">
+            <button className="btn btn-primary disabled:opacity-50" disabled={busy} onClick={apply}>
+              {busy ? "Downloading images..." : `Use details and ${selected.size} images`}
+            </button>
+            <button className="btn btn-secondary" disabled={busy} onClick={() => setProduct(null)}>
+              Discard
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
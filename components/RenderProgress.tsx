@@ -0,0 +1,31 @@
+"use client";
+
+import React from "react";
+import { remainingSeconds } from "../lib/render";
+
+export type RenderStatus = {
+  label: string;
+  fraction: number;
+  startedAt: number;
+};
+
+function formatRemaining(seconds: number) {
+  const s = Math.max(1, Math.round(seconds));
+  return s < 60 ? `${s}s left` : `${Math.floor(s / 60)}m ${String(s % 60).padStart(2, "0")}s left`;
+}
+
+export default function RenderProgress({ status, onCancel }: { status: RenderStatus; onCancel: () => void }) {
+  const remaining = remainingSeconds(status.startedAt, status.fraction);
+  return (
+    <div className="flex items-center gap-3">
+      <div className="h-2 flex-1 overflow-hidden rounded bg-gray-200">
+        <div className="h-full bg-brand-500" style={{ width: `${Math.round(status.fraction * 100)}%` }} />
+      </div>
+      <span className="w-64 text-sm text-gray-600">
+        {status.label} · {Math.round(status.fraction * 100)}%
+        {remaining !== null && ` · ${formatRemaining(remaining)}`}
+      </span>
+      <button className="btn btn-secondary" onClick={onCancel}>Cancel</button>
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import { drawFrame, prepareFrame, sceneTimeline, type Scene } from "../lib/draw";
+import {
+  DEFAULT_ANIMATION,
+  MAX_ANIMATION_SECONDS,
+  coverImage,
+  drawCover,
+  renderAnimation,
+  renderContactSheet,
+  renderCoverImage,
+  renderFrameImage,
+  type AnimationOptions,
+  type StillFormat
+} from "../lib/stills";
+
+const PREVIEW_WIDTH = 240;
+const ANIMATION_FPS = [8, 10, 12, 15, 20];
+const ANIMATION_WIDTHS = [240, 320, 360, 480, 640];
+
+type CoverMode = "layout" | "frame";
+
+// Cover image, short looping GIF/APNG and a contact sheet of every slide.
+// `loadScene` returns the scene with every image decoded, ready to draw.
+export default function StillExports({
+  scene,
+  fps,
+  loadScene,
+  onDownload
+}: {
+  scene: Scene;
+  fps: number;
+  loadScene: () => Promise<Scene>;
+  onDownload: (blob: Blob, filename: string) => void;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const [coverMode, setCoverMode] = useState<CoverMode>("layout");
+  const [coverFrame, setCoverFrame] = useState(0);
+  const [format, setFormat] = useState<StillFormat>("png");
+  const [animation, setAnimation] = useState<AnimationOptions>(DEFAULT_ANIMATION);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { totalFrames } = sceneTimeline(scene, fps);
+  const lastFrame = Math.max(0, totalFrames - 1);
+  const frame = Math.min(coverFrame, lastFrame);
+  const totalSeconds = totalFrames / fps;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+    const scale = PREVIEW_WIDTH / scene.width;
+    canvas.width = PREVIEW_WIDTH;
+    canvas.height = Math.round(scene.height * scale);
+    let cancelled = false;
+    const paint = async () => {
+      if (coverMode === "frame") await prepareFrame(scene, frame, fps).catch(() => undefined);
+      if (cancelled) return;
+      ctx.setTransform(scale, 0, 0, scale, 0, 0);
+      if (coverMode === "frame") {
+        drawFrame(ctx, scene, frame, fps);
+      } else {
+        drawCover(ctx, scene, coverImage(scene));
+      }
+    };
+    paint();
+    return () => {
+      cancelled = true;
+    };
+  }, [coverMode, fps, frame, scene]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const run = async (label: string, task: (loaded: Scene, signal: AbortSignal) => Promise<void>) => {
+    if (busy) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setBusy(label);
+    setError(null);
+    setProgress(null);
+    try {
+      await task(await loadScene(), controller.signal);
+    } catch (err) {
+      if (!controller.signal.aborted) setError(err instanceof Error ? err.message : `${label} failed`);
+    } finally {
+      abortRef.current = null;
+      setBusy(null);
+      setProgress(null);
+    }
+  };
+
+  const exportCover = () =>
+    run("Cover", async (loaded) => {
+      const blob =
+        coverMode === "frame" ? await renderFrameImage(loaded, fps, frame, format) : await renderCoverImage(loaded, format);
+      onDownload(blob, `cover.${format === "jpeg" ? "jpg" : "png"}`);
+    });
+
+  const exportAnimation = () =>
+    run("Animation", async (loaded, signal) => {
+      const blob = await renderAnimation(loaded, fps, animation, setProgress, signal);
+      onDownload(blob, `preview.${animation.format === "gif" ? "gif" : "png"}`);
+    });
+
+  const exportContactSheet = () =>
+    run("Contact sheet", async (loaded) => {
+      onDownload(await renderContactSheet(loaded, fps), "contact-sheet.zip");
+    });
+
+  const updateAnimation = (patch: Partial<AnimationOptions>) => setAnimation((prev) => ({ ...prev, ...patch }));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-4">
+        <canvas ref={canvasRef} className="rounded border bg-gray-900" style={{ width: PREVIEW_WIDTH }} />
+        <div className="flex-1 space-y-3">
+          <div>
+            <label className="label">Cover</label>
+            <div className="flex gap-2">
+              <select className="input" value={coverMode} onChange={(e) => setCoverMode(e.target.value as CoverMode)}>
+                <option value="layout">Cover layout</option>
+                <option value="frame">Frame from the video</option>
+              </select>
+              <select className="input w-28" value={format} onChange={(e) => setFormat(e.target.value as StillFormat)}>
+                <option value="png">PNG</option>
+                <option value="jpeg">JPEG</option>
+              </select>
+            </div>
+          </div>
+          {coverMode === "frame" && (
+            <div>
+              <label className="label text-xs">Frame {frame} · {(frame / fps).toFixed(2)}s</label>
+              <input
+                className="w-full"
+                type="range"
+                min={0}
+                max={lastFrame}
+                value={frame}
+                onChange={(e) => setCoverFrame(Number(e.target.value))}
+              />
+            </div>
+          )}
+          <div className="flex flex-wrap gap-2">
+            <button className="btn btn-primary" disabled={!!busy} onClick={exportCover}>
+              Download cover ({scene.width}×{scene.height})
+            </button>
+            <button className="btn btn-secondary" disabled={!!busy} onClick={exportContactSheet}>
+              Contact sheet (.zip)
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <label className="label">Animated preview</label>
+        <div className="grid grid-cols-2 gap-3 md:grid-cols-5">
+          <div>
+            <label className="label text-xs">Start (s)</label>
+            <input
+              className="input"
+              type="number"
+              step={0.5}
+              min={0}
+              max={Math.max(0, totalSeconds - 0.5)}
+              value={animation.start}
+              onChange={(e) => updateAnimation({ start: Math.max(0, Number(e.target.value) || 0) })}
+            />
+          </div>
+          <div>
+            <label className="label text-xs">Length (s)</label>
+            <input
+              className="input"
+              type="number"
+              step={0.5}
+              min={0.5}
+              max={MAX_ANIMATION_SECONDS}
+              value={animation.seconds}
+              onChange={(e) =>
+                updateAnimation({ seconds: Math.min(MAX_ANIMATION_SECONDS, Math.max(0.5, Number(e.target.value) || 0)) })
+              }
+            />
+          </div>
+          <div>
+            <label className="label text-xs">FPS</label>
+            <select className="input" value={animation.fps} onChange={(e) => updateAnimation({ fps: Number(e.target.value) })}>
+              {ANIMATION_FPS.map((n) => (
+                <option key={n} value={n}>{n}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="label text-xs">Width</label>
+            <select
+              className="input"
+              value={animation.width}
+              onChange={(e) => updateAnimation({ width: Number(e.target.value) })}
+            >
+              {ANIMATION_WIDTHS.map((n) => (
+                <option key={n} value={n}>{n}px</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="label text-xs">Format</label>
+            <select
+              className="input"
+              value={animation.format}
+              onChange={(e) => updateAnimation({ format: e.target.value as AnimationOptions["format"] })}
+            >
+              <option value="gif">GIF</option>
+              <option value="apng">APNG</option>
+            </select>
+          </div>
+        </div>
+        <div className="mt-3 flex items-center gap-2">
+          <button className="btn btn-secondary" disabled={!!busy} onClick={exportAnimation}>
+            Download {animation.format.toUpperCase()}
+          </button>
+          {busy === "Animation" && (
+            <button className="text-sm text-gray-500 underline" onClick={() => abortRef.current?.abort()}>Cancel</button>
+          )}
+          <span className="text-xs text-gray-500">
+            {busy
+              ? `${busy}${progress !== null ? ` ${Math.round(progress * 100)}%` : "…"}`
+              : `${Math.round(animation.seconds * animation.fps)} frames, loops forever`}
+          </span>
+        </div>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+"use client";
+
+import React, { useEffect, useRef } from "react";
+import { drawSlide, type Scene } from "../lib/draw";
+import { listTemplates, type SlideTemplate } from "../lib/templates";
+
+const THUMB_WIDTH = 96;
+
+export default function TemplatePicker({
+  scene,
+  value,
+  onChange
+}: {
+  scene: Scene;
+  value: string;
+  onChange: (id: string) => void;
+}) {
+  return (
+    <div className="grid grid-cols-3 gap-2 sm:grid-cols-5">
+      {listTemplates().map((template) => (
+        <TemplateThumbnail
+          key={template.id}
+          scene={scene}
+          template={template}
+          selected={template.id === value}
+          onSelect={() => onChange(template.id)}
+        />
+      ))}
+    </div>
+  );
+}
+
+function TemplateThumbnail({
+  scene,
+  template,
+  selected,
+  onSelect
+}: {
+  scene: Scene;
+  template: SlideTemplate;
+  selected: boolean;
+  onSelect: () => void;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+    const scale = THUMB_WIDTH / scene.width;
+    canvas.width = THUMB_WIDTH;
+    canvas.height = Math.round(scene.height * scale);
+    ctx.setTransform(scale, 0, 0, scale, 0, 0);
+    const sample = Math.max(0, scene.slides.findIndex((s) => s.kind === "benefit"));
+    drawSlide(ctx, { ...scene, slides: scene.slides.map((s) => ({ ...s, templateId: undefined })), templateId: template.id }, sample, 1);
+  }, [scene, template.id]);
+
+  return (
+    <button
+      type="button"
+      title={template.description}
+      className={`rounded-md border-2 p-1 text-left transition ${
+        selected ? "border-brand-500" : "border-transparent hover:border-gray-300"
+      }`}
+      onClick={onSelect}
+    >
+      <canvas ref={canvasRef} className="w-full rounded" />
+      <span className="mt-1 block truncate text-xs text-gray-700">{template.name}</span>
+    </button>
+  );
+}
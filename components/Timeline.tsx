@@ -0,0 +1,192 @@
+"use client";
+
+import React, { useState } from "react";
+import KenBurnsFields from "./KenBurnsFields";
+import MediaThumb from "./MediaThumb";
+import { TransitionFields } from "./MotionSettings";
+import { createSlide, duplicateSlide, moveSlide, orderSlides, removeSlide } from "../lib/slides";
+import { listTemplates } from "../lib/templates";
+import type { Slide, SlideKind, UploadedImage } from "../lib/types";
+
+const KIND_LABELS: Record<SlideKind, string> = {
+  intro: "Hook",
+  benefit: "Benefit",
+  outro: "CTA"
+};
+
+export default function Timeline({
+  slides,
+  images,
+  defaultDuration,
+  onChange
+}: {
+  slides: Slide[];
+  images: UploadedImage[];
+  defaultDuration: number;
+  // `coalesce` is set while typing or stepping a value; see `EditorAction`.
+  onChange: (slides: Slide[], coalesce?: boolean) => void;
+}) {
+  const [selectedId, setSelectedId] = useState<string | null>(slides[0]?.id ?? null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const selected = slides.find((s) => s.id === selectedId) ?? null;
+  const totalSeconds = slides.reduce((sum, s) => sum + s.duration, 0);
+  const imageById = new Map(images.map((img) => [img.id, img]));
+
+  const update = (id: string, patch: Partial<Slide>, coalesce = false) => {
+    onChange(slides.map((s) => (s.id === id ? { ...s, ...patch } : s)), coalesce);
+  };
+
+  const add = (kind: SlideKind) => {
+    const text = kind === "intro" ? "Stop scrolling — you need this" : kind === "outro" ? "Don't miss out" : "New benefit";
+    const slide = createSlide(kind, text, defaultDuration);
+    onChange(orderSlides([...slides, slide]));
+    setSelectedId(slide.id);
+  };
+
+  const toggleImage = (slide: Slide, imageId: string) => {
+    const imageIds = slide.imageIds.includes(imageId)
+      ? slide.imageIds.filter((id) => id !== imageId)
+      : [...slide.imageIds, imageId];
+    update(slide.id, { imageIds });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-gray-500">
+          {slides.length} slides · {totalSeconds.toFixed(1)}s
+        </span>
+        <div className="flex gap-2">
+          <button
+            className="btn btn-secondary disabled:opacity-50"
+            disabled={slides.some((s) => s.kind === "intro")}
+            onClick={() => add("intro")}
+          >
+            + Hook
+          </button>
+          <button className="btn btn-secondary" onClick={() => add("benefit")}>+ Slide</button>
+          <button
+            className="btn btn-secondary disabled:opacity-50"
+            disabled={slides.some((s) => s.kind === "outro")}
+            onClick={() => add("outro")}
+          >
+            + CTA
+          </button>
+        </div>
+      </div>
+
+      <div className="flex gap-2 overflow-x-auto pb-2">
+        {slides.map((slide, index) => {
+          const thumb = imageById.get(slide.imageIds[0] ?? "");
+          return (
+            <div
+              key={slide.id}
+              draggable
+              onDragStart={() => setDragIndex(index)}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={() => {
+                if (dragIndex !== null) onChange(moveSlide(slides, dragIndex, index));
+                setDragIndex(null);
+              }}
+              onDragEnd={() => setDragIndex(null)}
+              onClick={() => setSelectedId(slide.id)}
+              className={`w-28 shrink-0 cursor-grab rounded-md border-2 bg-gray-50 p-1 text-left ${
+                slide.id === selectedId ? "border-brand-500" : "border-gray-200"
+              } ${dragIndex === index ? "opacity-50" : ""}`}
+            >
+              <div className="relative h-14 overflow-hidden rounded bg-gray-200">
+                {thumb && <img src={thumb.url} alt="" className="h-full w-full object-cover" />}
+                <span className="absolute left-1 top-1 rounded bg-black/60 px-1 text-[10px] text-white">
+                  {KIND_LABELS[slide.kind]}
+                </span>
+              </div>
+              <div className="mt-1 truncate text-xs text-gray-800">{slide.text || "Untitled"}</div>
+              <div className="text-[10px] text-gray-500">{slide.duration.toFixed(1)}s</div>
+            </div>
+          );
+        })}
+      </div>
+
+      {selected && (
+        <div className="space-y-3 rounded-md border border-gray-200 p-3">
+          <div>
+            <label className="label">{KIND_LABELS[selected.kind]} text</label>
+            <textarea
+              className="input h-20 resize-y"
+              value={selected.text}
+              onChange={(e) => update(selected.id, { text: e.target.value }, true)}
+            />
+            <p className="mt-1 text-xs text-gray-500">**bold** and ==highlight== work in slide text.</p>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="label">Duration (s)</label>
+              <input
+                className="input"
+                type="number"
+                step="0.1"
+                min="0.5"
+                max="15"
+                value={selected.duration}
+                onChange={(e) => update(selected.id, { duration: Math.max(0.5, Number(e.target.value) || 0) }, true)}
+              />
+            </div>
+            <div>
+              <label className="label">Template</label>
+              <select
+                className="input"
+                value={selected.templateId ?? ""}
+                onChange={(e) => update(selected.id, { templateId: e.target.value || undefined })}
+              >
+                <option value="">Project default</option>
+                {listTemplates().map((t) => (
+                  <option key={t.id} value={t.id}>{t.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <TransitionFields
+            value={selected.transition}
+            inheritLabel="Project default"
+            onChange={(transition) => update(selected.id, { transition }, true)}
+          />
+          <KenBurnsFields value={selected.kenBurns} onChange={(kenBurns) => update(selected.id, { kenBurns }, true)} />
+          {images.length > 0 && (
+            <div>
+              <label className="label">Images and clips</label>
+              <div className="grid grid-cols-6 gap-2">
+                {images.map((img) => (
+                  <button
+                    key={img.id}
+                    type="button"
+                    onClick={() => toggleImage(selected, img.id)}
+                    className={`overflow-hidden rounded border-2 ${
+                      selected.imageIds.includes(img.id) ? "border-brand-500" : "border-transparent opacity-60"
+                    }`}
+                  >
+                    <MediaThumb item={img} className="h-12 w-full object-cover" />
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+          <div className="flex gap-2">
+            <button className="btn btn-secondary" onClick={() => onChange(duplicateSlide(slides, selected.id))}>
+              Duplicate
+            </button>
+            <button
+              className="btn btn-secondary disabled:opacity-50"
+              disabled={slides.length <= 1}
+              onClick={() => {
+                onChange(removeSlide(slides, selected.id));
+                setSelectedId(null);
+              }}
+            >
+              Delete
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,269 @@
+"use client";
+
+import React, { useRef, useState } from "react";
+import type { Scene } from "../lib/draw";
+import type { PreflightIssue } from "../lib/preflight";
+import {
+  DEFAULT_VARIANT_SAMPLING,
+  EMPTY_VARIANT_AXES,
+  MAX_VARIANTS,
+  generateVariants,
+  parseSlideOrder,
+  renderVariant,
+  variantCount,
+  variantFileName,
+  variantManifest,
+  variantManifestCsv,
+  variantScene,
+  type VariantAxes,
+  type VariantBase,
+  type VariantResult,
+  type VariantSampling,
+  type VariantStatus
+} from "../lib/variants";
+import { createZip } from "../lib/zip";
+
+const STATUS_STYLES: Record<VariantStatus, string> = {
+  queued: "text-gray-500",
+  rendering: "text-brand-600",
+  done: "text-emerald-600",
+  error: "text-red-600"
+};
+
+const lines = (text: string) => text.split("\n").map((line) => line.trim()).filter(Boolean);
+
+// Lists alternative hooks, CTAs, colors and slide orders, then renders the
+// chosen combinations one after another like the batch does.
+export default function VariantPanel({
+  base,
+  onDownload,
+  onExport,
+  blocked = false,
+  check
+}: {
+  base: VariantBase;
+  onDownload: (blob: Blob, filename: string) => void;
+  // Called with each rendered file's name, the scene it used and its format.
+  onExport?: (file: string, scene: Scene, format: string) => void;
+  blocked?: boolean;
+  // Preflight for each variant's scene; variants with errors are not rendered.
+  check?: (scene: Scene) => PreflightIssue[];
+}) {
+  const [hooks, setHooks] = useState("");
+  const [ctas, setCtas] = useState("");
+  const [colors, setColors] = useState<string[]>([]);
+  const [orders, setOrders] = useState("");
+  const [sampling, setSampling] = useState<VariantSampling>(DEFAULT_VARIANT_SAMPLING);
+  const [tag, setTag] = useState(true);
+  const [results, setResults] = useState<VariantResult[]>([]);
+  const [running, setRunning] = useState(false);
+  const [zipping, setZipping] = useState(false);
+  const stopRef = useRef(false);
+
+  const slideCount = base.scene.slides.length;
+  let axes: VariantAxes = EMPTY_VARIANT_AXES;
+  let orderError: string | null = null;
+  try {
+    axes = {
+      hooks: lines(hooks),
+      ctas: lines(ctas),
+      colors,
+      orders: lines(orders).map((line) => parseSlideOrder(line, slideCount))
+    };
+  } catch (err) {
+    orderError = err instanceof Error ? err.message : "Invalid slide order";
+  }
+  const combinations = variantCount(axes);
+
+  const generate = () => {
+    const variants = generateVariants(axes, sampling, base.scene, slideCount);
+    setResults(variants.map((variant) => ({ variant, status: "queued", file: null, blob: null, seconds: 0, error: null })));
+  };
+
+  const update = (index: number, patch: Partial<VariantResult>) => {
+    setResults((prev) => prev.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+  };
+
+  const run = async () => {
+    setRunning(true);
+    stopRef.current = false;
+    for (let i = 0; i < results.length; i++) {
+      if (stopRef.current) break;
+      const { variant, status } = results[i];
+      if (status === "done") continue;
+      update(i, { status: "rendering", error: null });
+      try {
+        const result = await renderVariant(base, variant, tag, check);
+        const file = variantFileName(variant, variant.hook, result.format);
+        update(i, { status: "done", blob: result.blob, file, seconds: result.seconds });
+        onExport?.(file, variantScene(base.scene, variant, tag), result.format);
+      } catch (err) {
+        update(i, { status: "error", error: err instanceof Error ? err.message : "Render failed" });
+      }
+    }
+    setRunning(false);
+  };
+
+  const downloadZip = async () => {
+    setZipping(true);
+    try {
+      const done = results.filter((r) => r.blob && r.file);
+      const manifest = new Blob([JSON.stringify(variantManifest(base, results), null, 2)], { type: "application/json" });
+      const csv = new Blob([variantManifestCsv(results)], { type: "text/csv" });
+      const zip = await createZip([
+        ...done.map((r) => ({ name: r.file as string, data: r.blob as Blob })),
+        { name: "manifest.json", data: manifest },
+        { name: "manifest.csv", data: csv }
+      ]);
+      onDownload(zip, "faceless-affiliate-variants.zip");
+    } finally {
+      setZipping(false);
+    }
+  };
+
+  const pending = results.filter((r) => r.status === "queued").length;
+  const finished = results.filter((r) => r.status === "done").length;
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+        <div>
+          <label className="label">Hooks (one per line)</label>
+          <textarea className="input h-24" placeholder={base.scene.productTitle} value={hooks} onChange={(e) => setHooks(e.target.value)} />
+        </div>
+        <div>
+          <label className="label">Calls to action (one per line)</label>
+          <textarea className="input h-24" placeholder={base.scene.cta} value={ctas} onChange={(e) => setCtas(e.target.value)} />
+        </div>
+        <div>
+          <label className="label">Brand colors</label>
+          <div className="flex flex-wrap items-center gap-2">
+            {colors.map((color, i) => (
+              <span key={i} className="inline-flex items-center gap-1">
+                <input
+                  type="color"
+                  value={color}
+                  onChange={(e) => setColors(colors.map((c, j) => (j === i ? e.target.value : c)))}
+                />
+                <button className="text-xs text-gray-500 underline" onClick={() => setColors(colors.filter((_, j) => j !== i))}>
+                  Remove
+                </button>
+              </span>
+            ))}
+            <button className="btn btn-secondary" onClick={() => setColors([...colors, base.scene.brand.palette.primary])}>
+              Add color
+            </button>
+          </div>
+        </div>
+        <div>
+          <label className="label">Slide orders (slide numbers, one order per line)</label>
+          <textarea className="input h-24" placeholder={Array.from({ length: slideCount }, (_, i) => i + 1).join(", ")} value={orders} onChange={(e) => setOrders(e.target.value)} />
+          {orderError && <p className="mt-1 text-sm text-red-600">{orderError}</p>}
+        </div>
+      </div>
+      <p className="text-xs text-gray-500">
+        Empty lists keep the project's own value. Reordered variants render without captions and voiceover, which are
+        timed to the edited order.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <span>{combinations} {combinations === 1 ? "combination" : "combinations"}</span>
+        <select
+          className="input w-auto"
+          value={sampling.mode}
+          onChange={(e) => setSampling({ ...sampling, mode: e.target.value as VariantSampling["mode"] })}
+        >
+          <option value="all">Render all</option>
+          <option value="sample">Sample</option>
+        </select>
+        {sampling.mode === "sample" && (
+          <>
+            <label className="inline-flex items-center gap-1">
+              Count
+              <input
+                className="input w-20"
+                type="number"
+                min={1}
+                max={MAX_VARIANTS}
+                value={sampling.count}
+                onChange={(e) => setSampling({ ...sampling, count: Math.max(1, Number(e.target.value) || 1) })}
+              />
+            </label>
+            <label className="inline-flex items-center gap-1">
+              Seed
+              <input
+                className="input w-20"
+                type="number"
+                value={sampling.seed}
+                onChange={(e) => setSampling({ ...sampling, seed: Math.trunc(Number(e.target.value)) || 0 })}
+              />
+            </label>
+          </>
+        )}
+        <label className="inline-flex items-center gap-2">
+          <input type="checkbox" checked={tag} onChange={(e) => setTag(e.target.checked)} />
+          Variant ID on frame
+        </label>
+        <button className="btn btn-secondary disabled:opacity-50" disabled={running || orderError !== null} onClick={generate}>
+          Generate variants
+        </button>
+      </div>
+      {sampling.mode === "all" && combinations > MAX_VARIANTS && (
+        <p className="text-xs text-amber-600">Only the first {MAX_VARIANTS} render; sample to test a spread of them instead.</p>
+      )}
+
+      {results.length > 0 && (
+        <div className="max-h-72 overflow-y-auto rounded border border-gray-200">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-gray-50 text-xs text-gray-500">
+              <tr>
+                <th className="px-2 py-1">Variant</th>
+                <th className="px-2 py-1">Hook · CTA</th>
+                <th className="px-2 py-1">Color</th>
+                <th className="px-2 py-1">Order</th>
+                <th className="px-2 py-1">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.map((r) => (
+                <tr key={r.variant.id} className="border-t border-gray-100">
+                  <td className="px-2 py-1 font-mono text-xs">{r.variant.id}</td>
+                  <td className="px-2 py-1">
+                    <div className="truncate">{r.variant.hook || "Untitled"}</div>
+                    <div className="truncate text-xs text-gray-500">{r.variant.cta}</div>
+                  </td>
+                  <td className="px-2 py-1">
+                    <span className="inline-block h-4 w-4 rounded border" style={{ background: r.variant.color }} />
+                  </td>
+                  <td className="px-2 py-1 tabular-nums text-gray-500">{r.variant.order.join(" ")}</td>
+                  <td className={`px-2 py-1 ${STATUS_STYLES[r.status]}`}>
+                    {r.status === "done" ? `${r.file} · ${r.seconds.toFixed(1)}s` : r.error ?? r.status}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      <div className="flex flex-wrap items-center gap-3">
+        {!running ? (
+          <button className="btn btn-primary disabled:opacity-50" disabled={pending === 0 || blocked} onClick={run}>
+            Render {pending} {pending === 1 ? "variant" : "variants"}
+          </button>
+        ) : (
+          <button className="btn btn-secondary" onClick={() => (stopRef.current = true)}>
+            Stop after current
+          </button>
+        )}
+        <button
+          className="btn btn-secondary disabled:opacity-50"
+          disabled={running || zipping || finished === 0}
+          onClick={downloadZip}
+        >
+          {zipping ? "Zipping..." : `Download ZIP (${finished})`}
+        </button>
+        {blocked && !running && <span className="text-xs text-red-600">Fix the preflight errors above first.</span>}
+      </div>
+    </div>
+  );
+}
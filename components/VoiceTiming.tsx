@@ -0,0 +1,113 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { decodeAudioFile } from "../lib/audio";
+import { detectPhrases, placePhrases, timeSlidesToPhrases, type Phrase } from "../lib/phrases";
+import type { AudioMix, Slide } from "../lib/types";
+
+type Analysis = {
+  phrases: Phrase[];
+  proposal: Slide[];
+};
+
+// Proposes slide durations from the pauses in the voiceover. Nothing changes
+// until the proposal is applied, and the applied durations stay editable in
+// the timeline.
+export default function VoiceTiming({
+  slides,
+  voice,
+  mix,
+  onApply
+}: {
+  slides: Slide[];
+  voice: File;
+  mix: AudioMix;
+  onApply: (slides: Slide[]) => void;
+}) {
+  const [analysis, setAnalysis] = useState<Analysis | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // A new recording or different trim invalidates the proposal.
+  useEffect(() => setAnalysis(null), [voice, mix.voiceOffset, mix.voiceTrimStart, mix.voiceTrimEnd]);
+
+  const analyze = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const buffer = await decodeAudioFile(new OfflineAudioContext(1, 1, 44100), voice);
+      const phrases = placePhrases(detectPhrases(buffer), mix, buffer.duration);
+      if (phrases.length === 0) throw new Error("No speech found in the voiceover");
+      setAnalysis({ phrases, proposal: timeSlidesToPhrases(slides, phrases) });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not analyse the voiceover");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const total = analysis ? analysis.proposal.reduce((sum, s) => sum + s.duration, 0) : 0;
+  let start = 0;
+
+  return (
+    <div className="space-y-2 rounded-md border border-dashed border-gray-300 p-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <button className="btn btn-secondary disabled:opacity-50" disabled={busy} onClick={analyze}>
+          {busy ? "Listening..." : "Time slides to voiceover"}
+        </button>
+        {analysis && (
+          <>
+            <span className="text-xs text-gray-500">
+              {analysis.phrases.length} phrases · {total.toFixed(1)}s
+            </span>
+            <button
+              className="btn btn-primary"
+              onClick={() => {
+                const durations = new Map(analysis.proposal.map((p) => [p.id, p.duration]));
+                onApply(slides.map((s) => ({ ...s, duration: durations.get(s.id) ?? s.duration })));
+                setAnalysis(null);
+              }}
+            >
+              Apply timings
+            </button>
+            <button className="btn btn-secondary" onClick={() => setAnalysis(null)}>Discard</button>
+          </>
+        )}
+        {error && <span className="text-sm text-red-600">{error}</span>}
+      </div>
+      {analysis && (
+        <>
+          <div className="relative h-6 overflow-hidden rounded bg-gray-100">
+            {analysis.phrases.map((p, i) => (
+              <div
+                key={i}
+                className="absolute top-1 bottom-1 rounded-sm bg-emerald-400"
+                style={{ left: `${(p.start / total) * 100}%`, width: `${((p.end - p.start) / total) * 100}%` }}
+              />
+            ))}
+            {analysis.proposal.slice(0, -1).map((slide) => {
+              start += slide.duration;
+              return (
+                <div
+                  key={slide.id}
+                  className="absolute top-0 bottom-0 w-0.5 bg-gray-800"
+                  style={{ left: `${(start / total) * 100}%` }}
+                />
+              );
+            })}
+          </div>
+          <ol className="space-y-0.5 text-xs text-gray-600">
+            {analysis.proposal.map((slide, i) => (
+              <li key={slide.id} className="flex justify-between gap-3">
+                <span className="truncate">{slide.text || "Untitled"}</span>
+                <span className="shrink-0 tabular-nums">
+                  {slides[i]?.duration.toFixed(1) ?? "–"}s → {slide.duration.toFixed(1)}s
+                </span>
+              </li>
+            ))}
+          </ol>
+        </>
+      )}
+    </div>
+  );
+}
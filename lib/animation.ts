@@ -0,0 +1,154 @@
+import { drawImageContain, drawImageCover } from "./canvas";
+import type { Scene, SlideView } from "./draw";
+import { clamp01, ease, easeOutCubic, EASINGS, type EasingName } from "./easing";
+import type { ElementAnimations, Framing, KenBurns, TextAnimation } from "./types";
+
+export type AnimatedElement = keyof ElementAnimations;
+
+export const TEXT_ANIMATION_LABELS: Record<TextAnimation, string> = {
+  none: "None",
+  slide: "Slide in",
+  "fade-up": "Fade up",
+  pop: "Pop",
+  typewriter: "Typewriter"
+};
+
+export const DEFAULT_ANIMATIONS: ElementAnimations = { title: "slide", text: "none", cta: "none" };
+
+export const KEN_BURNS_PRESETS: Record<string, KenBurns | null> = {
+  none: null,
+  "zoom-in": { from: { zoom: 1, x: 0.5, y: 0.5 }, to: { zoom: 1.25, x: 0.5, y: 0.5 }, easing: "easeInOutSine" },
+  "zoom-out": { from: { zoom: 1.25, x: 0.5, y: 0.5 }, to: { zoom: 1, x: 0.5, y: 0.5 }, easing: "easeInOutSine" },
+  "pan-left": { from: { zoom: 1.2, x: 0.65, y: 0.5 }, to: { zoom: 1.2, x: 0.35, y: 0.5 }, easing: "linear" },
+  "pan-right": { from: { zoom: 1.2, x: 0.35, y: 0.5 }, to: { zoom: 1.2, x: 0.65, y: 0.5 }, easing: "linear" }
+};
+
+// Fills in unknown entrances, e.g. from a project file.
+export function normalizeAnimations(value: unknown): ElementAnimations {
+  const data = value && typeof value === "object" ? (value as Partial<Record<AnimatedElement, unknown>>) : {};
+  const pick = (element: AnimatedElement) =>
+    (Object.keys(TEXT_ANIMATION_LABELS) as TextAnimation[]).find((id) => id === data[element]) ?? DEFAULT_ANIMATIONS[element];
+  return { title: pick("title"), text: pick("text"), cta: pick("cta") };
+}
+
+function normalizeFraming(value: unknown): Framing | null {
+  if (!value || typeof value !== "object") return null;
+  const { zoom, x, y } = value as Partial<Record<keyof Framing, unknown>>;
+  if (![zoom, x, y].every((n) => typeof n === "number" && Number.isFinite(n))) return null;
+  return { zoom: Math.min(3, Math.max(1, zoom as number)), x: clamp01(x as number), y: clamp01(y as number) };
+}
+
+// A Ken Burns move from a project file, or undefined for anything else.
+export function normalizeKenBurns(value: unknown): KenBurns | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const data = value as Partial<Record<keyof KenBurns, unknown>>;
+  const from = normalizeFraming(data.from);
+  const to = normalizeFraming(data.to);
+  if (!from || !to) return undefined;
+  const easing = (Object.keys(EASINGS) as EasingName[]).find((id) => id === data.easing) ?? "linear";
+  return { from, to, easing };
+}
+
+// Each element starts a little later than the one above it, as a fraction
+// of the slide. Entrances complete by 5/6 of the slide.
+const STAGGER: Record<AnimatedElement, number> = { title: 0, text: 0.12, cta: 0.24 };
+
+export function entranceProgress(slide: SlideView, element: AnimatedElement) {
+  return clamp01(slide.progress * 1.2 - STAGGER[element]);
+}
+
+// Applies an entrance at `t` (0..1) to the context; `unit` is how far
+// "fade-up" travels. Typewriter entrances are up to the text; see `typedText`.
+export function applyEntrance(
+  ctx: CanvasRenderingContext2D,
+  animation: TextAnimation,
+  t: number,
+  cx: number,
+  cy: number,
+  unit: number
+) {
+  switch (animation) {
+    case "slide":
+      ctx.translate(0, (1 - easeOutCubic(t)) * 16);
+      break;
+    case "fade-up": {
+      const e = easeOutCubic(t);
+      ctx.globalAlpha *= e;
+      ctx.translate(0, (1 - e) * unit);
+      break;
+    }
+    case "pop": {
+      const scale = Math.max(0.01, ease("easeOutBack", t));
+      ctx.globalAlpha *= clamp01(t * 3);
+      ctx.translate(cx, cy);
+      ctx.scale(scale, scale);
+      ctx.translate(-cx, -cy);
+      break;
+    }
+  }
+}
+
+export function typedText(text: string, animation: TextAnimation, t: number) {
+  if (animation !== "typewriter") return text;
+  const chars = Array.from(text);
+  return chars.slice(0, Math.ceil(chars.length * t)).join("");
+}
+
+// Runs `draw` with the element's entrance applied. (cx, cy) is the point the
+// element pops from; `draw` receives the text visible at this moment.
+export function drawEntrance(
+  ctx: CanvasRenderingContext2D,
+  scene: Scene,
+  slide: SlideView,
+  element: AnimatedElement,
+  text: string,
+  cx: number,
+  cy: number,
+  draw: (visible: string) => void
+) {
+  const animation = scene.animations[element];
+  const t = entranceProgress(slide, element);
+  ctx.save();
+  applyEntrance(ctx, animation, t, cx, cy, scene.height * 0.03);
+  draw(typedText(text, animation, t));
+  ctx.restore();
+}
+
+export function framingAt(kenBurns: KenBurns, t: number): Framing {
+  const e = ease(kenBurns.easing, t);
+  const lerp = (a: number, b: number) => a + (b - a) * e;
+  return {
+    zoom: lerp(kenBurns.from.zoom, kenBurns.to.zoom),
+    x: lerp(kenBurns.from.x, kenBurns.to.x),
+    y: lerp(kenBurns.from.y, kenBurns.to.y)
+  };
+}
+
+// Draws the slide's current image into the box with its Ken Burns move.
+// Photos fill the box around their focal point; cutouts are fitted whole,
+// floating over the template on a soft drop shadow.
+export function drawSlideImage(
+  ctx: CanvasRenderingContext2D,
+  slide: SlideView,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+) {
+  const { image } = slide;
+  if (!image) return;
+  ctx.save();
+  ctx.globalAlpha *= image.opacity;
+  if (image.cutout) {
+    const size = Math.min(width, height);
+    ctx.shadowColor = "rgba(0,0,0,0.45)";
+    ctx.shadowBlur = size * 0.06;
+    ctx.shadowOffsetY = size * 0.03;
+    const zoom = slide.kenBurns ? framingAt(slide.kenBurns, slide.progress).zoom : 1;
+    drawImageContain(ctx, image.image, x, y, width, height, zoom);
+  } else {
+    const framing = slide.kenBurns ? framingAt(slide.kenBurns, slide.progress) : { zoom: 1, ...image.focus };
+    drawImageCover(ctx, image.image, x, y, width, height, framing);
+  }
+  ctx.restore();
+}
@@ -0,0 +1,98 @@
+import { crc32 } from "./zip";
+
+// Animated PNG encoder: full color, looping. Scanlines use the "sub" filter
+// and are deflated with the browser's CompressionStream, whose "deflate"
+// format is the zlib stream PNG expects.
+
+const SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+}
+
+function fields(size: number, write: (view: DataView) => void) {
+  const data = new Uint8Array(size);
+  write(new DataView(data.buffer));
+  return data;
+}
+
+// Each row gets filter byte 1 ("sub"): every byte minus the one a pixel to
+// its left, which compresses smooth gradients much better than raw bytes.
+function filterRows(data: Uint8ClampedArray, width: number, height: number) {
+  const stride = width * 4;
+  const out = new Uint8Array((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const row = y * (stride + 1);
+    out[row] = 1;
+    for (let x = 0; x < stride; x++) {
+      const i = y * stride + x;
+      out[row + 1 + x] = data[i] - (x >= 4 ? data[i - 4] : 0);
+    }
+  }
+  return out;
+}
+
+async function deflate(bytes: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(new CompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// Encodes `frames` (RGBA, as from `getImageData`) as a looping APNG shown at
+// `fps`. Delays are whole milliseconds, rounded so the total length is kept.
+export async function encodeApng(frames: Uint8ClampedArray[], width: number, height: number, fps: number): Promise<Blob> {
+  const parts: Uint8Array[] = [new Uint8Array(SIGNATURE)];
+  parts.push(
+    chunk(
+      "IHDR",
+      fields(13, (v) => {
+        v.setUint32(0, width);
+        v.setUint32(4, height);
+        v.setUint8(8, 8);
+        v.setUint8(9, 6); // RGBA
+      })
+    )
+  );
+  parts.push(
+    chunk(
+      "acTL",
+      fields(8, (v) => {
+        v.setUint32(0, frames.length);
+        v.setUint32(4, 0); // loop forever
+      })
+    )
+  );
+
+  let sequence = 0;
+  for (let f = 0; f < frames.length; f++) {
+    const delay = Math.round(((f + 1) * 1000) / fps) - Math.round((f * 1000) / fps);
+    parts.push(
+      chunk(
+        "fcTL",
+        fields(26, (v) => {
+          v.setUint32(0, sequence++);
+          v.setUint32(4, width);
+          v.setUint32(8, height);
+          v.setUint16(20, delay);
+          v.setUint16(22, 1000);
+        })
+      )
+    );
+    const compressed = await deflate(filterRows(frames[f], width, height));
+    if (f === 0) {
+      parts.push(chunk("IDAT", compressed));
+    } else {
+      const data = new Uint8Array(4 + compressed.length);
+      new DataView(data.buffer).setUint32(0, sequence++);
+      data.set(compressed, 4);
+      parts.push(chunk("fdAT", data));
+    }
+  }
+  parts.push(chunk("IEND", new Uint8Array(0)));
+  return new Blob(parts as BlobPart[], { type: "image/apng" });
+}
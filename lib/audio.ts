@@ -0,0 +1,244 @@
+import { clipRange } from "./clips";
+import { integratedLoudness } from "./loudness";
+import { createGeneratedMusic } from "./music";
+import type { AudioMix, Clip, MusicSettings } from "./types";
+
+export const MUSIC_GAIN = 0.15;
+export const VOICE_GAIN = 0.9;
+export const CLIP_GAIN = 0.8;
+
+// The generated score, or the uploaded track looped to fill the video.
+export type MusicSource = {
+  settings: MusicSettings;
+  track: Blob | null;
+};
+
+export async function createMusic(ctx: BaseAudioContext, source: MusicSource, seconds: number): Promise<AudioNode> {
+  if (source.settings.source === "upload" && source.track) {
+    const node = ctx.createBufferSource();
+    node.buffer = await decodeAudioFile(ctx, source.track);
+    node.loop = true;
+    node.start(ctx.currentTime);
+    return node;
+  }
+  return createGeneratedMusic(ctx, source.settings, seconds);
+}
+
+export async function decodeAudioFile(context: BaseAudioContext, file: Blob): Promise<AudioBuffer> {
+  return context.decodeAudioData(await file.arrayBuffer());
+}
+
+export const DEFAULT_MIX: AudioMix = {
+  musicVolume: MUSIC_GAIN,
+  musicMuted: false,
+  voiceVolume: VOICE_GAIN,
+  voiceMuted: false,
+  clipVolume: CLIP_GAIN,
+  clipMuted: false,
+  duckDb: -10,
+  voiceOffset: 0,
+  voiceTrimStart: 0,
+  voiceTrimEnd: 0,
+  fadeIn: 0,
+  fadeOut: 0,
+  normalize: false,
+  targetLufs: -14
+};
+
+// Fills in fields missing from mixes saved before they existed, and drops
+// values of the wrong type, e.g. from a project file.
+export function normalizeMix(value: unknown): AudioMix {
+  const data = value && typeof value === "object" ? (value as Partial<Record<keyof AudioMix, unknown>>) : {};
+  const mix: Record<string, unknown> = { ...DEFAULT_MIX };
+  for (const key of Object.keys(DEFAULT_MIX) as (keyof AudioMix)[]) {
+    const field = data[key];
+    if (typeof field === typeof DEFAULT_MIX[key] && (typeof field !== "number" || Number.isFinite(field))) mix[key] = field;
+  }
+  return mix as AudioMix;
+}
+
+// Sidechain envelope: the follower tracks the voice level quickly but lets
+// go slowly so the music stays down between words.
+const DUCK_THRESHOLD = 0.02;
+const FOLLOW_ATTACK_SECONDS = 0.01;
+const FOLLOW_RELEASE_SECONDS = 0.25;
+const DUCK_ATTACK_SECONDS = 0.05;
+const DUCK_RELEASE_SECONDS = 0.4;
+const NORMALIZE_PEAK = Math.pow(10, -1 / 20);
+
+// A video clip's sound on the timeline: it starts at `at` seconds and plays
+// for `seconds`, trimmed, sped up and looped like the clip's picture.
+export type ClipAudio = {
+  file: Blob;
+  clip: Clip;
+  at: number;
+  seconds: number;
+};
+
+export type AudioRenderOptions = {
+  seconds: number;
+  sampleRate: number;
+  numberOfChannels: number;
+  music: MusicSource | null;
+  voice: Blob | null;
+  clips: ClipAudio[];
+  mix: AudioMix;
+};
+
+// Each track placed on the video timeline with its volume (and, for music,
+// ducking) applied. `voiceEnd` is where the voiceover stops, which may be
+// past the end of the video.
+export type AudioTracks = {
+  music: AudioBuffer | null;
+  voice: AudioBuffer | null;
+  clips: AudioBuffer | null;
+  voiceEnd: number;
+};
+
+function coefficient(seconds: number, sampleRate: number) {
+  return 1 - Math.exp(-1 / (seconds * sampleRate));
+}
+
+function channels(buffer: AudioBuffer) {
+  return Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+}
+
+function duck(music: AudioBuffer, voice: AudioBuffer, duckDb: number) {
+  const rate = music.sampleRate;
+  const floor = Math.pow(10, duckDb / 20);
+  const followAttack = coefficient(FOLLOW_ATTACK_SECONDS, rate);
+  const followRelease = coefficient(FOLLOW_RELEASE_SECONDS, rate);
+  const duckAttack = coefficient(DUCK_ATTACK_SECONDS, rate);
+  const duckRelease = coefficient(DUCK_RELEASE_SECONDS, rate);
+  const side = channels(voice);
+  const target = channels(music);
+  let envelope = 0;
+  let gain = 1;
+  for (let i = 0; i < music.length; i++) {
+    let level = 0;
+    for (const data of side) level = Math.max(level, Math.abs(data[i]));
+    envelope += (level > envelope ? followAttack : followRelease) * (level - envelope);
+    const goal = envelope > DUCK_THRESHOLD ? floor : 1;
+    gain += (goal < gain ? duckAttack : duckRelease) * (goal - gain);
+    for (const data of target) data[i] *= gain;
+  }
+}
+
+// All clip sound on one track. Clips without an audio stream are skipped.
+async function renderClipTrack(options: AudioRenderOptions, length: number): Promise<AudioBuffer | null> {
+  const { mix, sampleRate, numberOfChannels } = options;
+  const ctx = new OfflineAudioContext(numberOfChannels, length, sampleRate);
+  const master = ctx.createGain();
+  master.gain.value = mix.clipVolume;
+  master.connect(ctx.destination);
+  const decoded = new Map<Blob, Promise<AudioBuffer | null>>();
+  let placed = 0;
+  for (const { file, clip, at, seconds } of options.clips) {
+    if (!decoded.has(file)) decoded.set(file, decodeAudioFile(ctx, file).catch(() => null));
+    const buffer = await decoded.get(file);
+    if (!buffer || at >= options.seconds) continue;
+    const { start, end } = clipRange(clip, buffer.duration);
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.playbackRate.value = clip.rate;
+    source.loop = true;
+    source.loopStart = start;
+    source.loopEnd = end;
+    const gain = ctx.createGain();
+    gain.gain.value = clip.volume;
+    source.connect(gain).connect(master);
+    source.start(at, start);
+    source.stop(at + seconds);
+    placed++;
+  }
+  return placed > 0 ? ctx.startRendering() : null;
+}
+
+export async function renderAudioTracks(options: AudioRenderOptions): Promise<AudioTracks> {
+  const { mix, sampleRate, numberOfChannels } = options;
+  const length = Math.max(1, Math.ceil(options.seconds * sampleRate));
+
+  let music: AudioBuffer | null = null;
+  if (options.music && !mix.musicMuted) {
+    const ctx = new OfflineAudioContext(numberOfChannels, length, sampleRate);
+    const gain = ctx.createGain();
+    gain.gain.value = mix.musicVolume;
+    (await createMusic(ctx, options.music, options.seconds)).connect(gain).connect(ctx.destination);
+    music = await ctx.startRendering();
+  }
+
+  let voice: AudioBuffer | null = null;
+  let voiceEnd = 0;
+  if (options.voice && !mix.voiceMuted) {
+    const ctx = new OfflineAudioContext(numberOfChannels, length, sampleRate);
+    const source = ctx.createBufferSource();
+    source.buffer = await decodeAudioFile(ctx, options.voice);
+    const trimStart = Math.min(mix.voiceTrimStart, source.buffer.duration);
+    const duration = Math.max(0, source.buffer.duration - trimStart - mix.voiceTrimEnd);
+    const gain = ctx.createGain();
+    gain.gain.value = mix.voiceVolume;
+    source.connect(gain).connect(ctx.destination);
+    if (duration > 0) source.start(Math.max(0, mix.voiceOffset), trimStart, duration);
+    voice = await ctx.startRendering();
+    voiceEnd = Math.max(0, mix.voiceOffset) + duration;
+  }
+
+  const clips = options.clips.length > 0 && !mix.clipMuted ? await renderClipTrack(options, length) : null;
+
+  if (music && voice && mix.duckDb < 0) duck(music, voice, mix.duckDb);
+  return { music, voice, clips, voiceEnd };
+}
+
+// Sums the tracks, applies loudness normalization and then the master fades.
+export function mixTracks(tracks: AudioTracks, options: AudioRenderOptions): AudioBuffer {
+  const { mix, sampleRate, numberOfChannels } = options;
+  const length = Math.max(1, Math.ceil(options.seconds * sampleRate));
+  const out = new AudioBuffer({ length, sampleRate, numberOfChannels });
+  const master = channels(out);
+  for (const track of [tracks.music, tracks.voice, tracks.clips]) {
+    if (!track) continue;
+    const data = channels(track);
+    master.forEach((channel, c) => {
+      const source = data[Math.min(c, data.length - 1)];
+      for (let i = 0; i < length; i++) channel[i] += source[i] ?? 0;
+    });
+  }
+
+  if (mix.normalize) {
+    const loudness = integratedLoudness(master, sampleRate);
+    if (Number.isFinite(loudness)) {
+      let peak = 0;
+      for (const channel of master) for (let i = 0; i < length; i++) peak = Math.max(peak, Math.abs(channel[i]));
+      // Never push peaks past -1 dBFS to reach the target.
+      const gain = Math.min(Math.pow(10, (mix.targetLufs - loudness) / 20), NORMALIZE_PEAK / Math.max(peak, 1e-9));
+      for (const channel of master) for (let i = 0; i < length; i++) channel[i] *= gain;
+    }
+  }
+
+  const fadeIn = Math.round(Math.max(0, mix.fadeIn) * sampleRate);
+  const fadeOut = Math.round(Math.max(0, mix.fadeOut) * sampleRate);
+  for (const channel of master) {
+    for (let i = 0; i < Math.min(fadeIn, length); i++) channel[i] *= i / fadeIn;
+    for (let i = 0; i < Math.min(fadeOut, length); i++) channel[length - 1 - i] *= i / fadeOut;
+  }
+  return out;
+}
+
+// Mixes music, voiceover and clip sound faster than real time. The result has exactly
+// `seconds` of audio so it lines up with the rendered frames.
+export async function renderAudioOffline(options: AudioRenderOptions): Promise<AudioBuffer> {
+  return mixTracks(await renderAudioTracks(options), options);
+}
+
+// Peak level per bucket, for drawing waveforms.
+export function waveformPeaks(buffer: AudioBuffer, buckets: number): Float32Array {
+  const peaks = new Float32Array(buckets);
+  const size = buffer.length / buckets;
+  for (const data of channels(buffer)) {
+    for (let b = 0; b < buckets; b++) {
+      const end = Math.min(data.length, Math.floor((b + 1) * size));
+      for (let i = Math.floor(b * size); i < end; i++) peaks[b] = Math.max(peaks[b], Math.abs(data[i]));
+    }
+  }
+  return peaks;
+}
@@ -0,0 +1,113 @@
+import { withBrandColor } from "./brand";
+import { loadImage } from "./canvas";
+import { sceneTotalFrames, toSceneSlides, type Scene } from "./draw";
+import type { FeedItem } from "./feed";
+import { fillCode } from "./links";
+import { assertPreflight, type PreflightIssue } from "./preflight";
+import { renderVideoFile, type RenderJob, type RenderResult } from "./render";
+import { assignImages, replaceBenefits } from "./slides";
+import type { Slide, UploadedImage } from "./types";
+
+// Everything a batch item inherits from the open project. Product fields,
+// slides, captions and the voiceover come from the feed item instead.
+export type BatchBase = Omit<RenderJob, "scene" | "voice"> & {
+  scene: Scene;
+  slides: Slide[];
+  defaultDuration: number;
+};
+
+export type BatchStatus = "queued" | "rendering" | "done" | "error";
+
+export type BatchResult = {
+  item: FeedItem;
+  status: BatchStatus;
+  file: string | null;
+  blob: Blob | null;
+  seconds: number;
+  error: string | null;
+};
+
+// Feeds may reference images by path or URL; only the file name counts.
+export function imageKey(reference: string) {
+  const name = reference.split(/[?#]/)[0].split(/[\\/]/).pop() ?? "";
+  return decodeURIComponent(name).toLowerCase();
+}
+
+export function slug(text: string) {
+  return (
+    text
+      .toLowerCase()
+      .normalize("NFKD")
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "")
+      .slice(0, 48) || "video"
+  );
+}
+
+export function batchFileName(item: FeedItem, format: string) {
+  return `${String(item.row).padStart(3, "0")}-${slug(item.title)}.${format}`;
+}
+
+// `check` runs preflight on the item's scene; errors fail the item.
+export async function renderBatchItem(
+  base: BatchBase,
+  item: FeedItem,
+  files: Map<string, File>,
+  check?: (scene: Scene) => PreflightIssue[]
+): Promise<RenderResult & { seconds: number }> {
+  const missing = item.images.filter((ref) => !files.has(imageKey(ref)));
+  if (missing.length > 0) throw new Error(`Image not found: ${missing.join(", ")}`);
+
+  const images: UploadedImage[] = item.images.map((ref, i) => {
+    const file = files.get(imageKey(ref))!;
+    return { id: `image-${i + 1}`, file, url: URL.createObjectURL(file) };
+  });
+  try {
+    for (const image of images) image.element = await loadImage(image.url);
+    const slides = assignImages(
+      replaceBenefits(base.slides, item.benefits, base.defaultDuration).map((s) => ({ ...s, imageIds: [] })),
+      images.map((img) => img.id)
+    );
+    const { brand } = base.scene;
+    const scene: Scene = {
+      ...base.scene,
+      productTitle: item.title,
+      subtitle: item.subtitle,
+      cta: item.cta ? fillCode(item.cta, base.scene.link) : base.scene.cta,
+      brand: item.brandColor ? { ...brand, palette: withBrandColor(brand.palette, item.brandColor) } : brand,
+      captions: [],
+      slides: toSceneSlides(slides, images)
+    };
+    if (check) assertPreflight(check(scene));
+    const result = await renderVideoFile({
+      scene,
+      fps: base.fps,
+      music: base.music,
+      voice: null,
+      mix: base.mix,
+      format: base.format
+    });
+    return { ...result, seconds: sceneTotalFrames(scene, base.fps) / base.fps };
+  } finally {
+    images.forEach((img) => URL.revokeObjectURL(img.url));
+  }
+}
+
+export function batchManifest(base: BatchBase, results: BatchResult[]) {
+  return {
+    generatedAt: new Date().toISOString(),
+    template: base.scene.templateId,
+    width: base.scene.width,
+    height: base.scene.height,
+    format: base.format,
+    link: base.scene.link && { url: base.scene.link.url, variant: base.scene.link.variant, code: base.scene.link.code },
+    items: results.map((r) => ({
+      row: r.item.row,
+      title: r.item.title,
+      status: r.status,
+      file: r.file,
+      seconds: r.seconds,
+      error: r.error
+    }))
+  };
+}
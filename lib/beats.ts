@@ -0,0 +1,72 @@
+// Tempo and beat phase estimation for uploaded music. Onsets come from
+// rises in short-time energy; the tempo is the autocorrelation peak of that
+// onset curve within a plausible BPM range, and the phase is the offset
+// whose beat grid lands on the most onset energy.
+
+const HOP_SECONDS = 0.01;
+const ANALYSIS_SECONDS = 60;
+const MIN_BPM = 70;
+const MAX_BPM = 180;
+// Octave errors are common, so tempos near this are preferred.
+const PREFERRED_BPM = 120;
+
+export type BeatGrid = {
+  bpm: number;
+  offset: number;
+};
+
+function onsetCurve(buffer: AudioBuffer): Float32Array {
+  const hop = Math.max(1, Math.round(buffer.sampleRate * HOP_SECONDS));
+  const length = Math.min(buffer.length, Math.round(ANALYSIS_SECONDS * buffer.sampleRate));
+  const frames = Math.floor(length / hop);
+  const energy = new Float32Array(frames);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let f = 0; f < frames; f++) {
+      let sum = 0;
+      for (let i = f * hop; i < (f + 1) * hop; i++) sum += data[i] * data[i];
+      energy[f] += sum;
+    }
+  }
+  const onsets = new Float32Array(frames);
+  for (let f = 1; f < frames; f++) {
+    onsets[f] = Math.max(0, Math.log1p(energy[f] * 1000) - Math.log1p(energy[f - 1] * 1000));
+  }
+  return onsets;
+}
+
+export function detectBeats(buffer: AudioBuffer): BeatGrid | null {
+  const onsets = onsetCurve(buffer);
+  const minLag = Math.floor(60 / MAX_BPM / HOP_SECONDS);
+  const maxLag = Math.ceil(60 / MIN_BPM / HOP_SECONDS);
+  if (onsets.length < maxLag * 4) return null;
+
+  const scores: number[] = [];
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let sum = 0;
+    for (let i = lag; i < onsets.length; i++) sum += onsets[i] * onsets[i - lag];
+    const bpm = 60 / (lag * HOP_SECONDS);
+    const prior = Math.exp(-0.5 * Math.pow(Math.log2(bpm / PREFERRED_BPM), 2));
+    scores.push((sum / (onsets.length - lag)) * prior);
+  }
+  const best = scores.indexOf(Math.max(...scores));
+  if (!(scores[best] > 0)) return null;
+
+  // Parabolic interpolation between neighbouring lags for a fractional period.
+  const left = scores[best - 1] ?? scores[best];
+  const right = scores[best + 1] ?? scores[best];
+  const curve = left - 2 * scores[best] + right;
+  const lag = minLag + best + (curve < 0 ? (0.5 * (left - right)) / curve : 0);
+
+  let phase = 0;
+  let phaseScore = -1;
+  for (let p = 0; p < Math.ceil(lag); p++) {
+    let sum = 0;
+    for (let t = p; t < onsets.length; t += lag) sum += onsets[Math.round(t)] ?? 0;
+    if (sum > phaseScore) {
+      phaseScore = sum;
+      phase = p;
+    }
+  }
+  return { bpm: 60 / (lag * HOP_SECONDS), offset: phase * HOP_SECONDS };
+}
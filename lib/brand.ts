@@ -0,0 +1,216 @@
+import { decodeBundle, encodeBundle, type BundleAsset } from "./bundle";
+import { FONT_STACK, registerFont } from "./canvas";
+
+// A brand kit bundles the palette, fonts, logo and watermark a team renders
+// with. Kits are kept in the browser, embedded in saved projects so a render
+// elsewhere looks the same, and shared as `.favbrand` files.
+
+export const BRAND_FILE_EXTENSION = ".favbrand";
+
+const MAGIC = "FAVB";
+
+export type BrandPalette = {
+  // Solid brand surfaces.
+  primary: string;
+  // CTA text, list numbers and the highlighted caption word.
+  accent: string;
+  // Headlines and body copy.
+  text: string;
+  // Background gradients, from start to end.
+  gradient: [string, string];
+};
+
+export type LogoPlacement = "top-left" | "top-right" | "bottom-left" | "bottom-right";
+
+export type WatermarkKind = "none" | "text" | "image";
+
+export type BrandKit = {
+  id: string;
+  name: string;
+  palette: BrandPalette;
+  headingFont: BundleAsset | null;
+  bodyFont: BundleAsset | null;
+  logo: BundleAsset | null;
+  logoPlacement: LogoPlacement;
+  logoOpacity: number;
+  // Logo width as a fraction of the frame's short side.
+  logoSize: number;
+  watermark: WatermarkKind;
+  watermarkText: string;
+  watermarkImage: BundleAsset | null;
+  watermarkOpacity: number;
+};
+
+export type BrandAssetFields = Pick<BrandKit, "headingFont" | "bodyFont" | "logo" | "watermarkImage">;
+
+// Decoded kit assets. Font families are only set once the font has loaded.
+export type LoadedBrandAssets = {
+  headingFamily: string | null;
+  bodyFamily: string | null;
+  logo: HTMLImageElement | null;
+  watermarkImage: HTMLImageElement | null;
+};
+
+// What drawing code sees of the kit: fonts as CSS font-family lists.
+export type SceneBrand = {
+  palette: BrandPalette;
+  fonts: { heading: string; body: string };
+  logo: { image: HTMLImageElement; placement: LogoPlacement; opacity: number; size: number } | null;
+  watermark: { text: string; image: HTMLImageElement | null; opacity: number } | null;
+};
+
+export const LOGO_PLACEMENTS: LogoPlacement[] = ["top-left", "top-right", "bottom-left", "bottom-right"];
+
+const WATERMARK_KINDS: WatermarkKind[] = ["none", "text", "image"];
+
+const ASSET_FIELDS = ["headingFont", "bodyFont", "logo", "watermarkImage"] as const;
+
+export const DEFAULT_BRAND_KIT: BrandKit = {
+  id: "default",
+  name: "Default",
+  palette: { primary: "#3B82F6", accent: "#3B82F6", text: "#ffffff", gradient: ["#3B82F6", "#111827"] },
+  headingFont: null,
+  bodyFont: null,
+  logo: null,
+  logoPlacement: "top-right",
+  logoOpacity: 0.9,
+  logoSize: 0.16,
+  watermark: "text",
+  watermarkText: "#affiliate",
+  watermarkImage: null,
+  watermarkOpacity: 0.7
+};
+
+export const NO_BRAND_ASSETS: LoadedBrandAssets = { headingFamily: null, bodyFamily: null, logo: null, watermarkImage: null };
+
+const isColor = (value: unknown): value is string => typeof value === "string" && /^#[0-9a-f]{6}$/i.test(value);
+
+function isAsset(value: unknown): value is BundleAsset {
+  if (!value || typeof value !== "object") return false;
+  const { id, blob } = value as Partial<Record<keyof BundleAsset, unknown>>;
+  return typeof id === "string" && blob instanceof Blob;
+}
+
+const record = (value: unknown) => (value && typeof value === "object" ? (value as Record<string, unknown>) : {});
+
+function fraction(value: unknown, fallback: number) {
+  return typeof value === "number" && Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : fallback;
+}
+
+// Fills in anything missing or malformed from the default kit, so kits from
+// older files and other editors always draw.
+export function normalizeBrandKit(value: unknown): BrandKit {
+  const base = DEFAULT_BRAND_KIT;
+  if (!value || typeof value !== "object") return base;
+  const data = record(value);
+  const palette = record(data.palette);
+  const gradient: unknown[] = Array.isArray(palette.gradient) ? palette.gradient : [];
+  return {
+    id: typeof data.id === "string" && data.id ? data.id : base.id,
+    name: typeof data.name === "string" && data.name ? data.name : base.name,
+    palette: {
+      primary: isColor(palette.primary) ? palette.primary : base.palette.primary,
+      accent: isColor(palette.accent) ? palette.accent : base.palette.accent,
+      text: isColor(palette.text) ? palette.text : base.palette.text,
+      gradient: [
+        isColor(gradient[0]) ? gradient[0] : base.palette.gradient[0],
+        isColor(gradient[1]) ? gradient[1] : base.palette.gradient[1]
+      ]
+    },
+    headingFont: isAsset(data.headingFont) ? data.headingFont : null,
+    bodyFont: isAsset(data.bodyFont) ? data.bodyFont : null,
+    logo: isAsset(data.logo) ? data.logo : null,
+    logoPlacement: LOGO_PLACEMENTS.find((placement) => placement === data.logoPlacement) ?? base.logoPlacement,
+    logoOpacity: fraction(data.logoOpacity, base.logoOpacity),
+    logoSize: fraction(data.logoSize, base.logoSize),
+    watermark: WATERMARK_KINDS.find((kind) => kind === data.watermark) ?? base.watermark,
+    watermarkText: typeof data.watermarkText === "string" ? data.watermarkText : base.watermarkText,
+    watermarkImage: isAsset(data.watermarkImage) ? data.watermarkImage : null,
+    watermarkOpacity: fraction(data.watermarkOpacity, base.watermarkOpacity)
+  };
+}
+
+// Swaps every asset in a kit (or a kit-shaped manifest) through `fn`; used
+// when kits go in and out of bundle files.
+export function mapBrandAssets<T>(
+  kit: Partial<Record<(typeof ASSET_FIELDS)[number], T | null>>,
+  fn: (asset: T) => unknown
+): Record<string, unknown> {
+  const mapped: Record<string, unknown> = { ...kit };
+  for (const field of ASSET_FIELDS) {
+    const asset = kit[field];
+    mapped[field] = asset ? fn(asset) : null;
+  }
+  return mapped;
+}
+
+// A single color override, e.g. from a batch feed. The accent follows the
+// primary when the two were the same.
+export function withBrandColor(palette: BrandPalette, color: string): BrandPalette {
+  return {
+    primary: color,
+    accent: palette.accent.toLowerCase() === palette.primary.toLowerCase() ? color : palette.accent,
+    text: palette.text,
+    gradient: [color, palette.gradient[1]]
+  };
+}
+
+const loadedFamilies = new Map<string, Promise<string | null>>();
+
+// Each font asset gets its own family name, registered once per session.
+// Fonts that fail to load fall back to the default stack.
+function loadFamily(asset: BundleAsset | null) {
+  if (!asset) return Promise.resolve(null);
+  const family = `brand-${asset.id}`;
+  let loaded = loadedFamilies.get(family);
+  if (!loaded) {
+    loaded = asset.blob
+      .arrayBuffer()
+      .then((data) => registerFont(family, data))
+      .then(() => family)
+      .catch(() => null);
+    loadedFamilies.set(family, loaded);
+  }
+  return loaded;
+}
+
+export async function loadBrandAssets(
+  kit: BrandAssetFields,
+  decodeImage: (blob: Blob) => Promise<HTMLImageElement>
+): Promise<LoadedBrandAssets> {
+  const image = (asset: BundleAsset | null) => (asset ? decodeImage(asset.blob).catch(() => null) : Promise.resolve(null));
+  const [headingFamily, bodyFamily, logo, watermarkImage] = await Promise.all([
+    loadFamily(kit.headingFont),
+    loadFamily(kit.bodyFont),
+    image(kit.logo),
+    image(kit.watermarkImage)
+  ]);
+  return { headingFamily, bodyFamily, logo, watermarkImage };
+}
+
+export function sceneBrand(kit: BrandKit, assets: LoadedBrandAssets): SceneBrand {
+  const stack = (family: string | null) => (family ? `"${family}", ${FONT_STACK}` : FONT_STACK);
+  const body = stack(assets.bodyFamily);
+  const watermarkImage = kit.watermark === "image" ? assets.watermarkImage : null;
+  return {
+    palette: kit.palette,
+    fonts: { heading: assets.headingFamily ? stack(assets.headingFamily) : body, body },
+    logo:
+      kit.logo && assets.logo
+        ? { image: assets.logo, placement: kit.logoPlacement, opacity: kit.logoOpacity, size: kit.logoSize }
+        : null,
+    watermark:
+      watermarkImage || (kit.watermark === "text" && kit.watermarkText.trim())
+        ? { text: kit.watermarkText.trim(), image: watermarkImage, opacity: kit.watermarkOpacity }
+        : null
+  };
+}
+
+export function encodeBrandKitFile(kit: BrandKit): Blob {
+  return encodeBundle(MAGIC, (toRef) => mapBrandAssets(kit, toRef));
+}
+
+export async function decodeBrandKitFile(file: Blob): Promise<BrandKit> {
+  const { manifest, fromRef } = await decodeBundle(file, MAGIC, "brand kit");
+  return normalizeBrandKit(mapBrandAssets(manifest, fromRef));
+}
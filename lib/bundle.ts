@@ -0,0 +1,79 @@
+// Binary container shared by project and brand kit files:
+// magic (4 bytes) | uint32 manifest length | manifest JSON | asset bytes.
+// Assets are referenced from the manifest by offset into the byte section.
+
+export type BundleAsset = {
+  id: string;
+  name: string;
+  type: string;
+  blob: Blob;
+};
+
+export type AssetRef = {
+  id: string;
+  name: string;
+  type: string;
+  offset: number;
+  size: number;
+};
+
+// `build` returns the manifest, swapping each asset for the ref `toRef`
+// hands back.
+export function encodeBundle(magic: string, build: (toRef: (asset: BundleAsset) => AssetRef) => unknown): Blob {
+  const parts: Blob[] = [];
+  let offset = 0;
+  const toRef = (asset: BundleAsset): AssetRef => {
+    const ref = { id: asset.id, name: asset.name, type: asset.type, offset, size: asset.blob.size };
+    parts.push(asset.blob);
+    offset += asset.blob.size;
+    return ref;
+  };
+  const json = new TextEncoder().encode(JSON.stringify(build(toRef)));
+  const header = new Uint8Array(8);
+  header.set(new TextEncoder().encode(magic), 0);
+  new DataView(header.buffer).setUint32(4, json.byteLength);
+  return new Blob([header, json, ...parts], { type: "application/octet-stream" });
+}
+
+function isAssetRef(value: unknown): value is AssetRef {
+  if (!value || typeof value !== "object") return false;
+  const { id, name, type, offset, size } = value as Partial<Record<keyof AssetRef, unknown>>;
+  return (
+    typeof id === "string" &&
+    typeof name === "string" &&
+    typeof type === "string" &&
+    Number.isInteger(offset) &&
+    Number.isInteger(size) &&
+    (offset as number) >= 0 &&
+    (size as number) >= 0
+  );
+}
+
+// `fromRef` returns null for anything that is not a ref into the file, so
+// callers can pass manifest fields as they are.
+export async function decodeBundle(
+  file: Blob,
+  magic: string,
+  label: string
+): Promise<{ manifest: Record<string, unknown>; fromRef: (ref: unknown) => BundleAsset | null }> {
+  const header = new Uint8Array(await file.slice(0, 8).arrayBuffer());
+  if (new TextDecoder().decode(header.subarray(0, 4)) !== magic) {
+    throw new Error(`Not a ${label} file`);
+  }
+  const jsonLength = new DataView(header.buffer).getUint32(4);
+  const manifest: unknown = JSON.parse(await file.slice(8, 8 + jsonLength).text());
+  if (!manifest || typeof manifest !== "object" || Array.isArray(manifest)) {
+    throw new Error(`Not a ${label} file`);
+  }
+  const dataStart = 8 + jsonLength;
+  const fromRef = (ref: unknown): BundleAsset | null => {
+    if (!isAssetRef(ref) || dataStart + ref.offset + ref.size > file.size) return null;
+    return {
+      id: ref.id,
+      name: ref.name,
+      type: ref.type,
+      blob: file.slice(dataStart + ref.offset, dataStart + ref.offset + ref.size, ref.type)
+    };
+  };
+  return { manifest: manifest as Record<string, unknown>, fromRef };
+}
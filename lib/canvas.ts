@@ -0,0 +1,160 @@
+import type { Framing } from "./types";
+
+// Emoji fonts come before the generic family so emoji draw in color even when
+// a brand font lacks them.
+export const FONT_STACK =
+  'system-ui, -apple-system, Segoe UI, Roboto, "Apple Color Emoji", "Segoe UI Emoji", "Noto Color Emoji", sans-serif';
+
+// `family` is a CSS font-family list, e.g. one of the scene's brand fonts.
+export function font(weight: number, size: number, family = FONT_STACK) {
+  return `${weight} ${size}px ${family}`;
+}
+
+export function roundRect(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  radius: number
+) {
+  const r = Math.min(radius, width / 2, height / 2);
+  ctx.beginPath();
+  ctx.moveTo(x + r, y);
+  ctx.arcTo(x + width, y, x + width, y + height, r);
+  ctx.arcTo(x + width, y + height, x, y + height, r);
+  ctx.arcTo(x, y + height, x, y, r);
+  ctx.arcTo(x, y, x + width, y, r);
+  ctx.closePath();
+}
+
+const CENTERED: Framing = { zoom: 1, x: 0.5, y: 0.5 };
+
+// Scales an image to cover the box, cropping whatever overflows. `framing`
+// zooms past the cover fit and picks which point of the image stays centered;
+// the image is clamped so it always fills the box.
+export function drawImageCover(
+  ctx: CanvasRenderingContext2D,
+  img: CanvasImageSource & { width: number; height: number },
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  framing: Framing = CENTERED
+) {
+  const scale = Math.max(width / img.width, height / img.height) * Math.max(1, framing.zoom);
+  const iw = img.width * scale;
+  const ih = img.height * scale;
+  const ix = Math.min(0, Math.max(width - iw, width / 2 - framing.x * iw));
+  const iy = Math.min(0, Math.max(height - ih, height / 2 - framing.y * ih));
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(x, y, width, height);
+  ctx.clip();
+  ctx.drawImage(img, x + ix, y + iy, iw, ih);
+  ctx.restore();
+}
+
+// Scales an image to fit inside the box, centered, with `zoom` scaling it
+// further around the center.
+export function drawImageContain(
+  ctx: CanvasRenderingContext2D,
+  img: CanvasImageSource & { width: number; height: number },
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  zoom = 1
+) {
+  const scale = Math.min(width / img.width, height / img.height) * zoom;
+  const iw = img.width * scale;
+  const ih = img.height * scale;
+  ctx.drawImage(img, x + (width - iw) / 2, y + (height - ih) / 2, iw, ih);
+}
+
+type LayerCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+let canvasFactory = (width: number, height: number): LayerCanvas => {
+  if (typeof OffscreenCanvas !== "undefined") return new OffscreenCanvas(width, height);
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+// Lets non-browser callers supply their own canvas implementation.
+export function setCanvasFactory(factory: (width: number, height: number) => LayerCanvas) {
+  canvasFactory = factory;
+  layers.length = 0;
+}
+
+let fontRegistrar = async (family: string, data: ArrayBuffer) => {
+  const face = new FontFace(family, data);
+  await face.load();
+  document.fonts.add(face);
+};
+
+// Lets non-browser callers register fonts with their canvas implementation.
+export function setFontRegistrar(registrar: (family: string, data: ArrayBuffer) => Promise<void> | void) {
+  fontRegistrar = async (family, data) => registrar(family, data);
+}
+
+const fonts = new Map<string, ArrayBuffer>();
+
+// Bumped whenever a font finishes loading, so text measured with a fallback
+// font is measured again.
+let fontGeneration = 0;
+
+export function fontsLoaded() {
+  return fontGeneration;
+}
+
+export async function registerFont(family: string, data: ArrayBuffer) {
+  fonts.set(family, data);
+  try {
+    await fontRegistrar(family, data);
+  } finally {
+    fontGeneration++;
+  }
+}
+
+// Everything registered so far, for handing to a render worker.
+export function registeredFonts() {
+  return Array.from(fonts, ([family, data]) => ({ family, data }));
+}
+
+// A fresh canvas from the current factory, for one-off image processing.
+export function createCanvas(width: number, height: number) {
+  return canvasFactory(width, height);
+}
+
+const layers: { canvas: LayerCanvas; ctx: CanvasRenderingContext2D }[] = [];
+
+// Scratch canvases reused across frames, e.g. the two sides of a transition.
+export function getLayer(slot: number, width: number, height: number) {
+  let layer = layers[slot];
+  if (!layer) {
+    const canvas = canvasFactory(width, height);
+    const ctx = canvas.getContext("2d") as unknown as CanvasRenderingContext2D | null;
+    if (!ctx) throw new Error("Canvas 2D context unavailable");
+    layer = { canvas, ctx };
+    layers[slot] = layer;
+  }
+  if (layer.canvas.width !== width || layer.canvas.height !== height) {
+    layer.canvas.width = width;
+    layer.canvas.height = height;
+  }
+  layer.ctx.setTransform(1, 0, 0, 1, 0, 0);
+  layer.ctx.clearRect(0, 0, width, height);
+  return layer;
+}
+
+export async function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not load an image"));
+    img.src = url;
+  });
+}
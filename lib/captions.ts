@@ -0,0 +1,210 @@
+import { font, roundRect } from "./canvas";
+import type { AudioMix, CaptionCue, CaptionStyle } from "./types";
+
+export const CAPTION_STYLE_LABELS: Record<CaptionStyle, string> = {
+  none: "Not burned in",
+  highlight: "Word highlight",
+  boxed: "Boxed",
+  outline: "Outline"
+};
+
+export type CaptionFormat = "srt" | "vtt";
+
+const TIMING = /((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+
+function parseTimestamp(value: string): number {
+  const [clock, fraction] = value.split(/[.,]/);
+  const parts = clock.split(":").map(Number);
+  const seconds = parts.reduce((total, part) => total * 60 + part, 0);
+  return seconds + Number(fraction.padEnd(3, "0")) / 1000;
+}
+
+function stripMarkup(text: string) {
+  return text
+    .replace(/<[^>]+>/g, "")
+    .replace(/\{\\[^}]*\}/g, "")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .trim();
+}
+
+// Reads SRT and WebVTT alike: both are blank-line separated blocks with a
+// "start --> end" line followed by the cue text. VTT header, NOTE and STYLE
+// blocks have no timing line and are skipped.
+export function parseCaptions(source: string): CaptionCue[] {
+  const blocks = source.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n").split(/\n{2,}/);
+  const cues: CaptionCue[] = [];
+  for (const block of blocks) {
+    const lines = block.split("\n");
+    const timingIndex = lines.findIndex((line) => TIMING.test(line));
+    if (timingIndex < 0) continue;
+    const [, start, end] = lines[timingIndex].match(TIMING)!;
+    const text = stripMarkup(lines.slice(timingIndex + 1).join("\n"));
+    if (!text) continue;
+    cues.push({ id: crypto.randomUUID(), start: parseTimestamp(start), end: parseTimestamp(end), text });
+  }
+  if (cues.length === 0) throw new Error("No caption cues found in file");
+  return sortCues(cues);
+}
+
+// Cues from a project file; ones without text or a positive length are
+// dropped.
+export function normalizeCues(value: unknown): CaptionCue[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((item, i): CaptionCue[] => {
+    if (!item || typeof item !== "object") return [];
+    const { id, start, end, text } = item as Partial<Record<keyof CaptionCue, unknown>>;
+    if (typeof start !== "number" || typeof end !== "number" || typeof text !== "string") return [];
+    if (!Number.isFinite(start) || !Number.isFinite(end) || start < 0 || end <= start) return [];
+    return [{ id: typeof id === "string" && id ? id : `cue-${i + 1}`, start, end, text }];
+  });
+}
+
+export function sortCues(cues: CaptionCue[]) {
+  return [...cues].sort((a, b) => a.start - b.start);
+}
+
+function formatTimestamp(seconds: number, separator: string) {
+  const ms = Math.max(0, Math.round(seconds * 1000));
+  const pad = (n: number, width = 2) => String(n).padStart(width, "0");
+  const h = Math.floor(ms / 3600000);
+  const m = Math.floor(ms / 60000) % 60;
+  const s = Math.floor(ms / 1000) % 60;
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(ms % 1000, 3)}`;
+}
+
+export function formatCaptions(cues: CaptionCue[], format: CaptionFormat): string {
+  const sorted = sortCues(cues);
+  if (format === "srt") {
+    return sorted
+      .map((cue, i) => `${i + 1}\n${formatTimestamp(cue.start, ",")} --> ${formatTimestamp(cue.end, ",")}\n${cue.text}\n`)
+      .join("\n");
+  }
+  const body = sorted
+    .map((cue) => `${formatTimestamp(cue.start, ".")} --> ${formatTimestamp(cue.end, ".")}\n${cue.text}\n`)
+    .join("\n");
+  return `WEBVTT\n\n${body}`;
+}
+
+// Cues are timed to the voiceover file, like the SRT that comes with it.
+// This moves them to video time with the mixer's start and trim, dropping
+// cues that were trimmed away, the same way `placePhrases` does.
+export function placeCues(cues: CaptionCue[], mix: AudioMix): CaptionCue[] {
+  const inPoint = mix.voiceTrimStart;
+  const shift = Math.max(0, mix.voiceOffset) - inPoint;
+  if (shift === 0) return cues;
+  return cues
+    .filter((cue) => cue.end > inPoint)
+    .map((cue) => ({ ...cue, start: Math.max(cue.start, inPoint) + shift, end: cue.end + shift }));
+}
+
+export function cueAt(cues: CaptionCue[], seconds: number): CaptionCue | null {
+  return cues.find((cue) => seconds >= cue.start && seconds < cue.end) ?? null;
+}
+
+type PlacedWord = { text: string; x: number; width: number };
+
+// Breaks the cue into centered lines of words no wider than `maxWidth`.
+function layoutWords(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): PlacedWord[][] {
+  const space = ctx.measureText(" ").width;
+  const lines: PlacedWord[][] = [];
+  let line: PlacedWord[] = [];
+  let lineWidth = 0;
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const width = ctx.measureText(word).width;
+    if (line.length > 0 && lineWidth + space + width > maxWidth) {
+      lines.push(line);
+      line = [];
+      lineWidth = 0;
+    }
+    const x = line.length > 0 ? lineWidth + space : 0;
+    line.push({ text: word, x, width });
+    lineWidth = x + width;
+  }
+  if (line.length > 0) lines.push(line);
+  return lines;
+}
+
+function lineWidth(line: PlacedWord[]) {
+  const last = line[line.length - 1];
+  return last ? last.x + last.width : 0;
+}
+
+// Index of the word being spoken, spreading the cue's time over its words
+// by length so long words stay up longer.
+function activeWord(words: string[], progress: number) {
+  const total = words.reduce((sum, w) => sum + w.length + 1, 0);
+  let acc = 0;
+  for (let i = 0; i < words.length; i++) {
+    acc += words[i].length + 1;
+    if (progress * total < acc) return i;
+  }
+  return words.length - 1;
+}
+
+// Burns the cue showing at `seconds` into the frame, centered on `centerY`.
+export function drawCaptions(
+  ctx: CanvasRenderingContext2D,
+  options: {
+    cues: CaptionCue[];
+    style: CaptionStyle;
+    seconds: number;
+    // Horizontal band the captions are centered in, usually the safe box.
+    x: number;
+    width: number;
+    height: number;
+    centerY: number;
+    accent: string;
+    family: string;
+  }
+) {
+  const { style, x: boxX, width, height, centerY, accent } = options;
+  const cue = style === "none" ? null : cueAt(options.cues, options.seconds);
+  if (!cue) return;
+
+  const size = Math.round(Math.min(height * 0.035, width * 0.065));
+  const lineHeight = Math.round(size * 1.3);
+  ctx.save();
+  ctx.font = font(800, size, options.family);
+  ctx.textAlign = "left";
+  ctx.textBaseline = "middle";
+  const lines = layoutWords(ctx, cue.text, width * 0.92);
+  const top = centerY - ((lines.length - 1) * lineHeight) / 2;
+  const progress = (options.seconds - cue.start) / Math.max(0.001, cue.end - cue.start);
+  const current = activeWord(lines.flat().map((w) => w.text), progress);
+
+  if (style === "boxed") {
+    const pad = Math.round(size * 0.4);
+    const boxW = Math.max(...lines.map(lineWidth)) + pad * 2;
+    const boxH = lines.length * lineHeight + pad;
+    ctx.fillStyle = "rgba(0,0,0,0.7)";
+    roundRect(ctx, boxX + (width - boxW) / 2, top - lineHeight / 2 - pad / 2, boxW, boxH, pad);
+    ctx.fill();
+  }
+
+  let index = 0;
+  lines.forEach((line, row) => {
+    const left = boxX + (width - lineWidth(line)) / 2;
+    const y = top + row * lineHeight;
+    for (const word of line) {
+      const x = left + word.x;
+      if (style === "highlight" && index === current) {
+        const pad = Math.round(size * 0.15);
+        ctx.fillStyle = accent;
+        roundRect(ctx, x - pad, y - lineHeight / 2 + pad, word.width + pad * 2, lineHeight - pad * 2, pad);
+        ctx.fill();
+      }
+      if (style !== "boxed") {
+        ctx.lineJoin = "round";
+        ctx.lineWidth = Math.max(2, size * 0.16);
+        ctx.strokeStyle = "rgba(0,0,0,0.85)";
+        ctx.strokeText(word.text, x, y);
+      }
+      ctx.fillStyle = "#ffffff";
+      ctx.fillText(word.text, x, y);
+      index++;
+    }
+  });
+  ctx.restore();
+}
@@ -0,0 +1,160 @@
+import { createCanvas, loadImage } from "./canvas";
+import type { Clip, UploadedImage } from "./types";
+
+// Video clips as slide media. Templates draw synchronously, so each place a
+// clip is shown gets a canvas holding its current frame; `showClipFrame`
+// seeks the video to the exact source time for a frame and copies it there
+// before the frame is drawn. Nothing depends on playback speed, so clips stay
+// in sync in offline renders too.
+
+export const DEFAULT_CLIP: Clip = { trimStart: 0, trimEnd: 0, rate: 1, volume: 1, muted: false };
+
+export const CLIP_RATES = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 2];
+
+// Shortest stretch of source a trimmed clip keeps.
+const MIN_CLIP_SECONDS = 0.1;
+
+// Longest side clip frames are copied at.
+const MAX_FRAME_SIZE = 1920;
+
+export function isClipFile(file: Blob) {
+  return file.type.startsWith("video/");
+}
+
+function num(value: unknown, fallback: number, min: number, max: number) {
+  return typeof value === "number" && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+}
+
+// Fills in anything missing or out of range, e.g. in a clip from a project file.
+export function normalizeClip(value: unknown): Clip {
+  if (!value || typeof value !== "object") return DEFAULT_CLIP;
+  const data = value as Partial<Record<keyof Clip, unknown>>;
+  return {
+    trimStart: num(data.trimStart, 0, 0, Infinity),
+    trimEnd: num(data.trimEnd, 0, 0, Infinity),
+    rate: num(data.rate, 1, CLIP_RATES[0], CLIP_RATES[CLIP_RATES.length - 1]),
+    volume: num(data.volume, 1, 0, 2),
+    muted: data.muted === true
+  };
+}
+
+// The part of a `duration`-second source the clip plays, in source seconds.
+export function clipRange(clip: Clip, duration: number) {
+  const start = Math.min(clip.trimStart, Math.max(0, duration - MIN_CLIP_SECONDS));
+  const end = Math.min(duration, Math.max(start + MIN_CLIP_SECONDS, duration - clip.trimEnd));
+  return { start, end: Math.max(end, start + 1e-3) };
+}
+
+// Source time shown `seconds` after the clip appears, looping the range.
+export function clipTime(clip: Clip, duration: number, seconds: number) {
+  const { start, end } = clipRange(clip, duration);
+  return start + ((Math.max(0, seconds) * clip.rate) % (end - start));
+}
+
+// Seconds on screen before the clip loops.
+export function clipSeconds(clip: Clip, duration: number) {
+  const { start, end } = clipRange(clip, duration);
+  return (end - start) / clip.rate;
+}
+
+export async function loadVideo(url: string): Promise<HTMLVideoElement> {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement("video");
+    video.crossOrigin = "anonymous";
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = "auto";
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => reject(new Error("Could not load a video clip"));
+    video.src = url;
+  });
+}
+
+// Decodes an upload for drawing: clips into `video`, images into `element`.
+// A clip's existing video is kept, since only seeking ever moves it.
+export async function decodeMedia(item: UploadedImage): Promise<UploadedImage> {
+  if (item.clip) return item.video ? item : { ...item, video: await loadVideo(item.url) };
+  return { ...item, element: await loadImage(item.url) };
+}
+
+type FrameCanvas = ReturnType<typeof createCanvas>;
+
+// One place a clip is shown. `canvas` is what templates draw; `drawn` is the
+// source time copied into it, if any.
+export type ClipFrames = {
+  video: HTMLVideoElement;
+  file: Blob;
+  clip: Clip;
+  canvas: FrameCanvas;
+  drawn: number | null;
+};
+
+const framesByVideo = new WeakMap<HTMLVideoElement, Map<string, ClipFrames>>();
+
+// The frames for `video` shown as `key`, e.g. a slide id. Kept across scene
+// rebuilds so editing a slide doesn't reallocate every clip canvas.
+export function clipFrames(video: HTMLVideoElement, file: Blob, clip: Clip, key: string): ClipFrames {
+  let byKey = framesByVideo.get(video);
+  if (!byKey) {
+    byKey = new Map();
+    framesByVideo.set(video, byKey);
+  }
+  const existing = byKey.get(key);
+  if (existing) {
+    if (existing.clip !== clip) {
+      existing.clip = clip;
+      existing.drawn = null;
+    }
+    return existing;
+  }
+  const scale = Math.min(1, MAX_FRAME_SIZE / Math.max(video.videoWidth, video.videoHeight, 1));
+  const canvas = createCanvas(
+    Math.max(1, Math.round(video.videoWidth * scale)),
+    Math.max(1, Math.round(video.videoHeight * scale))
+  );
+  const frames: ClipFrames = { video, file, clip, canvas, drawn: null };
+  byKey.set(key, frames);
+  return frames;
+}
+
+function seek(video: HTMLVideoElement, time: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (!video.seeking && video.readyState >= 2 && Math.abs(video.currentTime - time) < 1e-4) {
+      resolve();
+      return;
+    }
+    const done = (ok: boolean) => {
+      video.removeEventListener("seeked", onSeeked);
+      video.removeEventListener("error", onError);
+      if (ok) resolve();
+      else reject(new Error("Could not seek a video clip"));
+    };
+    const onSeeked = () => done(true);
+    const onError = () => done(false);
+    video.addEventListener("seeked", onSeeked);
+    video.addEventListener("error", onError);
+    video.currentTime = time;
+  });
+}
+
+// Seeks run one at a time per video, since a clip shown on two slides
+// shares one element.
+const pendingSeeks = new WeakMap<HTMLVideoElement, Promise<unknown>>();
+
+// Copies the frame shown `seconds` after the clip appears into its canvas.
+export function showClipFrame(frames: ClipFrames, seconds: number): Promise<void> {
+  const { video } = frames;
+  const time = clipTime(frames.clip, video.duration, seconds);
+  if (frames.drawn === time) return Promise.resolve();
+  const run = (pendingSeeks.get(video) ?? Promise.resolve())
+    .catch(() => undefined)
+    .then(async () => {
+      await seek(video, time);
+      const ctx = frames.canvas.getContext("2d") as unknown as CanvasRenderingContext2D | null;
+      if (!ctx) throw new Error("Canvas 2D context unavailable");
+      ctx.drawImage(video, 0, 0, frames.canvas.width, frames.canvas.height);
+      frames.drawn = time;
+    });
+  pendingSeeks.set(video, run);
+  return run;
+}
@@ -0,0 +1,300 @@
+import type { ClipAudio } from "./audio";
+import type { SceneBrand } from "./brand";
+import { font, getLayer } from "./canvas";
+import { drawCaptions } from "./captions";
+import { clipFrames, showClipFrame, type ClipFrames } from "./clips";
+import { drawLayers } from "./layers";
+import { sceneLayout } from "./layout";
+import type { SceneLink } from "./links";
+import { buildTimeline, locateFrame } from "./slides";
+import { getTemplate } from "./templates";
+import { editedImage } from "./imageEdits";
+import { drawTransition } from "./transitions";
+import type {
+  CaptionCue,
+  CaptionStyle,
+  ElementAnimations,
+  Insets,
+  KenBurns,
+  OverlayLayer,
+  Slide,
+  SlideKind,
+  Transition,
+  UploadedImage
+} from "./types";
+
+// An uploaded image as templates draw it: cropped, filtered and cut out
+// already, with where to center it and how opaque to draw it.
+export type SlideImage = {
+  image: HTMLImageElement;
+  focus: { x: number; y: number };
+  opacity: number;
+  // Background removed: fitted whole over the template instead of filling it.
+  cutout: boolean;
+  // Set for video clips; `image` then holds the frame `prepareFrame` copied.
+  clip?: ClipFrames;
+};
+
+export type SceneSlide = {
+  id: string;
+  kind: SlideKind;
+  text: string;
+  duration: number;
+  templateId?: string;
+  transition?: Transition;
+  kenBurns?: KenBurns;
+  layers?: OverlayLayer[];
+  images: SlideImage[];
+};
+
+export type Scene = {
+  width: number;
+  height: number;
+  templateId: string;
+  productTitle: string;
+  subtitle: string;
+  cta: string;
+  // Tracked affiliate link; its QR code goes beside the CTA on the last slide.
+  link: SceneLink | null;
+  brand: SceneBrand;
+  transition: Transition;
+  animations: ElementAnimations;
+  captions: CaptionCue[];
+  captionStyle: CaptionStyle;
+  // Platform safe zone; see `sceneLayout`.
+  safeArea: Insets;
+  slides: SceneSlide[];
+  // Tiny label in a corner of every frame, e.g. an A/B variant ID.
+  tag: string | null;
+};
+
+// What a template sees of the slide it is drawing. `number` is the 1-based
+// position among benefit slides and `count` is how many there are;
+// `progress` runs 0..1 over the slide's `duration` seconds and `last` marks
+// the final slide of the video.
+export type SlideView = {
+  kind: SlideKind;
+  text: string;
+  image?: SlideImage;
+  kenBurns?: KenBurns;
+  number: number;
+  count: number;
+  progress: number;
+  duration: number;
+  last: boolean;
+};
+
+export function toSceneSlides(slides: Slide[], images: UploadedImage[]): SceneSlide[] {
+  const byId = new Map(images.map((img) => [img.id, img]));
+  return slides.map((slide) => ({
+    id: slide.id,
+    kind: slide.kind,
+    text: slide.text,
+    duration: slide.duration,
+    templateId: slide.templateId,
+    transition: slide.transition,
+    kenBurns: slide.kenBurns,
+    layers: slide.layers,
+    images: slide.imageIds.flatMap((id): SlideImage[] => {
+      const img = byId.get(id);
+      if (img?.clip) {
+        if (!img.video) return [];
+        const frames = clipFrames(img.video, img.file, img.clip, slide.id);
+        // Canvases draw like images; templates only use width, height and drawImage.
+        return [
+          {
+            image: frames.canvas as unknown as HTMLImageElement,
+            focus: { x: 0.5, y: 0.5 },
+            opacity: 1,
+            cutout: false,
+            clip: frames
+          }
+        ];
+      }
+      if (!img?.element) return [];
+      return [
+        {
+          image: editedImage(img.element, img.edits),
+          focus: img.edits?.focus ?? { x: 0.5, y: 0.5 },
+          opacity: img.edits?.opacity ?? 1,
+          cutout: Boolean(img.edits?.cutout)
+        }
+      ];
+    })
+  }));
+}
+
+// Slides with several images step through them over the slide's duration.
+// `seconds` is how long the shown image has been on screen.
+function shownImage(slide: SceneSlide, progress: number) {
+  const count = slide.images.length;
+  if (count === 0) return null;
+  const index = Math.min(count - 1, Math.floor(progress * count));
+  const seconds = (progress - index / count) * slide.duration;
+  return { image: slide.images[index], seconds };
+}
+
+function slideView(scene: Scene, index: number, progress: number): SlideView {
+  const slide = scene.slides[index];
+  const benefits = scene.slides.filter((s) => s.kind === "benefit");
+  return {
+    kind: slide.kind,
+    text: slide.text,
+    image: shownImage(slide, progress)?.image,
+    kenBurns: slide.kenBurns,
+    number: benefits.indexOf(slide) + 1,
+    count: benefits.length,
+    progress,
+    duration: slide.duration,
+    last: index === scene.slides.length - 1
+  };
+}
+
+function drawSlideContent(ctx: CanvasRenderingContext2D, scene: Scene, index: number, progress: number) {
+  const slide = scene.slides[index];
+  if (!slide) return;
+  ctx.save();
+  getTemplate(slide.templateId ?? scene.templateId).draw(ctx, scene, slideView(scene, index, progress));
+  if (slide.layers) drawLayers(ctx, scene, slide.layers, progress * slide.duration);
+  ctx.restore();
+}
+
+// Text watermark height in layout units.
+export const WATERMARK_TEXT_SIZE = 3.5;
+
+// Brand logo and watermark, drawn over everything inside the safe box.
+export function drawOverlay(ctx: CanvasRenderingContext2D, scene: Scene) {
+  const { safe, unit } = sceneLayout(scene);
+  const { logo, watermark, palette, fonts } = scene.brand;
+  const margin = Math.round(unit * 2);
+
+  if (logo) {
+    const w = Math.round(Math.min(scene.width, scene.height) * logo.size);
+    const h = Math.round((w * logo.image.height) / logo.image.width);
+    const x = logo.placement.endsWith("left") ? safe.x + margin : safe.x + safe.width - margin - w;
+    const y = logo.placement.startsWith("top") ? safe.y + margin : safe.y + safe.height - margin - h;
+    ctx.save();
+    ctx.globalAlpha = logo.opacity;
+    ctx.drawImage(logo.image, x, y, w, h);
+    ctx.restore();
+  }
+
+  if (watermark) {
+    const right = safe.x + safe.width - margin;
+    const bottom = safe.y + safe.height - margin;
+    ctx.save();
+    ctx.globalAlpha = watermark.opacity;
+    if (watermark.image) {
+      const h = Math.round(unit * 5);
+      const w = Math.round((h * watermark.image.width) / watermark.image.height);
+      ctx.drawImage(watermark.image, right - w, bottom - h, w, h);
+    } else {
+      ctx.textAlign = "right";
+      ctx.fillStyle = palette.text;
+      ctx.font = font(600, Math.round(unit * WATERMARK_TEXT_SIZE), fonts.body);
+      ctx.fillText(watermark.text, right, bottom);
+    }
+    ctx.restore();
+  }
+
+  if (scene.tag) {
+    ctx.save();
+    ctx.globalAlpha = 0.6;
+    ctx.textAlign = "left";
+    ctx.fillStyle = palette.text;
+    ctx.font = font(500, Math.round(unit * 2), fonts.body);
+    ctx.fillText(scene.tag, safe.x + margin, safe.y + safe.height - margin);
+    ctx.restore();
+  }
+}
+
+export function drawSlide(ctx: CanvasRenderingContext2D, scene: Scene, index: number, progress: number) {
+  ctx.clearRect(0, 0, scene.width, scene.height);
+  drawSlideContent(ctx, scene, index, progress);
+  drawOverlay(ctx, scene);
+}
+
+export function sceneTimeline(scene: Scene, fps: number) {
+  return buildTimeline(scene.slides.map((s) => s.duration), fps);
+}
+
+export function sceneTotalFrames(scene: Scene, fps: number) {
+  return sceneTimeline(scene, fps).totalFrames;
+}
+
+export function sceneHasClips(scene: Scene) {
+  return scene.slides.some((slide) => slide.images.some((img) => img.clip));
+}
+
+// The transition into slide `index` while it runs, with how far along it is.
+function activeTransition(scene: Scene, index: number, progress: number) {
+  const slide = scene.slides[index];
+  const previous = scene.slides[index - 1];
+  const transition = slide?.transition ?? scene.transition;
+  const elapsed = slide ? progress * slide.duration : 0;
+  const span = previous ? Math.min(transition.duration, slide.duration, previous.duration) : 0;
+  return transition.kind !== "none" && span > 0 && elapsed < span ? { kind: transition.kind, t: elapsed / span } : null;
+}
+
+// Brings every clip visible at `frame` to its exact frame. Drawing is
+// synchronous, so renderers await this before `drawFrame`; scenes without
+// clips return at once.
+export async function prepareFrame(scene: Scene, frame: number, fps: number) {
+  if (!sceneHasClips(scene)) return;
+  const { index, progress } = locateFrame(sceneTimeline(scene, fps), frame);
+  const visible = [{ slide: scene.slides[index], progress }];
+  if (activeTransition(scene, index, progress)) visible.push({ slide: scene.slides[index - 1], progress: 1 });
+  for (const { slide, progress } of visible) {
+    const shown = slide && shownImage(slide, progress);
+    if (shown?.image.clip) await showClipFrame(shown.image.clip, shown.seconds);
+  }
+}
+
+// Where each clip's sound plays: from the moment it appears for as long as
+// it stays on screen, like its picture.
+export function sceneClipAudio(scene: Scene, fps: number): ClipAudio[] {
+  const { entries } = sceneTimeline(scene, fps);
+  return scene.slides.flatMap((slide, i) => {
+    const count = slide.images.length;
+    const start = (entries[i]?.startFrame ?? 0) / fps;
+    return slide.images.flatMap((img, n): ClipAudio[] =>
+      img.clip && !img.clip.clip.muted
+        ? [{ file: img.clip.file, clip: img.clip.clip, at: start + (n / count) * slide.duration, seconds: slide.duration / count }]
+        : []
+    );
+  });
+}
+
+// Draws frame `frame` of the video at `fps`. The result depends only on the
+// frame index, so previews and exports match. Frames past the last slide
+// hold it at full progress.
+export function drawFrame(ctx: CanvasRenderingContext2D, scene: Scene, frame: number, fps: number) {
+  const { width, height } = scene;
+  const { index, progress } = locateFrame(sceneTimeline(scene, fps), frame);
+  const slide = scene.slides[index];
+  const transition = activeTransition(scene, index, progress);
+
+  ctx.clearRect(0, 0, width, height);
+  if (transition) {
+    const from = getLayer(0, width, height);
+    drawSlideContent(from.ctx, scene, index - 1, 1);
+    const to = getLayer(1, width, height);
+    drawSlideContent(to.ctx, scene, index, progress);
+    drawTransition(ctx, transition.kind, from.canvas, to.canvas, transition.t, width, height);
+  } else {
+    drawSlideContent(ctx, scene, index, progress);
+  }
+  const { safe } = sceneLayout(scene);
+  drawCaptions(ctx, {
+    cues: scene.captions,
+    style: scene.captionStyle,
+    seconds: frame / fps,
+    x: safe.x,
+    width: safe.width,
+    height,
+    centerY: Math.round(safe.y + getTemplate(slide?.templateId ?? scene.templateId).captionY * safe.height),
+    accent: scene.brand.palette.accent,
+    family: scene.brand.fonts.heading
+  });
+  drawOverlay(ctx, scene);
+}
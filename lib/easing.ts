@@ -0,0 +1,33 @@
+export type EasingName = "linear" | "easeInOutSine" | "easeInOutCubic" | "easeOutCubic" | "easeOutBack";
+
+export function clamp01(t: number) {
+  return Math.min(1, Math.max(0, t));
+}
+
+export function easeOutCubic(t: number) {
+  return 1 - Math.pow(1 - t, 3);
+}
+
+export const EASINGS: Record<EasingName, (t: number) => number> = {
+  linear: (t) => t,
+  easeInOutSine: (t) => -(Math.cos(Math.PI * t) - 1) / 2,
+  easeInOutCubic: (t) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+  easeOutCubic,
+  easeOutBack: (t) => {
+    const c1 = 1.70158;
+    const c3 = c1 + 1;
+    return 1 + c3 * Math.pow(t - 1, 3) + c1 * Math.pow(t - 1, 2);
+  }
+};
+
+export const EASING_LABELS: Record<EasingName, string> = {
+  linear: "Linear",
+  easeInOutSine: "Ease in-out (sine)",
+  easeInOutCubic: "Ease in-out (cubic)",
+  easeOutCubic: "Ease out",
+  easeOutBack: "Overshoot"
+};
+
+export function ease(name: EasingName, t: number) {
+  return (EASINGS[name] ?? EASINGS.linear)(clamp01(t));
+}
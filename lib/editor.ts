@@ -0,0 +1,317 @@
+import { PROJECT_VERSION, defaultSettings, type Project, type ProjectAsset, type ProjectSettings } from "./project";
+import { assignImages, defaultSlides, replaceBenefits, unassignImage } from "./slides";
+import type { CaptionCue, Clip, ImageEdits, Slide, UploadedImage } from "./types";
+
+// Everything the user edits, in one value. Edits go through `EditorAction`s,
+// which are plain data, and `historyReducer` keeps the snapshots that undo and
+// redo move between. Render output, recordings and other session state stay
+// outside the store.
+
+// Uploads are limited by what they take to keep decoded rather than by
+// count: a photo costs its pixels, a clip its file plus the frames a video
+// element holds, and all clips together may run MAX_CLIP_SECONDS.
+export const MEDIA_BUDGET_BYTES = 768 * 1024 * 1024;
+export const MAX_CLIP_SECONDS = 180;
+const CLIP_DECODED_FRAMES = 8;
+
+// Consecutive edits of the same kind within this window become one entry.
+export const GROUP_WINDOW_MS = 1000;
+
+const MAX_HISTORY = 100;
+
+export type EditorState = ProjectSettings & {
+  slides: Slide[];
+  captions: CaptionCue[];
+  images: UploadedImage[];
+  voiceFile: File | null;
+  musicFile: File | null;
+};
+
+// Fields that are replaced wholesale. Images go through their own actions so
+// slide assignments stay in step.
+export type EditorFields = Omit<EditorState, "images">;
+
+export type EditorAction =
+  // `coalesce` marks one step of a continuous edit, like typing or dragging
+  // a slider, which merges with the steps just before it.
+  | { type: "set"; patch: Partial<EditorFields>; coalesce?: boolean }
+  | { type: "addImages"; images: UploadedImage[] }
+  | { type: "removeImage"; id: string }
+  | { type: "editImage"; id: string; edits: ImageEdits }
+  | { type: "editClip"; id: string; clip: Clip }
+  | { type: "importProduct"; title: string; subtitle: string; benefits: string[]; images: UploadedImage[] }
+  | { type: "clearMedia" }
+  // `fresh` starts a new history, e.g. when restoring the autosave.
+  | { type: "load"; state: EditorState; fresh: boolean }
+  // Decoded image elements arriving after a load. Not an edit, so it never
+  // adds a history entry.
+  | { type: "imagesDecoded"; images: UploadedImage[] };
+
+export type HistoryEntry = {
+  label: string;
+  state: EditorState;
+  // Edits with the same group merge while they keep coming.
+  group: string | null;
+  at: number;
+};
+
+export type EditorHistory = {
+  entries: HistoryEntry[];
+  index: number;
+};
+
+export type HistoryAction =
+  | { type: "apply"; action: EditorAction; at: number }
+  | { type: "undo" }
+  | { type: "redo" }
+  | { type: "jump"; index: number };
+
+const FIELD_LABELS: Record<keyof EditorFields, string> = {
+  productTitle: "Edit title",
+  subtitle: "Edit subtitle",
+  cta: "Edit call to action",
+  link: "Edit affiliate link",
+  disclosure: "Edit disclosure",
+  brandKit: "Edit brand kit",
+  aspect: "Change aspect ratio",
+  safeZones: "Change safe zone",
+  secondsPerSlide: "Change slide length",
+  templateId: "Change template",
+  transition: "Change transition",
+  animations: "Change animations",
+  captionStyle: "Change caption style",
+  bgMusicEnabled: "Toggle music",
+  music: "Edit music",
+  mix: "Edit audio mix",
+  outputFormat: "Change output format",
+  slides: "Edit slides",
+  captions: "Edit captions",
+  voiceFile: "Change voiceover",
+  musicFile: "Change music track"
+};
+
+export const initialEditorState: EditorState = {
+  ...defaultSettings,
+  slides: defaultSlides(defaultSettings.secondsPerSlide),
+  captions: [],
+  images: [],
+  voiceFile: null,
+  musicFile: null
+};
+
+function mediaCost(item: UploadedImage) {
+  if (item.clip) {
+    const { video } = item;
+    const frame = video ? video.videoWidth * video.videoHeight * 4 : 0;
+    const seconds = video && Number.isFinite(video.duration) ? video.duration : 0;
+    return { bytes: item.file.size + frame * CLIP_DECODED_FRAMES, seconds };
+  }
+  const { element } = item;
+  return { bytes: element ? element.naturalWidth * element.naturalHeight * 4 : item.file.size, seconds: 0 };
+}
+
+// Budget taken by `images`: decoded bytes and seconds of clips.
+export function mediaUsage(images: UploadedImage[]) {
+  return images.reduce(
+    (total, item) => {
+      const cost = mediaCost(item);
+      return { bytes: total.bytes + cost.bytes, seconds: total.seconds + cost.seconds };
+    },
+    { bytes: 0, seconds: 0 }
+  );
+}
+
+// The items of `added` that still fit next to `current`, in order.
+export function fitMediaBudget(current: UploadedImage[], added: UploadedImage[]): UploadedImage[] {
+  let used = mediaUsage(current);
+  return added.filter((item) => {
+    const cost = mediaCost(item);
+    if (used.bytes + cost.bytes > MEDIA_BUDGET_BYTES || used.seconds + cost.seconds > MAX_CLIP_SECONDS) return false;
+    used = { bytes: used.bytes + cost.bytes, seconds: used.seconds + cost.seconds };
+    return true;
+  });
+}
+
+export function editorReducer(state: EditorState, action: EditorAction): EditorState {
+  switch (action.type) {
+    case "set":
+      return { ...state, ...action.patch };
+    case "addImages": {
+      const added = fitMediaBudget(state.images, action.images);
+      return {
+        ...state,
+        images: [...state.images, ...added],
+        slides: assignImages(state.slides, added.map((img) => img.id))
+      };
+    }
+    case "removeImage":
+      return {
+        ...state,
+        images: state.images.filter((img) => img.id !== action.id),
+        slides: unassignImage(state.slides, action.id)
+      };
+    case "editImage":
+      return {
+        ...state,
+        images: state.images.map((img) => (img.id === action.id ? { ...img, edits: action.edits } : img))
+      };
+    case "editClip":
+      return {
+        ...state,
+        images: state.images.map((img) => (img.id === action.id ? { ...img, clip: action.clip } : img))
+      };
+    case "importProduct": {
+      const slides =
+        action.benefits.length > 0 ? replaceBenefits(state.slides, action.benefits, state.secondsPerSlide) : state.slides;
+      return editorReducer(
+        {
+          ...state,
+          productTitle: action.title || state.productTitle,
+          subtitle: action.subtitle || state.subtitle,
+          slides
+        },
+        { type: "addImages", images: action.images }
+      );
+    }
+    case "clearMedia":
+      return {
+        ...state,
+        images: [],
+        slides: state.slides.map((s) => ({ ...s, imageIds: [] })),
+        voiceFile: null
+      };
+    case "load":
+      return action.state;
+    case "imagesDecoded": {
+      const decoded = new Map(action.images.map((img) => [img.id, img]));
+      let changed = false;
+      const images = state.images.map((img) => {
+        const { element, video } = decoded.get(img.id) ?? {};
+        if (!element && !video) return img;
+        changed = true;
+        return { ...img, element: element ?? img.element, video: video ?? img.video };
+      });
+      return changed ? { ...state, images } : state;
+    }
+  }
+}
+
+export function actionLabel(action: EditorAction): string {
+  switch (action.type) {
+    case "set": {
+      const keys = Object.keys(action.patch) as (keyof EditorFields)[];
+      return keys.length === 1 ? FIELD_LABELS[keys[0]] : "Edit project";
+    }
+    case "addImages":
+      return action.images.length === 1 ? "Add image" : `Add ${action.images.length} images`;
+    case "removeImage":
+      return "Remove image";
+    case "editImage":
+      return "Edit image";
+    case "editClip":
+      return "Edit clip";
+    case "importProduct":
+      return "Import product";
+    case "clearMedia":
+      return "Reset media";
+    case "load":
+      return "Open project";
+    case "imagesDecoded":
+      return "Load images";
+  }
+}
+
+// Typing and slider drags send one action per keystroke or step; grouping by
+// field, or by item for image and clip edits, turns each burst into one undo
+// step. Other field changes, e.g. reordering or deleting slides, always get
+// their own entry.
+function actionGroup(action: EditorAction) {
+  if (action.type === "set") return action.coalesce ? `set:${Object.keys(action.patch).sort().join(",")}` : null;
+  return action.type === "editImage" || action.type === "editClip" ? `${action.type}:${action.id}` : null;
+}
+
+export function createHistory(state: EditorState): EditorHistory {
+  return { entries: [{ label: "Start", state, group: null, at: 0 }], index: 0 };
+}
+
+export function presentState(history: EditorHistory): EditorState {
+  return history.entries[history.index].state;
+}
+
+export const canUndo = (history: EditorHistory) => history.index > 0;
+export const canRedo = (history: EditorHistory) => history.index < history.entries.length - 1;
+
+function applyEdit(history: EditorHistory, action: EditorAction, at: number): EditorHistory {
+  // Every entry holding the image gets the decoded element, so undo and redo
+  // never bring back one without it.
+  if (action.type === "imagesDecoded") {
+    const entries = history.entries.map((entry) => {
+      const state = editorReducer(entry.state, action);
+      return state === entry.state ? entry : { ...entry, state };
+    });
+    return entries.some((entry, i) => entry !== history.entries[i]) ? { ...history, entries } : history;
+  }
+
+  const current = history.entries[history.index];
+  const state = editorReducer(current.state, action);
+  if (state === current.state) return history;
+  if (action.type === "load" && action.fresh) return createHistory(state);
+
+  const group = actionGroup(action);
+  const kept = history.entries.slice(0, history.index + 1);
+  const last = kept[kept.length - 1];
+  // After an undo the edit starts a new branch rather than rewriting the
+  // entry undo returned to.
+  const atTip = history.index === history.entries.length - 1;
+  if (group && atTip && history.index > 0 && last.group === group && at - last.at < GROUP_WINDOW_MS) {
+    kept[kept.length - 1] = { ...last, state, at };
+    return { entries: kept, index: kept.length - 1 };
+  }
+  const entries = [...kept, { label: actionLabel(action), state, group, at }].slice(-MAX_HISTORY);
+  return { entries, index: entries.length - 1 };
+}
+
+export function historyReducer(history: EditorHistory, action: HistoryAction): EditorHistory {
+  switch (action.type) {
+    case "apply":
+      return applyEdit(history, action.action, action.at);
+    case "undo":
+      return canUndo(history) ? { ...history, index: history.index - 1 } : history;
+    case "redo":
+      return canRedo(history) ? { ...history, index: history.index + 1 } : history;
+    case "jump":
+      return action.index >= 0 && action.index < history.entries.length ? { ...history, index: action.index } : history;
+  }
+}
+
+function toAsset(id: string, file: File): ProjectAsset {
+  return { id, name: file.name, type: file.type, blob: file };
+}
+
+export function editorProject(state: EditorState): Project {
+  const { images, voiceFile, musicFile, ...rest } = state;
+  return {
+    ...rest,
+    version: PROJECT_VERSION,
+    images: images.map((img) => toAsset(img.id, img.file)),
+    imageEdits: Object.fromEntries(images.flatMap((img) => (img.edits ? [[img.id, img.edits]] : []))),
+    clips: Object.fromEntries(images.flatMap((img) => (img.clip ? [[img.id, img.clip]] : []))),
+    voice: voiceFile ? toAsset("voice", voiceFile) : null,
+    musicTrack: musicFile ? toAsset("music", musicFile) : null
+  };
+}
+
+// Image and video elements are decoded later and arrive as `imagesDecoded`.
+export function projectEditorState(project: Project, makeUrl: (file: File) => string): EditorState {
+  const toFile = (asset: ProjectAsset) => new File([asset.blob], asset.name, { type: asset.type });
+  const { version, images, imageEdits, clips, voice, musicTrack, ...rest } = project;
+  return {
+    ...rest,
+    images: images.map((asset) => {
+      const file = toFile(asset);
+      return { id: asset.id, file, url: makeUrl(file), edits: imageEdits[asset.id], clip: clips[asset.id] };
+    }),
+    voiceFile: voice ? toFile(voice) : null,
+    musicFile: musicTrack ? toFile(musicTrack) : null
+  };
+}
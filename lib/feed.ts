@@ -0,0 +1,122 @@
+// Product feeds for batch mode: CSV (comma, semicolon or tab separated,
+// RFC 4180 quoting) or JSON (an array of objects, or `{ products: [...] }`).
+// Column names are matched loosely, so "Product Title", "product_title" and
+// "title" all work.
+
+export type FeedItem = {
+  row: number;
+  title: string;
+  subtitle: string;
+  benefits: string[];
+  cta: string;
+  brandColor: string | null;
+  images: string[];
+  error: string | null;
+};
+
+const FIELD_ALIASES: Record<string, string[]> = {
+  title: ["title", "producttitle", "name", "product"],
+  subtitle: ["subtitle", "tagline"],
+  benefits: ["benefits", "benefitstext", "bullets", "features"],
+  cta: ["cta", "calltoaction"],
+  brandColor: ["brandcolor", "color", "colour"],
+  images: ["images", "image", "imagefiles", "files"]
+};
+
+function normalizeKey(key: string) {
+  return key.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+export function parseCsv(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, "");
+  const firstLine = source.split(/\r?\n/, 1)[0] ?? "";
+  const delimiter = [",", ";", "\t"].reduce((best, d) =>
+    firstLine.split(d).length > firstLine.split(best).length ? d : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (quoted) {
+      if (ch === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === "") {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && source[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ""));
+}
+
+function splitList(value: unknown, separators: RegExp): string[] {
+  const list = Array.isArray(value) ? value.map(String) : typeof value === "string" ? value.split(separators) : [];
+  return list.map((s) => s.trim()).filter(Boolean);
+}
+
+function toItem(record: Record<string, unknown>, row: number): FeedItem {
+  const fields: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(record)) {
+    const normalized = normalizeKey(key);
+    const field = Object.keys(FIELD_ALIASES).find((f) => FIELD_ALIASES[f].includes(normalized));
+    if (field && fields[field] === undefined) fields[field] = value;
+  }
+  const text = (key: string) => (typeof fields[key] === "string" ? (fields[key] as string).trim() : "");
+  const color = text("brandColor");
+  const brandColor = /^#[0-9a-f]{6}$/i.test(color) ? color : null;
+
+  const item: FeedItem = {
+    row,
+    title: text("title"),
+    subtitle: text("subtitle"),
+    benefits: splitList(fields.benefits, /\s*[|\n]\s*/),
+    cta: text("cta"),
+    brandColor,
+    images: splitList(fields.images, /\s*[|;,]\s*/),
+    error: null
+  };
+  if (!item.title) item.error = "Missing title";
+  else if (item.benefits.length === 0) item.error = "No benefits";
+  else if (color && !brandColor) item.error = `Brand color "${color}" is not a #rrggbb hex value`;
+  return item;
+}
+
+export function parseFeed(text: string, filename: string): FeedItem[] {
+  const isJson = /\.json$/i.test(filename) || /^\s*[[{]/.test(text);
+  let records: Record<string, unknown>[];
+  if (isJson) {
+    const data = JSON.parse(text);
+    const list = Array.isArray(data) ? data : Array.isArray(data?.products) ? data.products : null;
+    if (!list) throw new Error("JSON feed must be an array of products or { products: [...] }");
+    records = list.filter((r: unknown) => r && typeof r === "object");
+  } else {
+    const [header, ...rows] = parseCsv(text);
+    if (!header) throw new Error("The feed is empty");
+    records = rows.map((cells) => Object.fromEntries(header.map((name, i) => [name, cells[i] ?? ""])));
+  }
+  if (records.length === 0) throw new Error("The feed has no products");
+  // Rows are numbered as a spreadsheet would show them.
+  return records.map((record, i) => toItem(record, isJson ? i + 1 : i + 2));
+}
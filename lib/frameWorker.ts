@@ -0,0 +1,154 @@
+import { registeredFonts } from "./canvas";
+import { sceneHasClips, type Scene } from "./draw";
+import type { VideoTrackInput } from "./mux/types";
+
+// Main-thread side of the render worker. The worker owns an OffscreenCanvas
+// and runs `drawFrame` there, so long renders don't block the editor and
+// editor work doesn't stall the frames.
+
+export type WorkerRequest =
+  | {
+      type: "init";
+      scene: Scene;
+      fps: number;
+      fonts: { family: string; data: ArrayBuffer }[];
+      // Set when drawing onto a page canvas, e.g. for real-time capture.
+      canvas: OffscreenCanvas | null;
+    }
+  | { type: "encode"; config: VideoEncoderConfig }
+  | { type: "draw"; frame: number };
+
+export type WorkerResponse =
+  | { type: "ready" }
+  | { type: "progress"; frame: number; frames: number }
+  | { type: "encoded"; track: VideoTrackInput }
+  | { type: "drawn" }
+  | { type: "error"; message: string };
+
+export type FrameWorker = {
+  encode: (config: VideoEncoderConfig, onFrame: (frame: number, frames: number) => void) => Promise<VideoTrackInput>;
+  draw: (frame: number) => Promise<void>;
+  terminate: () => void;
+};
+
+export function supportsFrameWorker() {
+  return typeof Worker !== "undefined" && typeof OffscreenCanvas !== "undefined" && typeof createImageBitmap !== "undefined";
+}
+
+// Images can't be posted as elements, so the worker gets bitmaps of them.
+// The drawing code only needs `width`, `height` and `drawImage`.
+async function workerScene(scene: Scene): Promise<{ scene: Scene; bitmaps: ImageBitmap[] }> {
+  const bitmaps = new Map<HTMLImageElement, ImageBitmap>();
+  const toBitmap = async (image: HTMLImageElement) => {
+    let bitmap = bitmaps.get(image);
+    if (!bitmap) {
+      bitmap = await createImageBitmap(image);
+      bitmaps.set(image, bitmap);
+    }
+    return bitmap as unknown as HTMLImageElement;
+  };
+  const slides = await Promise.all(
+    scene.slides.map(async (slide) => ({
+      ...slide,
+      images: await Promise.all(slide.images.map(async (img) => ({ ...img, image: await toBitmap(img.image) })))
+    }))
+  );
+  const { logo, watermark } = scene.brand;
+  const brand = {
+    ...scene.brand,
+    logo: logo ? { ...logo, image: await toBitmap(logo.image) } : null,
+    watermark: watermark ? { ...watermark, image: watermark.image ? await toBitmap(watermark.image) : null } : null
+  };
+  return { scene: { ...scene, brand, slides }, bitmaps: Array.from(bitmaps.values()) };
+}
+
+function abortError() {
+  return new DOMException("Render cancelled", "AbortError");
+}
+
+// Starts a worker holding `scene`. Resolves to null when the worker can't
+// start here, so callers can draw on the main thread instead. Templates added
+// with `registerTemplate` at runtime are not known to the worker, and scenes
+// with clips stay on the main thread, where their video elements are.
+export async function startFrameWorker(
+  scene: Scene,
+  fps: number,
+  canvas: OffscreenCanvas | null,
+  signal?: AbortSignal
+): Promise<FrameWorker | null> {
+  if (!supportsFrameWorker() || sceneHasClips(scene)) return null;
+  let worker: Worker;
+  try {
+    worker = new Worker(new URL("./renderWorker.ts", import.meta.url));
+  } catch {
+    return null;
+  }
+
+  // Requests run one at a time; `pending` settles the current one.
+  let pending: { resolve: (response: WorkerResponse) => void; reject: (err: unknown) => void } | null = null;
+  let onFrame: ((frame: number, frames: number) => void) | null = null;
+  const fail = (err: unknown) => {
+    pending?.reject(err);
+    pending = null;
+  };
+  const terminate = () => {
+    worker.terminate();
+    signal?.removeEventListener("abort", onAbort);
+  };
+  const onAbort = () => {
+    terminate();
+    fail(abortError());
+  };
+  signal?.addEventListener("abort", onAbort);
+  worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+    const response = e.data;
+    if (response.type === "progress") {
+      try {
+        onFrame?.(response.frame, response.frames);
+      } catch (err) {
+        terminate();
+        fail(err);
+      }
+    } else if (response.type === "error") {
+      fail(new Error(response.message));
+    } else {
+      pending?.resolve(response);
+      pending = null;
+    }
+  };
+  worker.onerror = (e) => {
+    e.preventDefault();
+    fail(new Error(e.message || "Render worker failed"));
+  };
+
+  const request = (message: WorkerRequest, transfer: Transferable[] = []) =>
+    new Promise<WorkerResponse>((resolve, reject) => {
+      if (signal?.aborted) return reject(abortError());
+      pending = { resolve, reject };
+      worker.postMessage(message, transfer);
+    });
+
+  try {
+    const posted = await workerScene(scene);
+    const transfer: Transferable[] = [...posted.bitmaps];
+    if (canvas) transfer.push(canvas);
+    await request({ type: "init", scene: posted.scene, fps, fonts: registeredFonts(), canvas }, transfer);
+  } catch {
+    terminate();
+    if (signal?.aborted) throw abortError();
+    return null;
+  }
+
+  return {
+    encode: async (config, frameCallback) => {
+      onFrame = frameCallback;
+      const response = await request({ type: "encode", config });
+      if (response.type !== "encoded") throw new Error("Unexpected render worker response");
+      return response.track;
+    },
+    draw: async (frame) => {
+      await request({ type: "draw", frame });
+    },
+    terminate
+  };
+}
@@ -0,0 +1,266 @@
+// Animated GIF encoder. All frames share one 256-color palette picked by
+// median cut over the whole excerpt, so colors don't shimmer between frames.
+// Frames are RGBA pixels, as from `getImageData`.
+
+// Colors are binned at 5 bits per channel while choosing and mapping.
+const BITS = 5;
+const SHIFT = 8 - BITS;
+const BINS = 1 << (BITS * 3);
+const PALETTE_SIZE = 256;
+// At most this many pixels per frame feed the histogram.
+const SAMPLES_PER_FRAME = 20000;
+
+const binOf = (r: number, g: number, b: number) => ((r >> SHIFT) << (BITS * 2)) | ((g >> SHIFT) << BITS) | (b >> SHIFT);
+
+type ColorBox = { bins: number[]; count: number };
+
+function channelOf(bin: number, channel: number) {
+  return (bin >> (BITS * (2 - channel))) & ((1 << BITS) - 1);
+}
+
+// Splits the box along its widest channel at the pixel-weighted median.
+function splitBox(box: ColorBox, histogram: Uint32Array): [ColorBox, ColorBox] | null {
+  if (box.bins.length < 2) return null;
+  let channel = 0;
+  let widest = -1;
+  for (let c = 0; c < 3; c++) {
+    let min = Infinity;
+    let max = -Infinity;
+    for (const bin of box.bins) {
+      const v = channelOf(bin, c);
+      if (v < min) min = v;
+      if (v > max) max = v;
+    }
+    if (max - min > widest) {
+      widest = max - min;
+      channel = c;
+    }
+  }
+  const sorted = box.bins.slice().sort((a, b) => channelOf(a, channel) - channelOf(b, channel));
+  let seen = 0;
+  let cut = 1;
+  for (; cut < sorted.length; cut++) {
+    seen += histogram[sorted[cut - 1]];
+    if (seen >= box.count / 2) break;
+  }
+  cut = Math.min(cut, sorted.length - 1);
+  const left = sorted.slice(0, cut);
+  const right = sorted.slice(cut);
+  const sum = (bins: number[]) => bins.reduce((total, bin) => total + histogram[bin], 0);
+  return [
+    { bins: left, count: sum(left) },
+    { bins: right, count: sum(right) }
+  ];
+}
+
+function buildPalette(frames: Uint8ClampedArray[]): Uint8Array {
+  const histogram = new Uint32Array(BINS);
+  for (const data of frames) {
+    const pixels = data.length / 4;
+    const step = Math.max(1, Math.floor(pixels / SAMPLES_PER_FRAME));
+    for (let p = 0; p < pixels; p += step) {
+      const i = p * 4;
+      histogram[binOf(data[i], data[i + 1], data[i + 2])]++;
+    }
+  }
+  const used: number[] = [];
+  let total = 0;
+  for (let bin = 0; bin < BINS; bin++) {
+    if (histogram[bin] > 0) {
+      used.push(bin);
+      total += histogram[bin];
+    }
+  }
+
+  const boxes: ColorBox[] = [{ bins: used, count: total }];
+  while (boxes.length < PALETTE_SIZE) {
+    // The most populous box that can still split goes next.
+    let pick = -1;
+    for (let i = 0; i < boxes.length; i++) {
+      if (boxes[i].bins.length > 1 && (pick < 0 || boxes[i].count > boxes[pick].count)) pick = i;
+    }
+    if (pick < 0) break;
+    const halves = splitBox(boxes[pick], histogram);
+    if (!halves) break;
+    boxes.splice(pick, 1, ...halves);
+  }
+
+  const palette = new Uint8Array(PALETTE_SIZE * 3);
+  boxes.forEach((box, i) => {
+    const sums = [0, 0, 0];
+    let weight = 0;
+    for (const bin of box.bins) {
+      const n = histogram[bin];
+      for (let c = 0; c < 3; c++) sums[c] += (channelOf(bin, c) << SHIFT) * n;
+      weight += n;
+    }
+    // Bin values are the bottom of each bin; add half a bin back.
+    for (let c = 0; c < 3; c++) palette[i * 3 + c] = Math.min(255, Math.round(sums[c] / Math.max(1, weight)) + (1 << (SHIFT - 1)));
+  });
+  return palette;
+}
+
+// Nearest palette entry to the center of `bin`.
+function nearestIndex(palette: Uint8Array, bin: number) {
+  const half = 1 << (SHIFT - 1);
+  const r = (channelOf(bin, 0) << SHIFT) + half;
+  const g = (channelOf(bin, 1) << SHIFT) + half;
+  const b = (channelOf(bin, 2) << SHIFT) + half;
+  let best = 0;
+  let bestDistance = Infinity;
+  for (let i = 0; i < PALETTE_SIZE; i++) {
+    const dr = palette[i * 3] - r;
+    const dg = palette[i * 3 + 1] - g;
+    const db = palette[i * 3 + 2] - b;
+    const d = dr * dr + dg * dg + db * db;
+    if (d < bestDistance) {
+      bestDistance = d;
+      best = i;
+    }
+  }
+  return best;
+}
+
+class ByteWriter {
+  private chunks: Uint8Array[] = [];
+  private current = new Uint8Array(65536);
+  private length = 0;
+
+  byte(value: number) {
+    if (this.length === this.current.length) {
+      this.chunks.push(this.current);
+      this.current = new Uint8Array(65536);
+      this.length = 0;
+    }
+    this.current[this.length++] = value;
+  }
+
+  bytes(values: ArrayLike<number>) {
+    for (let i = 0; i < values.length; i++) this.byte(values[i]);
+  }
+
+  short(value: number) {
+    this.byte(value & 0xff);
+    this.byte((value >> 8) & 0xff);
+  }
+
+  ascii(text: string) {
+    for (let i = 0; i < text.length; i++) this.byte(text.charCodeAt(i));
+  }
+
+  parts(): Uint8Array[] {
+    return [...this.chunks, this.current.subarray(0, this.length)];
+  }
+}
+
+// LZW-compresses palette indices into GIF data sub-blocks.
+function writeImageData(out: ByteWriter, indices: Uint8Array) {
+  const minCodeSize = 8;
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  out.byte(minCodeSize);
+
+  const block = new Uint8Array(255);
+  let blockLength = 0;
+  let bitBuffer = 0;
+  let bitCount = 0;
+  const flushBlock = () => {
+    out.byte(blockLength);
+    out.bytes(block.subarray(0, blockLength));
+    blockLength = 0;
+  };
+  const emit = (code: number, size: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += size;
+    while (bitCount >= 8) {
+      block[blockLength++] = bitBuffer & 0xff;
+      if (blockLength === 255) flushBlock();
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  let dictionary = new Map<number, number>();
+  let nextCode = endCode + 1;
+  let codeSize = minCodeSize + 1;
+  emit(clearCode, codeSize);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const code = dictionary.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix, codeSize);
+    if (nextCode < 4096) {
+      dictionary.set(key, nextCode++);
+      if (nextCode > 1 << codeSize && codeSize < 12) codeSize++;
+    } else {
+      emit(clearCode, codeSize);
+      dictionary = new Map();
+      nextCode = endCode + 1;
+      codeSize = minCodeSize + 1;
+    }
+    prefix = k;
+  }
+  emit(prefix, codeSize);
+  emit(endCode, codeSize);
+  if (bitCount > 0) {
+    block[blockLength++] = bitBuffer & 0xff;
+    if (blockLength === 255) flushBlock();
+  }
+  if (blockLength > 0) flushBlock();
+  out.byte(0);
+}
+
+// Encodes `frames` as a looping GIF shown at `fps`. GIF delays are in
+// hundredths of a second, so they are rounded in a way that keeps the total
+// length right.
+export function encodeGif(frames: Uint8ClampedArray[], width: number, height: number, fps: number): Blob {
+  const palette = buildPalette(frames);
+  const lookup = new Int16Array(BINS).fill(-1);
+  const out = new ByteWriter();
+
+  out.ascii("GIF89a");
+  out.short(width);
+  out.short(height);
+  out.byte(0xf7); // global palette of 256 colors
+  out.byte(0);
+  out.byte(0);
+  out.bytes(palette);
+
+  // Loop forever.
+  out.bytes([0x21, 0xff, 0x0b]);
+  out.ascii("NETSCAPE2.0");
+  out.bytes([0x03, 0x01, 0x00, 0x00, 0x00]);
+
+  const indices = new Uint8Array(width * height);
+  frames.forEach((data, f) => {
+    for (let p = 0; p < indices.length; p++) {
+      const i = p * 4;
+      const bin = binOf(data[i], data[i + 1], data[i + 2]);
+      let index = lookup[bin];
+      if (index < 0) {
+        index = nearestIndex(palette, bin);
+        lookup[bin] = index;
+      }
+      indices[p] = index;
+    }
+    const delay = Math.round(((f + 1) * 100) / fps) - Math.round((f * 100) / fps);
+    out.bytes([0x21, 0xf9, 0x04, 0x04]);
+    out.short(delay);
+    out.bytes([0x00, 0x00]);
+    out.byte(0x2c);
+    out.short(0);
+    out.short(0);
+    out.short(width);
+    out.short(height);
+    out.byte(0);
+    writeImageData(out, indices);
+  });
+
+  out.byte(0x3b);
+  return new Blob(out.parts() as BlobPart[], { type: "image/gif" });
+}
@@ -0,0 +1,236 @@
+import { createCanvas } from "./canvas";
+import type { Cutout, ImageEdits } from "./types";
+
+// Crop, color filters and background removal for uploaded images. Everything
+// is plain pixel math on a canvas, so it runs offline and gives the same
+// result in every browser and on the server.
+
+// Longest side an edited image is processed at; templates never draw larger.
+const MAX_EDIT_SIZE = 1600;
+
+// Pixels more transparent than this are trimmed off a cutout's edges.
+const TRIM_ALPHA = 8;
+
+export const DEFAULT_IMAGE_EDITS: ImageEdits = {
+  crop: { x: 0, y: 0, width: 1, height: 1 },
+  focus: { x: 0.5, y: 0.5 },
+  brightness: 1,
+  contrast: 1,
+  saturation: 1,
+  opacity: 1,
+  cutout: null
+};
+
+export const DEFAULT_CUTOUT: Cutout = { mode: "flood", tolerance: 0.12 };
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+function num(value: unknown, fallback: number, min: number, max: number) {
+  return typeof value === "number" && Number.isFinite(value) ? clamp(value, min, max) : fallback;
+}
+
+const record = (value: unknown) => (value && typeof value === "object" ? (value as Record<string, unknown>) : {});
+
+// Fills in anything missing or out of range, e.g. in edits from a project file.
+export function normalizeImageEdits(value: unknown): ImageEdits {
+  if (!value || typeof value !== "object") return DEFAULT_IMAGE_EDITS;
+  const base = DEFAULT_IMAGE_EDITS;
+  const data = record(value);
+  const crop = record(data.crop);
+  const focus = record(data.focus);
+  const x = num(crop.x, 0, 0, 0.95);
+  const y = num(crop.y, 0, 0, 0.95);
+  const cutout = data.cutout && typeof data.cutout === "object" ? record(data.cutout) : null;
+  return {
+    crop: { x, y, width: num(crop.width, 1 - x, 0.05, 1 - x), height: num(crop.height, 1 - y, 0.05, 1 - y) },
+    focus: { x: num(focus.x, 0.5, 0, 1), y: num(focus.y, 0.5, 0, 1) },
+    brightness: num(data.brightness, base.brightness, 0, 2),
+    contrast: num(data.contrast, base.contrast, 0, 2),
+    saturation: num(data.saturation, base.saturation, 0, 2),
+    opacity: num(data.opacity, base.opacity, 0, 1),
+    cutout: cutout
+      ? { mode: cutout.mode === "key" ? "key" : "flood", tolerance: num(cutout.tolerance, DEFAULT_CUTOUT.tolerance, 0.01, 0.5) }
+      : null
+  };
+}
+
+function isCropped(edits: ImageEdits) {
+  const { crop } = edits;
+  return crop.x > 0 || crop.y > 0 || crop.width < 1 || crop.height < 1;
+}
+
+function isFiltered(edits: ImageEdits) {
+  return edits.brightness !== 1 || edits.contrast !== 1 || edits.saturation !== 1;
+}
+
+function applyFilters(data: Uint8ClampedArray, edits: Pick<ImageEdits, "brightness" | "contrast" | "saturation">) {
+  const { brightness, contrast, saturation } = edits;
+  for (let i = 0; i < data.length; i += 4) {
+    let r = data[i] * brightness;
+    let g = data[i + 1] * brightness;
+    let b = data[i + 2] * brightness;
+    r = (r - 128) * contrast + 128;
+    g = (g - 128) * contrast + 128;
+    b = (b - 128) * contrast + 128;
+    const lum = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+    data[i] = lum + (r - lum) * saturation;
+    data[i + 1] = lum + (g - lum) * saturation;
+    data[i + 2] = lum + (b - lum) * saturation;
+  }
+}
+
+// Median color along the image border, taken as the background color.
+function borderColor(data: Uint8ClampedArray, width: number, height: number): [number, number, number] {
+  const samples: number[][] = [[], [], []];
+  const step = Math.max(1, Math.floor((width + height) / 500));
+  const take = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    for (let c = 0; c < 3; c++) samples[c].push(data[i + c]);
+  };
+  for (let x = 0; x < width; x += step) {
+    take(x, 0);
+    take(x, height - 1);
+  }
+  for (let y = 0; y < height; y += step) {
+    take(0, y);
+    take(width - 1, y);
+  }
+  const median = (values: number[]) => values.sort((a, b) => a - b)[values.length >> 1];
+  return [median(samples[0]), median(samples[1]), median(samples[2])];
+}
+
+// Clears the background in place. Pixels just past the tolerance fade out
+// instead of keeping a hard halo of the old background.
+function removeBackground(data: Uint8ClampedArray, width: number, height: number, cutout: Cutout) {
+  const [br, bg, bb] = borderColor(data, width, height);
+  const count = width * height;
+  const distance = new Float32Array(count);
+  const scale = 1 / (255 * Math.sqrt(3));
+  for (let p = 0; p < count; p++) {
+    const i = p * 4;
+    const dr = data[i] - br;
+    const dg = data[i + 1] - bg;
+    const db = data[i + 2] - bb;
+    distance[p] = Math.sqrt(dr * dr + dg * dg + db * db) * scale;
+  }
+  const tol = cutout.tolerance;
+  const fade = (d: number) => clamp((d - tol) / tol, 0, 1);
+
+  if (cutout.mode === "key") {
+    for (let p = 0; p < count; p++) data[p * 4 + 3] *= fade(distance[p]);
+    return;
+  }
+
+  // Flood fill from every border pixel that matches the background.
+  const removed = new Uint8Array(count);
+  const stack = new Int32Array(count);
+  let top = 0;
+  const seed = (p: number) => {
+    if (!removed[p] && distance[p] <= tol) {
+      removed[p] = 1;
+      stack[top++] = p;
+    }
+  };
+  for (let x = 0; x < width; x++) {
+    seed(x);
+    seed((height - 1) * width + x);
+  }
+  for (let y = 0; y < height; y++) {
+    seed(y * width);
+    seed(y * width + width - 1);
+  }
+  while (top > 0) {
+    const p = stack[--top];
+    const x = p % width;
+    if (x > 0) seed(p - 1);
+    if (x < width - 1) seed(p + 1);
+    if (p >= width) seed(p - width);
+    if (p < count - width) seed(p + width);
+  }
+
+  for (let p = 0; p < count; p++) {
+    if (removed[p]) {
+      data[p * 4 + 3] = 0;
+      continue;
+    }
+    const x = p % width;
+    const edge =
+      (x > 0 && removed[p - 1]) ||
+      (x < width - 1 && removed[p + 1]) ||
+      (p >= width && removed[p - width]) ||
+      (p < count - width && removed[p + width]);
+    if (edge) data[p * 4 + 3] *= fade(distance[p]);
+  }
+}
+
+// Bounding box of the visible pixels, or null when nothing is left.
+function opaqueBounds(data: Uint8ClampedArray, width: number, height: number) {
+  let minX = width;
+  let minY = height;
+  let maxX = -1;
+  let maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] <= TRIM_ALPHA) continue;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+  return maxX < 0 ? null : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+}
+
+type Source = CanvasImageSource & { width: number; height: number };
+
+function processImage(source: Source, edits: ImageEdits): Source {
+  const { crop } = edits;
+  const sx = Math.round(crop.x * source.width);
+  const sy = Math.round(crop.y * source.height);
+  const sw = Math.max(1, Math.round(crop.width * source.width));
+  const sh = Math.max(1, Math.round(crop.height * source.height));
+  const scale = Math.min(1, MAX_EDIT_SIZE / Math.max(sw, sh));
+  const width = Math.max(1, Math.round(sw * scale));
+  const height = Math.max(1, Math.round(sh * scale));
+
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext("2d") as unknown as CanvasRenderingContext2D | null;
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  ctx.drawImage(source, sx, sy, sw, sh, 0, 0, width, height);
+  if (!isFiltered(edits) && !edits.cutout) return canvas;
+
+  const pixels = ctx.getImageData(0, 0, width, height);
+  if (isFiltered(edits)) applyFilters(pixels.data, edits);
+  if (!edits.cutout) {
+    ctx.putImageData(pixels, 0, 0);
+    return canvas;
+  }
+  removeBackground(pixels.data, width, height, edits.cutout);
+  ctx.putImageData(pixels, 0, 0);
+
+  // Trimmed so the product itself, not the cleared margin, is what gets
+  // fitted and centered.
+  const bounds = opaqueBounds(pixels.data, width, height);
+  if (!bounds || (bounds.width === width && bounds.height === height)) return canvas;
+  const trimmed = createCanvas(bounds.width, bounds.height);
+  const trimmedCtx = trimmed.getContext("2d") as unknown as CanvasRenderingContext2D | null;
+  if (!trimmedCtx) throw new Error("Canvas 2D context unavailable");
+  trimmedCtx.drawImage(canvas, bounds.x, bounds.y, bounds.width, bounds.height, 0, 0, bounds.width, bounds.height);
+  return trimmed;
+}
+
+const processed = new WeakMap<object, { key: string; image: HTMLImageElement }>();
+
+// The image templates should draw for `element` with `edits` applied. Each
+// element keeps its latest result, so dragging a slider only reprocesses
+// when the pixels actually change; focus and opacity are applied at draw time.
+export function editedImage(element: HTMLImageElement, edits: ImageEdits | undefined): HTMLImageElement {
+  if (!edits || (!isCropped(edits) && !isFiltered(edits) && !edits.cutout)) return element;
+  const key = JSON.stringify([edits.crop, edits.brightness, edits.contrast, edits.saturation, edits.cutout]);
+  const hit = processed.get(element);
+  if (hit && hit.key === key) return hit.image;
+  // Canvases draw like images; templates only use width, height and drawImage.
+  const image = processImage(element, edits) as unknown as HTMLImageElement;
+  processed.set(element, { key, image });
+  return image;
+}
@@ -0,0 +1,326 @@
+import { applyEntrance, TEXT_ANIMATION_LABELS, typedText } from "./animation";
+import { font, roundRect } from "./canvas";
+import type { Scene } from "./draw";
+import { clamp01 } from "./easing";
+import { drawText, layoutText, type TextBox, type TextStyle } from "./text";
+import type { LayerKind, OverlayLayer, TextAnimation } from "./types";
+
+// Overlay layers drawn over a slide's template: badges, ratings, arrows,
+// countdowns, stickers and free text. Each kind has a fixed width:height
+// ratio, so a layer is placed by its center, width and rotation alone.
+
+export type LayerKindInfo = {
+  label: string;
+  aspect: number;
+  defaults: Partial<OverlayLayer>;
+};
+
+export const LAYER_KINDS: Record<LayerKind, LayerKindInfo> = {
+  price: { label: "Price badge", aspect: 2, defaults: { text: "$29.99", detail: "$39.99", size: 0.36 } },
+  rating: { label: "Star rating", aspect: 4, defaults: { value: 4.5, detail: "2,431 reviews", size: 0.56, color: "#fbbf24" } },
+  arrow: { label: "Arrow", aspect: 2.5, defaults: { size: 0.3, animation: "slide" } },
+  countdown: { label: "Countdown", aspect: 2.6, defaults: { text: "Deal ends in", value: 3 * 3600, size: 0.5 } },
+  sticker: { label: "Sticker", aspect: 1, defaults: { text: "🔥", size: 0.2 } },
+  text: { label: "Text box", aspect: 3, defaults: { text: "Only today!", size: 0.6, animation: "fade-up" } }
+};
+
+export const LAYER_KIND_IDS = Object.keys(LAYER_KINDS) as LayerKind[];
+
+export const MIN_LAYER_SIZE = 0.04;
+export const MAX_LAYER_SIZE = 1.5;
+
+// How long a layer's entrance takes once it appears.
+const ENTRANCE_SECONDS = 0.4;
+
+export function createLayer(kind: LayerKind, id: string): OverlayLayer {
+  return {
+    id,
+    kind,
+    x: 0.5,
+    y: 0.5,
+    size: 0.4,
+    rotation: 0,
+    start: 0,
+    end: null,
+    animation: "pop",
+    color: null,
+    text: "",
+    detail: "",
+    value: 0,
+    ...LAYER_KINDS[kind].defaults
+  };
+}
+
+function finite(value: unknown, fallback: number) {
+  return typeof value === "number" && Number.isFinite(value) ? value : fallback;
+}
+
+function normalizeLayer(value: unknown, index: number): OverlayLayer | null {
+  if (!value || typeof value !== "object") return null;
+  const data = value as Partial<Record<keyof OverlayLayer, unknown>>;
+  const kind = LAYER_KIND_IDS.find((id) => id === data.kind);
+  if (!kind) return null;
+  const base = createLayer(kind, typeof data.id === "string" && data.id ? data.id : `layer-${index + 1}`);
+  const start = Math.max(0, finite(data.start, base.start));
+  const end = typeof data.end === "number" && Number.isFinite(data.end) && data.end > start ? data.end : null;
+  return {
+    ...base,
+    x: finite(data.x, base.x),
+    y: finite(data.y, base.y),
+    size: Math.min(MAX_LAYER_SIZE, Math.max(MIN_LAYER_SIZE, finite(data.size, base.size))),
+    rotation: finite(data.rotation, base.rotation),
+    start,
+    end,
+    animation: (Object.keys(TEXT_ANIMATION_LABELS) as TextAnimation[]).find((id) => id === data.animation) ?? base.animation,
+    color: typeof data.color === "string" ? data.color : null,
+    text: typeof data.text === "string" ? data.text : base.text,
+    detail: typeof data.detail === "string" ? data.detail : base.detail,
+    value: Math.max(0, finite(data.value, base.value))
+  };
+}
+
+// Layers from a project file; unknown kinds are dropped.
+export function normalizeLayers(data: unknown): OverlayLayer[] {
+  return Array.isArray(data) ? data.flatMap((item, i) => normalizeLayer(item, i) ?? []) : [];
+}
+
+// Center and size of the layer on the frame, in pixels.
+export function layerBox(scene: Pick<Scene, "width" | "height">, layer: OverlayLayer) {
+  const width = layer.size * Math.min(scene.width, scene.height);
+  return {
+    cx: layer.x * scene.width,
+    cy: layer.y * scene.height,
+    width,
+    height: width / LAYER_KINDS[layer.kind].aspect
+  };
+}
+
+// A frame point in the layer's own coordinates: origin at its center, x
+// along its rotated width.
+export function toLayerSpace(scene: Pick<Scene, "width" | "height">, layer: OverlayLayer, x: number, y: number) {
+  const { cx, cy } = layerBox(scene, layer);
+  const angle = (-layer.rotation * Math.PI) / 180;
+  const dx = x - cx;
+  const dy = y - cy;
+  return { x: dx * Math.cos(angle) - dy * Math.sin(angle), y: dx * Math.sin(angle) + dy * Math.cos(angle) };
+}
+
+// The topmost layer under a frame point.
+export function hitLayer(scene: Pick<Scene, "width" | "height">, layers: OverlayLayer[], x: number, y: number) {
+  for (let i = layers.length - 1; i >= 0; i--) {
+    const { width, height } = layerBox(scene, layers[i]);
+    const local = toLayerSpace(scene, layers[i], x, y);
+    if (Math.abs(local.x) <= width / 2 && Math.abs(local.y) <= height / 2) return layers[i];
+  }
+  return null;
+}
+
+export function layerVisible(layer: OverlayLayer, seconds: number) {
+  return seconds >= layer.start && (layer.end === null || seconds < layer.end);
+}
+
+// A moment the layer is on screen with its entrance done, for editing.
+export function settledTime(layer: OverlayLayer) {
+  const settled = layer.start + ENTRANCE_SECONDS;
+  return layer.end === null ? settled : Math.min(settled, (layer.start + layer.end) / 2);
+}
+
+// "1,299.00", "$1,299", "$39", "39,99 €" and "1.299,00 €" all read as
+// prices: a last "." or "," followed by one or two digits is the decimal
+// separator, and any other separator groups thousands.
+function parsePrice(text: string) {
+  const digits = text.replace(/[^0-9.,]/g, "");
+  const decimal = /[.,](\d{1,2})$/.exec(digits);
+  const whole = (decimal ? digits.slice(0, decimal.index) : digits).replace(/[.,]/g, "");
+  const n = Number(decimal ? `${whole}.${decimal[1]}` : whole);
+  return /\d/.test(digits) && Number.isFinite(n) ? n : null;
+}
+
+// "-25%" when `price` is below `was`, otherwise null.
+export function discountLabel(price: string, was: string) {
+  const now = parsePrice(price);
+  const before = parsePrice(was);
+  if (now === null || before === null || before <= 0 || now >= before) return null;
+  return `-${Math.round((1 - now / before) * 100)}%`;
+}
+
+// Time left as H:MM:SS, or M:SS under an hour.
+export function formatCountdown(seconds: number) {
+  const total = Math.max(0, Math.ceil(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
+
+type LayerFrame = {
+  width: number;
+  height: number;
+  // Seconds since the layer appeared and how far its entrance is, 0..1.
+  elapsed: number;
+  t: number;
+};
+
+// Draws one line of text centered on (x, y) within `width`.
+function centeredText(
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  style: TextStyle,
+  box: Omit<TextBox, "x" | "y" | "width"> & { width: number },
+  x: number,
+  y: number,
+  background: string | null
+) {
+  const full = { ...box, x: x - box.width / 2, y: 0, align: "center" as const };
+  const layout = layoutText(ctx, text, style, full);
+  return drawText(ctx, text, style, { ...full, y: y - layout.height / 2 }, background);
+}
+
+function starPath(ctx: CanvasRenderingContext2D, cx: number, cy: number, radius: number) {
+  ctx.beginPath();
+  for (let i = 0; i < 10; i++) {
+    const r = i % 2 === 0 ? radius : radius * 0.45;
+    const angle = -Math.PI / 2 + (i * Math.PI) / 5;
+    ctx.lineTo(cx + r * Math.cos(angle), cy + r * Math.sin(angle));
+  }
+  ctx.closePath();
+}
+
+// Each drawer works in the layer's own coordinates: centered on the origin,
+// `width` by `height`, already rotated.
+const DRAWERS: Record<LayerKind, (ctx: CanvasRenderingContext2D, scene: Scene, layer: OverlayLayer, f: LayerFrame) => void> = {
+  price(ctx, scene, layer, { width, height }) {
+    const { palette, fonts } = scene.brand;
+    const fill = layer.color ?? palette.accent;
+    const style = { family: fonts.heading, weight: 800, color: palette.text, accent: palette.text };
+    const pad = height * 0.12;
+    const inner = width - pad * 2;
+    ctx.fillStyle = fill;
+    roundRect(ctx, -width / 2, -height / 2, width, height, height * 0.22);
+    ctx.fill();
+
+    if (layer.detail.trim()) {
+      const wasY = -height / 2 + pad + height * 0.14;
+      const was = centeredText(ctx, layer.detail, { ...style, weight: 600 }, { width: inner, size: height * 0.22, minSize: height * 0.12, maxLines: 1 }, 0, wasY, fill);
+      ctx.strokeStyle = palette.text;
+      ctx.lineWidth = Math.max(1, height * 0.025);
+      ctx.beginPath();
+      ctx.moveTo(-was.width / 2, wasY);
+      ctx.lineTo(was.width / 2, wasY);
+      ctx.stroke();
+      centeredText(ctx, layer.text, style, { width: inner, size: height * 0.44, minSize: height * 0.2, maxLines: 1 }, 0, height * 0.14, fill);
+    } else {
+      centeredText(ctx, layer.text, style, { width: inner, size: height * 0.55, minSize: height * 0.2, maxLines: 1 }, 0, 0, fill);
+    }
+
+    const discount = discountLabel(layer.text, layer.detail);
+    if (discount) {
+      const r = height * 0.3;
+      ctx.fillStyle = palette.primary;
+      ctx.beginPath();
+      ctx.arc(width / 2 - r * 0.4, -height / 2 + r * 0.4, r, 0, Math.PI * 2);
+      ctx.fill();
+      centeredText(ctx, discount, style, { width: r * 1.7, size: r * 0.7, minSize: r * 0.4, maxLines: 1 }, width / 2 - r * 0.4, -height / 2 + r * 0.4, palette.primary);
+    }
+  },
+
+  rating(ctx, scene, layer, { width, height }) {
+    const { palette, fonts } = scene.brand;
+    const color = layer.color ?? palette.accent;
+    const starsHeight = layer.detail.trim() ? height * 0.62 : height;
+    const star = Math.min(starsHeight, width / 5);
+    const top = -height / 2 + starsHeight / 2;
+    for (let i = 0; i < 5; i++) {
+      const cx = (i - 2) * star;
+      starPath(ctx, cx, top, star * 0.46);
+      ctx.fillStyle = "rgba(255,255,255,0.3)";
+      ctx.fill();
+      const filled = clamp01(Math.min(5, layer.value) - i);
+      if (filled > 0) {
+        ctx.save();
+        ctx.beginPath();
+        ctx.rect(cx - star / 2, top - star / 2, star * filled, star);
+        ctx.clip();
+        starPath(ctx, cx, top, star * 0.46);
+        ctx.fillStyle = color;
+        ctx.fill();
+        ctx.restore();
+      }
+    }
+    if (layer.detail.trim()) {
+      const style = { family: fonts.body, weight: 600, color: palette.text, accent: palette.accent };
+      const y = height / 2 - (height - starsHeight) / 2;
+      centeredText(ctx, layer.detail, style, { width, size: height * 0.26, minSize: height * 0.14, maxLines: 1 }, 0, y, null);
+    }
+  },
+
+  arrow(ctx, scene, layer, { width, height }) {
+    const head = Math.min(width * 0.45, height * 1.1);
+    const shaft = height * 0.34;
+    ctx.fillStyle = layer.color ?? scene.brand.palette.accent;
+    ctx.shadowColor = "rgba(0,0,0,0.35)";
+    ctx.shadowBlur = height * 0.15;
+    ctx.beginPath();
+    ctx.moveTo(-width / 2, -shaft / 2);
+    ctx.lineTo(width / 2 - head, -shaft / 2);
+    ctx.lineTo(width / 2 - head, -height / 2);
+    ctx.lineTo(width / 2, 0);
+    ctx.lineTo(width / 2 - head, height / 2);
+    ctx.lineTo(width / 2 - head, shaft / 2);
+    ctx.lineTo(-width / 2, shaft / 2);
+    ctx.closePath();
+    ctx.fill();
+  },
+
+  countdown(ctx, scene, layer, { width, height, elapsed }) {
+    const { palette, fonts } = scene.brand;
+    const fill = layer.color ?? palette.accent;
+    const style = { family: fonts.heading, weight: 800, color: palette.text, accent: palette.text };
+    const inner = width - height * 0.3;
+    ctx.fillStyle = fill;
+    roundRect(ctx, -width / 2, -height / 2, width, height, height * 0.22);
+    ctx.fill();
+    const time = formatCountdown(layer.value - elapsed);
+    if (layer.text.trim()) {
+      centeredText(ctx, layer.text, { ...style, weight: 600 }, { width: inner, size: height * 0.22, minSize: height * 0.12, maxLines: 1 }, 0, -height * 0.22, fill);
+      centeredText(ctx, time, style, { width: inner, size: height * 0.42, minSize: height * 0.2, maxLines: 1 }, 0, height * 0.14, fill);
+    } else {
+      centeredText(ctx, time, style, { width: inner, size: height * 0.55, minSize: height * 0.2, maxLines: 1 }, 0, 0, fill);
+    }
+  },
+
+  sticker(ctx, _scene, layer, { height }) {
+    ctx.font = font(400, Math.round(height * 0.85));
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillText(layer.text, 0, height * 0.04);
+  },
+
+  text(ctx, scene, layer, { width, height, t }) {
+    const { palette, fonts } = scene.brand;
+    const style = { family: fonts.heading, weight: 800, color: layer.color ?? palette.text, accent: palette.accent };
+    const box = { x: -width / 2, y: 0, width, size: height * 0.4, minSize: height * 0.12, maxHeight: height, lineHeight: 1.15, align: "center" as const };
+    const layout = layoutText(ctx, layer.text, style, box);
+    ctx.shadowColor = "rgba(0,0,0,0.45)";
+    ctx.shadowBlur = height * 0.08;
+    drawText(ctx, layer.text, style, { ...box, y: -layout.height / 2, shown: typedText(layer.text, layer.animation, t).length });
+  }
+};
+
+// Draws the layer as it looks `seconds` into its slide, entrance included.
+export function drawLayer(ctx: CanvasRenderingContext2D, scene: Scene, layer: OverlayLayer, seconds: number) {
+  if (!layerVisible(layer, seconds)) return;
+  const { cx, cy, width, height } = layerBox(scene, layer);
+  const elapsed = seconds - layer.start;
+  const t = clamp01(elapsed / ENTRANCE_SECONDS);
+  ctx.save();
+  applyEntrance(ctx, layer.animation, t, cx, cy, height * 0.3);
+  ctx.translate(cx, cy);
+  ctx.rotate((layer.rotation * Math.PI) / 180);
+  DRAWERS[layer.kind](ctx, scene, layer, { width, height, elapsed, t });
+  ctx.restore();
+}
+
+export function drawLayers(ctx: CanvasRenderingContext2D, scene: Scene, layers: OverlayLayer[], seconds: number) {
+  for (const layer of layers) drawLayer(ctx, scene, layer, seconds);
+}
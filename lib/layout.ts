@@ -0,0 +1,107 @@
+import type { Scene } from "./draw";
+import type { Aspect, Insets } from "./types";
+
+// Where each platform's UI covers the video, as fractions of the frame.
+// Templates keep text and buttons inside the remaining safe box; full-bleed
+// backgrounds still fill the whole frame.
+
+export type SafeZone = {
+  id: string;
+  name: string;
+  aspects: Aspect[];
+  insets: Insets;
+};
+
+export type Box = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type Layout = {
+  safe: Box;
+  landscape: boolean;
+  // Type and spacing unit: 1% of the short side, with the height weighted so
+  // wide frames don't get oversized type.
+  unit: number;
+};
+
+const NO_INSETS: Insets = { top: 0, right: 0, bottom: 0, left: 0 };
+
+export const SAFE_ZONES: SafeZone[] = [
+  // Union of the three below, for videos posted everywhere.
+  {
+    id: "vertical",
+    name: "All vertical apps",
+    aspects: ["9:16"],
+    insets: { top: 0.14, right: 0.14, bottom: 0.22, left: 0.06 }
+  },
+  { id: "tiktok", name: "TikTok", aspects: ["9:16"], insets: { top: 0.08, right: 0.12, bottom: 0.2, left: 0.06 } },
+  { id: "reels", name: "Instagram Reels", aspects: ["9:16"], insets: { top: 0.14, right: 0.1, bottom: 0.22, left: 0.06 } },
+  { id: "shorts", name: "YouTube Shorts", aspects: ["9:16"], insets: { top: 0.08, right: 0.14, bottom: 0.2, left: 0.06 } },
+  { id: "feed", name: "Feed post", aspects: ["1:1", "4:5"], insets: { top: 0.04, right: 0.04, bottom: 0.04, left: 0.04 } },
+  { id: "youtube", name: "YouTube (title safe)", aspects: ["16:9"], insets: { top: 0.05, right: 0.05, bottom: 0.05, left: 0.05 } },
+  { id: "none", name: "Full frame", aspects: ["9:16", "1:1", "4:5", "16:9"], insets: NO_INSETS }
+];
+
+export const DEFAULT_SAFE_ZONES: Record<Aspect, string> = {
+  "9:16": "vertical",
+  "1:1": "feed",
+  "4:5": "feed",
+  "16:9": "youtube"
+};
+
+// Keeps each aspect's chosen zone when it applies to that aspect.
+export function normalizeSafeZones(value: unknown): Record<Aspect, string> {
+  const data = value && typeof value === "object" ? (value as Partial<Record<Aspect, unknown>>) : {};
+  const zones = { ...DEFAULT_SAFE_ZONES };
+  for (const aspect of Object.keys(zones) as Aspect[]) {
+    const id = data[aspect];
+    if (safeZonesFor(aspect).some((zone) => zone.id === id)) zones[aspect] = id as string;
+  }
+  return zones;
+}
+
+export function safeZonesFor(aspect: Aspect): SafeZone[] {
+  return SAFE_ZONES.filter((zone) => zone.aspects.includes(aspect));
+}
+
+// Falls back to the aspect's default when `id` doesn't apply to it.
+export function getSafeZone(aspect: Aspect, id: string | undefined): SafeZone {
+  const zones = safeZonesFor(aspect);
+  return zones.find((zone) => zone.id === id) ?? zones.find((zone) => zone.id === DEFAULT_SAFE_ZONES[aspect]) ?? zones[0];
+}
+
+export function sceneLayout(scene: Pick<Scene, "width" | "height" | "safeArea">): Layout {
+  const { width, height } = scene;
+  const insets = scene.safeArea ?? NO_INSETS;
+  const x = Math.round(width * insets.left);
+  const y = Math.round(height * insets.top);
+  return {
+    safe: {
+      x,
+      y,
+      width: Math.round(width * (1 - insets.right)) - x,
+      height: Math.round(height * (1 - insets.bottom)) - y
+    },
+    landscape: width > height * 1.2,
+    unit: Math.min(width, height * 0.75) / 100
+  };
+}
+
+// Preview-only: shades what the platform UI covers and outlines the safe box.
+export function drawSafeZoneOverlay(ctx: CanvasRenderingContext2D, scene: Scene) {
+  const { safe, unit } = sceneLayout(scene);
+  ctx.save();
+  ctx.fillStyle = "rgba(239,68,68,0.25)";
+  ctx.beginPath();
+  ctx.rect(0, 0, scene.width, scene.height);
+  ctx.rect(safe.x, safe.y, safe.width, safe.height);
+  ctx.fill("evenodd");
+  ctx.setLineDash([unit * 1.5, unit]);
+  ctx.lineWidth = Math.max(2, unit * 0.3);
+  ctx.strokeStyle = "rgba(255,255,255,0.9)";
+  ctx.strokeRect(safe.x, safe.y, safe.width, safe.height);
+  ctx.restore();
+}
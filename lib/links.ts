@@ -0,0 +1,200 @@
+import type { Scene, SlideView } from "./draw";
+import { sceneLayout } from "./layout";
+import { drawQr, encodeQr, type QrCode } from "./qr";
+import { drawPill, type TextStyle } from "./text";
+
+// The affiliate link behind a video. Each platform gets its own variant with
+// its own UTM source and medium and a short code that rides along as
+// `utm_content`, so clicks can be traced back to the video that drove them.
+// The code can also be spoken or shown: `{code}` in the CTA is replaced by it.
+
+export type LinkVariant = {
+  id: string;
+  name: string;
+  source: string;
+  medium: string;
+  // Empty uses a code made from the product title; see `shortCode`.
+  code: string;
+};
+
+export type AffiliateLink = {
+  baseUrl: string;
+  campaign: string;
+  term: string;
+  variants: LinkVariant[];
+  // The variant renders use.
+  variantId: string;
+  showQr: boolean;
+};
+
+// What drawing code sees of the link: the variant renders use, with its QR
+// code already encoded when it is shown.
+export type SceneLink = {
+  url: string;
+  code: string;
+  variantId: string;
+  variant: string;
+  qr: QrCode | null;
+};
+
+// One rendered file and the link it carries.
+export type ExportRecord = {
+  id: string;
+  at: string;
+  file: string;
+  productTitle: string;
+  aspect: string;
+  format: string;
+  variant: string;
+  code: string;
+  url: string | null;
+};
+
+export const CODE_PLACEHOLDER = "{code}";
+
+export const DEFAULT_LINK_VARIANTS: LinkVariant[] = [
+  { id: "tiktok", name: "TikTok", source: "tiktok", medium: "social", code: "" },
+  { id: "instagram", name: "Instagram Reels", source: "instagram", medium: "social", code: "" },
+  { id: "youtube", name: "YouTube Shorts", source: "youtube", medium: "video", code: "" },
+  { id: "facebook", name: "Facebook", source: "facebook", medium: "social", code: "" }
+];
+
+export const DEFAULT_LINK: AffiliateLink = {
+  baseUrl: "",
+  campaign: "",
+  term: "",
+  variants: DEFAULT_LINK_VARIANTS,
+  variantId: DEFAULT_LINK_VARIANTS[0].id,
+  showQr: true
+};
+
+function text(value: unknown, fallback = "") {
+  return typeof value === "string" ? value : fallback;
+}
+
+function normalizeVariant(value: unknown, index: number): LinkVariant {
+  const data: Partial<Record<keyof LinkVariant, unknown>> = value && typeof value === "object" ? value : {};
+  return {
+    id: text(data.id) || `variant-${index + 1}`,
+    name: text(data.name) || `Variant ${index + 1}`,
+    source: text(data.source),
+    medium: text(data.medium),
+    code: text(data.code)
+  };
+}
+
+export function normalizeLink(value: unknown): AffiliateLink {
+  if (!value || typeof value !== "object") return DEFAULT_LINK;
+  const data = value as Partial<Record<keyof AffiliateLink, unknown>>;
+  const variants = Array.isArray(data.variants) && data.variants.length > 0
+    ? data.variants.map(normalizeVariant)
+    : DEFAULT_LINK_VARIANTS;
+  return {
+    baseUrl: text(data.baseUrl),
+    campaign: text(data.campaign),
+    term: text(data.term),
+    variants,
+    variantId: variants.find((v) => v.id === data.variantId)?.id ?? variants[0].id,
+    showQr: typeof data.showQr === "boolean" ? data.showQr : DEFAULT_LINK.showQr
+  };
+}
+
+export function activeVariant(link: AffiliateLink): LinkVariant {
+  return link.variants.find((v) => v.id === link.variantId) ?? link.variants[0];
+}
+
+function letters(word: string) {
+  return word
+    .normalize("NFKD")
+    .toUpperCase()
+    .replace(/[^A-Z0-9]/g, "");
+}
+
+// A code people can read out: the first word of the title, the initials of
+// the rest and two letters for the variant, e.g. "AMAZIG3-TI".
+export function shortCode(title: string, variant: Pick<LinkVariant, "name">) {
+  const [first = "", ...rest] = title.split(/\s+/).map(letters).filter(Boolean);
+  const base = (first.slice(0, 5) + rest.map((w) => w[0]).join("")).slice(0, 8) || "LINK";
+  const tag = letters(variant.name).slice(0, 2) || "XX";
+  return `${base}-${tag}`;
+}
+
+export function variantCode(variant: LinkVariant, title: string) {
+  return variant.code.trim() || shortCode(title, variant);
+}
+
+// The tracked URL for `variant`, or null while the base URL is not a web
+// address. Parameters already on the base URL are kept unless overridden.
+export function linkUrl(link: AffiliateLink, variant: LinkVariant, code: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(link.baseUrl.trim());
+  } catch {
+    return null;
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") return null;
+  const params: [string, string][] = [
+    ["utm_source", variant.source],
+    ["utm_medium", variant.medium],
+    ["utm_campaign", link.campaign],
+    ["utm_term", link.term],
+    ["utm_content", code]
+  ];
+  for (const [key, value] of params) if (value.trim()) url.searchParams.set(key, value.trim());
+  return url.toString();
+}
+
+export function sceneLink(link: AffiliateLink, productTitle: string): SceneLink | null {
+  const variant = activeVariant(link);
+  const code = variantCode(variant, productTitle);
+  const url = linkUrl(link, variant, code);
+  if (!url) return null;
+  let qr: QrCode | null = null;
+  if (link.showQr) {
+    try {
+      qr = encodeQr(url);
+    } catch {
+      // Too long to encode; the video goes out without a QR code.
+    }
+  }
+  return { url, code, variantId: variant.id, variant: variant.name, qr };
+}
+
+// The CTA with `{code}` filled in; without a link the placeholder is dropped.
+export function fillCode(cta: string, link: SceneLink | null) {
+  if (!cta.includes(CODE_PLACEHOLDER)) return cta;
+  return cta.split(CODE_PLACEHOLDER).join(link?.code ?? "").replace(/\s{2,}/g, " ").trim();
+}
+
+// The CTA pill, with the link's QR code beside it on the last slide. The
+// pill gives up room for the code; centered pills shift so pill and code
+// stay centered together. Takes `drawPill`'s options; returns the pill width.
+export function drawCta(
+  ctx: CanvasRenderingContext2D,
+  scene: Scene,
+  slide: SlideView,
+  style: TextStyle,
+  options: Parameters<typeof drawPill>[3]
+): number {
+  const qr = slide.last ? scene.link?.qr : null;
+  if (!qr) return drawPill(ctx, scene.cta, style, options);
+
+  const { safe, unit } = sceneLayout(scene);
+  const size = Math.round(Math.min(unit * 24, options.height * 2.6));
+  const gap = Math.round(unit * 2);
+  const centered = options.align === "center";
+  const x = centered ? options.x - (size + gap) / 2 : options.x;
+  const width = drawPill(ctx, scene.cta, style, { ...options, x, maxWidth: Math.max(1, options.maxWidth - size - gap) });
+  const left = centered ? x + width / 2 + gap : x + width + gap;
+  const top = Math.min(options.y + (options.height - size) / 2, safe.y + safe.height - size);
+  drawQr(ctx, qr, left, top, size);
+  return width;
+}
+
+export function exportLogCsv(records: ExportRecord[]) {
+  const cell = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+  const rows = records.map((r) => [r.at, r.file, r.productTitle, r.aspect, r.format, r.variant, r.code, r.url ?? ""]);
+  return [["exported_at", "file", "product", "aspect", "format", "variant", "code", "url"], ...rows]
+    .map((row) => row.map(cell).join(","))
+    .join("\n");
+}
@@ -0,0 +1,80 @@
+// Integrated loudness per ITU-R BS.1770 / EBU R128: K-weighting, 400ms
+// blocks with 75% overlap, an absolute gate at -70 LUFS and a relative gate
+// 10 LU below the ungated level.
+
+const BLOCK_SECONDS = 0.4;
+const STEP_SECONDS = 0.1;
+const ABSOLUTE_GATE = -70;
+const RELATIVE_GATE = -10;
+
+type Biquad = { b0: number; b1: number; b2: number; a1: number; a2: number };
+
+// Filter coefficients are derived for any sample rate rather than using the
+// 48kHz tables from the spec.
+function kWeighting(sampleRate: number): Biquad[] {
+  let K = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  let Q = 0.7071752369554196;
+  const vh = Math.pow(10, 3.999843853973347 / 20);
+  const vb = Math.pow(vh, 0.4996667741545416);
+  let a0 = 1 + K / Q + K * K;
+  const shelf = {
+    b0: (vh + (vb * K) / Q + K * K) / a0,
+    b1: (2 * (K * K - vh)) / a0,
+    b2: (vh - (vb * K) / Q + K * K) / a0,
+    a1: (2 * (K * K - 1)) / a0,
+    a2: (1 - K / Q + K * K) / a0
+  };
+  K = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  Q = 0.5003270373238773;
+  a0 = 1 + K / Q + K * K;
+  const highPass = { b0: 1, b1: -2, b2: 1, a1: (2 * (K * K - 1)) / a0, a2: (1 - K / Q + K * K) / a0 };
+  return [shelf, highPass];
+}
+
+function filter(input: Float32Array, { b0, b1, b2, a1, a2 }: Biquad): Float32Array {
+  const out = new Float32Array(input.length);
+  let x1 = 0;
+  let x2 = 0;
+  let y1 = 0;
+  let y2 = 0;
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i];
+    const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+    out[i] = y;
+    x2 = x1;
+    x1 = x;
+    y2 = y1;
+    y1 = y;
+  }
+  return out;
+}
+
+function toLufs(power: number) {
+  return -0.691 + 10 * Math.log10(power);
+}
+
+// Returns -Infinity for silence.
+export function integratedLoudness(channels: Float32Array[], sampleRate: number): number {
+  const weighted = channels.map((data) => kWeighting(sampleRate).reduce(filter, data));
+  const block = Math.round(BLOCK_SECONDS * sampleRate);
+  const step = Math.round(STEP_SECONDS * sampleRate);
+  const length = weighted[0]?.length ?? 0;
+
+  const powers: number[] = [];
+  for (let start = 0; start + block <= length; start += step) {
+    let power = 0;
+    for (const data of weighted) {
+      let sum = 0;
+      for (let i = start; i < start + block; i++) sum += data[i] * data[i];
+      power += sum / block;
+    }
+    powers.push(power);
+  }
+
+  const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+  const loud = powers.filter((p) => toLufs(p) > ABSOLUTE_GATE);
+  if (loud.length === 0) return -Infinity;
+  const threshold = toLufs(mean(loud)) + RELATIVE_GATE;
+  const gated = loud.filter((p) => toLufs(p) > threshold);
+  return toLufs(mean(gated));
+}
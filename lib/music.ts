@@ -0,0 +1,278 @@
+import type { MusicMood, MusicSettings } from "./types";
+
+// Generative background music built only from Web Audio nodes. Everything
+// is scheduled up front from `ctx.currentTime`, so the same settings always
+// produce the same audio in the preview, offline render and real-time path.
+
+export const NOTE_NAMES = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
+
+const MAJOR = [0, 2, 4, 5, 7, 9, 11];
+const MINOR = [0, 2, 3, 5, 7, 8, 10];
+const STEPS_PER_BAR = 16;
+
+type Recipe = {
+  label: string;
+  bpm: number;
+  minor: boolean;
+  // Scale degree (0-based) of the chord for each bar, looped.
+  progression: number[];
+  // 16-step patterns; each value is the hit velocity, 0 for a rest.
+  kick: number[];
+  snare: number[];
+  hat: number[];
+  bass: number[];
+  pad: OscillatorType;
+  seventh: boolean;
+  swing: number;
+  cutoff: number;
+};
+
+const RECIPES: Record<MusicMood, Recipe> = {
+  upbeat: {
+    label: "Upbeat",
+    bpm: 118,
+    minor: false,
+    progression: [0, 4, 5, 3],
+    kick: [1, 0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0],
+    snare: [0, 0, 0, 0, 1, 0, 0, 0, 0, 0, 0, 0, 1, 0, 0, 0],
+    hat: [0, 0, 0.8, 0, 0, 0, 0.8, 0, 0, 0, 0.8, 0, 0, 0, 0.8, 0.4],
+    bass: [1, 0, 0.6, 0, 1, 0, 0.6, 0, 1, 0, 0.6, 0, 1, 0, 0.6, 0],
+    pad: "sawtooth",
+    seventh: false,
+    swing: 0,
+    cutoff: 9000
+  },
+  chill: {
+    label: "Chill",
+    bpm: 90,
+    minor: false,
+    progression: [0, 5, 3, 4],
+    kick: [1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0.7, 0, 0, 0, 0, 0],
+    snare: [0, 0, 0, 0, 0, 0, 0, 0, 0.6, 0, 0, 0, 0, 0, 0, 0],
+    hat: [0.5, 0, 0.3, 0, 0.5, 0, 0.3, 0, 0.5, 0, 0.3, 0, 0.5, 0, 0.3, 0],
+    bass: [1, 0, 0, 0, 0, 0, 0.7, 0, 1, 0, 0, 0, 0, 0, 0, 0],
+    pad: "triangle",
+    seventh: true,
+    swing: 0,
+    cutoff: 4000
+  },
+  dramatic: {
+    label: "Dramatic",
+    bpm: 76,
+    minor: true,
+    progression: [0, 5, 2, 6],
+    kick: [1, 0, 0, 0, 0, 0, 0, 0, 1, 0, 0, 0, 0, 0, 0.6, 0],
+    snare: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1, 0, 0, 0],
+    hat: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
+    bass: [1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0],
+    pad: "sawtooth",
+    seventh: false,
+    swing: 0,
+    cutoff: 6000
+  },
+  lofi: {
+    label: "Lo-fi",
+    bpm: 80,
+    minor: true,
+    progression: [0, 3, 6, 2],
+    kick: [1, 0, 0, 0, 0, 0, 0, 0.8, 0, 0, 1, 0, 0, 0, 0, 0],
+    snare: [0, 0, 0, 0, 1, 0, 0, 0, 0, 0, 0, 0, 1, 0, 0, 0],
+    hat: [0.5, 0, 0.4, 0, 0.5, 0, 0.4, 0, 0.5, 0, 0.4, 0, 0.5, 0, 0.4, 0],
+    bass: [1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0.7, 0, 0, 0, 0, 0],
+    pad: "triangle",
+    seventh: true,
+    swing: 0.12,
+    cutoff: 2200
+  }
+};
+
+export const MOOD_LABELS = Object.fromEntries(
+  (Object.keys(RECIPES) as MusicMood[]).map((mood) => [mood, RECIPES[mood].label])
+) as Record<MusicMood, string>;
+
+export const DEFAULT_MUSIC: MusicSettings = {
+  source: "generated",
+  mood: "chill",
+  bpm: RECIPES.chill.bpm,
+  key: 9,
+  snapToBeat: false
+};
+
+// Tempos the editor offers; the beat grid needs a positive one.
+const MIN_BPM = 60;
+const MAX_BPM = 180;
+
+// Fills in anything missing or out of range, e.g. from a project file.
+export function normalizeMusic(value: unknown): MusicSettings {
+  if (!value || typeof value !== "object") return DEFAULT_MUSIC;
+  const data = value as Partial<Record<keyof MusicSettings, unknown>>;
+  const mood = (Object.keys(RECIPES) as MusicMood[]).find((id) => id === data.mood) ?? DEFAULT_MUSIC.mood;
+  const bpm = typeof data.bpm === "number" && Number.isFinite(data.bpm) ? data.bpm : RECIPES[mood].bpm;
+  const key = typeof data.key === "number" && Number.isInteger(data.key) ? data.key : DEFAULT_MUSIC.key;
+  return {
+    source: data.source === "upload" ? "upload" : "generated",
+    mood,
+    bpm: Math.min(MAX_BPM, Math.max(MIN_BPM, bpm)),
+    key: ((key % 12) + 12) % 12,
+    snapToBeat: data.snapToBeat === true
+  };
+}
+
+export function moodTempo(mood: MusicMood) {
+  return RECIPES[mood].bpm;
+}
+
+function frequency(midi: number) {
+  return 440 * Math.pow(2, (midi - 69) / 12);
+}
+
+// Semitone offset of a scale degree, which may run past the octave.
+function degree(scale: number[], d: number) {
+  return scale[d % 7] + 12 * Math.floor(d / 7);
+}
+
+// Fixed-seed noise so renders are reproducible.
+function noiseBuffer(ctx: BaseAudioContext) {
+  const buffer = ctx.createBuffer(1, ctx.sampleRate, ctx.sampleRate);
+  const data = buffer.getChannelData(0);
+  let seed = 0x2f6b1c3d;
+  for (let i = 0; i < data.length; i++) {
+    seed = (seed * 1664525 + 1013904223) >>> 0;
+    data[i] = (seed / 0x100000000) * 2 - 1;
+  }
+  return buffer;
+}
+
+function envelope(gain: GainNode, t: number, peak: number, attack: number, decay: number) {
+  gain.gain.setValueAtTime(0.0001, t);
+  gain.gain.exponentialRampToValueAtTime(peak, t + attack);
+  gain.gain.exponentialRampToValueAtTime(0.0001, t + attack + decay);
+}
+
+function kick(ctx: BaseAudioContext, out: AudioNode, t: number, velocity: number) {
+  const osc = ctx.createOscillator();
+  const gain = ctx.createGain();
+  osc.frequency.setValueAtTime(150, t);
+  osc.frequency.exponentialRampToValueAtTime(45, t + 0.12);
+  envelope(gain, t, 0.9 * velocity, 0.003, 0.3);
+  osc.connect(gain).connect(out);
+  osc.start(t);
+  osc.stop(t + 0.35);
+}
+
+function noiseHit(
+  ctx: BaseAudioContext,
+  out: AudioNode,
+  noise: AudioBuffer,
+  t: number,
+  peak: number,
+  highpass: number,
+  decay: number
+) {
+  const source = ctx.createBufferSource();
+  source.buffer = noise;
+  const filter = ctx.createBiquadFilter();
+  filter.type = "highpass";
+  filter.frequency.value = highpass;
+  const gain = ctx.createGain();
+  envelope(gain, t, peak, 0.002, decay);
+  source.connect(filter).connect(gain).connect(out);
+  source.start(t);
+  source.stop(t + decay + 0.05);
+}
+
+function snare(ctx: BaseAudioContext, out: AudioNode, noise: AudioBuffer, t: number, velocity: number) {
+  noiseHit(ctx, out, noise, t, 0.45 * velocity, 1200, 0.18);
+  const body = ctx.createOscillator();
+  body.type = "triangle";
+  body.frequency.value = 190;
+  const gain = ctx.createGain();
+  envelope(gain, t, 0.25 * velocity, 0.002, 0.08);
+  body.connect(gain).connect(out);
+  body.start(t);
+  body.stop(t + 0.12);
+}
+
+function bassNote(ctx: BaseAudioContext, out: AudioNode, t: number, length: number, midi: number, velocity: number) {
+  const osc = ctx.createOscillator();
+  osc.type = "sawtooth";
+  osc.frequency.value = frequency(midi);
+  const filter = ctx.createBiquadFilter();
+  filter.type = "lowpass";
+  filter.frequency.value = 500;
+  const gain = ctx.createGain();
+  envelope(gain, t, 0.35 * velocity, 0.005, length);
+  osc.connect(filter).connect(gain).connect(out);
+  osc.start(t);
+  osc.stop(t + length + 0.02);
+}
+
+function padChord(ctx: BaseAudioContext, out: AudioNode, t: number, length: number, notes: number[], type: OscillatorType) {
+  const gain = ctx.createGain();
+  const level = 0.12 / notes.length;
+  const fade = Math.min(0.3, length / 3);
+  gain.gain.setValueAtTime(0, t);
+  gain.gain.linearRampToValueAtTime(level, t + fade);
+  gain.gain.setValueAtTime(level, t + length - fade);
+  gain.gain.linearRampToValueAtTime(0, t + length);
+  gain.connect(out);
+  for (const midi of notes) {
+    for (const detune of [-6, 6]) {
+      const osc = ctx.createOscillator();
+      osc.type = type;
+      osc.frequency.value = frequency(midi);
+      osc.detune.value = detune;
+      osc.connect(gain);
+      osc.start(t);
+      osc.stop(t + length);
+    }
+  }
+}
+
+export function createGeneratedMusic(ctx: BaseAudioContext, settings: MusicSettings, seconds: number): AudioNode {
+  const recipe = RECIPES[settings.mood];
+  const scale = recipe.minor ? MINOR : MAJOR;
+  const step = 60 / Math.max(40, settings.bpm) / 4;
+  const start = ctx.currentTime;
+  const end = start + Math.max(1, seconds + 0.6);
+  const noise = noiseBuffer(ctx);
+
+  const out = ctx.createGain();
+  const tone = ctx.createBiquadFilter();
+  tone.type = "lowpass";
+  tone.frequency.value = recipe.cutoff;
+  tone.connect(out);
+
+  const totalSteps = Math.ceil((end - start) / step);
+  for (let s = 0; s < totalSteps; s++) {
+    const index = s % STEPS_PER_BAR;
+    const bar = Math.floor(s / STEPS_PER_BAR);
+    const root = 48 + settings.key + degree(scale, recipe.progression[bar % recipe.progression.length]);
+    const t = start + s * step + (index % 2 === 1 ? recipe.swing * step : 0);
+
+    if (index === 0) {
+      const chordDegree = recipe.progression[bar % recipe.progression.length];
+      const tones = recipe.seventh ? [0, 2, 4, 6] : [0, 2, 4];
+      const notes = tones.map((d) => 60 + settings.key + degree(scale, chordDegree + d) - 12);
+      padChord(ctx, tone, t, Math.min(step * STEPS_PER_BAR, end - t), notes, recipe.pad);
+    }
+    if (recipe.kick[index]) kick(ctx, tone, t, recipe.kick[index]);
+    if (recipe.snare[index]) snare(ctx, tone, noise, t, recipe.snare[index]);
+    if (recipe.hat[index]) noiseHit(ctx, tone, noise, t, 0.15 * recipe.hat[index], 7000, 0.05);
+    if (recipe.bass[index]) {
+      // A bass note rings until the next one in the pattern.
+      let next = index + 1;
+      while (next < STEPS_PER_BAR && !recipe.bass[next]) next++;
+      bassNote(ctx, tone, t, (next - index) * step * 0.9, root - 12, recipe.bass[index]);
+    }
+  }
+  return out;
+}
+
+// Beat times in seconds for a steady tempo, starting at `offset`.
+export function beatTimes(bpm: number, offset: number, seconds: number): number[] {
+  const period = 60 / bpm;
+  const beats: number[] = [];
+  for (let t = offset; t <= seconds + 1e-6; t += period) beats.push(t);
+  return beats;
+}
@@ -0,0 +1,308 @@
+import type { AudioTrackInput, EncodedSample, MuxInput, VideoTrackInput } from "./types";
+
+// Minimal ISO BMFF writer for one H.264 video track and an optional AAC or
+// Opus audio track. The whole file is built in memory with the moov box ahead
+// of mdat so players can start before the download finishes.
+
+const MOVIE_TIMESCALE = 1000;
+const VIDEO_TIMESCALE = 90000;
+const AUDIO_BITRATE = 128000;
+const OPUS_DEFAULT_PRE_SKIP = 312;
+
+const AAC_SAMPLE_RATES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+
+type Track = {
+  id: number;
+  handler: "vide" | "soun";
+  timescale: number;
+  sampleEntry: Uint8Array;
+  samples: EncodedSample[];
+  durations: number[];
+  offsets: number[];
+  width: number;
+  height: number;
+};
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  let length = 0;
+  for (const p of parts) length += p.byteLength;
+  const out = new Uint8Array(length);
+  let pos = 0;
+  for (const p of parts) {
+    out.set(p, pos);
+    pos += p.byteLength;
+  }
+  return out;
+}
+
+function u8(n: number) {
+  return new Uint8Array([n & 0xff]);
+}
+
+function u16(n: number) {
+  return new Uint8Array([(n >> 8) & 0xff, n & 0xff]);
+}
+
+function u24(n: number) {
+  return new Uint8Array([(n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff]);
+}
+
+function u32(n: number) {
+  const out = new Uint8Array(4);
+  new DataView(out.buffer).setUint32(0, n >>> 0);
+  return out;
+}
+
+function ascii(s: string) {
+  return new TextEncoder().encode(s);
+}
+
+function box(type: string, ...parts: Uint8Array[]): Uint8Array {
+  const body = concat(parts);
+  return concat([u32(body.byteLength + 8), ascii(type), body]);
+}
+
+function fullBox(type: string, version: number, flags: number, ...parts: Uint8Array[]): Uint8Array {
+  return box(type, u8(version), u24(flags), ...parts);
+}
+
+function matrix() {
+  return concat([0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000].map(u32));
+}
+
+// Converts microsecond timestamps to per-sample durations in `timescale`
+// units, rounding against absolute time so the total never drifts.
+function sampleDurations(samples: EncodedSample[], timescale: number): number[] {
+  const toScale = (us: number) => Math.round((us * timescale) / 1e6);
+  return samples.map((s, i) => {
+    const end = i + 1 < samples.length ? samples[i + 1].timestamp : s.timestamp + s.duration;
+    return Math.max(0, toScale(end) - toScale(s.timestamp));
+  });
+}
+
+function avcSampleEntry(video: VideoTrackInput) {
+  if (!video.description) {
+    throw new Error("H.264 encoder did not provide an avcC configuration");
+  }
+  return box(
+    "avc1",
+    new Uint8Array(6),
+    u16(1),
+    u16(0),
+    u16(0),
+    new Uint8Array(12),
+    u16(video.width),
+    u16(video.height),
+    u32(0x00480000),
+    u32(0x00480000),
+    u32(0),
+    u16(1),
+    new Uint8Array(32),
+    u16(0x0018),
+    u16(0xffff),
+    box("avcC", video.description)
+  );
+}
+
+function audioSampleEntry(type: string, audio: AudioTrackInput, ...children: Uint8Array[]) {
+  return box(
+    type,
+    new Uint8Array(6),
+    u16(1),
+    new Uint8Array(8),
+    u16(audio.numberOfChannels),
+    u16(16),
+    u16(0),
+    u16(0),
+    u32(audio.sampleRate * 65536),
+    ...children
+  );
+}
+
+function descriptor(tag: number, ...parts: Uint8Array[]) {
+  const body = concat(parts);
+  const len = body.byteLength;
+  return concat([
+    u8(tag),
+    new Uint8Array([0x80 | ((len >> 21) & 0x7f), 0x80 | ((len >> 14) & 0x7f), 0x80 | ((len >> 7) & 0x7f), len & 0x7f]),
+    body
+  ]);
+}
+
+function aacSpecificConfig(audio: AudioTrackInput) {
+  if (audio.description) return audio.description;
+  const freqIndex = AAC_SAMPLE_RATES.indexOf(audio.sampleRate);
+  if (freqIndex < 0) throw new Error(`Unsupported AAC sample rate ${audio.sampleRate}`);
+  // AAC-LC: 5 bits object type, 4 bits frequency index, 4 bits channels.
+  const bits = (2 << 11) | (freqIndex << 7) | (audio.numberOfChannels << 3);
+  return u16(bits);
+}
+
+function mp4aSampleEntry(audio: AudioTrackInput) {
+  const esds = fullBox(
+    "esds",
+    0,
+    0,
+    descriptor(
+      3,
+      u16(1),
+      u8(0),
+      descriptor(4, u8(0x40), u8(0x15), u24(0), u32(AUDIO_BITRATE), u32(AUDIO_BITRATE), descriptor(5, aacSpecificConfig(audio))),
+      descriptor(6, u8(2))
+    )
+  );
+  return audioSampleEntry("mp4a", audio, esds);
+}
+
+function opusSampleEntry(audio: AudioTrackInput) {
+  // WebCodecs may hand back an OpusHead; its pre-skip is little-endian.
+  let preSkip = OPUS_DEFAULT_PRE_SKIP;
+  const head = audio.description;
+  if (head && head.byteLength >= 19) {
+    preSkip = head[10] | (head[11] << 8);
+  }
+  const dOps = box("dOps", u8(0), u8(audio.numberOfChannels), u16(preSkip), u32(audio.sampleRate), u16(0), u8(0));
+  return audioSampleEntry("Opus", audio, dOps);
+}
+
+function trackDuration(track: Track) {
+  return track.durations.reduce((a, b) => a + b, 0);
+}
+
+function runLengths(values: number[]): [number, number][] {
+  const runs: [number, number][] = [];
+  for (const v of values) {
+    const last = runs[runs.length - 1];
+    if (last && last[1] === v) last[0]++;
+    else runs.push([1, v]);
+  }
+  return runs;
+}
+
+function trak(track: Track, base: number) {
+  const isVideo = track.handler === "vide";
+  const duration = trackDuration(track);
+  const movieDuration = Math.round((duration * MOVIE_TIMESCALE) / track.timescale);
+  const stts = runLengths(track.durations);
+  const keys = track.samples.map((s, i) => (s.key ? i + 1 : 0)).filter(Boolean);
+
+  const stbl = box(
+    "stbl",
+    fullBox("stsd", 0, 0, u32(1), track.sampleEntry),
+    fullBox("stts", 0, 0, u32(stts.length), ...stts.flatMap(([count, delta]) => [u32(count), u32(delta)])),
+    ...(isVideo ? [fullBox("stss", 0, 0, u32(keys.length), ...keys.map(u32))] : []),
+    fullBox("stsc", 0, 0, u32(1), u32(1), u32(1), u32(1)),
+    fullBox("stsz", 0, 0, u32(0), u32(track.samples.length), ...track.samples.map((s) => u32(s.data.byteLength))),
+    fullBox("stco", 0, 0, u32(track.offsets.length), ...track.offsets.map((o) => u32(base + o)))
+  );
+
+  const mediaHeader = isVideo
+    ? fullBox("vmhd", 0, 1, u16(0), u16(0), u16(0), u16(0))
+    : fullBox("smhd", 0, 0, u16(0), u16(0));
+
+  return box(
+    "trak",
+    fullBox(
+      "tkhd",
+      0,
+      3,
+      u32(0),
+      u32(0),
+      u32(track.id),
+      u32(0),
+      u32(movieDuration),
+      new Uint8Array(8),
+      u16(0),
+      u16(0),
+      u16(isVideo ? 0 : 0x0100),
+      u16(0),
+      matrix(),
+      u32(track.width * 65536),
+      u32(track.height * 65536)
+    ),
+    box(
+      "mdia",
+      fullBox("mdhd", 0, 0, u32(0), u32(0), u32(track.timescale), u32(duration), u16(0x55c4), u16(0)),
+      fullBox(
+        "hdlr",
+        0,
+        0,
+        u32(0),
+        ascii(track.handler),
+        new Uint8Array(12),
+        ascii(isVideo ? "VideoHandler\0" : "SoundHandler\0")
+      ),
+      box("minf", mediaHeader, box("dinf", fullBox("dref", 0, 0, u32(1), fullBox("url ", 0, 1))), stbl)
+    )
+  );
+}
+
+function moov(tracks: Track[], base: number) {
+  const durationMs = Math.max(
+    ...tracks.map((t) => Math.round((trackDuration(t) * MOVIE_TIMESCALE) / t.timescale))
+  );
+  const mvhd = fullBox(
+    "mvhd",
+    0,
+    0,
+    u32(0),
+    u32(0),
+    u32(MOVIE_TIMESCALE),
+    u32(durationMs),
+    u32(0x00010000),
+    u16(0x0100),
+    new Uint8Array(10),
+    matrix(),
+    new Uint8Array(24),
+    u32(tracks.length + 1)
+  );
+  return box("moov", mvhd, ...tracks.map((t) => trak(t, base)));
+}
+
+export function muxMp4(input: MuxInput): Blob {
+  const tracks: Track[] = [
+    {
+      id: 1,
+      handler: "vide",
+      timescale: VIDEO_TIMESCALE,
+      sampleEntry: avcSampleEntry(input.video),
+      samples: input.video.samples,
+      durations: sampleDurations(input.video.samples, VIDEO_TIMESCALE),
+      offsets: [],
+      width: input.video.width,
+      height: input.video.height
+    }
+  ];
+  if (input.audio) {
+    const audio = input.audio;
+    tracks.push({
+      id: 2,
+      handler: "soun",
+      timescale: audio.sampleRate,
+      sampleEntry: audio.codec === "opus" ? opusSampleEntry(audio) : mp4aSampleEntry(audio),
+      samples: audio.samples,
+      durations: sampleDurations(audio.samples, audio.sampleRate),
+      offsets: [],
+      width: 0,
+      height: 0
+    });
+  }
+
+  // Interleave samples by time so the file streams without seeking.
+  const order = tracks
+    .flatMap((track) => track.samples.map((sample, index) => ({ track, sample, index })))
+    .sort((a, b) => a.sample.timestamp - b.sample.timestamp || a.track.id - b.track.id);
+  let mdatSize = 0;
+  for (const entry of order) {
+    entry.track.offsets[entry.index] = mdatSize;
+    mdatSize += entry.sample.data.byteLength;
+  }
+
+  const ftyp = box("ftyp", ascii("isom"), u32(0x200), ascii("isom"), ascii("iso2"), ascii("avc1"), ascii("mp41"));
+  const moovSize = moov(tracks, 0).byteLength;
+  const mdatHeader = concat([u32(mdatSize + 8), ascii("mdat")]);
+  const moovBox = moov(tracks, ftyp.byteLength + moovSize + mdatHeader.byteLength);
+
+  const parts = [ftyp, moovBox, mdatHeader, ...order.map((e) => e.sample.data)];
+  return new Blob(parts as BlobPart[], { type: "video/mp4" });
+}
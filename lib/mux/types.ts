@@ -0,0 +1,28 @@
+export type EncodedSample = {
+  data: Uint8Array;
+  // Microseconds, as reported by WebCodecs.
+  timestamp: number;
+  duration: number;
+  key: boolean;
+};
+
+export type VideoTrackInput = {
+  codec: string;
+  width: number;
+  height: number;
+  description?: Uint8Array;
+  samples: EncodedSample[];
+};
+
+export type AudioTrackInput = {
+  codec: string;
+  sampleRate: number;
+  numberOfChannels: number;
+  description?: Uint8Array;
+  samples: EncodedSample[];
+};
+
+export type MuxInput = {
+  video: VideoTrackInput;
+  audio: AudioTrackInput | null;
+};
@@ -0,0 +1,246 @@
+import type { EncodedSample, MuxInput } from "./types";
+
+// Minimal Matroska/WebM writer for one VP8/VP9 video track and an optional
+// Opus track. Clusters start on video keyframes and are indexed by Cues so
+// the result is seekable.
+
+const TIMECODE_SCALE = 1_000_000; // 1ms per timecode tick
+const MAX_CLUSTER_MS = 30_000;
+const OPUS_SEEK_PRE_ROLL_NS = 80_000_000;
+
+const ID = {
+  EBML: 0x1a45dfa3,
+  EBMLVersion: 0x4286,
+  EBMLReadVersion: 0x42f7,
+  EBMLMaxIDLength: 0x42f2,
+  EBMLMaxSizeLength: 0x42f3,
+  DocType: 0x4282,
+  DocTypeVersion: 0x4287,
+  DocTypeReadVersion: 0x4285,
+  Segment: 0x18538067,
+  SeekHead: 0x114d9b74,
+  Seek: 0x4dbb,
+  SeekID: 0x53ab,
+  SeekPosition: 0x53ac,
+  Info: 0x1549a966,
+  TimecodeScale: 0x2ad7b1,
+  Duration: 0x4489,
+  MuxingApp: 0x4d80,
+  WritingApp: 0x5741,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackUID: 0x73c5,
+  TrackType: 0x83,
+  CodecID: 0x86,
+  CodecPrivate: 0x63a2,
+  SeekPreRoll: 0x56bb,
+  Video: 0xe0,
+  PixelWidth: 0xb0,
+  PixelHeight: 0xba,
+  Audio: 0xe1,
+  SamplingFrequency: 0xb5,
+  Channels: 0x9f,
+  Cluster: 0x1f43b675,
+  Timecode: 0xe7,
+  SimpleBlock: 0xa3,
+  Cues: 0x1c53bb6b,
+  CuePoint: 0xbb,
+  CueTime: 0xb3,
+  CueTrackPositions: 0xb7,
+  CueTrack: 0xf7,
+  CueClusterPosition: 0xf1
+};
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  let length = 0;
+  for (const p of parts) length += p.byteLength;
+  const out = new Uint8Array(length);
+  let pos = 0;
+  for (const p of parts) {
+    out.set(p, pos);
+    pos += p.byteLength;
+  }
+  return out;
+}
+
+function idBytes(id: number) {
+  const bytes: number[] = [];
+  for (let v = id; v > 0; v = Math.floor(v / 256)) bytes.unshift(v & 0xff);
+  return new Uint8Array(bytes);
+}
+
+function sizeVint(size: number) {
+  let length = 1;
+  while (size >= Math.pow(2, 7 * length) - 1) length++;
+  const out = new Uint8Array(length);
+  let v = size;
+  for (let i = length - 1; i >= 0; i--) {
+    out[i] = v & 0xff;
+    v = Math.floor(v / 256);
+  }
+  out[0] |= 0x80 >> (length - 1);
+  return out;
+}
+
+function uintBytes(n: number, minLength = 1) {
+  const bytes: number[] = [];
+  for (let v = n; v > 0; v = Math.floor(v / 256)) bytes.unshift(v & 0xff);
+  while (bytes.length < minLength) bytes.unshift(0);
+  return new Uint8Array(bytes);
+}
+
+function element(id: number, ...children: Uint8Array[]) {
+  const body = concat(children);
+  return concat([idBytes(id), sizeVint(body.byteLength), body]);
+}
+
+function uint(id: number, n: number, minLength = 1) {
+  return element(id, uintBytes(n, minLength));
+}
+
+function float(id: number, n: number) {
+  const out = new Uint8Array(8);
+  new DataView(out.buffer).setFloat64(0, n);
+  return element(id, out);
+}
+
+function str(id: number, s: string) {
+  return element(id, new TextEncoder().encode(s));
+}
+
+function opusHead(sampleRate: number, channels: number) {
+  const out = new Uint8Array(19);
+  out.set(new TextEncoder().encode("OpusHead"), 0);
+  const view = new DataView(out.buffer);
+  view.setUint8(8, 1);
+  view.setUint8(9, channels);
+  view.setUint16(10, 312, true);
+  view.setUint32(12, sampleRate, true);
+  return out;
+}
+
+function codecId(codec: string) {
+  if (codec.startsWith("vp09") || codec === "vp9") return "V_VP9";
+  if (codec === "vp8") return "V_VP8";
+  if (codec.startsWith("av01")) return "V_AV1";
+  if (codec === "opus") return "A_OPUS";
+  throw new Error(`Codec ${codec} cannot be stored in WebM`);
+}
+
+function simpleBlock(track: number, relative: number, sample: EncodedSample) {
+  const header = new Uint8Array(4);
+  header[0] = 0x80 | track;
+  new DataView(header.buffer).setInt16(1, relative);
+  header[3] = sample.key ? 0x80 : 0;
+  return element(ID.SimpleBlock, header, sample.data);
+}
+
+export function muxWebm(input: MuxInput): Blob {
+  const { video, audio } = input;
+  const tracks = [
+    element(
+      ID.TrackEntry,
+      uint(ID.TrackNumber, 1),
+      uint(ID.TrackUID, 1),
+      uint(ID.TrackType, 1),
+      str(ID.CodecID, codecId(video.codec)),
+      element(ID.Video, uint(ID.PixelWidth, video.width), uint(ID.PixelHeight, video.height))
+    )
+  ];
+  if (audio) {
+    tracks.push(
+      element(
+        ID.TrackEntry,
+        uint(ID.TrackNumber, 2),
+        uint(ID.TrackUID, 2),
+        uint(ID.TrackType, 2),
+        str(ID.CodecID, codecId(audio.codec)),
+        element(ID.CodecPrivate, audio.description ?? opusHead(audio.sampleRate, audio.numberOfChannels)),
+        uint(ID.SeekPreRoll, OPUS_SEEK_PRE_ROLL_NS),
+        element(ID.Audio, float(ID.SamplingFrequency, audio.sampleRate), uint(ID.Channels, audio.numberOfChannels))
+      )
+    );
+  }
+
+  const entries = [
+    ...video.samples.map((sample) => ({ track: 1, sample })),
+    ...(audio?.samples ?? []).map((sample) => ({ track: 2, sample }))
+  ].sort((a, b) => a.sample.timestamp - b.sample.timestamp || a.track - b.track);
+
+  const lastVideo = video.samples[video.samples.length - 1];
+  const durationMs = lastVideo ? (lastVideo.timestamp + lastVideo.duration) / 1000 : 0;
+
+  const info = element(
+    ID.Info,
+    uint(ID.TimecodeScale, TIMECODE_SCALE),
+    float(ID.Duration, durationMs),
+    str(ID.MuxingApp, "faceless-video-maker"),
+    str(ID.WritingApp, "faceless-video-maker")
+  );
+  const tracksEl = element(ID.Tracks, ...tracks);
+
+  // Group blocks into clusters; positions are relative to the segment body.
+  const clusters: Uint8Array[] = [];
+  const cuePoints: { time: number; offset: number }[] = [];
+  let clusterStart = -1;
+  let blocks: Uint8Array[] = [];
+  let clustersSize = 0;
+  const flush = () => {
+    if (clusterStart < 0) return;
+    const cluster = element(ID.Cluster, uint(ID.Timecode, clusterStart), ...blocks);
+    clusters.push(cluster);
+    clustersSize += cluster.byteLength;
+    blocks = [];
+  };
+  for (const { track, sample } of entries) {
+    const ms = Math.round(sample.timestamp / 1000);
+    const startsCluster =
+      clusterStart < 0 || (track === 1 && sample.key) || ms - clusterStart > MAX_CLUSTER_MS;
+    if (startsCluster) {
+      flush();
+      clusterStart = ms;
+      if (track === 1 && sample.key) cuePoints.push({ time: ms, offset: clustersSize });
+    }
+    blocks.push(simpleBlock(track, ms - clusterStart, sample));
+  }
+  flush();
+
+  // SeekHead uses fixed-width positions so its own size is known up front.
+  const seekEntry = (id: number, position: number) =>
+    element(ID.Seek, element(ID.SeekID, idBytes(id)), uint(ID.SeekPosition, position, 8));
+  const seekHeadSize = element(ID.SeekHead, seekEntry(ID.Info, 0), seekEntry(ID.Tracks, 0), seekEntry(ID.Cues, 0)).byteLength;
+  const clustersBase = seekHeadSize + info.byteLength + tracksEl.byteLength;
+  const cues = element(
+    ID.Cues,
+    ...cuePoints.map((cue) =>
+      element(
+        ID.CuePoint,
+        uint(ID.CueTime, cue.time),
+        element(ID.CueTrackPositions, uint(ID.CueTrack, 1), uint(ID.CueClusterPosition, clustersBase + cue.offset))
+      )
+    )
+  );
+  const seekHead = element(
+    ID.SeekHead,
+    seekEntry(ID.Info, seekHeadSize),
+    seekEntry(ID.Tracks, seekHeadSize + info.byteLength),
+    seekEntry(ID.Cues, clustersBase + clustersSize)
+  );
+
+  const header = element(
+    ID.EBML,
+    uint(ID.EBMLVersion, 1),
+    uint(ID.EBMLReadVersion, 1),
+    uint(ID.EBMLMaxIDLength, 4),
+    uint(ID.EBMLMaxSizeLength, 8),
+    str(ID.DocType, "webm"),
+    uint(ID.DocTypeVersion, 4),
+    uint(ID.DocTypeReadVersion, 2)
+  );
+  const segmentSize = clustersBase + clustersSize + cues.byteLength;
+  const segmentHeader = concat([idBytes(ID.Segment), sizeVint(segmentSize)]);
+
+  const parts = [header, segmentHeader, seekHead, info, tracksEl, ...clusters, cues];
+  return new Blob(parts as BlobPart[], { type: "video/webm" });
+}
@@ -0,0 +1,136 @@
+import { stripMarkup } from "./text";
+import type { AudioMix, Slide } from "./types";
+
+// Energy-based phrase detection for voiceovers. A phrase is a run of frames
+// louder than a threshold set relative to the recording's own peak level,
+// and phrases are split where the voice pauses for long enough.
+
+const FRAME_SECONDS = 0.02;
+const RANGE_DB = 32;
+const FLOOR_DB = -50;
+const MIN_PAUSE_SECONDS = 0.25;
+const MIN_PHRASE_SECONDS = 0.15;
+const TAIL_SECONDS = 0.5;
+const MIN_SLIDE_SECONDS = 0.5;
+
+export type Phrase = {
+  start: number;
+  end: number;
+};
+
+function frameLevels(buffer: AudioBuffer): Float32Array {
+  const hop = Math.max(1, Math.round(buffer.sampleRate * FRAME_SECONDS));
+  const frames = Math.floor(buffer.length / hop);
+  const levels = new Float32Array(frames);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let f = 0; f < frames; f++) {
+      let sum = 0;
+      for (let i = f * hop; i < (f + 1) * hop; i++) sum += data[i] * data[i];
+      levels[f] += sum / hop / buffer.numberOfChannels;
+    }
+  }
+  // Mean power to dBFS
+  return levels.map((power) => 10 * Math.log10(power + 1e-12));
+}
+
+export function detectPhrases(buffer: AudioBuffer): Phrase[] {
+  const levels = frameLevels(buffer);
+  const peak = levels.reduce((max, db) => Math.max(max, db), -Infinity);
+  const threshold = Math.max(FLOOR_DB, peak - RANGE_DB);
+  const minPause = Math.round(MIN_PAUSE_SECONDS / FRAME_SECONDS);
+
+  const phrases: Phrase[] = [];
+  let start = -1;
+  let quiet = 0;
+  for (let f = 0; f <= levels.length; f++) {
+    const loud = f < levels.length && levels[f] > threshold;
+    if (loud) {
+      if (start < 0) start = f;
+      quiet = 0;
+    } else if (start >= 0 && (++quiet >= minPause || f === levels.length)) {
+      const end = f - quiet + 1;
+      if ((end - start) * FRAME_SECONDS >= MIN_PHRASE_SECONDS) {
+        phrases.push({ start: start * FRAME_SECONDS, end: end * FRAME_SECONDS });
+      }
+      start = -1;
+      quiet = 0;
+    }
+  }
+  return phrases;
+}
+
+// Maps phrases from file time to video time using the mixer's trim and
+// offset, dropping whatever was trimmed away.
+export function placePhrases(phrases: Phrase[], mix: AudioMix, fileDuration: number): Phrase[] {
+  const inPoint = mix.voiceTrimStart;
+  const outPoint = fileDuration - mix.voiceTrimEnd;
+  const shift = Math.max(0, mix.voiceOffset) - inPoint;
+  return phrases
+    .map((p) => ({ start: Math.max(p.start, inPoint), end: Math.min(p.end, outPoint) }))
+    .filter((p) => p.end - p.start >= MIN_PHRASE_SECONDS)
+    .map((p) => ({ start: p.start + shift, end: p.end + shift }));
+}
+
+// Halves the longest phrases until there is one per slide.
+function splitToCount(phrases: Phrase[], count: number): Phrase[] {
+  const out = [...phrases];
+  while (out.length > 0 && out.length < count) {
+    let longest = 0;
+    out.forEach((p, i) => {
+      if (p.end - p.start > out[longest].end - out[longest].start) longest = i;
+    });
+    const { start, end } = out[longest];
+    const mid = (start + end) / 2;
+    out.splice(longest, 1, { start, end: mid }, { start: mid, end });
+  }
+  return out;
+}
+
+// Proposes slide durations so each slide's on-screen time covers the
+// phrases that narrate it. Consecutive phrases are grouped, one group per
+// slide, choosing the grouping whose time shares best match each slide's
+// share of the text. Cuts land in the middle of pauses and the last slide
+// runs just past the end of the voice, so the video follows the narration.
+export function timeSlidesToPhrases(slides: Slide[], phrases: Phrase[]): Slide[] {
+  const n = slides.length;
+  if (n === 0 || phrases.length === 0) return slides;
+  const units = splitToCount(phrases, n);
+  const m = units.length;
+  const total = units[m - 1].end + TAIL_SECONDS;
+  const cutAfter = (k: number) => (k === m - 1 ? total : (units[k].end + units[k + 1].start) / 2);
+
+  const weights = slides.map((s) => Math.max(1, stripMarkup(s.text).trim().length));
+  const weightSum = weights.reduce((a, b) => a + b, 0);
+  const share = weights.map((w) => w / weightSum);
+
+  // best[j][k]: lowest cost for slides 0..j covering phrases 0..k.
+  const best = Array.from({ length: n }, () => new Array<number>(m).fill(Infinity));
+  const from = Array.from({ length: n }, () => new Array<number>(m).fill(-1));
+  for (let k = 0; k <= m - n; k++) {
+    best[0][k] = Math.pow(cutAfter(k) / total - share[0], 2);
+  }
+  for (let j = 1; j < n; j++) {
+    for (let k = j; k <= m - n + j; k++) {
+      for (let prev = j - 1; prev < k; prev++) {
+        const span = cutAfter(k) - cutAfter(prev);
+        const cost = best[j - 1][prev] + Math.pow(span / total - share[j], 2);
+        if (cost < best[j][k]) {
+          best[j][k] = cost;
+          from[j][k] = prev;
+        }
+      }
+    }
+  }
+
+  const cuts = new Array<number>(n);
+  for (let j = n - 1, k = m - 1; j >= 0; k = from[j][k], j--) cuts[j] = cutAfter(k);
+  // Round the cuts rather than each duration so the total does not drift.
+  const round = (t: number) => Math.round(t * 100) / 100;
+  let previous = 0;
+  return slides.map((slide, j) => {
+    const duration = Math.max(MIN_SLIDE_SECONDS, round(round(cuts[j]) - previous));
+    previous += duration;
+    return { ...slide, duration };
+  });
+}
@@ -0,0 +1,462 @@
+import { createCanvas } from "./canvas";
+import { drawSlide, sceneTotalFrames, WATERMARK_TEXT_SIZE, type Scene } from "./draw";
+import type { EditorFields } from "./editor";
+import { activeVariant } from "./links";
+import { estimateFileBytes } from "./render";
+import { recordDrawnText, type DrawnText } from "./text";
+import type { Aspect, AudioMix } from "./types";
+
+// Checks a project before it renders. Each rule looks at the scene as it
+// will be drawn and returns issues; errors block export, warnings don't.
+// Rules live in a registry like templates, so a team can add its own or
+// swap one out for stricter house rules.
+
+export type PreflightSeverity = "error" | "warning";
+
+// Where the editor can take the user to fix an issue by hand.
+export type PreflightSection = "product" | "brand" | "link" | "slides" | "audio";
+
+// A fix is either a patch applied in one click or a section to jump to.
+export type PreflightFix = {
+  label: string;
+  patch?: Partial<EditorFields>;
+  section?: PreflightSection;
+};
+
+export type PreflightIssue = {
+  rule: string;
+  severity: PreflightSeverity;
+  message: string;
+  fix?: PreflightFix;
+};
+
+export type PreflightInput = {
+  scene: Scene;
+  fps: number;
+  aspect: Aspect;
+  settings: Pick<EditorFields, "brandKit" | "disclosure" | "link" | "mix" | "slides">;
+  // Length of the voiceover file in seconds, once decoded.
+  voiceSeconds: number | null;
+  hasAudio: boolean;
+  // Text each slide draws, from `slideTexts`.
+  texts: DrawnText[][];
+};
+
+export type PreflightRule = {
+  id: string;
+  label: string;
+  check: (input: PreflightInput) => PreflightIssue[];
+};
+
+export type PlatformLimits = {
+  id: string;
+  name: string;
+  // Link variant sources that mean a video is headed here.
+  sources: string[];
+  aspects: Aspect[];
+  minSeconds: number;
+  maxSeconds: number;
+  maxBytes: number;
+  minShortSide: number;
+};
+
+export const PLATFORM_LIMITS: PlatformLimits[] = [
+  {
+    id: "tiktok",
+    name: "TikTok",
+    sources: ["tiktok"],
+    aspects: ["9:16", "1:1"],
+    minSeconds: 3,
+    maxSeconds: 600,
+    maxBytes: 287.6e6,
+    minShortSide: 720
+  },
+  {
+    id: "reels",
+    name: "Instagram Reels",
+    sources: ["instagram"],
+    aspects: ["9:16", "4:5", "1:1"],
+    minSeconds: 3,
+    maxSeconds: 180,
+    maxBytes: 4e9,
+    minShortSide: 720
+  },
+  {
+    id: "shorts",
+    name: "YouTube Shorts",
+    sources: ["youtube"],
+    aspects: ["9:16", "1:1"],
+    minSeconds: 1,
+    maxSeconds: 180,
+    maxBytes: 256e9,
+    minShortSide: 720
+  },
+  {
+    id: "youtube",
+    name: "YouTube",
+    sources: ["youtube"],
+    aspects: ["16:9"],
+    minSeconds: 1,
+    maxSeconds: 43200,
+    maxBytes: 256e9,
+    minShortSide: 720
+  },
+  {
+    id: "facebook",
+    name: "Facebook Reels",
+    sources: ["facebook"],
+    aspects: ["9:16"],
+    minSeconds: 3,
+    maxSeconds: 90,
+    maxBytes: 4e9,
+    minShortSide: 720
+  }
+];
+
+// "Clear and conspicuous": big enough, contrasted enough and on screen long
+// enough to be read. Size is a fraction of the frame's short side.
+export const DISCLOSURE_MIN_SIZE = 0.03;
+export const DISCLOSURE_MIN_CONTRAST = 3;
+export const DISCLOSURE_MIN_SECONDS = 3;
+
+// WCAG 2 ratios: 4.5:1 for body text, 3:1 for large text. Video text is
+// large, so below 3:1 is an error and below 4.5:1 a warning.
+const CONTRAST_ERROR = 3;
+const CONTRAST_WARNING = 4.5;
+
+// Draws every slide at its end, when all text is in, at a fraction of full
+// size; text layout is in scene units, so sizes and fit are unaffected.
+export function slideTexts(scene: Scene): DrawnText[][] {
+  const scale = 0.25;
+  const canvas = createCanvas(Math.ceil(scene.width * scale), Math.ceil(scene.height * scale));
+  const ctx = canvas.getContext("2d") as unknown as CanvasRenderingContext2D | null;
+  if (!ctx) return scene.slides.map(() => []);
+  return scene.slides.map((_, i) =>
+    recordDrawnText(() => {
+      ctx.setTransform(scale, 0, 0, scale, 0, 0);
+      drawSlide(ctx, scene, i, 1);
+    })
+  );
+}
+
+function parseColor(color: string): [number, number, number] | null {
+  const hex = color.trim().match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i)?.[1];
+  if (!hex) return null;
+  const full = hex.length === 3 ? hex.replace(/./g, (c) => c + c) : hex;
+  return [0, 2, 4].map((i) => parseInt(full.slice(i, i + 2), 16)) as [number, number, number];
+}
+
+function luminance([r, g, b]: [number, number, number]) {
+  const channel = (v: number) => {
+    const c = v / 255;
+    return c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+  };
+  return 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b);
+}
+
+// `color` drawn at `alpha` over `background`.
+function blend(color: [number, number, number], background: [number, number, number], alpha: number) {
+  return color.map((c, i) => c * alpha + background[i] * (1 - alpha)) as [number, number, number];
+}
+
+// WCAG contrast ratio of `color` at `alpha` over `background`, 1 to 21.
+export function contrastRatio(color: string, background: string, alpha = 1): number | null {
+  const fg = parseColor(color);
+  const bg = parseColor(background);
+  if (!fg || !bg) return null;
+  const a = luminance(blend(fg, bg, Math.min(1, Math.max(0, alpha))));
+  const b = luminance(bg);
+  return (Math.max(a, b) + 0.05) / (Math.min(a, b) + 0.05);
+}
+
+// Lowest contrast over both ends of the brand gradient.
+function gradientContrast(scene: Scene, color: string, alpha: number) {
+  const ratios = scene.brand.palette.gradient.map((end) => contrastRatio(color, end, alpha));
+  return ratios.some((r) => r === null) ? null : Math.min(...(ratios as number[]));
+}
+
+function textContrast(scene: Scene, text: DrawnText) {
+  return text.background
+    ? contrastRatio(text.color, text.background, text.alpha)
+    : gradientContrast(scene, text.color, text.alpha);
+}
+
+function videoSeconds(input: PreflightInput) {
+  return sceneTotalFrames(input.scene, input.fps) / input.fps;
+}
+
+function formatSeconds(seconds: number) {
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s` : `${seconds.toFixed(1)}s`;
+}
+
+function formatBytes(bytes: number) {
+  return bytes >= 1e9 ? `${(bytes / 1e9).toFixed(1)} GB` : `${Math.round(bytes / 1e6)} MB`;
+}
+
+function mentions(text: string, phrase: string) {
+  return text.toLowerCase().includes(phrase.toLowerCase());
+}
+
+// Where the disclosure shows: the watermark for the whole video, or each
+// slide that draws it, for that slide's duration.
+type Appearance = { seconds: number; size: number; contrast: number | null; watermark: boolean };
+
+function disclosureAppearances(input: PreflightInput, phrase: string): Appearance[] {
+  const { scene } = input;
+  const found: Appearance[] = [];
+  const { watermark, palette } = scene.brand;
+  if (watermark && !watermark.image && mentions(watermark.text, phrase)) {
+    const unit = Math.min(scene.width, scene.height * 0.75) / 100;
+    found.push({
+      seconds: videoSeconds(input),
+      size: Math.round(unit * WATERMARK_TEXT_SIZE),
+      contrast: gradientContrast(scene, palette.text, watermark.opacity),
+      watermark: true
+    });
+  }
+  input.texts.forEach((texts, i) => {
+    const drawn = texts.filter((t) => mentions(t.text, phrase));
+    if (drawn.length === 0) return;
+    const best = drawn.reduce((a, b) => (b.size > a.size ? b : a));
+    found.push({ seconds: scene.slides[i].duration, size: best.size, contrast: textContrast(scene, best), watermark: false });
+  });
+  return found;
+}
+
+const disclosureRule: PreflightRule = {
+  id: "disclosure",
+  label: "Affiliate disclosure",
+  check(input) {
+    const phrase = input.settings.disclosure.trim();
+    if (!phrase) {
+      return [
+        {
+          rule: "disclosure",
+          severity: "warning",
+          message: "No disclosure is required for this project.",
+          fix: { label: "Require #ad", patch: { disclosure: "#ad" } }
+        }
+      ];
+    }
+    const { scene } = input;
+    const { brandKit } = input.settings;
+    const addWatermark: PreflightFix = {
+      label: `Show "${phrase}" as the watermark`,
+      patch: { brandKit: { ...brandKit, watermark: "text", watermarkText: phrase, watermarkOpacity: 1 } }
+    };
+    const found = disclosureAppearances(input, phrase);
+    if (found.length === 0) {
+      return [{ rule: "disclosure", severity: "error", message: `"${phrase}" never appears on screen.`, fix: addWatermark }];
+    }
+
+    const issues: PreflightIssue[] = [];
+    const minSize = Math.round(Math.min(scene.width, scene.height) * DISCLOSURE_MIN_SIZE);
+    const largest = Math.max(...found.map((a) => a.size));
+    if (largest < minSize) {
+      issues.push({
+        rule: "disclosure",
+        severity: "error",
+        message: `The disclosure is ${largest}px tall; it needs at least ${minSize}px to be conspicuous.`,
+        fix: { label: "Edit the text", section: "product" }
+      });
+    }
+    const readable = found.filter((a) => a.contrast === null || a.contrast >= DISCLOSURE_MIN_CONTRAST);
+    if (readable.length === 0) {
+      const worst = Math.min(...found.map((a) => a.contrast ?? Infinity));
+      const watermark = found.find((a) => a.watermark);
+      const opaque = watermark && brandKit.watermarkOpacity < 1
+        ? gradientContrast(scene, scene.brand.palette.text, 1)
+        : null;
+      issues.push({
+        rule: "disclosure",
+        severity: "error",
+        message: `The disclosure contrast is ${worst.toFixed(1)}:1; it needs ${DISCLOSURE_MIN_CONTRAST}:1.`,
+        fix:
+          opaque !== null && opaque >= DISCLOSURE_MIN_CONTRAST
+            ? { label: "Make the watermark opaque", patch: { brandKit: { ...brandKit, watermarkOpacity: 1 } } }
+            : { label: "Edit brand colors", section: "brand" }
+      });
+    }
+    const needed = Math.min(DISCLOSURE_MIN_SECONDS, videoSeconds(input));
+    const shown = found.some((a) => a.watermark)
+      ? videoSeconds(input)
+      : found.reduce((sum, a) => sum + a.seconds, 0);
+    if (shown + 0.01 < needed) {
+      issues.push({
+        rule: "disclosure",
+        severity: "error",
+        message: `The disclosure is on screen for ${formatSeconds(shown)}; it needs ${formatSeconds(needed)}.`,
+        fix: addWatermark
+      });
+    }
+    return issues;
+  }
+};
+
+const platformRule: PreflightRule = {
+  id: "platform",
+  label: "Platform limits",
+  check(input) {
+    const { scene, aspect, settings } = input;
+    const seconds = videoSeconds(input);
+    const bytes = estimateFileBytes(scene.width, scene.height, input.fps, seconds, input.hasAudio);
+    // The link variant says where the video is going; limits there are
+    // errors, limits of other platforms are warnings.
+    const source = scene.link ? activeVariant(settings.link).source.trim().toLowerCase() : "";
+    const targets = PLATFORM_LIMITS.filter((p) => p.sources.includes(source));
+    const issues: PreflightIssue[] = [];
+
+    if (targets.length > 0 && !targets.some((p) => p.aspects.includes(aspect))) {
+      const expected = Array.from(new Set(targets.flatMap((p) => p.aspects))).join(" or ");
+      issues.push({
+        rule: "platform",
+        severity: "error",
+        message: `${targets[0].name} expects ${expected}, not ${aspect}.`,
+        fix: { label: "Change the aspect ratio", patch: { aspect: targets[0].aspects[0] } }
+      });
+    }
+
+    for (const platform of PLATFORM_LIMITS.filter((p) => p.aspects.includes(aspect))) {
+      const severity: PreflightSeverity = targets.includes(platform) ? "error" : "warning";
+      const add = (message: string, fix?: PreflightFix) =>
+        issues.push({ rule: "platform", severity, message: `${platform.name}: ${message}`, fix });
+      if (seconds > platform.maxSeconds) {
+        add(`${formatSeconds(seconds)} is over the ${formatSeconds(platform.maxSeconds)} limit.`, {
+          label: "Shorten slides",
+          section: "slides"
+        });
+      }
+      if (seconds < platform.minSeconds) {
+        add(`${formatSeconds(seconds)} is under the ${formatSeconds(platform.minSeconds)} minimum.`, {
+          label: "Lengthen slides",
+          section: "slides"
+        });
+      }
+      if (Math.min(scene.width, scene.height) < platform.minShortSide) {
+        add(`${scene.width}×${scene.height} is below ${platform.minShortSide}p.`);
+      }
+      if (bytes > platform.maxBytes) {
+        add(`about ${formatBytes(bytes)}, over the ${formatBytes(platform.maxBytes)} upload limit.`, {
+          label: "Shorten slides",
+          section: "slides"
+        });
+      }
+    }
+    return issues;
+  }
+};
+
+const contrastRule: PreflightRule = {
+  id: "contrast",
+  label: "Text contrast",
+  check(input) {
+    const { scene } = input;
+    const { brandKit } = input.settings;
+    // Switching the text color to white or near-black fixes it in one click
+    // when either clears the bar on the gradient.
+    const better = ["#ffffff", "#111827"]
+      .map((color) => ({ color, ratio: gradientContrast(scene, color, 1) ?? 0 }))
+      .sort((a, b) => b.ratio - a.ratio)[0];
+    const fixText: PreflightFix =
+      better.ratio >= CONTRAST_WARNING && better.color !== brandKit.palette.text.toLowerCase()
+        ? { label: `Use ${better.color} text`, patch: { brandKit: { ...brandKit, palette: { ...brandKit.palette, text: better.color } } } }
+        : { label: "Edit brand colors", section: "brand" };
+
+    const seen = new Map<string, number>();
+    input.texts.flat().forEach((text) => {
+      const ratio = textContrast(scene, text);
+      if (ratio === null) return;
+      const key = `${text.color}|${text.background ?? ""}`;
+      seen.set(key, Math.min(seen.get(key) ?? Infinity, ratio));
+    });
+    return Array.from(seen.entries()).flatMap(([key, ratio]): PreflightIssue[] => {
+      if (ratio >= CONTRAST_WARNING) return [];
+      const [color, background] = key.split("|");
+      const on = background ? `on the ${background} pill` : "on the brand gradient";
+      return [
+        {
+          rule: "contrast",
+          severity: ratio < CONTRAST_ERROR ? "error" : "warning",
+          message: `${color} text ${on} has a contrast of ${ratio.toFixed(1)}:1 (WCAG asks for ${CONTRAST_WARNING}:1).`,
+          fix: background ? { label: "Edit brand colors", section: "brand" } : fixText
+        }
+      ];
+    });
+  }
+};
+
+const overflowRule: PreflightRule = {
+  id: "overflow",
+  label: "Text fits",
+  check(input) {
+    return input.texts.flatMap((texts, i) =>
+      texts
+        .filter((t) => t.truncated)
+        .map((t): PreflightIssue => ({
+          rule: "overflow",
+          severity: "warning",
+          message: `Slide ${i + 1}: "${t.text.length > 40 ? `${t.text.slice(0, 40)}…` : t.text}" is cut off.`,
+          fix: { label: "Shorten the text", section: input.scene.slides[i].kind === "benefit" ? "slides" : "product" }
+        }))
+    );
+  }
+};
+
+// When the voiceover ends, from the same trims and offset the mixer uses.
+function voiceEnd(mix: AudioMix, fileSeconds: number) {
+  const trimStart = Math.min(mix.voiceTrimStart, fileSeconds);
+  return Math.max(0, mix.voiceOffset) + Math.max(0, fileSeconds - trimStart - mix.voiceTrimEnd);
+}
+
+const voiceRule: PreflightRule = {
+  id: "voice",
+  label: "Voiceover fits",
+  check(input) {
+    const { voiceSeconds, settings } = input;
+    if (voiceSeconds === null || settings.mix.voiceMuted) return [];
+    const end = voiceEnd(settings.mix, voiceSeconds);
+    const seconds = videoSeconds(input);
+    const over = end - seconds;
+    if (over <= 0.05) return [];
+    // Holding the last slide longer lets the voice finish.
+    const slides = settings.slides.map((s, i, all) =>
+      i === all.length - 1 ? { ...s, duration: Math.round((s.duration + over + 0.1) * 10) / 10 } : s
+    );
+    return [
+      {
+        rule: "voice",
+        severity: "warning",
+        message: `The voiceover runs ${formatSeconds(over)} past the end of the video and will be cut off.`,
+        fix: { label: "Hold the last slide longer", patch: { slides } }
+      }
+    ];
+  }
+};
+
+const registry = new Map<string, PreflightRule>();
+
+export function registerPreflightRule(rule: PreflightRule) {
+  registry.set(rule.id, rule);
+}
+
+export function listPreflightRules(): PreflightRule[] {
+  return Array.from(registry.values());
+}
+
+export function runPreflight(input: PreflightInput, rules = listPreflightRules()): PreflightIssue[] {
+  return rules.flatMap((rule) => rule.check(input));
+}
+
+export function hasErrors(issues: PreflightIssue[]) {
+  return issues.some((issue) => issue.severity === "error");
+}
+
+// For renders that build their own scene, like batch items and variants:
+// errors fail the render with their messages instead of showing in the
+// checklist.
+export function assertPreflight(issues: PreflightIssue[]) {
+  const errors = issues.filter((issue) => issue.severity === "error");
+  if (errors.length > 0) throw new Error(`Preflight failed: ${errors.map((issue) => issue.message).join(" ")}`);
+}
+
+[disclosureRule, platformRule, contrastRule, overflowRule, voiceRule].forEach(registerPreflightRule);
@@ -0,0 +1,305 @@
+// Product details scraped from a product page's HTML. JSON-LD `Product` data
+// wins, then marketplace markup (Amazon, eBay, microdata), then Open Graph and
+// product meta tags, and finally the page <title>. Parsing is regex based so
+// it runs anywhere without a DOM.
+
+export type ScrapedProduct = {
+  url: string;
+  title: string;
+  description: string;
+  price: string | null;
+  rating: number | null;
+  reviewCount: number | null;
+  features: string[];
+  images: string[];
+};
+
+const MAX_IMAGES = 12;
+const MAX_FEATURES = 10;
+const SUBTITLE_LENGTH = 90;
+const BENEFIT_LENGTH = 60;
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " " };
+
+export function decodeEntities(text: string) {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, code: string) => {
+    if (code[0] !== "#") return ENTITIES[code.toLowerCase()] ?? match;
+    const value = code[1] === "x" || code[1] === "X" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+    return Number.isFinite(value) && value > 0 && value <= 0x10ffff ? String.fromCodePoint(value) : match;
+  });
+}
+
+function textOf(html: string) {
+  return decodeEntities(
+    html
+      .replace(/<(script|style)\b[\s\S]*?<\/\1>/gi, "")
+      .replace(/<br\s*\/?>/gi, " ")
+      .replace(/<[^>]+>/g, " ")
+  )
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function parseAttributes(tag: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const body = tag.replace(/^<\w+/, "").replace(/\/?>$/, "");
+  for (const m of body.matchAll(/([^\s=/>"']+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g)) {
+    attrs[m[1].toLowerCase()] = decodeEntities(m[2] ?? m[3] ?? m[4] ?? "");
+  }
+  return attrs;
+}
+
+// Meta tag contents keyed by lowercased `property`, `name` or `itemprop`.
+function metaTags(html: string) {
+  const meta = new Map<string, string[]>();
+  for (const [tag] of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const attrs = parseAttributes(tag);
+    const key = (attrs.property ?? attrs.name ?? attrs.itemprop ?? "").toLowerCase();
+    const content = (attrs.content ?? "").trim();
+    if (!key || !content) continue;
+    meta.set(key, [...(meta.get(key) ?? []), content]);
+  }
+  return meta;
+}
+
+// Text of the first element whose opening tag matches `attribute`, e.g.
+// /id=["']productTitle["']/. Nested elements of the same name end it early,
+// which is fine for the headings and spans this is used on.
+function elementText(html: string, attribute: RegExp) {
+  const open = new RegExp(`<(\\w+)\\b[^>]*${attribute.source}[^>]*>`, "i").exec(html);
+  if (!open) return "";
+  const start = open.index + open[0].length;
+  const end = html.toLowerCase().indexOf(`</${open[1].toLowerCase()}`, start);
+  return textOf(html.slice(start, end < 0 ? undefined : end));
+}
+
+// Items of the first list that follows an element matching `attribute`.
+function listItems(html: string, attribute: RegExp) {
+  const anchor = attribute.exec(html);
+  if (!anchor) return [];
+  const from = html.slice(anchor.index);
+  const list = /<[uo]l\b[\s\S]*?<\/[uo]l>/i.exec(from);
+  if (!list) return [];
+  return Array.from(list[0].matchAll(/<li\b[^>]*>([\s\S]*?)<\/li>/gi), (m) => textOf(m[1])).filter(Boolean);
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : value === undefined || value === null ? [] : [value];
+}
+
+function asText(value: unknown): string {
+  if (typeof value === "string") return value.trim();
+  if (typeof value === "number") return String(value);
+  return "";
+}
+
+function asNumber(value: unknown): number | null {
+  const n = typeof value === "number" ? value : parseFloat(asText(value).replace(/,/g, ""));
+  return Number.isFinite(n) ? n : null;
+}
+
+// A property of a JSON object, or undefined for anything else.
+function field(node: unknown, key: string): unknown {
+  return node && typeof node === "object" && !Array.isArray(node) ? (node as Record<string, unknown>)[key] : undefined;
+}
+
+function isType(node: unknown, type: string) {
+  return asArray(field(node, "@type")).some((t) => typeof t === "string" && t.replace(/^.*[/#]/, "") === type);
+}
+
+// First `Product` (or `ProductGroup`) anywhere in a JSON-LD document,
+// including inside `@graph` and `mainEntity`.
+function findProduct(node: unknown, depth = 0): Record<string, unknown> | null {
+  if (!node || typeof node !== "object" || depth > 6) return null;
+  if (Array.isArray(node)) {
+    for (const child of node) {
+      const found = findProduct(child, depth + 1);
+      if (found) return found;
+    }
+    return null;
+  }
+  if (isType(node, "Product") || isType(node, "ProductGroup")) return node as Record<string, unknown>;
+  for (const value of Object.values(node)) {
+    const found = findProduct(value, depth + 1);
+    if (found) return found;
+  }
+  return null;
+}
+
+function jsonLdProduct(html: string): Record<string, unknown> | null {
+  for (const m of html.matchAll(/<script\b[^>]*type\s*=\s*["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script>/gi)) {
+    const source = m[1].trim().replace(/^<!--|-->$/g, "");
+    let data: unknown;
+    try {
+      data = JSON.parse(source);
+    } catch {
+      // Raw newlines inside strings are a common authoring mistake.
+      try {
+        data = JSON.parse(source.replace(/[\r\n\t]+/g, " "));
+      } catch {
+        continue;
+      }
+    }
+    const product = findProduct(data);
+    if (product) return product;
+  }
+  return null;
+}
+
+function imageUrls(value: unknown): string[] {
+  return asArray(value).flatMap((entry) =>
+    typeof entry === "string" ? [entry] : [asText(field(entry, "url") ?? field(entry, "contentUrl"))].filter(Boolean)
+  );
+}
+
+export function formatPrice(amount: string, currency: string | null) {
+  const value = Number(amount.replace(/,/g, ""));
+  if (currency && Number.isFinite(value)) {
+    try {
+      return new Intl.NumberFormat("en-US", { style: "currency", currency }).format(value);
+    } catch {
+      // unknown currency code
+    }
+  }
+  return currency ? `${amount} ${currency}` : amount;
+}
+
+function offerPrice(product: unknown): string | null {
+  const offers = [
+    ...asArray(field(product, "offers")),
+    ...asArray(field(product, "hasVariant")).flatMap((variant) => asArray(field(variant, "offers")))
+  ];
+  for (const offer of offers) {
+    const specification = field(offer, "priceSpecification");
+    const amount = asText(field(offer, "price") ?? field(offer, "lowPrice") ?? field(specification, "price"));
+    const currency = asText(field(offer, "priceCurrency") ?? field(specification, "priceCurrency"));
+    if (amount) return formatPrice(amount, currency || null);
+  }
+  return null;
+}
+
+function amazonImages(html: string) {
+  const urls: string[] = [];
+  for (const m of html.matchAll(/"hiRes"\s*:\s*"(https?:[^"]+)"/g)) urls.push(m[1]);
+  for (const m of html.matchAll(/data-old-hires\s*=\s*["'](https?:[^"']+)["']/gi)) urls.push(m[1]);
+  for (const m of html.matchAll(/data-a-dynamic-image\s*=\s*"([^"]+)"/gi)) {
+    try {
+      urls.push(...Object.keys(JSON.parse(decodeEntities(m[1]))));
+    } catch {
+      // ignore malformed attribute
+    }
+  }
+  return urls;
+}
+
+function resolveUrl(src: string, base: string) {
+  try {
+    const url = new URL(decodeEntities(src.trim()), base);
+    return url.protocol === "http:" || url.protocol === "https:" ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+const first = (...values: (string | null | undefined)[]) => values.find((v) => v && v.trim())?.trim() ?? "";
+
+export function parseProductPage(html: string, url: string): ScrapedProduct {
+  const product = jsonLdProduct(html);
+  const meta = metaTags(html);
+  const tag = (...keys: string[]) => first(...keys.map((k) => meta.get(k)?.[0]));
+
+  const title = first(
+    textOf(asText(field(product, "name"))),
+    elementText(html, /id=["']productTitle["']/),
+    elementText(html, /class=["'][^"']*x-item-title__mainTitle[^"']*["']/),
+    tag("og:title", "twitter:title"),
+    elementText(html, /itemprop=["']name["']/),
+    textOf(/<title\b[^>]*>([\s\S]*?)<\/title>/i.exec(html)?.[1] ?? "")
+  );
+
+  const description = first(
+    textOf(asText(field(product, "description"))),
+    tag("og:description", "description", "twitter:description")
+  );
+
+  const metaAmount = tag("product:price:amount", "og:price:amount", "price");
+  const price =
+    offerPrice(product) ??
+    (metaAmount ? formatPrice(metaAmount, tag("product:price:currency", "og:price:currency", "pricecurrency") || null) : null) ??
+    (elementText(html, /class=["'][^"']*a-offscreen[^"']*["']/) || null);
+
+  const ratingText = /([0-9.]+) out of 5 stars/i.exec(html)?.[1];
+  const aggregate = field(product, "aggregateRating");
+  const rating = asNumber(field(aggregate, "ratingValue")) ?? asNumber(tag("ratingvalue")) ?? asNumber(ratingText);
+  const reviewCount =
+    asNumber(field(aggregate, "reviewCount") ?? field(aggregate, "ratingCount")) ??
+    asNumber(tag("reviewcount", "ratingcount")) ??
+    asNumber(elementText(html, /id=["']acrCustomerReviewText["']/));
+
+  const features = [
+    ...listItems(html, /id=["']feature-bullets["']/i),
+    ...listItems(html, /class=["'][^"']*(?:product-features|key-features|highlights|ux-layout-section--features)[^"']*["']/i)
+  ]
+    .filter((text) => !/^make sure this fits/i.test(text))
+    .filter((text, i, all) => all.indexOf(text) === i)
+    .slice(0, MAX_FEATURES);
+
+  const candidates = [
+    ...imageUrls(field(product, "image")),
+    ...asArray(field(product, "hasVariant")).flatMap((variant) => imageUrls(field(variant, "image"))),
+    ...amazonImages(html),
+    ...["og:image", "og:image:secure_url", "og:image:url", "twitter:image", "twitter:image:src", "image"].flatMap(
+      (key) => meta.get(key) ?? []
+    )
+  ];
+  const images: string[] = [];
+  for (const src of candidates) {
+    const resolved = resolveUrl(src, url);
+    if (!resolved || /\.svg(\?|$)/i.test(resolved) || images.includes(resolved)) continue;
+    images.push(resolved);
+    if (images.length >= MAX_IMAGES) break;
+  }
+
+  return { url, title, description, price, rating, reviewCount, features, images };
+}
+
+function truncate(text: string, max: number) {
+  if (text.length <= max) return text;
+  const cut = text.slice(0, max - 1);
+  const space = cut.lastIndexOf(" ");
+  return `${(space > max / 2 ? cut.slice(0, space) : cut).replace(/[\s,;:–—-]+$/, "")}…`;
+}
+
+function sentences(text: string) {
+  return text
+    .split(/(?<=[.!?])\s+/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+function sentenceCase(text: string) {
+  const lower = text.toLowerCase();
+  return lower.charAt(0).toUpperCase() + lower.slice(1);
+}
+
+// Marketplace bullets often lead with a short heading ("LONG BATTERY LIFE:
+// lasts up to…"); the heading alone makes the best slide text.
+export function benefitText(feature: string) {
+  const heading = /^([^:：–—]{3,50}?)\s*[:：–—]\s+\S/.exec(feature)?.[1];
+  if (heading) return heading === heading.toUpperCase() ? sentenceCase(heading) : heading;
+  const clause = sentences(feature)[0] ?? feature;
+  return truncate(clause.replace(/[.!]$/, ""), BENEFIT_LENGTH);
+}
+
+export function productSubtitle(product: ScrapedProduct) {
+  const lead = sentences(product.description)[0];
+  if (lead) return truncate(lead, SUBTITLE_LENGTH);
+  return [product.price, product.rating !== null ? `★ ${product.rating.toFixed(1)}` : null].filter(Boolean).join(" · ");
+}
+
+// Benefit slide lines: the feature bullets, or else the description after
+// its first sentence, which already went into the subtitle.
+export function productBenefits(product: ScrapedProduct, max = 5) {
+  const source = product.features.length > 0 ? product.features : sentences(product.description).slice(1);
+  return source.map(benefitText).filter(Boolean).slice(0, max);
+}
@@ -0,0 +1,236 @@
+import { DEFAULT_ANIMATIONS, normalizeAnimations, normalizeKenBurns } from "./animation";
+import { DEFAULT_MIX, normalizeMix } from "./audio";
+import { DEFAULT_BRAND_KIT, mapBrandAssets, normalizeBrandKit, withBrandColor, type BrandKit } from "./brand";
+import { decodeBundle, encodeBundle, type BundleAsset } from "./bundle";
+import { CAPTION_STYLE_LABELS, normalizeCues } from "./captions";
+import { normalizeClip } from "./clips";
+import { normalizeImageEdits } from "./imageEdits";
+import { DEFAULT_SAFE_ZONES, normalizeSafeZones } from "./layout";
+import { normalizeLayers } from "./layers";
+import { DEFAULT_LINK, normalizeLink, type AffiliateLink } from "./links";
+import { DEFAULT_MUSIC, normalizeMusic } from "./music";
+import type { OutputFormat } from "./render";
+import { ASPECTS } from "./scene";
+import { defaultSlides, parseLines } from "./slides";
+import { DEFAULT_TEMPLATE_ID } from "./templates";
+import { DEFAULT_TRANSITION, normalizeTransition } from "./transitions";
+import type {
+  Aspect,
+  AudioMix,
+  CaptionCue,
+  CaptionStyle,
+  Clip,
+  ElementAnimations,
+  ImageEdits,
+  MusicSettings,
+  Slide,
+  SlideKind,
+  Transition
+} from "./types";
+
+export const PROJECT_VERSION = 3;
+export const PROJECT_FILE_EXTENSION = ".favproj";
+
+const MAGIC = "FAVP";
+
+export type ProjectAsset = BundleAsset;
+
+export type ProjectSettings = {
+  productTitle: string;
+  subtitle: string;
+  cta: string;
+  link: AffiliateLink;
+  // Text that must be on screen to disclose the affiliate relationship.
+  disclosure: string;
+  brandKit: BrandKit;
+  aspect: Aspect;
+  // Chosen safe zone id per aspect, so every format keeps its own.
+  safeZones: Record<Aspect, string>;
+  secondsPerSlide: number;
+  templateId: string;
+  transition: Transition;
+  animations: ElementAnimations;
+  captionStyle: CaptionStyle;
+  bgMusicEnabled: boolean;
+  music: MusicSettings;
+  mix: AudioMix;
+  outputFormat: OutputFormat;
+};
+
+export type Project = ProjectSettings & {
+  version: number;
+  slides: Slide[];
+  captions: CaptionCue[];
+  images: ProjectAsset[];
+  // Crop, filters and cutout per image id; unedited images have no entry.
+  imageEdits: Record<string, ImageEdits>;
+  // Trim, speed and sound per clip id; every video asset has an entry.
+  clips: Record<string, Clip>;
+  voice: ProjectAsset | null;
+  musicTrack: ProjectAsset | null;
+};
+
+export const defaultSettings: ProjectSettings = {
+  productTitle: "Amazing Gadget 3000",
+  subtitle: "Boost productivity with zero effort",
+  cta: "Grab yours today ? link in bio",
+  link: DEFAULT_LINK,
+  disclosure: "#affiliate",
+  brandKit: DEFAULT_BRAND_KIT,
+  aspect: "9:16",
+  safeZones: DEFAULT_SAFE_ZONES,
+  secondsPerSlide: 2.5,
+  templateId: DEFAULT_TEMPLATE_ID,
+  transition: DEFAULT_TRANSITION,
+  animations: DEFAULT_ANIMATIONS,
+  captionStyle: "highlight",
+  bgMusicEnabled: true,
+  music: DEFAULT_MUSIC,
+  mix: DEFAULT_MIX,
+  outputFormat: "mp4"
+};
+
+type ProjectData = Record<string, unknown>;
+
+// Each entry upgrades a project from version N to N + 1. Add one whenever a
+// field is renamed or reshaped so files saved by older editors keep opening.
+const migrations: Record<number, (data: ProjectData) => ProjectData> = {
+  // v1 paired benefit line N with image N, all at `secondsPerSlide`.
+  1: ({ benefitsText, ...data }) => {
+    const lines = parseLines(typeof benefitsText === "string" ? benefitsText : "");
+    const images = Array.isArray(data.images) ? data.images.map(normalizeAsset) : [];
+    const duration = typeof data.secondsPerSlide === "number" ? data.secondsPerSlide : defaultSettings.secondsPerSlide;
+    const slides: Slide[] = (lines.length ? lines : [""]).map((text, i) => ({
+      id: `benefit-${i + 1}`,
+      kind: "benefit",
+      text,
+      imageIds: images[i] ? [images[i].id] : [],
+      duration
+    }));
+    return { ...data, slides };
+  },
+  // v2 had a single brand color where v3 has a brand kit.
+  2: ({ brandColor, ...data }) => {
+    if (typeof brandColor !== "string") return data;
+    const palette = withBrandColor(DEFAULT_BRAND_KIT.palette, brandColor);
+    return { ...data, brandKit: { ...DEFAULT_BRAND_KIT, palette } };
+  }
+};
+
+export function migrateProject(data: unknown): Project {
+  if (!data || typeof data !== "object") {
+    throw new Error("Not a project");
+  }
+  let current = data as ProjectData;
+  let version = typeof current.version === "number" ? current.version : 1;
+  if (version > PROJECT_VERSION) {
+    throw new Error(`Project was saved by a newer editor (v${version})`);
+  }
+  while (version < PROJECT_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) throw new Error(`No migration from project v${version}`);
+    current = migrate(current);
+    version++;
+  }
+  return normalizeProject(current);
+}
+
+function normalizeMap<T>(data: unknown, normalize: (value: unknown) => T): Record<string, T> {
+  if (!data || typeof data !== "object") return {};
+  return Object.fromEntries(Object.entries(data).map(([id, value]) => [id, normalize(value)]));
+}
+
+const OUTPUT_FORMATS: OutputFormat[] = ["mp4", "webm"];
+
+const SLIDE_KINDS: SlideKind[] = ["intro", "benefit", "outro"];
+
+// Assets come from a file's refs or from IndexedDB; anything without a blob
+// and its metadata is dropped rather than failing later in a decoder.
+function normalizeAsset(data: unknown): ProjectAsset | null {
+  if (!data || typeof data !== "object") return null;
+  const { id, name, type, blob } = data as Partial<Record<keyof ProjectAsset, unknown>>;
+  if (typeof id !== "string" || !id || typeof name !== "string" || typeof type !== "string") return null;
+  return blob instanceof Blob ? { id, name, type, blob } : null;
+}
+
+function seconds(value: unknown, fallback: number, min: number, max: number) {
+  return typeof value === "number" && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+}
+
+function normalizeSlide(value: unknown, index: number, duration: number): Slide | null {
+  if (!value || typeof value !== "object") return null;
+  const data = value as Partial<Record<keyof Slide, unknown>>;
+  const slide: Slide = {
+    id: typeof data.id === "string" && data.id ? data.id : `slide-${index + 1}`,
+    kind: SLIDE_KINDS.find((kind) => kind === data.kind) ?? "benefit",
+    text: typeof data.text === "string" ? data.text : "",
+    imageIds: Array.isArray(data.imageIds) ? data.imageIds.filter((id): id is string => typeof id === "string") : [],
+    duration: seconds(data.duration, duration, 0.5, 15)
+  };
+  const transition = normalizeTransition(data.transition);
+  const kenBurns = normalizeKenBurns(data.kenBurns);
+  if (typeof data.templateId === "string") slide.templateId = data.templateId;
+  if (transition) slide.transition = transition;
+  if (kenBurns) slide.kenBurns = kenBurns;
+  if (data.layers !== undefined) slide.layers = normalizeLayers(data.layers);
+  return slide;
+}
+
+function normalizeProject(value: ProjectData): Project {
+  const data = value as Partial<Record<keyof Project, unknown>>;
+  const text = (field: unknown, fallback: string) => (typeof field === "string" ? field : fallback);
+  const secondsPerSlide = seconds(data.secondsPerSlide, defaultSettings.secondsPerSlide, 1, 8);
+  const slides = Array.isArray(data.slides)
+    ? data.slides.flatMap((slide, i) => normalizeSlide(slide, i, secondsPerSlide) ?? [])
+    : [];
+  return {
+    productTitle: text(data.productTitle, defaultSettings.productTitle),
+    subtitle: text(data.subtitle, defaultSettings.subtitle),
+    cta: text(data.cta, defaultSettings.cta),
+    link: normalizeLink(data.link),
+    disclosure: text(data.disclosure, defaultSettings.disclosure),
+    brandKit: normalizeBrandKit(data.brandKit),
+    aspect: ASPECTS.find((aspect) => aspect === data.aspect) ?? defaultSettings.aspect,
+    safeZones: normalizeSafeZones(data.safeZones),
+    secondsPerSlide,
+    templateId: text(data.templateId, defaultSettings.templateId),
+    transition: normalizeTransition(data.transition) ?? defaultSettings.transition,
+    animations: normalizeAnimations(data.animations),
+    captionStyle:
+      (Object.keys(CAPTION_STYLE_LABELS) as CaptionStyle[]).find((style) => style === data.captionStyle) ??
+      defaultSettings.captionStyle,
+    bgMusicEnabled: typeof data.bgMusicEnabled === "boolean" ? data.bgMusicEnabled : defaultSettings.bgMusicEnabled,
+    music: normalizeMusic(data.music),
+    mix: normalizeMix(data.mix),
+    outputFormat: OUTPUT_FORMATS.find((format) => format === data.outputFormat) ?? defaultSettings.outputFormat,
+    version: PROJECT_VERSION,
+    slides: slides.length > 0 ? slides : defaultSlides(secondsPerSlide),
+    captions: normalizeCues(data.captions),
+    images: Array.isArray(data.images) ? data.images.flatMap((asset) => normalizeAsset(asset) ?? []) : [],
+    imageEdits: normalizeMap(data.imageEdits, normalizeImageEdits),
+    clips: normalizeMap(data.clips, normalizeClip),
+    voice: normalizeAsset(data.voice),
+    musicTrack: normalizeAsset(data.musicTrack)
+  };
+}
+
+export function encodeProjectFile(project: Project): Blob {
+  return encodeBundle(MAGIC, (toRef) => ({
+    ...project,
+    brandKit: mapBrandAssets(project.brandKit, toRef),
+    images: project.images.map(toRef),
+    voice: project.voice ? toRef(project.voice) : null,
+    musicTrack: project.musicTrack ? toRef(project.musicTrack) : null
+  }));
+}
+
+export async function decodeProjectFile(file: Blob): Promise<Project> {
+  const { manifest, fromRef } = await decodeBundle(file, MAGIC, "project");
+  return migrateProject({
+    ...manifest,
+    brandKit: manifest.brandKit && typeof manifest.brandKit === "object" ? mapBrandAssets(manifest.brandKit, fromRef) : undefined,
+    images: Array.isArray(manifest.images) ? manifest.images.map(fromRef) : [],
+    voice: fromRef(manifest.voice),
+    musicTrack: fromRef(manifest.musicTrack)
+  });
+}
@@ -0,0 +1,358 @@
+// QR code encoder for links drawn into the video: byte mode, error
+// correction level M (about 15% of the code can be covered or smudged and it
+// still scans), versions 1-15, so up to 412 bytes. Everything runs locally;
+// no link ever leaves the browser to be encoded.
+
+// Per version: error correction codewords per block, then the data
+// codewords of each block. Level M only.
+const BLOCKS: [number, number[]][] = [
+  [10, [16]],
+  [16, [28]],
+  [26, [44]],
+  [18, [32, 32]],
+  [24, [43, 43]],
+  [16, [27, 27, 27, 27]],
+  [18, [31, 31, 31, 31]],
+  [22, [38, 38, 39, 39]],
+  [22, [36, 36, 36, 37, 37]],
+  [26, [43, 43, 43, 43, 44]],
+  [30, [50, 51, 51, 51, 51]],
+  [22, [36, 36, 36, 36, 36, 36, 37, 37]],
+  [22, [37, 37, 37, 37, 37, 37, 37, 37, 38]],
+  [24, [40, 40, 40, 40, 41, 41, 41, 41, 41]],
+  [24, [41, 41, 41, 41, 41, 42, 42, 42, 42, 42]]
+];
+
+const ALIGNMENT: number[][] = [
+  [],
+  [6, 18],
+  [6, 22],
+  [6, 26],
+  [6, 30],
+  [6, 34],
+  [6, 22, 38],
+  [6, 24, 42],
+  [6, 26, 46],
+  [6, 28, 50],
+  [6, 30, 54],
+  [6, 32, 58],
+  [6, 34, 62],
+  [6, 26, 46, 66],
+  [6, 26, 48, 70]
+];
+
+export const MAX_QR_BYTES = 412;
+
+// Dark modules, row by row; `size` modules square, without the quiet zone.
+export type QrCode = {
+  version: number;
+  size: number;
+  modules: boolean[][];
+};
+
+// GF(256) with the QR polynomial x^8 + x^4 + x^3 + x^2 + 1.
+const EXP = new Uint8Array(512);
+const LOG = new Uint8Array(256);
+{
+  let x = 1;
+  for (let i = 0; i < 255; i++) {
+    EXP[i] = x;
+    LOG[x] = i;
+    x = (x << 1) ^ (x & 0x80 ? 0x11d : 0);
+  }
+  for (let i = 255; i < 512; i++) EXP[i] = EXP[i - 255];
+}
+
+function multiply(a: number, b: number) {
+  return a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]];
+}
+
+function generator(degree: number) {
+  let poly = [1];
+  for (let i = 0; i < degree; i++) {
+    const next = new Array(poly.length + 1).fill(0);
+    poly.forEach((c, j) => {
+      next[j] ^= c;
+      next[j + 1] ^= multiply(c, EXP[i]);
+    });
+    poly = next;
+  }
+  return poly;
+}
+
+// Reed-Solomon error correction codewords for one block.
+export function reedSolomon(data: number[], degree: number): number[] {
+  const gen = generator(degree);
+  const rest = new Array(degree).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ rest[0];
+    rest.shift();
+    rest.push(0);
+    for (let i = 0; i < degree; i++) rest[i] ^= multiply(gen[i + 1], factor);
+  }
+  return rest;
+}
+
+function dataCapacity(version: number) {
+  return BLOCKS[version - 1][1].reduce((sum, n) => sum + n, 0);
+}
+
+function countBits(version: number) {
+  return version < 10 ? 8 : 16;
+}
+
+// Mode, length, bytes, terminator and padding, as data codewords.
+function dataCodewords(bytes: Uint8Array, version: number): number[] {
+  const capacity = dataCapacity(version) * 8;
+  const bits: number[] = [];
+  const push = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  push(0b0100, 4);
+  push(bytes.length, countBits(version));
+  bytes.forEach((b) => push(b, 8));
+  push(0, Math.min(4, capacity - bits.length));
+  push(0, (8 - (bits.length % 8)) % 8);
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) codewords.push(parseInt(bits.slice(i, i + 8).join(""), 2));
+  for (let pad = 0xec; codewords.length < capacity / 8; pad ^= 0xec ^ 0x11) codewords.push(pad);
+  return codewords;
+}
+
+// Splits data into blocks, adds each block's error correction and
+// interleaves them the way scanners read them back.
+function interleave(data: number[], version: number): number[] {
+  const [ecLength, sizes] = BLOCKS[version - 1];
+  const blocks: number[][] = [];
+  let offset = 0;
+  for (const size of sizes) {
+    blocks.push(data.slice(offset, offset + size));
+    offset += size;
+  }
+  const ecc = blocks.map((block) => reedSolomon(block, ecLength));
+  const out: number[] = [];
+  for (let i = 0; i < Math.max(...sizes); i++) {
+    for (const block of blocks) if (i < block.length) out.push(block[i]);
+  }
+  for (let i = 0; i < ecLength; i++) {
+    for (const block of ecc) out.push(block[i]);
+  }
+  return out;
+}
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0
+];
+
+class Matrix {
+  readonly modules: boolean[][];
+  readonly reserved: boolean[][];
+
+  constructor(readonly size: number) {
+    this.modules = Array.from({ length: size }, () => new Array(size).fill(false));
+    this.reserved = Array.from({ length: size }, () => new Array(size).fill(false));
+  }
+
+  set(x: number, y: number, dark: boolean) {
+    this.modules[y][x] = dark;
+    this.reserved[y][x] = true;
+  }
+}
+
+function drawFinder(m: Matrix, cx: number, cy: number) {
+  for (let dy = -4; dy <= 4; dy++) {
+    for (let dx = -4; dx <= 4; dx++) {
+      const x = cx + dx;
+      const y = cy + dy;
+      if (x < 0 || y < 0 || x >= m.size || y >= m.size) continue;
+      const ring = Math.max(Math.abs(dx), Math.abs(dy));
+      m.set(x, y, ring !== 2 && ring !== 4);
+    }
+  }
+}
+
+// Format bits: level M (00) and the mask, BCH-protected and masked so they
+// are never all light.
+function drawFormat(m: Matrix, mask: number) {
+  const data = mask;
+  let rem = data;
+  for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+  const bits = ((data << 10) | rem) ^ 0x5412;
+  const bit = (i: number) => ((bits >>> i) & 1) === 1;
+  const { size } = m;
+  for (let i = 0; i <= 5; i++) m.set(8, i, bit(i));
+  m.set(8, 7, bit(6));
+  m.set(8, 8, bit(7));
+  m.set(7, 8, bit(8));
+  for (let i = 9; i < 15; i++) m.set(14 - i, 8, bit(i));
+  for (let i = 0; i < 8; i++) m.set(size - 1 - i, 8, bit(i));
+  for (let i = 8; i < 15; i++) m.set(8, size - 15 + i, bit(i));
+  m.set(8, size - 8, true);
+}
+
+function drawVersion(m: Matrix, version: number) {
+  if (version < 7) return;
+  let rem = version;
+  for (let i = 0; i < 12; i++) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+  const bits = (version << 12) | rem;
+  for (let i = 0; i < 18; i++) {
+    const dark = ((bits >>> i) & 1) === 1;
+    const a = m.size - 11 + (i % 3);
+    const b = Math.floor(i / 3);
+    m.set(a, b, dark);
+    m.set(b, a, dark);
+  }
+}
+
+function functionPatterns(version: number) {
+  const m = new Matrix(version * 4 + 17);
+  const { size } = m;
+  for (let i = 0; i < size; i++) {
+    m.set(6, i, i % 2 === 0);
+    m.set(i, 6, i % 2 === 0);
+  }
+  drawFinder(m, 3, 3);
+  drawFinder(m, size - 4, 3);
+  drawFinder(m, 3, size - 4);
+  const positions = ALIGNMENT[version - 1];
+  const last = positions.length - 1;
+  positions.forEach((cy, i) => {
+    positions.forEach((cx, j) => {
+      // Skip the three corners taken by finder patterns.
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) m.set(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    });
+  });
+  // Reserve the format areas; the real bits go in once the mask is chosen.
+  drawFormat(m, 0);
+  drawVersion(m, version);
+  return m;
+}
+
+// Codewords in the two-column zigzag from the bottom right, skipping
+// function patterns. Leftover modules stay light.
+function placeData(m: Matrix, codewords: number[]) {
+  const { size } = m;
+  let i = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    const upward = ((right + 1) & 2) === 0;
+    for (let vert = 0; vert < size; vert++) {
+      const y = upward ? size - 1 - vert : vert;
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        if (m.reserved[y][x] || i >= codewords.length * 8) continue;
+        m.modules[y][x] = ((codewords[i >>> 3] >>> (7 - (i & 7))) & 1) === 1;
+        i++;
+      }
+    }
+  }
+}
+
+function applyMask(m: Matrix, mask: number) {
+  const test = MASKS[mask];
+  for (let y = 0; y < m.size; y++) {
+    for (let x = 0; x < m.size; x++) {
+      if (!m.reserved[y][x] && test(x, y)) m.modules[y][x] = !m.modules[y][x];
+    }
+  }
+}
+
+const FINDER_LIKE = [
+  [true, false, true, true, true, false, true, false, false, false, false],
+  [false, false, false, false, true, false, true, true, true, false, true]
+];
+
+// The standard penalty score; the mask with the lowest wins.
+function penalty(modules: boolean[][]) {
+  const size = modules.length;
+  const at = (x: number, y: number, column: boolean) => (column ? modules[x][y] : modules[y][x]);
+  let score = 0;
+  let dark = 0;
+  for (const column of [false, true]) {
+    for (let y = 0; y < size; y++) {
+      let run = 1;
+      for (let x = 1; x <= size; x++) {
+        if (x < size && at(x, y, column) === at(x - 1, y, column)) {
+          run++;
+          continue;
+        }
+        if (run >= 5) score += run - 2;
+        run = 1;
+      }
+      for (let x = 0; x + 11 <= size; x++) {
+        if (FINDER_LIKE.some((p) => p.every((v, k) => at(x + k, y, column) === v))) score += 40;
+      }
+    }
+  }
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (modules[y][x]) dark++;
+      if (x + 1 < size && y + 1 < size) {
+        const c = modules[y][x];
+        if (modules[y][x + 1] === c && modules[y + 1][x] === c && modules[y + 1][x + 1] === c) score += 3;
+      }
+    }
+  }
+  const total = size * size;
+  score += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+  return score;
+}
+
+// Encodes `text` as UTF-8 in the smallest version that fits.
+export function encodeQr(text: string): QrCode {
+  const bytes = new TextEncoder().encode(text);
+  let version = 1;
+  while (version <= BLOCKS.length && 4 + countBits(version) + bytes.length * 8 > dataCapacity(version) * 8) version++;
+  if (version > BLOCKS.length) throw new Error(`Links over ${MAX_QR_BYTES} bytes don't fit in a QR code`);
+
+  const codewords = interleave(dataCodewords(bytes, version), version);
+  let best: boolean[][] | null = null;
+  let bestScore = Infinity;
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    const m = functionPatterns(version);
+    placeData(m, codewords);
+    applyMask(m, mask);
+    drawFormat(m, mask);
+    const score = penalty(m.modules);
+    if (score < bestScore) {
+      bestScore = score;
+      best = m.modules;
+    }
+  }
+  return { version, size: version * 4 + 17, modules: best! };
+}
+
+// Draws the code with its four-module quiet zone into a `size` pixel square.
+// Modules snap to whole pixels so scanners see crisp edges.
+export function drawQr(
+  ctx: CanvasRenderingContext2D,
+  code: QrCode,
+  x: number,
+  y: number,
+  size: number,
+  colors: { dark: string; light: string } = { dark: "#000000", light: "#ffffff" }
+) {
+  const modules = code.size + 8;
+  const scale = Math.max(1, Math.floor(size / modules));
+  const offset = Math.floor((size - scale * modules) / 2) + scale * 4;
+  const left = Math.round(x);
+  const top = Math.round(y);
+  ctx.fillStyle = colors.light;
+  ctx.fillRect(left, top, Math.round(size), Math.round(size));
+  ctx.fillStyle = colors.dark;
+  code.modules.forEach((row, my) =>
+    row.forEach((dark, mx) => {
+      if (dark) ctx.fillRect(left + offset + mx * scale, top + offset + my * scale, scale, scale);
+    })
+  );
+}
@@ -0,0 +1,447 @@
+import { renderAudioOffline, type AudioRenderOptions, type MusicSource } from "./audio";
+import { drawFrame, prepareFrame, sceneClipAudio, sceneTotalFrames, type Scene } from "./draw";
+import { startFrameWorker, supportsFrameWorker } from "./frameWorker";
+import { muxMp4 } from "./mux/mp4";
+import type { AudioTrackInput, EncodedSample, VideoTrackInput } from "./mux/types";
+import { muxWebm } from "./mux/webm";
+import type { AudioMix } from "./types";
+
+export type OutputFormat = "mp4" | "webm";
+
+export type RenderJob = {
+  scene: Scene;
+  fps: number;
+  music: MusicSource | null;
+  voice: File | null;
+  mix: AudioMix;
+  format: OutputFormat;
+};
+
+export type RenderResult = {
+  blob: Blob;
+  format: OutputFormat;
+};
+
+export type RenderStage = "frames" | "audio" | "finishing";
+
+// `fraction` covers the whole render, 0..1.
+export type RenderProgress = {
+  stage: RenderStage;
+  fraction: number;
+};
+
+export type RenderOptions = {
+  signal?: AbortSignal;
+  onProgress?: (progress: RenderProgress) => void;
+};
+
+type EncoderConfigs = {
+  video: VideoEncoderConfig;
+  audio: AudioEncoderConfig | null;
+};
+
+const TAIL_SECONDS = 0.3;
+const KEYFRAME_INTERVAL_SECONDS = 2;
+const AUDIO_SAMPLE_RATE = 48000;
+const AUDIO_CHANNELS = 2;
+const AUDIO_BITRATE = 128000;
+const MAX_ENCODE_QUEUE = 8;
+
+const VIDEO_CODECS: Record<OutputFormat, string[]> = {
+  mp4: ["avc1.640028", "avc1.4d0028", "avc1.42e028"],
+  webm: ["vp09.00.40.08", "vp8"]
+};
+
+const AUDIO_CODECS: Record<OutputFormat, string[]> = {
+  mp4: ["mp4a.40.2", "opus"],
+  webm: ["opus"]
+};
+
+const RECORDER_TYPES: Record<OutputFormat, string[]> = {
+  mp4: ["video/mp4;codecs=avc1,mp4a.40.2", "video/mp4"],
+  webm: ["video/webm;codecs=vp9,opus", "video/webm;codecs=vp8,opus", "video/webm"]
+};
+
+export function supportsOfflineRender() {
+  return (
+    typeof VideoEncoder !== "undefined" &&
+    typeof AudioEncoder !== "undefined" &&
+    typeof OfflineAudioContext !== "undefined"
+  );
+}
+
+// Frames of slides plus a short hold on the last frame, which every
+// renderer appends so the ending isn't cut off by players.
+export function frameCounts(job: Pick<RenderJob, "scene" | "fps">) {
+  const totalFrames = Math.max(1, sceneTotalFrames(job.scene, job.fps));
+  const tailFrames = Math.floor(TAIL_SECONDS * job.fps);
+  return { totalFrames, tailFrames };
+}
+
+// Everything the job's sound track is mixed from.
+function audioOptions(job: RenderJob, seconds: number, sampleRate: number, numberOfChannels: number): AudioRenderOptions {
+  const { music, voice, mix } = job;
+  return { seconds, sampleRate, numberOfChannels, music, voice, clips: sceneClipAudio(job.scene, job.fps), mix };
+}
+
+function videoBitrate(width: number, height: number, fps: number) {
+  return Math.round(width * height * fps * 0.1);
+}
+
+// Roughly how large an export of `seconds` gets at the encoder bitrates.
+export function estimateFileBytes(width: number, height: number, fps: number, seconds: number, withAudio: boolean) {
+  return (seconds * (videoBitrate(width, height, fps) + (withAudio ? AUDIO_BITRATE : 0))) / 8;
+}
+
+function hasAudio(job: RenderJob) {
+  return Boolean(job.music || job.voice) || sceneClipAudio(job.scene, job.fps).length > 0;
+}
+
+async function pickEncoderConfigs(job: RenderJob): Promise<EncoderConfigs | null> {
+  const { width, height } = job.scene;
+  let video: VideoEncoderConfig | null = null;
+  for (const codec of VIDEO_CODECS[job.format]) {
+    const config: VideoEncoderConfig = {
+      codec,
+      width,
+      height,
+      bitrate: videoBitrate(width, height, job.fps),
+      framerate: job.fps,
+      ...(job.format === "mp4" ? { avc: { format: "avc" as const } } : {})
+    };
+    const support = await VideoEncoder.isConfigSupported(config).catch(() => null);
+    if (support?.supported) {
+      video = config;
+      break;
+    }
+  }
+  if (!video) return null;
+
+  if (!hasAudio(job)) return { video, audio: null };
+  for (const codec of AUDIO_CODECS[job.format]) {
+    const config: AudioEncoderConfig = {
+      codec,
+      sampleRate: AUDIO_SAMPLE_RATE,
+      numberOfChannels: AUDIO_CHANNELS,
+      bitrate: AUDIO_BITRATE
+    };
+    const support = await AudioEncoder.isConfigSupported(config).catch(() => null);
+    if (support?.supported) return { video, audio: config };
+  }
+  return null;
+}
+
+// Views are checked first: SharedArrayBuffer is undefined on pages that
+// aren't cross-origin isolated.
+function toBytes(source: AllowSharedBufferSource): Uint8Array {
+  if (ArrayBuffer.isView(source)) {
+    return new Uint8Array(source.buffer.slice(source.byteOffset, source.byteOffset + source.byteLength));
+  }
+  return new Uint8Array(source.slice(0));
+}
+
+function toSample(chunk: EncodedVideoChunk | EncodedAudioChunk): EncodedSample {
+  const data = new Uint8Array(chunk.byteLength);
+  chunk.copyTo(data);
+  return { data, timestamp: chunk.timestamp, duration: chunk.duration ?? 0, key: chunk.type === "key" };
+}
+
+async function waitForQueue(encoder: VideoEncoder | AudioEncoder) {
+  while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+    await new Promise((resolve) => setTimeout(resolve, 1));
+  }
+}
+
+// Draws and encodes every frame of `scene` on `canvas`. Runs on the main
+// thread or inside the render worker; `onFrame` reports each encoded frame
+// and may throw to stop early.
+export async function encodeVideo(
+  scene: Scene,
+  fps: number,
+  canvas: HTMLCanvasElement | OffscreenCanvas,
+  config: VideoEncoderConfig,
+  onFrame: (frame: number, frames: number) => void
+): Promise<VideoTrackInput> {
+  const ctx = canvas.getContext("2d") as unknown as CanvasRenderingContext2D | null;
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  const { totalFrames, tailFrames } = frameCounts({ scene, fps });
+  const frames = totalFrames + tailFrames;
+  const samples: EncodedSample[] = [];
+  let description: Uint8Array | undefined;
+  let failure: unknown = null;
+  const encoder = new VideoEncoder({
+    output: (chunk, meta) => {
+      if (!description && meta?.decoderConfig?.description) {
+        description = toBytes(meta.decoderConfig.description);
+      }
+      samples.push(toSample(chunk));
+    },
+    error: (e) => {
+      failure = e;
+    }
+  });
+  encoder.configure(config);
+
+  // Every frame is stamped with its exact time, so render speed never
+  // affects the output.
+  const frameDuration = 1e6 / fps;
+  const keyInterval = Math.round(KEYFRAME_INTERVAL_SECONDS * fps);
+  try {
+    for (let frame = 0; frame < frames; frame++) {
+      if (failure) throw failure;
+      await prepareFrame(scene, frame, fps);
+      drawFrame(ctx, scene, frame, fps);
+      const videoFrame = new VideoFrame(canvas, {
+        timestamp: Math.round(frame * frameDuration),
+        duration: Math.round(frameDuration)
+      });
+      encoder.encode(videoFrame, { keyFrame: frame % keyInterval === 0 });
+      videoFrame.close();
+      await waitForQueue(encoder);
+      onFrame(frame + 1, frames);
+    }
+    await encoder.flush();
+    if (failure) throw failure;
+  } finally {
+    if (encoder.state !== "closed") encoder.close();
+  }
+
+  return { codec: config.codec, width: scene.width, height: scene.height, description, samples };
+}
+
+async function encodeAudio(job: RenderJob, config: AudioEncoderConfig): Promise<AudioTrackInput> {
+  const { totalFrames, tailFrames } = frameCounts(job);
+  const buffer = await renderAudioOffline(
+    audioOptions(job, (totalFrames + tailFrames) / job.fps, config.sampleRate, config.numberOfChannels)
+  );
+
+  const samples: EncodedSample[] = [];
+  let description: Uint8Array | undefined;
+  let failure: unknown = null;
+  const encoder = new AudioEncoder({
+    output: (chunk, meta) => {
+      if (!description && meta?.decoderConfig?.description) {
+        description = toBytes(meta.decoderConfig.description);
+      }
+      samples.push(toSample(chunk));
+    },
+    error: (e) => {
+      failure = e;
+    }
+  });
+  encoder.configure(config);
+
+  const channels = buffer.numberOfChannels;
+  const block = Math.round(buffer.sampleRate / 2);
+  try {
+    for (let start = 0; start < buffer.length; start += block) {
+      if (failure) throw failure;
+      const frames = Math.min(block, buffer.length - start);
+      const data = new Float32Array(frames * channels);
+      for (let c = 0; c < channels; c++) {
+        data.set(buffer.getChannelData(c).subarray(start, start + frames), c * frames);
+      }
+      const audioData = new AudioData({
+        format: "f32-planar",
+        sampleRate: buffer.sampleRate,
+        numberOfFrames: frames,
+        numberOfChannels: channels,
+        timestamp: Math.round((start * 1e6) / buffer.sampleRate),
+        data
+      });
+      encoder.encode(audioData);
+      audioData.close();
+      await waitForQueue(encoder);
+    }
+    await encoder.flush();
+    if (failure) throw failure;
+  } finally {
+    if (encoder.state !== "closed") encoder.close();
+  }
+
+  return {
+    codec: config.codec,
+    sampleRate: buffer.sampleRate,
+    numberOfChannels: channels,
+    description,
+    samples
+  };
+}
+
+function sizedCanvas(scene: Scene) {
+  const canvas = document.createElement("canvas");
+  canvas.width = scene.width;
+  canvas.height = scene.height;
+  return canvas;
+}
+
+// Encodes the frames in a worker when one can start, otherwise here.
+async function encodeFrames(
+  job: RenderJob,
+  config: VideoEncoderConfig,
+  options: RenderOptions,
+  onFrame: (frame: number, frames: number) => void
+): Promise<VideoTrackInput> {
+  const worker = await startFrameWorker(job.scene, job.fps, null, options.signal);
+  if (worker) {
+    try {
+      return await worker.encode(config, onFrame);
+    } finally {
+      worker.terminate();
+    }
+  }
+  return encodeVideo(job.scene, job.fps, sizedCanvas(job.scene), config, (frame, frames) => {
+    options.signal?.throwIfAborted();
+    onFrame(frame, frames);
+  });
+}
+
+async function renderOffline(job: RenderJob, configs: EncoderConfigs, options: RenderOptions): Promise<RenderResult> {
+  const { signal, onProgress } = options;
+  const frameShare = configs.audio ? 0.9 : 0.98;
+  onProgress?.({ stage: "frames", fraction: 0 });
+  const video = await encodeFrames(job, configs.video, options, (frame, frames) =>
+    onProgress?.({ stage: "frames", fraction: (frame / frames) * frameShare })
+  );
+  signal?.throwIfAborted();
+  let audio: AudioTrackInput | null = null;
+  if (configs.audio) {
+    onProgress?.({ stage: "audio", fraction: frameShare });
+    audio = await encodeAudio(job, configs.audio);
+    signal?.throwIfAborted();
+  }
+  onProgress?.({ stage: "finishing", fraction: 0.98 });
+  const blob = job.format === "mp4" ? muxMp4({ video, audio }) : muxWebm({ video, audio });
+  return { blob, format: job.format };
+}
+
+function pickRecorderType(preferred: OutputFormat): { mimeType: string; format: OutputFormat } {
+  const order: OutputFormat[] = preferred === "mp4" ? ["mp4", "webm"] : ["webm", "mp4"];
+  for (const format of order) {
+    const mimeType = RECORDER_TYPES[format].find((t) => MediaRecorder.isTypeSupported(t));
+    if (mimeType) return { mimeType, format };
+  }
+  throw new Error("This browser cannot record video");
+}
+
+function nextAnimationFrame(): Promise<number> {
+  return new Promise((resolve) => requestAnimationFrame(resolve));
+}
+
+// The capture canvas and how to draw a frame on it: through the worker when
+// one starts, otherwise on this thread.
+async function realtimeDrawer(job: RenderJob, signal?: AbortSignal) {
+  if (supportsFrameWorker() && "transferControlToOffscreen" in HTMLCanvasElement.prototype) {
+    const canvas = sizedCanvas(job.scene);
+    const worker = await startFrameWorker(job.scene, job.fps, canvas.transferControlToOffscreen(), signal);
+    if (worker) return { canvas, draw: (frame: number) => worker.draw(frame), close: worker.terminate };
+  }
+  const canvas = sizedCanvas(job.scene);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  const draw = async (frame: number) => {
+    await prepareFrame(job.scene, frame, job.fps);
+    drawFrame(ctx, job.scene, frame, job.fps);
+  };
+  return { canvas, draw, close: () => undefined };
+}
+
+// Real-time capture through MediaRecorder, kept for browsers without
+// WebCodecs. Output timing depends on the tab staying in the foreground.
+async function renderRealtime(job: RenderJob, options: RenderOptions): Promise<RenderResult> {
+  const { signal, onProgress } = options;
+  const { totalFrames, tailFrames } = frameCounts(job);
+  const frames = totalFrames + tailFrames;
+  const { mimeType, format } = pickRecorderType(job.format);
+
+  let drawer: Awaited<ReturnType<typeof realtimeDrawer>> | null = null;
+  let canvasStream: MediaStream | null = null;
+  let audioContext: AudioContext | null = null;
+  let dest: MediaStreamAudioDestinationNode | null = null;
+  let mixSource: AudioBufferSourceNode | null = null;
+  let rec: MediaRecorder | null = null;
+  try {
+    drawer = await realtimeDrawer(job, signal);
+
+    // Media streams
+    canvasStream = drawer.canvas.captureStream(job.fps);
+    audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+    dest = audioContext.createMediaStreamDestination();
+
+    // The mix is rendered up front and played as one buffer, so the voice
+    // lines up with the first frame instead of whenever playback starts.
+    if (hasAudio(job)) {
+      onProgress?.({ stage: "audio", fraction: 0 });
+      mixSource = audioContext.createBufferSource();
+      mixSource.buffer = await renderAudioOffline(audioOptions(job, frames / job.fps, audioContext.sampleRate, 2));
+      mixSource.connect(dest);
+      signal?.throwIfAborted();
+    }
+
+    // Merge tracks
+    const output = new MediaStream();
+    canvasStream.getTracks().forEach((t) => output.addTrack(t));
+    dest.stream.getAudioTracks().forEach((t) => output.addTrack(t));
+
+    const chunks: BlobPart[] = [];
+    const recorder = new MediaRecorder(output, { mimeType });
+    rec = recorder;
+    recorder.ondataavailable = (e) => {
+      if (e.data && e.data.size > 0) chunks.push(e.data);
+    };
+    let failure: Error | null = null;
+    const done = new Promise<Blob>((resolve, reject) => {
+      recorder.onstop = () => resolve(new Blob(chunks, { type: mimeType.split(";")[0] }));
+      recorder.onerror = (e: ErrorEvent) => {
+        failure = e.error instanceof Error ? e.error : new Error(e.message || "Recording failed");
+        reject(failure);
+      };
+    });
+    // A recording error stops the frame loop below; `done` is only awaited
+    // after it, so the rejection must not count as unhandled meanwhile.
+    done.catch(() => undefined);
+
+    // Start audio
+    await audioContext.resume();
+
+    // Render frames; the tail frames hold the last one.
+    recorder.start();
+    mixSource?.start();
+    for (let frame = 0; frame < frames; frame++) {
+      signal?.throwIfAborted();
+      if (failure) throw failure;
+      if (frame < totalFrames) await drawer.draw(frame);
+      await nextAnimationFrame();
+      onProgress?.({ stage: "frames", fraction: (frame + 1) / frames });
+    }
+
+    onProgress?.({ stage: "finishing", fraction: 1 });
+    recorder.stop();
+    return { blob: await done, format };
+  } finally {
+    if (rec && rec.state !== "inactive") rec.stop();
+    canvasStream?.getTracks().forEach((t) => t.stop());
+    mixSource?.disconnect();
+    dest?.disconnect();
+    audioContext?.close().catch(() => undefined);
+    drawer?.close();
+  }
+}
+
+// Rough seconds left, once enough of the render has run to tell.
+export function remainingSeconds(startedAt: number, fraction: number, now = Date.now()): number | null {
+  if (fraction < 0.02 || fraction >= 1) return null;
+  return ((now - startedAt) / 1000) * ((1 - fraction) / fraction);
+}
+
+// Prefers the frame-accurate WebCodecs path and falls back to real-time
+// recording when the browser lacks WebCodecs or a suitable codec. Aborting
+// `options.signal` stops the render and rejects with an AbortError.
+export async function renderVideoFile(job: RenderJob, options: RenderOptions = {}): Promise<RenderResult> {
+  options.signal?.throwIfAborted();
+  if (supportsOfflineRender()) {
+    const configs = await pickEncoderConfigs(job);
+    if (configs) return renderOffline(job, configs, options);
+  }
+  return renderRealtime(job, options);
+}
@@ -0,0 +1,51 @@
+import { registerFont, setFontRegistrar } from "./canvas";
+import { drawFrame, type Scene } from "./draw";
+import type { WorkerRequest, WorkerResponse } from "./frameWorker";
+import { encodeVideo } from "./render";
+
+// Worker entry for `startFrameWorker`: holds one scene and draws or encodes
+// its frames on an OffscreenCanvas.
+
+const scope = self as unknown as {
+  fonts: FontFaceSet;
+  onmessage: ((e: MessageEvent<WorkerRequest>) => void) | null;
+  postMessage: (message: WorkerResponse, transfer?: Transferable[]) => void;
+};
+
+let state: { scene: Scene; fps: number; canvas: OffscreenCanvas; ctx: CanvasRenderingContext2D } | null = null;
+
+setFontRegistrar(async (family, data) => {
+  const face = new FontFace(family, data);
+  await face.load();
+  scope.fonts.add(face);
+});
+
+async function handle(message: WorkerRequest) {
+  if (message.type === "init") {
+    // Missing fonts fall back like they do on the page.
+    await Promise.all(message.fonts.map(({ family, data }) => registerFont(family, data).catch(() => undefined)));
+    const canvas = message.canvas ?? new OffscreenCanvas(message.scene.width, message.scene.height);
+    const ctx = canvas.getContext("2d") as unknown as CanvasRenderingContext2D | null;
+    if (!ctx) throw new Error("Canvas 2D context unavailable");
+    state = { scene: message.scene, fps: message.fps, canvas, ctx };
+    scope.postMessage({ type: "ready" });
+    return;
+  }
+  if (!state) throw new Error("Render worker has no scene");
+  if (message.type === "draw") {
+    drawFrame(state.ctx, state.scene, message.frame, state.fps);
+    scope.postMessage({ type: "drawn" });
+    return;
+  }
+  const track = await encodeVideo(state.scene, state.fps, state.canvas, message.config, (frame, frames) =>
+    scope.postMessage({ type: "progress", frame, frames })
+  );
+  const buffers = track.samples.map((s) => s.data.buffer as ArrayBuffer);
+  scope.postMessage({ type: "encoded", track }, buffers);
+}
+
+scope.onmessage = (e) => {
+  handle(e.data).catch((err) =>
+    scope.postMessage({ type: "error", message: err instanceof Error ? err.message : String(err) })
+  );
+};
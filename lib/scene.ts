@@ -0,0 +1,70 @@
+import type { MusicSource } from "./audio";
+import type { BeatGrid } from "./beats";
+import { sceneBrand, type LoadedBrandAssets } from "./brand";
+import { placeCues } from "./captions";
+import type { Scene, SceneSlide } from "./draw";
+import { getSafeZone } from "./layout";
+import { fillCode, sceneLink } from "./links";
+import { beatTimes } from "./music";
+import type { Project, ProjectSettings } from "./project";
+import { snapSlidesToBeats } from "./slides";
+import type { Aspect, Slide } from "./types";
+
+// Turns saved project settings into what `drawFrame` needs. The editor and
+// the server renderer both build their scenes here so they draw the same
+// video from the same project.
+
+export const FPS = 30;
+
+export const ASPECTS: Aspect[] = ["9:16", "1:1", "4:5", "16:9"];
+
+export function getCanvasSize(aspect: Aspect): { width: number; height: number } {
+  switch (aspect) {
+    case "9:16":
+      return { width: 1080, height: 1920 };
+    case "1:1":
+      return { width: 1080, height: 1080 };
+    case "4:5":
+      return { width: 1080, height: 1350 };
+    case "16:9":
+      return { width: 1920, height: 1080 };
+  }
+}
+
+// Slides as played: with snapping on, cuts move to the active beat grid.
+// `trackGrid` is the analysed grid of the uploaded track, if any.
+export function playedSlides(slides: Slide[], music: MusicSource | null, trackGrid: BeatGrid | null): Slide[] {
+  if (!music || !music.settings.snapToBeat) return slides;
+  const { settings } = music;
+  const grid = settings.source === "upload" && music.track ? trackGrid : { bpm: settings.bpm, offset: 0 };
+  if (!grid) return slides;
+  const total = slides.reduce((sum, s) => sum + s.duration, 0);
+  return snapSlidesToBeats(slides, beatTimes(grid.bpm, grid.offset, total * 2 + 10));
+}
+
+// `brand` holds the decoded fonts and images of `settings.brandKit`; like the
+// slide images, loading them is up to the caller.
+export function buildScene(
+  settings: ProjectSettings & Pick<Project, "captions" | "voice">,
+  slides: SceneSlide[],
+  brand: LoadedBrandAssets
+): Scene {
+  const link = sceneLink(settings.link, settings.productTitle);
+  return {
+    ...getCanvasSize(settings.aspect),
+    templateId: settings.templateId,
+    productTitle: settings.productTitle,
+    subtitle: settings.subtitle,
+    cta: fillCode(settings.cta, link),
+    link,
+    brand: sceneBrand(settings.brandKit, brand),
+    transition: settings.transition,
+    animations: settings.animations,
+    // Without a voiceover the cues are already in video time.
+    captions: settings.voice ? placeCues(settings.captions, settings.mix) : settings.captions,
+    captionStyle: settings.captionStyle,
+    safeArea: getSafeZone(settings.aspect, settings.safeZones[settings.aspect]).insets,
+    slides,
+    tag: null
+  };
+}
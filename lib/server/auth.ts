@@ -0,0 +1,29 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+
+// The render and import APIs run ffmpeg on uploads and fetch URLs on the
+// server's behalf, so when RENDER_API_TOKEN is set every call must send it,
+// as `Authorization: Bearer <token>` or in the `api_token` cookie (which the
+// editor sets so `<img>` previews of imported images can load). Without it
+// the API is open, which is only meant for local use.
+
+const TOKEN = process.env.RENDER_API_TOKEN || "";
+
+export const TOKEN_COOKIE = "api_token";
+
+// Hashed first so the comparison takes the same time whatever the length.
+const digest = (value: string) => createHash("sha256").update(value).digest();
+
+function cookieToken(request: Request): string {
+  for (const part of (request.headers.get("cookie") ?? "").split(";")) {
+    const [name, ...value] = part.trim().split("=");
+    if (name === TOKEN_COOKIE) return decodeURIComponent(value.join("="));
+  }
+  return "";
+}
+
+export function isAuthorized(request: Request): boolean {
+  if (!TOKEN) return true;
+  const match = /^Bearer\s+(.+)$/i.exec(request.headers.get("authorization") ?? "");
+  const sent = match ? match[1].trim() : cookieToken(request);
+  return sent !== "" && timingSafeEqual(digest(sent), digest(TOKEN));
+}
@@ -0,0 +1,198 @@
+import { lookup } from "node:dns/promises";
+import http from "node:http";
+import https from "node:https";
+import { isIP, type LookupFunction } from "node:net";
+import { Readable } from "node:stream";
+import zlib from "node:zlib";
+
+// Fetching for URLs supplied by users. Only public http(s) hosts are
+// allowed, the connection goes to the exact address that was checked (so DNS
+// rebinding can't swap it), redirects are re-checked hop by hop, and bodies
+// are size capped, so the import routes can't be used to reach the server's
+// own network.
+
+const MAX_REDIRECTS = 5;
+const TIMEOUT_MS = 10000;
+
+function ipv4Bytes(address: string): number[] | null {
+  const parts = address.split(".");
+  if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part) && Number(part) <= 255)) return null;
+  return parts.map(Number);
+}
+
+// 16 bytes, including the "::" shorthand and a dotted IPv4 tail.
+function ipv6Bytes(address: string): number[] | null {
+  let text = address.toLowerCase().replace(/%.*$/, "");
+  const tail = /(\d+\.\d+\.\d+\.\d+)$/.exec(text);
+  if (tail) {
+    const v4 = ipv4Bytes(tail[1]);
+    if (!v4) return null;
+    const hex = (hi: number, lo: number) => ((hi << 8) | lo).toString(16);
+    text = `${text.slice(0, tail.index)}${hex(v4[0], v4[1])}:${hex(v4[2], v4[3])}`;
+  }
+  const halves = text.split("::");
+  if (halves.length > 2) return null;
+  const groups = (half: string) => (half ? half.split(":") : []);
+  const head = groups(halves[0]);
+  const rest = halves.length === 2 ? groups(halves[1]) : [];
+  const missing = 8 - head.length - rest.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+  const all = [...head, ...Array<string>(missing).fill("0"), ...rest];
+  if (!all.every((group) => /^[0-9a-f]{1,4}$/.test(group))) return null;
+  return all.flatMap((group) => {
+    const n = parseInt(group, 16);
+    return [n >> 8, n & 0xff];
+  });
+}
+
+function isPublicIPv4([a, b, c]: number[]): boolean {
+  return !(
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b < 128) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b < 32) ||
+    (a === 192 && b === 0 && (c === 0 || c === 2)) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) ||
+    (a === 198 && b === 51 && c === 100) ||
+    (a === 203 && b === 0 && c === 113) ||
+    a >= 224
+  );
+}
+
+const startsWith = (bytes: number[], prefix: number[]) => prefix.every((byte, i) => bytes[i] === byte);
+
+// Addresses that carry an IPv4 address are judged by it: mapped
+// (::ffff:0:0/96), compatible (::/96), translated (::ffff:0:0:0/96), NAT64
+// (64:ff9b::/96) and 6to4 (2002::/16). Everything else must be global
+// unicast outside the special-purpose blocks.
+function isPublicIPv6(bytes: number[]): boolean {
+  const zeros = (n: number) => Array<number>(n).fill(0);
+  if (startsWith(bytes, [...zeros(10), 0xff, 0xff]) || startsWith(bytes, zeros(12))) {
+    return isPublicIPv4(bytes.slice(12));
+  }
+  if (startsWith(bytes, [...zeros(8), 0xff, 0xff, 0, 0]) || startsWith(bytes, [0, 0x64, 0xff, 0x9b, ...zeros(8)])) {
+    return isPublicIPv4(bytes.slice(12));
+  }
+  if (startsWith(bytes, [0x20, 0x02])) return isPublicIPv4(bytes.slice(2, 6));
+  // Outside 2000::/3, plus NAT64 local use, Teredo and other IETF
+  // assignments (2001::/23) and documentation (2001:db8::/32).
+  if ((bytes[0] & 0xe0) !== 0x20) return false;
+  if (startsWith(bytes, [0, 0x64, 0xff, 0x9b])) return false;
+  if (bytes[0] === 0x20 && bytes[1] === 0x01 && bytes[2] < 0x02) return false;
+  return !startsWith(bytes, [0x20, 0x01, 0x0d, 0xb8]);
+}
+
+export function isPublicAddress(address: string): boolean {
+  const v4 = isIP(address) === 4 ? ipv4Bytes(address) : null;
+  if (v4) return isPublicIPv4(v4);
+  const v6 = ipv6Bytes(address);
+  return v6 !== null && isPublicIPv6(v6);
+}
+
+// The address to connect to: the host itself when it is an IP, otherwise the
+// first DNS answer, as long as every answer is public.
+async function publicAddress(url: URL): Promise<string> {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error("Only http and https URLs can be imported");
+  }
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  const addresses = isIP(host) ? [host] : (await lookup(host, { all: true })).map((a) => a.address);
+  if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+    throw new Error(`${url.hostname} is not a public address`);
+  }
+  return addresses[0];
+}
+
+const DECODERS: Record<string, () => NodeJS.ReadWriteStream> = {
+  gzip: zlib.createGunzip,
+  deflate: zlib.createInflate,
+  br: zlib.createBrotliDecompress
+};
+
+// One GET without following redirects. `lookup` hands the socket the checked
+// address instead of resolving the host again.
+function requestPinned(url: URL, address: string, headers: Record<string, string>): Promise<Response> {
+  const family = isIP(address);
+  const pinned: LookupFunction = (_hostname, options, callback) =>
+    options.all ? callback(null, [{ address, family }]) : callback(null, address, family);
+  const client = url.protocol === "https:" ? https : http;
+  return new Promise((resolve, reject) => {
+    const request = client.request(
+      url,
+      { headers: { "Accept-Encoding": "gzip, deflate, br", ...headers }, lookup: pinned, timeout: TIMEOUT_MS },
+      (message) => {
+        const responseHeaders = new Headers();
+        for (const [key, value] of Object.entries(message.headers)) {
+          for (const item of Array.isArray(value) ? value : value === undefined ? [] : [value]) responseHeaders.append(key, item);
+        }
+        const status = message.statusCode ?? 502;
+        let body: Readable = message;
+        const decoder = DECODERS[responseHeaders.get("content-encoding")?.trim().toLowerCase() ?? ""];
+        if (decoder) {
+          body = message.pipe(decoder()) as unknown as Readable;
+          message.on("error", (err) => body.destroy(err));
+          responseHeaders.delete("content-encoding");
+          responseHeaders.delete("content-length");
+        }
+        const empty = status === 204 || status === 304;
+        if (empty) message.resume();
+        resolve(new Response(empty ? null : (Readable.toWeb(body) as ReadableStream), { status, headers: responseHeaders }));
+      }
+    );
+    request.on("timeout", () => request.destroy(new Error("The request timed out")));
+    request.on("error", reject);
+    request.end();
+  });
+}
+
+// Returns the final response along with the URL it came from after
+// redirects.
+export async function fetchPublic(
+  input: string,
+  init: { headers?: Record<string, string> } = {}
+): Promise<{ response: Response; url: string }> {
+  let url = new URL(input);
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const response = await requestPinned(url, await publicAddress(url), init.headers ?? {});
+    const location = response.headers.get("location");
+    if (response.status >= 300 && response.status < 400 && location) {
+      await response.body?.cancel();
+      url = new URL(location, url);
+      continue;
+    }
+    return { response, url: url.href };
+  }
+  throw new Error("Too many redirects");
+}
+
+// Reads a fetched response, or an uploaded request body, up to `maxBytes`.
+// The declared length is checked first, but the stream is counted too since
+// it can be missing or wrong.
+export async function readLimited(response: Request | Response, maxBytes: number): Promise<Uint8Array> {
+  const declared = Number(response.headers.get("content-length"));
+  if (declared > maxBytes) throw new Error("Response is too large");
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = response.body?.getReader();
+  if (!reader) return new Uint8Array();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw new Error("Response is too large");
+    }
+    chunks.push(value);
+  }
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+}
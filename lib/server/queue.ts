@@ -0,0 +1,189 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, readdir, readFile, rename, rm, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { OutputFormat } from "../render";
+import { decodeProjectFile, PROJECT_FILE_EXTENSION, type Project } from "../project";
+import { projectRenderJob, renderWithFfmpeg } from "./render";
+
+// On-disk render queue. Each job is a directory holding the uploaded project,
+// `job.json` and, once finished, the output, so queued work survives a
+// server restart. At most RENDER_CONCURRENCY jobs render at once, and at most
+// RENDER_MAX_QUEUED wait or render before new jobs are turned away. Finished
+// and failed jobs are deleted RENDER_RETENTION_HOURS after they end.
+
+export type JobStatus = "queued" | "rendering" | "done" | "error";
+
+export type JobRecord = {
+  id: string;
+  status: JobStatus;
+  format: OutputFormat;
+  progress: number;
+  error: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+};
+
+const JOBS_DIR = path.resolve(process.env.RENDER_JOBS_DIR || ".render-jobs");
+const CONCURRENCY = Math.max(1, Number(process.env.RENDER_CONCURRENCY) || 1);
+const MAX_QUEUED = Math.max(1, Number(process.env.RENDER_MAX_QUEUED) || 20);
+const RETENTION_MS = Math.max(1, Number(process.env.RENDER_RETENTION_HOURS) || 24) * 60 * 60 * 1000;
+const PROGRESS_INTERVAL_MS = 1000;
+const SWEEP_INTERVAL_MS = 10 * 60 * 1000;
+const RECORD_FILE = "job.json";
+const PROJECT_FILE = `project${PROJECT_FILE_EXTENSION}`;
+const ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+const active = new Set<string>();
+let recovered = false;
+let adding: Promise<unknown> = Promise.resolve();
+let sweeper: ReturnType<typeof setInterval> | null = null;
+
+function jobDir(id: string) {
+  return path.join(JOBS_DIR, id);
+}
+
+export function outputPath(job: JobRecord) {
+  return path.join(jobDir(job.id), `output.${job.format}`);
+}
+
+// Written to a temp file and renamed so a status poll never reads a
+// half-written record.
+async function writeRecord(job: JobRecord) {
+  const file = path.join(jobDir(job.id), RECORD_FILE);
+  await writeFile(`${file}.tmp`, JSON.stringify(job, null, 2));
+  await rename(`${file}.tmp`, file);
+}
+
+async function readRecord(id: string): Promise<JobRecord | null> {
+  try {
+    return JSON.parse(await readFile(path.join(jobDir(id), RECORD_FILE), "utf8"));
+  } catch {
+    return null;
+  }
+}
+
+async function listJobs(): Promise<JobRecord[]> {
+  const ids = await readdir(JOBS_DIR).catch(() => [] as string[]);
+  const jobs = await Promise.all(ids.filter((id) => ID_PATTERN.test(id)).map(readRecord));
+  return jobs
+    .filter((job): job is JobRecord => job !== null)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+async function run(job: JobRecord) {
+  let current: JobRecord = { ...job, status: "rendering", progress: 0, startedAt: new Date().toISOString() };
+  // Progress and the final status are written in order, never concurrently.
+  let writes = Promise.resolve();
+  const save = (next: JobRecord) => {
+    current = next;
+    writes = writes.then(() => writeRecord(next)).catch(() => undefined);
+    return writes;
+  };
+
+  await save(current);
+  try {
+    const file = await readFile(path.join(jobDir(job.id), PROJECT_FILE));
+    const project = await decodeProjectFile(new Blob([new Uint8Array(file)]));
+    let lastSaved = Date.now();
+    await renderWithFfmpeg(await projectRenderJob(project), outputPath(job), jobDir(job.id), (progress) => {
+      if (Date.now() - lastSaved < PROGRESS_INTERVAL_MS) return;
+      lastSaved = Date.now();
+      save({ ...current, progress });
+    });
+    await save({ ...current, status: "done", progress: 1, finishedAt: new Date().toISOString() });
+  } catch (err) {
+    await save({
+      ...current,
+      status: "error",
+      error: err instanceof Error ? err.message : "Render failed",
+      finishedAt: new Date().toISOString()
+    });
+  }
+}
+
+// Deletes jobs that ended more than RETENTION_MS ago, and directories an
+// interrupted upload left without a record once they are as old.
+async function sweep() {
+  const ids = await readdir(JOBS_DIR).catch(() => [] as string[]);
+  for (const id of ids.filter((id) => ID_PATTERN.test(id))) {
+    if (active.has(id)) continue;
+    const job = await readRecord(id);
+    const ended = job ? (job.finishedAt ? Date.parse(job.finishedAt) : null) : (await stat(jobDir(id)).catch(() => null))?.mtimeMs;
+    if (ended != null && Date.now() - ended > RETENTION_MS) await rm(jobDir(id), { recursive: true, force: true });
+  }
+}
+
+// Starts queued jobs, oldest first, until the concurrency limit is reached.
+async function pump() {
+  const jobs = await listJobs();
+  // Jobs that were rendering when the previous server process stopped start
+  // over.
+  if (!recovered) {
+    recovered = true;
+    for (const job of jobs) {
+      if (job.status !== "rendering" || active.has(job.id)) continue;
+      job.status = "queued";
+      job.progress = 0;
+      await writeRecord(job);
+    }
+  }
+  for (const job of jobs) {
+    if (active.size >= CONCURRENCY) break;
+    if (job.status !== "queued" || active.has(job.id)) continue;
+    active.add(job.id);
+    run(job).finally(() => {
+      active.delete(job.id);
+      startQueue();
+    });
+  }
+}
+
+function startQueue() {
+  if (!sweeper) {
+    sweeper = setInterval(() => sweep().catch(() => undefined), SWEEP_INTERVAL_MS);
+    sweeper.unref();
+    sweep().catch(() => undefined);
+  }
+  pump().catch(() => undefined);
+}
+
+async function addJob(file: Blob, project: Project): Promise<JobRecord | null> {
+  const pending = (await listJobs()).filter((job) => job.status === "queued" || job.status === "rendering");
+  if (pending.length >= MAX_QUEUED) return null;
+  const job: JobRecord = {
+    id: randomUUID(),
+    status: "queued",
+    format: project.outputFormat,
+    progress: 0,
+    error: null,
+    createdAt: new Date().toISOString(),
+    startedAt: null,
+    finishedAt: null
+  };
+  try {
+    await mkdir(jobDir(job.id), { recursive: true });
+    await writeFile(path.join(jobDir(job.id), PROJECT_FILE), new Uint8Array(await file.arrayBuffer()));
+    await writeRecord(job);
+  } catch (err) {
+    await rm(jobDir(job.id), { recursive: true, force: true });
+    throw err;
+  }
+  startQueue();
+  return job;
+}
+
+// Null when the queue is full. Jobs are added one at a time so concurrent
+// uploads can't both pass the limit check.
+export function enqueueRender(file: Blob, project: Project): Promise<JobRecord | null> {
+  const added = adding.then(() => addJob(file, project));
+  adding = added.catch(() => null);
+  return added;
+}
+
+export async function getRenderJob(id: string): Promise<JobRecord | null> {
+  if (!ID_PATTERN.test(id)) return null;
+  // Queued jobs left by a previous server process resume on the first poll.
+  if (!recovered) startQueue();
+  return readRecord(id);
+}
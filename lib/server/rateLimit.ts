@@ -0,0 +1,29 @@
+// Per-client request counts in fixed windows, kept in memory. Clients are
+// told apart by the first forwarded address, so behind a proxy that header
+// has to be set by the proxy, not passed through from the client.
+
+const WINDOW_MS = 60 * 1000;
+
+type Window = { start: number; count: number };
+
+const windows = new Map<string, Window>();
+
+function clientKey(request: Request): string {
+  const forwarded = request.headers.get("x-forwarded-for")?.split(",")[0].trim();
+  return forwarded || request.headers.get("x-real-ip")?.trim() || "anonymous";
+}
+
+// Returns the seconds to wait when `request` goes over `limit` calls a
+// minute for `bucket`, or 0 when it may go ahead.
+export function rateLimited(request: Request, bucket: string, limit: number): number {
+  const now = Date.now();
+  for (const [key, window] of windows) {
+    if (now - window.start >= WINDOW_MS) windows.delete(key);
+  }
+  const key = `${bucket}:${clientKey(request)}`;
+  const window = windows.get(key) ?? { start: now, count: 0 };
+  windows.set(key, window);
+  if (window.count >= limit) return Math.ceil((window.start + WINDOW_MS - now) / 1000);
+  window.count++;
+  return 0;
+}
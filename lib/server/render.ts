@@ -0,0 +1,179 @@
+import { spawn } from "node:child_process";
+import { once } from "node:events";
+import { rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { createCanvas, GlobalFonts, loadImage } from "@napi-rs/canvas";
+import { decodeAudioFile, renderAudioOffline, type MusicSource } from "../audio";
+import { detectBeats, type BeatGrid } from "../beats";
+import { loadBrandAssets } from "../brand";
+import { setCanvasFactory, setFontRegistrar } from "../canvas";
+import { drawFrame, sceneClipAudio, toSceneSlides } from "../draw";
+import type { Project, ProjectAsset } from "../project";
+import { frameCounts, type OutputFormat, type RenderJob } from "../render";
+import { buildScene, FPS, playedSlides } from "../scene";
+import type { UploadedImage } from "../types";
+
+// Headless counterpart of `renderVideoFile`: frames come from the same
+// `drawFrame` and audio from the same offline mix, but are encoded by a local
+// ffmpeg instead of WebCodecs.
+
+const FFMPEG = process.env.FFMPEG_PATH || "ffmpeg";
+const AUDIO_SAMPLE_RATE = 48000;
+const AUDIO_CHANNELS = 2;
+
+const CODEC_ARGS: Record<OutputFormat, string[]> = {
+  mp4: ["-c:v", "libx264", "-preset", "medium", "-crf", "20", "-pix_fmt", "yuv420p", "-c:a", "aac", "-b:a", "128k", "-movflags", "+faststart"],
+  webm: ["-c:v", "libvpx-vp9", "-crf", "32", "-b:v", "0", "-row-mt", "1", "-pix_fmt", "yuv420p", "-c:a", "libopus", "-b:a", "128k"]
+};
+
+let platformReady: Promise<void> | null = null;
+
+// The Web Audio globals the shared mixing code uses. Node has none until
+// `installPlatform` fills them in.
+type WebAudioGlobals = {
+  OfflineAudioContext?: typeof OfflineAudioContext;
+  AudioBuffer?: typeof AudioBuffer;
+};
+
+// Node has neither a DOM canvas nor Web Audio, so the shared drawing and
+// mixing code runs on @napi-rs/canvas and node-web-audio-api.
+function installPlatform() {
+  platformReady ??= (async () => {
+    setCanvasFactory((width, height) => createCanvas(width, height) as unknown as HTMLCanvasElement);
+    setFontRegistrar((family, data) => {
+      if (!GlobalFonts.register(Buffer.from(data), family)) throw new Error(`Could not load font ${family}`);
+    });
+    const audio = await import("node-web-audio-api");
+    const globals: WebAudioGlobals = globalThis;
+    globals.OfflineAudioContext ??= audio.OfflineAudioContext;
+    globals.AudioBuffer ??= audio.AudioBuffer;
+  })();
+  return platformReady;
+}
+
+function toFile(asset: ProjectAsset) {
+  return new File([asset.blob], asset.name, { type: asset.type });
+}
+
+async function decodeImage(blob: Blob) {
+  return (await loadImage(Buffer.from(await blob.arrayBuffer()))) as unknown as HTMLImageElement;
+}
+
+// Mirrors what the editor does when it opens a project: broken images are
+// left out rather than failing the whole render.
+export async function projectRenderJob(project: Project): Promise<RenderJob> {
+  await installPlatform();
+  const images: UploadedImage[] = await Promise.all(
+    project.images.map(async (asset) => ({
+      id: asset.id,
+      file: toFile(asset),
+      url: "",
+      edits: project.imageEdits[asset.id],
+      element: await decodeImage(asset.blob).catch(() => undefined)
+    }))
+  );
+  const brand = await loadBrandAssets(project.brandKit, decodeImage);
+
+  const music: MusicSource | null = project.bgMusicEnabled
+    ? { settings: project.music, track: project.musicTrack?.blob ?? null }
+    : null;
+  let trackGrid: BeatGrid | null = null;
+  if (music?.track && music.settings.snapToBeat) {
+    const buffer = await decodeAudioFile(new OfflineAudioContext(1, 1, 44100), music.track).catch(() => null);
+    trackGrid = buffer ? detectBeats(buffer) : null;
+  }
+
+  const slides = playedSlides(project.slides, music, trackGrid);
+  return {
+    scene: buildScene(project, toSceneSlides(slides, images), brand),
+    fps: FPS,
+    music,
+    voice: project.voice ? toFile(project.voice) : null,
+    mix: project.mix,
+    format: project.outputFormat
+  };
+}
+
+async function writeAudio(job: RenderJob, seconds: number, file: string) {
+  const buffer = await renderAudioOffline({
+    seconds,
+    sampleRate: AUDIO_SAMPLE_RATE,
+    numberOfChannels: AUDIO_CHANNELS,
+    music: job.music,
+    voice: job.voice,
+    clips: sceneClipAudio(job.scene, job.fps),
+    mix: job.mix
+  });
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  const interleaved = new Float32Array(buffer.length * channels.length);
+  for (let i = 0; i < buffer.length; i++) {
+    for (let c = 0; c < channels.length; c++) interleaved[i * channels.length + c] = channels[c][i];
+  }
+  await writeFile(file, new Uint8Array(interleaved.buffer));
+}
+
+// Renders `job` to `output`, using `workDir` for intermediate files.
+// `onProgress` receives the fraction of frames drawn.
+export async function renderWithFfmpeg(
+  job: RenderJob,
+  output: string,
+  workDir: string,
+  onProgress?: (fraction: number) => void
+) {
+  await installPlatform();
+  const { width, height } = job.scene;
+  const { totalFrames, tailFrames } = frameCounts(job);
+  const frames = totalFrames + tailFrames;
+  const audioFile = job.music || job.voice ? path.join(workDir, "audio.f32") : null;
+
+  try {
+    if (audioFile) await writeAudio(job, frames / job.fps, audioFile);
+
+    const args = [
+      "-y",
+      "-hide_banner",
+      "-loglevel", "error",
+      "-f", "rawvideo",
+      "-pix_fmt", "rgba",
+      "-s", `${width}x${height}`,
+      "-r", String(job.fps),
+      "-i", "pipe:0",
+      ...(audioFile ? ["-f", "f32le", "-ar", String(AUDIO_SAMPLE_RATE), "-ac", String(AUDIO_CHANNELS), "-i", audioFile] : []),
+      ...CODEC_ARGS[job.format],
+      output
+    ];
+    const ffmpeg = spawn(FFMPEG, args, { stdio: ["pipe", "ignore", "pipe"] });
+    let stderr = "";
+    ffmpeg.stderr.on("data", (chunk) => (stderr += chunk));
+    // Broken pipes surface through the exit code below.
+    ffmpeg.stdin.on("error", () => undefined);
+    const exited = new Promise<number | null>((resolve, reject) => {
+      ffmpeg.on("error", (err: NodeJS.ErrnoException) =>
+        reject(err.code === "ENOENT" ? new Error(`ffmpeg not found at "${FFMPEG}" (set FFMPEG_PATH)`) : err)
+      );
+      ffmpeg.on("close", resolve);
+    });
+    let running = true;
+    exited.then(() => (running = false), () => (running = false));
+
+    const canvas = createCanvas(width, height);
+    const ctx = canvas.getContext("2d") as unknown as CanvasRenderingContext2D;
+    for (let frame = 0; frame < frames && running; frame++) {
+      drawFrame(ctx, job.scene, frame, job.fps);
+      const { data } = ctx.getImageData(0, 0, width, height);
+      if (!ffmpeg.stdin.write(Buffer.from(data.buffer, data.byteOffset, data.byteLength))) {
+        await Promise.race([once(ffmpeg.stdin, "drain"), exited.catch(() => undefined)]);
+      }
+      onProgress?.((frame + 1) / frames);
+    }
+    ffmpeg.stdin.end();
+
+    const code = await exited;
+    if (code !== 0) {
+      const detail = stderr.trim().split("\n").pop();
+      throw new Error(`ffmpeg exited with code ${code}${detail ? `: ${detail}` : ""}`);
+    }
+  } finally {
+    if (audioFile) await rm(audioFile, { force: true });
+  }
+}
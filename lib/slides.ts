@@ -0,0 +1,135 @@
+import type { Slide, SlideKind } from "./types";
+
+export type TimelineEntry = {
+  index: number;
+  startFrame: number;
+  frames: number;
+};
+
+export type Timeline = {
+  entries: TimelineEntry[];
+  totalFrames: number;
+};
+
+const KIND_ORDER: Record<SlideKind, number> = { intro: 0, benefit: 1, outro: 2 };
+
+export function parseLines(input: string): string[] {
+  return input
+    .split(/\r?\n/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+export function createSlide(kind: SlideKind, text: string, duration: number, imageIds: string[] = []): Slide {
+  return { id: crypto.randomUUID(), kind, text, imageIds, duration };
+}
+
+export function defaultSlides(duration: number): Slide[] {
+  const benefits = ["One-tap setup", "Long-lasting battery", "Seamless integration", "Budget-friendly"];
+  return [
+    { id: "intro", kind: "intro", text: "Stop scrolling — you need this", imageIds: [], duration: 2 },
+    ...benefits.map((text, i): Slide => ({ id: `benefit-${i + 1}`, kind: "benefit", text, imageIds: [], duration })),
+    { id: "outro", kind: "outro", text: "Don't miss out", imageIds: [], duration: 3 }
+  ];
+}
+
+// Keeps the intro first and the outro last; benefit order is preserved.
+export function orderSlides(slides: Slide[]): Slide[] {
+  return slides
+    .map((slide, i) => ({ slide, i }))
+    .sort((a, b) => KIND_ORDER[a.slide.kind] - KIND_ORDER[b.slide.kind] || a.i - b.i)
+    .map(({ slide }) => slide);
+}
+
+export function moveSlide(slides: Slide[], from: number, to: number): Slide[] {
+  if (from === to || from < 0 || from >= slides.length) return slides;
+  const next = slides.slice();
+  const [moved] = next.splice(from, 1);
+  next.splice(Math.max(0, Math.min(to, next.length)), 0, moved);
+  return orderSlides(next);
+}
+
+export function duplicateSlide(slides: Slide[], id: string): Slide[] {
+  const index = slides.findIndex((s) => s.id === id);
+  if (index < 0) return slides;
+  const source = slides[index];
+  // Only benefit slides can repeat; intro and outro stay unique.
+  const copy: Slide = { ...source, id: crypto.randomUUID(), kind: "benefit", imageIds: source.imageIds.slice() };
+  const next = slides.slice();
+  next.splice(index + 1, 0, copy);
+  return orderSlides(next);
+}
+
+export function removeSlide(slides: Slide[], id: string): Slide[] {
+  if (slides.length <= 1) return slides;
+  return slides.filter((s) => s.id !== id);
+}
+
+// Gives each new image to the next slide that has none, benefits first.
+// Swaps the benefit slides for new lines, keeping the hook and CTA slides.
+export function replaceBenefits(slides: Slide[], lines: string[], duration: number): Slide[] {
+  return [
+    ...slides.filter((s) => s.kind === "intro"),
+    ...lines.map((text) => createSlide("benefit", text, duration)),
+    ...slides.filter((s) => s.kind === "outro")
+  ];
+}
+
+export function assignImages(slides: Slide[], imageIds: string[]): Slide[] {
+  const queue = imageIds.slice();
+  const pick = (slide: Slide) =>
+    slide.imageIds.length === 0 && queue.length > 0 ? { ...slide, imageIds: [queue.shift() as string] } : slide;
+  const withBenefits = slides.map((s) => (s.kind === "benefit" ? pick(s) : s));
+  return withBenefits.map((s) => (s.kind === "benefit" ? s : pick(s)));
+}
+
+export function unassignImage(slides: Slide[], imageId: string): Slide[] {
+  return slides.map((s) =>
+    s.imageIds.includes(imageId) ? { ...s, imageIds: s.imageIds.filter((id) => id !== imageId) } : s
+  );
+}
+
+// Slide boundaries are rounded against absolute time so per-slide rounding
+// never accumulates into drift over a long video.
+export function buildTimeline(durations: number[], fps: number): Timeline {
+  const entries: TimelineEntry[] = [];
+  let seconds = 0;
+  let startFrame = 0;
+  durations.forEach((duration, index) => {
+    seconds += Math.max(0, duration);
+    const endFrame = Math.max(startFrame + 1, Math.round(seconds * fps));
+    entries.push({ index, startFrame, frames: endFrame - startFrame });
+    startFrame = endFrame;
+  });
+  return { entries, totalFrames: startFrame };
+}
+
+export function locateFrame(timeline: Timeline, frame: number): { index: number; progress: number } {
+  const { entries } = timeline;
+  if (entries.length === 0) return { index: -1, progress: 0 };
+  for (const entry of entries) {
+    if (frame < entry.startFrame + entry.frames) {
+      return { index: entry.index, progress: Math.max(0, frame - entry.startFrame) / entry.frames };
+    }
+  }
+  return { index: entries[entries.length - 1].index, progress: 1 };
+}
+
+// Moves every slide boundary to the nearest beat, keeping each slide at
+// least one beat long. Slides past the last beat keep their duration.
+export function snapSlidesToBeats(slides: Slide[], beats: number[]): Slide[] {
+  if (beats.length < 2) return slides;
+  let cut = 0;
+  return slides.map((slide) => {
+    const target = cut + slide.duration;
+    let best = -1;
+    for (const beat of beats) {
+      if (beat <= cut + 1e-6) continue;
+      if (best < 0 || Math.abs(beat - target) < Math.abs(best - target)) best = beat;
+      if (beat > target) break;
+    }
+    const duration = best < 0 ? slide.duration : best - cut;
+    cut += duration;
+    return duration === slide.duration ? slide : { ...slide, duration };
+  });
+}
@@ -0,0 +1,229 @@
+import { encodeApng } from "./apng";
+import { createCanvas, drawImageContain, drawImageCover, font } from "./canvas";
+import { showClipFrame } from "./clips";
+import { drawFrame, drawOverlay, prepareFrame, sceneTimeline, type Scene, type SlideImage } from "./draw";
+import { encodeGif } from "./gif";
+import { sceneLayout } from "./layout";
+import { drawText } from "./text";
+import { createZip } from "./zip";
+
+// Image exports next to the video: a cover, a short looping animation and a
+// contact sheet of every slide. All of them draw through `drawFrame`, so they
+// match the rendered video.
+
+export type StillFormat = "png" | "jpeg";
+
+export type AnimationFormat = "gif" | "apng";
+
+// An excerpt of the video: `start` and `seconds` on the video timeline,
+// played at `fps` and scaled to `width` pixels wide.
+export type AnimationOptions = {
+  start: number;
+  seconds: number;
+  fps: number;
+  width: number;
+  format: AnimationFormat;
+};
+
+export const DEFAULT_ANIMATION: AnimationOptions = { start: 0, seconds: 3, fps: 12, width: 360, format: "gif" };
+
+export const MAX_ANIMATION_SECONDS = 10;
+
+const JPEG_QUALITY = 0.92;
+const SHEET_THUMB_WIDTH = 360;
+const SHEET_GAP = 16;
+const SHEET_LABEL_HEIGHT = 36;
+
+type StillCanvas = ReturnType<typeof createCanvas>;
+
+function canvasContext(canvas: StillCanvas) {
+  const ctx = canvas.getContext("2d") as unknown as CanvasRenderingContext2D | null;
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  return ctx;
+}
+
+function canvasBlob(canvas: StillCanvas, format: StillFormat): Promise<Blob> {
+  const type = `image/${format}`;
+  const quality = format === "jpeg" ? JPEG_QUALITY : undefined;
+  if ("convertToBlob" in canvas) return canvas.convertToBlob({ type, quality });
+  return new Promise((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Could not encode the image"))), type, quality)
+  );
+}
+
+function nextTask() {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+// JPEG has no alpha, so stills are drawn over black like the video.
+function fillBackground(ctx: CanvasRenderingContext2D, width: number, height: number) {
+  ctx.fillStyle = "#000";
+  ctx.fillRect(0, 0, width, height);
+}
+
+// Frame `frame` of the video at full size.
+export async function renderFrameImage(scene: Scene, fps: number, frame: number, format: StillFormat): Promise<Blob> {
+  const canvas = createCanvas(scene.width, scene.height);
+  const ctx = canvasContext(canvas);
+  await prepareFrame(scene, frame, fps);
+  fillBackground(ctx, scene.width, scene.height);
+  drawFrame(ctx, scene, frame, fps);
+  return canvasBlob(canvas, format);
+}
+
+// The intro's image if it has one, otherwise the first image in the video.
+export function coverImage(scene: Scene): SlideImage | null {
+  const intro = scene.slides.find((s) => s.kind === "intro" && s.images.length > 0);
+  return (intro ?? scene.slides.find((s) => s.images.length > 0))?.images[0] ?? null;
+}
+
+// The cover layout: the product image full-bleed (or floated, for cutouts)
+// under the product title and subtitle, with the brand overlay on top.
+export function drawCover(ctx: CanvasRenderingContext2D, scene: Scene, image: SlideImage | null) {
+  const { width, height, productTitle, subtitle } = scene;
+  const { palette, fonts } = scene.brand;
+  const { safe, unit, landscape } = sceneLayout(scene);
+
+  const grd = ctx.createLinearGradient(0, 0, 0, height);
+  grd.addColorStop(0, palette.gradient[0]);
+  grd.addColorStop(1, palette.gradient[1]);
+  ctx.fillStyle = grd;
+  ctx.fillRect(0, 0, width, height);
+
+  if (image) {
+    ctx.save();
+    ctx.globalAlpha = image.opacity;
+    if (image.cutout) {
+      const box = landscape
+        ? { x: safe.x + safe.width * 0.5, y: safe.y, width: safe.width * 0.5, height: safe.height }
+        : { x: safe.x, y: safe.y + unit * 4, width: safe.width, height: safe.height * 0.55 };
+      drawImageContain(ctx, image.image, box.x, box.y, box.width, box.height);
+    } else {
+      drawImageCover(ctx, image.image, 0, 0, width, height, { zoom: 1, ...image.focus });
+    }
+    ctx.restore();
+  }
+
+  const fade = landscape ? ctx.createLinearGradient(width * 0.6, 0, 0, 0) : ctx.createLinearGradient(0, height * 0.4, 0, height);
+  fade.addColorStop(0, "rgba(0,0,0,0)");
+  fade.addColorStop(1, "rgba(0,0,0,0.85)");
+  ctx.fillStyle = fade;
+  ctx.fillRect(0, 0, width, height);
+
+  const x = safe.x + Math.round(unit * 4);
+  const textW = landscape ? safe.width * 0.5 - unit * 4 : safe.width - unit * 8;
+  const heading = { family: fonts.heading, weight: 800, color: palette.text, accent: palette.accent };
+  const y = safe.y + Math.round(safe.height * (landscape ? 0.3 : 0.6));
+  ctx.save();
+  ctx.shadowColor = "rgba(0,0,0,0.5)";
+  ctx.shadowBlur = 12;
+  const title = drawText(ctx, productTitle, heading, {
+    x,
+    y,
+    width: textW,
+    size: Math.round(unit * 11),
+    minSize: Math.round(unit * 6),
+    maxLines: 3
+  });
+  drawText(ctx, subtitle, { ...heading, family: fonts.body, weight: 500 }, {
+    x,
+    y: y + title.height + unit * 2,
+    width: textW,
+    size: Math.round(unit * 5),
+    maxLines: 2
+  });
+  ctx.restore();
+  drawOverlay(ctx, scene);
+}
+
+export async function renderCoverImage(scene: Scene, format: StillFormat): Promise<Blob> {
+  const image = coverImage(scene);
+  if (image?.clip) await showClipFrame(image.clip, 0);
+  const canvas = createCanvas(scene.width, scene.height);
+  drawCover(canvasContext(canvas), scene, image);
+  return canvasBlob(canvas, format);
+}
+
+// Renders the excerpt frame by frame and encodes it. `onProgress` gets the
+// fraction of frames drawn; encoding follows the last one.
+export async function renderAnimation(
+  scene: Scene,
+  fps: number,
+  options: AnimationOptions,
+  onProgress?: (fraction: number) => void,
+  signal?: AbortSignal
+): Promise<Blob> {
+  const { totalFrames } = sceneTimeline(scene, fps);
+  const width = Math.max(16, Math.round(options.width));
+  const height = Math.max(16, Math.round((width * scene.height) / scene.width));
+  const count = Math.max(1, Math.round(Math.min(options.seconds, MAX_ANIMATION_SECONDS) * options.fps));
+  const scale = width / scene.width;
+  const canvas = createCanvas(width, height);
+  const ctx = canvasContext(canvas);
+
+  const frames: Uint8ClampedArray[] = [];
+  for (let i = 0; i < count; i++) {
+    signal?.throwIfAborted();
+    const frame = Math.min(Math.max(0, totalFrames - 1), Math.round((options.start + i / options.fps) * fps));
+    await prepareFrame(scene, frame, fps);
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    fillBackground(ctx, width, height);
+    ctx.setTransform(scale, 0, 0, scale, 0, 0);
+    drawFrame(ctx, scene, frame, fps);
+    frames.push(ctx.getImageData(0, 0, width, height).data);
+    onProgress?.((i + 1) / count);
+    await nextTask();
+  }
+  signal?.throwIfAborted();
+  return options.format === "gif"
+    ? encodeGif(frames, width, height, options.fps)
+    : encodeApng(frames, width, height, options.fps);
+}
+
+function pad(n: number) {
+  return String(n).padStart(2, "0");
+}
+
+// A ZIP with every slide at full size plus one sheet showing them all in a
+// grid, numbered and labelled, for client review. Each slide is shown
+// halfway through, once its entrance animations have played.
+export async function renderContactSheet(scene: Scene, fps: number): Promise<Blob> {
+  const { entries } = sceneTimeline(scene, fps);
+  const full = createCanvas(scene.width, scene.height);
+  const fullCtx = canvasContext(full);
+
+  const columns = Math.min(entries.length, Math.max(1, Math.ceil(Math.sqrt(entries.length))));
+  const rows = Math.ceil(entries.length / columns);
+  const thumbW = SHEET_THUMB_WIDTH;
+  const thumbH = Math.round((thumbW * scene.height) / scene.width);
+  const cellH = thumbH + SHEET_LABEL_HEIGHT;
+  const sheet = createCanvas(
+    SHEET_GAP + columns * (thumbW + SHEET_GAP),
+    SHEET_GAP + Math.max(1, rows) * (cellH + SHEET_GAP)
+  );
+  const sheetCtx = canvasContext(sheet);
+  sheetCtx.fillStyle = "#f3f4f6";
+  sheetCtx.fillRect(0, 0, sheet.width, sheet.height);
+
+  const files: { name: string; data: Blob }[] = [];
+  for (const [i, entry] of entries.entries()) {
+    const slide = scene.slides[entry.index];
+    const frame = entry.startFrame + Math.floor(entry.frames / 2);
+    await prepareFrame(scene, frame, fps);
+    fillBackground(fullCtx, scene.width, scene.height);
+    drawFrame(fullCtx, scene, frame, fps);
+    files.push({ name: `slides/slide-${pad(i + 1)}.png`, data: await canvasBlob(full, "png") });
+
+    const x = SHEET_GAP + (i % columns) * (thumbW + SHEET_GAP);
+    const y = SHEET_GAP + Math.floor(i / columns) * (cellH + SHEET_GAP);
+    sheetCtx.drawImage(full, x, y, thumbW, thumbH);
+    sheetCtx.fillStyle = "#111827";
+    sheetCtx.font = font(600, 15);
+    sheetCtx.textBaseline = "middle";
+    const seconds = (entry.startFrame / fps).toFixed(1);
+    const label = `${i + 1} · ${slide.kind} · ${seconds}s${slide.text ? ` · ${slide.text}` : ""}`;
+    sheetCtx.fillText(label, x, y + thumbH + SHEET_LABEL_HEIGHT / 2, thumbW);
+  }
+  files.unshift({ name: "contact-sheet.png", data: await canvasBlob(sheet, "png") });
+  return createZip(files);
+}
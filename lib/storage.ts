@@ -0,0 +1,122 @@
+import { normalizeBrandKit, type BrandKit } from "./brand";
+import type { ExportRecord } from "./links";
+import { migrateProject, type Project } from "./project";
+
+const DB_NAME = "faceless-video-maker";
+const DB_VERSION = 3;
+const AUTOSAVE_STORE = "autosave";
+const AUTOSAVE_KEY = "current";
+const BRAND_KIT_STORE = "brandKits";
+const EXPORT_STORE = "exports";
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(AUTOSAVE_STORE)) {
+        db.createObjectStore(AUTOSAVE_STORE);
+      }
+      if (!db.objectStoreNames.contains(BRAND_KIT_STORE)) {
+        db.createObjectStore(BRAND_KIT_STORE, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(EXPORT_STORE)) {
+        db.createObjectStore(EXPORT_STORE, { keyPath: "id" });
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function requestToPromise<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export async function saveAutosave(project: Project): Promise<void> {
+  const db = await openDb();
+  try {
+    const tx = db.transaction(AUTOSAVE_STORE, "readwrite");
+    await requestToPromise(tx.objectStore(AUTOSAVE_STORE).put(project, AUTOSAVE_KEY));
+  } finally {
+    db.close();
+  }
+}
+
+export async function loadAutosave(): Promise<Project | null> {
+  const db = await openDb();
+  try {
+    const tx = db.transaction(AUTOSAVE_STORE, "readonly");
+    const stored = await requestToPromise(tx.objectStore(AUTOSAVE_STORE).get(AUTOSAVE_KEY));
+    return stored ? migrateProject(stored) : null;
+  } finally {
+    db.close();
+  }
+}
+
+// Saved brand kits, keyed by kit id. Font and image blobs are stored as-is.
+export async function listBrandKits(): Promise<BrandKit[]> {
+  const db = await openDb();
+  try {
+    const tx = db.transaction(BRAND_KIT_STORE, "readonly");
+    const kits = await requestToPromise(tx.objectStore(BRAND_KIT_STORE).getAll());
+    return kits.map(normalizeBrandKit).sort((a, b) => a.name.localeCompare(b.name));
+  } finally {
+    db.close();
+  }
+}
+
+export async function saveBrandKit(kit: BrandKit): Promise<void> {
+  const db = await openDb();
+  try {
+    const tx = db.transaction(BRAND_KIT_STORE, "readwrite");
+    await requestToPromise(tx.objectStore(BRAND_KIT_STORE).put(kit));
+  } finally {
+    db.close();
+  }
+}
+
+export async function deleteBrandKit(id: string): Promise<void> {
+  const db = await openDb();
+  try {
+    const tx = db.transaction(BRAND_KIT_STORE, "readwrite");
+    await requestToPromise(tx.objectStore(BRAND_KIT_STORE).delete(id));
+  } finally {
+    db.close();
+  }
+}
+
+// Every rendered file and the link variant it carries, newest first.
+export async function listExportRecords(): Promise<ExportRecord[]> {
+  const db = await openDb();
+  try {
+    const tx = db.transaction(EXPORT_STORE, "readonly");
+    const records: ExportRecord[] = await requestToPromise(tx.objectStore(EXPORT_STORE).getAll());
+    return records.sort((a, b) => b.at.localeCompare(a.at));
+  } finally {
+    db.close();
+  }
+}
+
+export async function addExportRecord(record: ExportRecord): Promise<void> {
+  const db = await openDb();
+  try {
+    const tx = db.transaction(EXPORT_STORE, "readwrite");
+    await requestToPromise(tx.objectStore(EXPORT_STORE).put(record));
+  } finally {
+    db.close();
+  }
+}
+
+export async function clearExportRecords(): Promise<void> {
+  const db = await openDb();
+  try {
+    const tx = db.transaction(EXPORT_STORE, "readwrite");
+    await requestToPromise(tx.objectStore(EXPORT_STORE).clear());
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,76 @@
+import { drawEntrance } from "../animation";
+import { sceneLayout } from "../layout";
+import { drawCta } from "../links";
+import { drawText } from "../text";
+import type { SlideTemplate } from "./types";
+
+export const boldTemplate: SlideTemplate = {
+  id: "bold",
+  name: "Bold headline",
+  description: "Solid brand color with one oversized benefit per slide",
+  fields: ["productTitle", "text", "cta"],
+  captionY: 0.9,
+  draw(ctx, scene, slide) {
+    const { width, height, productTitle, cta } = scene;
+    const { palette, fonts } = scene.brand;
+    const { safe, unit, landscape } = sceneLayout(scene);
+    const cx = safe.x + safe.width / 2;
+    const heading = { family: fonts.heading, weight: 900, color: palette.text, accent: palette.accent };
+    const body = { ...heading, family: fonts.body, weight: 700 };
+
+    ctx.fillStyle = palette.primary;
+    ctx.fillRect(0, 0, width, height);
+    const shade = ctx.createLinearGradient(0, height, width, 0);
+    shade.addColorStop(0, "rgba(0,0,0,0.35)");
+    shade.addColorStop(1, "rgba(0,0,0,0)");
+    ctx.fillStyle = shade;
+    ctx.fillRect(0, 0, width, height);
+
+    const titleY = safe.y + Math.round(unit * 2);
+    const titleW = safe.width - Math.round(unit * 6);
+    const title = productTitle.toUpperCase();
+    drawEntrance(ctx, scene, slide, "title", title, cx, titleY, (visible) => {
+      ctx.globalAlpha *= 0.8;
+      drawText(ctx, title, body, {
+        x: cx - titleW / 2,
+        y: titleY,
+        width: titleW,
+        size: Math.round(unit * 4.6),
+        maxLines: 1,
+        align: "center",
+        shown: visible.length
+      });
+    });
+
+    const pillY = safe.y + Math.round(safe.height * 0.74);
+    const pillH = Math.round(unit * 9.8);
+    const textY = safe.y + Math.round(safe.height * 0.24);
+    const textW = landscape ? safe.width * 0.7 : safe.width - unit * 6;
+    drawEntrance(ctx, scene, slide, "text", slide.text, cx, textY, (visible) => {
+      drawText(ctx, slide.text, heading, {
+        x: cx - textW / 2,
+        y: textY,
+        width: textW,
+        size: Math.round(unit * (landscape ? 13 : 11)),
+        maxLines: 4,
+        maxHeight: pillY - textY - Math.round(unit * 4),
+        lineHeight: 1.1,
+        align: "center",
+        shown: visible.length
+      });
+    });
+
+    drawEntrance(ctx, scene, slide, "cta", cta, cx, pillY + pillH / 2, (visible) => {
+      drawCta(ctx, scene, slide, { ...body, color: palette.accent }, {
+        x: cx,
+        y: pillY,
+        height: pillH,
+        size: Math.round(unit * 5),
+        maxWidth: safe.width - unit * 6,
+        fill: palette.text,
+        align: "center",
+        shown: visible.length
+      });
+    });
+  }
+};
@@ -0,0 +1,110 @@
+import { drawEntrance, drawSlideImage } from "../animation";
+import { roundRect } from "../canvas";
+import { sceneLayout } from "../layout";
+import { drawCta } from "../links";
+import { drawText } from "../text";
+import type { SlideTemplate } from "./types";
+
+export const classicTemplate: SlideTemplate = {
+  id: "classic",
+  name: "Classic",
+  description: "Gradient background, faded image and a benefit card with CTA pill",
+  fields: ["productTitle", "subtitle", "text", "cta", "images"],
+  captionY: 0.78,
+  draw(ctx, scene, slide) {
+    const { width, height, productTitle, subtitle, cta } = scene;
+    const { palette, fonts } = scene.brand;
+    const { safe, unit, landscape } = sceneLayout(scene);
+    const heading = { family: fonts.heading, weight: 700, color: palette.text, accent: palette.accent };
+    const body = { ...heading, family: fonts.body, weight: 500 };
+
+    // Background gradient
+    const grd = ctx.createLinearGradient(0, 0, width, height);
+    grd.addColorStop(0, palette.gradient[0]);
+    grd.addColorStop(1, palette.gradient[1]);
+    ctx.fillStyle = grd;
+    ctx.fillRect(0, 0, width, height);
+
+    // Photos fade into the background; a cutout is the hero instead.
+    const hero = Boolean(slide.image?.cutout);
+    if (!hero) {
+      ctx.globalAlpha = 0.25;
+      drawSlideImage(ctx, slide, 0, 0, width, height);
+      ctx.globalAlpha = 1;
+    }
+
+    // Title and subtitle
+    const titleX = safe.x + Math.round(unit * 3);
+    const titleY = safe.y + Math.round(unit * 2);
+    const titleW = safe.width - Math.round(unit * 6);
+    drawEntrance(ctx, scene, slide, "title", productTitle, titleX, titleY, (visible) => {
+      const title = drawText(ctx, productTitle, heading, {
+        x: titleX,
+        y: titleY,
+        width: titleW,
+        size: Math.round(unit * 9),
+        maxLines: 2,
+        lineHeight: 1.1,
+        shown: visible.length
+      });
+      ctx.globalAlpha *= 0.9;
+      drawText(ctx, subtitle, body, {
+        x: titleX,
+        y: titleY + title.height,
+        width: titleW,
+        size: Math.round(unit * 5),
+        maxLines: 1
+      });
+    });
+
+    // Benefit text block: full width on tall and square frames, a left
+    // column on wide ones so the card doesn't become a thin strip. A hero
+    // pushes the card down on tall frames and sits beside it on wide ones.
+    const stacked = hero && !landscape;
+    const blockY = safe.y + Math.round(safe.height * (stacked ? 0.52 : 0.3));
+    const blockW = Math.round(landscape ? safe.width * 0.6 : safe.width - unit * 6);
+    const blockX = titleX;
+    if (hero) {
+      const heroX = landscape ? blockX + blockW + Math.round(unit * 4) : blockX;
+      const heroY = safe.y + Math.round(safe.height * (landscape ? 0.28 : 0.24));
+      const heroW = landscape ? safe.x + safe.width - heroX - Math.round(unit * 3) : blockW;
+      const heroH = Math.round(safe.height * (landscape ? 0.5 : 0.25));
+      drawSlideImage(ctx, slide, heroX, heroY, heroW, heroH);
+    }
+
+    // Card background
+    ctx.fillStyle = "rgba(255,255,255,0.08)";
+    const cardH = Math.round(safe.height * (stacked ? 0.24 : 0.42));
+    const pad = Math.round(unit * 1.5);
+    roundRect(ctx, blockX - pad, blockY - pad * 1.5, blockW + pad * 2, cardH, unit * 2.2);
+    ctx.fill();
+
+    // Benefit text, shrunk to stay clear of the CTA pill
+    const pillH = Math.round(unit * 9);
+    const pillY = blockY + cardH - pillH - Math.round(unit * 2);
+    drawEntrance(ctx, scene, slide, "text", slide.text, blockX, blockY, (visible) => {
+      drawText(ctx, slide.text, { ...heading, weight: 800 }, {
+        x: blockX,
+        y: blockY,
+        width: blockW,
+        size: Math.round(unit * 7),
+        maxHeight: pillY - blockY - Math.round(unit * 2),
+        lineHeight: 1.25,
+        shown: visible.length
+      });
+    });
+
+    // CTA pill
+    drawEntrance(ctx, scene, slide, "cta", cta, blockX + blockW / 2, pillY + pillH / 2, (visible) => {
+      drawCta(ctx, scene, slide, { ...body, weight: 700, color: palette.accent }, {
+        x: blockX,
+        y: pillY,
+        height: pillH,
+        size: Math.round(unit * 5),
+        maxWidth: blockW,
+        fill: palette.text,
+        shown: visible.length
+      });
+    });
+  }
+};
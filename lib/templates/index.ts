@@ -0,0 +1,26 @@
+import { boldTemplate } from "./bold";
+import { classicTemplate } from "./classic";
+import { listicleTemplate } from "./listicle";
+import { showcaseTemplate } from "./showcase";
+import { testimonialTemplate } from "./testimonial";
+import type { SlideTemplate } from "./types";
+
+export type { SlideTemplate, TemplateField } from "./types";
+
+export const DEFAULT_TEMPLATE_ID = classicTemplate.id;
+
+const registry = new Map<string, SlideTemplate>();
+
+export function registerTemplate(template: SlideTemplate) {
+  registry.set(template.id, template);
+}
+
+export function listTemplates(): SlideTemplate[] {
+  return Array.from(registry.values());
+}
+
+export function getTemplate(id: string | undefined): SlideTemplate {
+  return (id && registry.get(id)) || classicTemplate;
+}
+
+[classicTemplate, boldTemplate, showcaseTemplate, listicleTemplate, testimonialTemplate].forEach(registerTemplate);
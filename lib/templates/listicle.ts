@@ -0,0 +1,96 @@
+import { drawEntrance, drawSlideImage, entranceProgress } from "../animation";
+import { font, roundRect } from "../canvas";
+import { easeOutCubic } from "../easing";
+import { sceneLayout } from "../layout";
+import { drawCta } from "../links";
+import { drawText } from "../text";
+import type { SlideTemplate } from "./types";
+
+export const listicleTemplate: SlideTemplate = {
+  id: "listicle",
+  name: "Listicle countdown",
+  description: "Counts benefit slides down from the highest number to #1",
+  fields: ["productTitle", "text", "cta", "images"],
+  captionY: 0.86,
+  draw(ctx, scene, slide) {
+    const { width, height, productTitle, cta } = scene;
+    const { palette, fonts } = scene.brand;
+    const { safe, unit, landscape } = sceneLayout(scene);
+    const count = slide.count;
+    const body = { family: fonts.body, weight: 600, color: palette.text, accent: palette.accent };
+
+    ctx.fillStyle = palette.gradient[1];
+    ctx.fillRect(0, 0, width, height);
+    ctx.fillStyle = palette.primary;
+    ctx.fillRect(0, 0, Math.round(width * 0.03), height);
+
+    // On wide frames the image sits to the right of the text instead of
+    // below it.
+    const x = safe.x + Math.round(unit * 4);
+    const sideBox = Math.round(safe.height * 0.55);
+    const textW = landscape ? safe.width - sideBox - unit * 10 : safe.width - unit * 8;
+
+    const header = `${count} reasons to get ${productTitle}`;
+    const headerY = safe.y + Math.round(unit);
+    drawEntrance(ctx, scene, slide, "title", header, x, headerY, (visible) => {
+      ctx.globalAlpha *= 0.75;
+      drawText(ctx, header, body, {
+        x,
+        y: headerY,
+        width: safe.width - unit * 8,
+        size: Math.round(unit * 4.8),
+        maxLines: 1,
+        shown: visible.length
+      });
+    });
+
+    // Number slides in from the left; the intro announces the list instead
+    const numberSize = Math.round(unit * 24);
+    const numberY = safe.y + Math.round(unit * 7) + numberSize;
+    const label = slide.kind === "benefit" ? `#${count - slide.number + 1}` : slide.kind === "intro" ? `Top ${count}` : "";
+    const shift = (1 - easeOutCubic(entranceProgress(slide, "title"))) * width * 0.1;
+    ctx.textAlign = "left";
+    ctx.fillStyle = palette.accent;
+    ctx.font = font(900, numberSize, fonts.heading);
+    ctx.fillText(label, x - shift, numberY);
+
+    const textY = numberY + Math.round(unit * 3);
+    const text = { x, y: textY, width: textW, size: Math.round(unit * 7.5), maxLines: landscape ? 4 : 3 };
+    let bottom = textY;
+    drawEntrance(ctx, scene, slide, "text", slide.text, x, textY, (visible) => {
+      const style = { ...body, family: fonts.heading, weight: 800 };
+      bottom = textY + drawText(ctx, slide.text, style, { ...text, shown: visible.length }).height;
+    });
+
+    // Below the text the box shrinks to stay clear of the caption band.
+    const boxY = landscape ? safe.y + Math.round(safe.height * 0.2) : Math.max(bottom + unit * 2, safe.y + Math.round(safe.height * 0.45));
+    const box = landscape
+      ? sideBox
+      : Math.round(Math.min(safe.width * 0.8, safe.height * 0.3, safe.y + safe.height * 0.8 - boxY));
+    if (slide.image && box > unit * 10) {
+      const boxX = landscape ? safe.x + safe.width - box - Math.round(unit * 2) : x;
+      ctx.save();
+      // Cutouts keep their shadow outside the box; photos get rounded corners.
+      if (!slide.image.cutout) {
+        roundRect(ctx, boxX, boxY, box, box, unit * 2.2);
+        ctx.clip();
+      }
+      drawSlideImage(ctx, slide, boxX, boxY, box, box);
+      ctx.restore();
+    }
+
+    const pillH = Math.round(unit * 9);
+    const pillY = safe.y + safe.height - pillH - Math.round(unit);
+    drawEntrance(ctx, scene, slide, "cta", cta, x, pillY + pillH / 2, (visible) => {
+      drawCta(ctx, scene, slide, { ...body, weight: 700, color: palette.gradient[1] }, {
+        x,
+        y: pillY,
+        height: pillH,
+        size: Math.round(unit * 4.8),
+        maxWidth: safe.width - unit * 8,
+        fill: palette.text,
+        shown: visible.length
+      });
+    });
+  }
+};
@@ -0,0 +1,96 @@
+import { drawEntrance, drawSlideImage } from "../animation";
+import { sceneLayout } from "../layout";
+import { drawCta } from "../links";
+import { drawText } from "../text";
+import type { SlideTemplate } from "./types";
+
+export const showcaseTemplate: SlideTemplate = {
+  id: "showcase",
+  name: "Product showcase",
+  description: "Full-bleed product image with the benefit over a dark fade",
+  fields: ["productTitle", "text", "cta", "images"],
+  captionY: 0.22,
+  draw(ctx, scene, slide) {
+    const { width, height, productTitle, cta } = scene;
+    const { palette, fonts } = scene.brand;
+    const { safe, unit, landscape } = sceneLayout(scene);
+    const heading = { family: fonts.heading, weight: 700, color: palette.text, accent: palette.accent };
+
+    // Photos fill the frame; cutouts float over the gradient above the text.
+    const hero = Boolean(slide.image?.cutout);
+    if (slide.image && !hero) {
+      drawSlideImage(ctx, slide, 0, 0, width, height);
+    } else {
+      const grd = ctx.createLinearGradient(0, 0, 0, height);
+      grd.addColorStop(0, palette.gradient[0]);
+      grd.addColorStop(1, palette.gradient[1]);
+      ctx.fillStyle = grd;
+      ctx.fillRect(0, 0, width, height);
+    }
+
+    // Wide frames fade from the left and keep the text in that half; tall
+    // ones fade up from the bottom.
+    const fade = landscape
+      ? ctx.createLinearGradient(width * 0.65, 0, 0, 0)
+      : ctx.createLinearGradient(0, height * 0.45, 0, height);
+    fade.addColorStop(0, "rgba(0,0,0,0)");
+    fade.addColorStop(1, "rgba(0,0,0,0.85)");
+    ctx.fillStyle = fade;
+    ctx.fillRect(0, 0, width, height);
+
+    if (hero) {
+      const heroX = landscape ? safe.x + Math.round(safe.width * 0.55) : safe.x + Math.round(unit * 3);
+      const heroY = safe.y + Math.round(unit * 16);
+      drawSlideImage(
+        ctx,
+        slide,
+        heroX,
+        heroY,
+        safe.x + safe.width - heroX - Math.round(unit * 3),
+        safe.y + Math.round(safe.height * (landscape ? 0.95 : 0.55)) - heroY
+      );
+    }
+
+    const x = safe.x + Math.round(unit * 3);
+    const textW = landscape ? safe.width * 0.5 : safe.width - unit * 6;
+    ctx.shadowColor = "rgba(0,0,0,0.5)";
+    ctx.shadowBlur = 12;
+    const titleY = safe.y + Math.round(unit * 1.5);
+    drawEntrance(ctx, scene, slide, "title", productTitle, x, titleY, (visible) => {
+      drawText(ctx, productTitle, heading, {
+        x,
+        y: titleY,
+        width: safe.width - unit * 6,
+        size: Math.round(unit * 6),
+        maxLines: 2,
+        shown: visible.length
+      });
+    });
+
+    // The pill follows the text but never leaves the safe box, so the text
+    // shrinks to leave room for it.
+    const pillH = Math.round(unit * 9);
+    const pillMaxY = safe.y + safe.height - pillH - Math.round(unit * 2);
+    const y = safe.y + Math.round(safe.height * (landscape ? 0.4 : 0.57));
+    const layout = { x, y, width: textW, size: Math.round(unit * 8), maxLines: 4, maxHeight: pillMaxY - y - unit };
+    let bottom = y;
+    drawEntrance(ctx, scene, slide, "text", slide.text, x, y, (visible) => {
+      bottom = y + drawText(ctx, slide.text, { ...heading, weight: 800 }, { ...layout, shown: visible.length }).height;
+    });
+    ctx.shadowBlur = 0;
+    ctx.shadowColor = "transparent";
+
+    const pillY = Math.min(bottom + unit, pillMaxY);
+    drawEntrance(ctx, scene, slide, "cta", cta, x, pillY + pillH / 2, (visible) => {
+      drawCta(ctx, scene, slide, { ...heading, family: fonts.body }, {
+        x,
+        y: pillY,
+        height: pillH,
+        size: Math.round(unit * 4.8),
+        maxWidth: safe.width - unit * 6,
+        fill: palette.primary,
+        shown: visible.length
+      });
+    });
+  }
+};
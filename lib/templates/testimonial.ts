@@ -0,0 +1,93 @@
+import { drawEntrance } from "../animation";
+import { font } from "../canvas";
+import { sceneLayout } from "../layout";
+import { drawCta } from "../links";
+import { drawText } from "../text";
+import type { SlideTemplate } from "./types";
+
+export const testimonialTemplate: SlideTemplate = {
+  id: "testimonial",
+  name: "Testimonial quote",
+  description: "Each benefit as a customer quote, attributed with the subtitle",
+  fields: ["productTitle", "subtitle", "text", "cta"],
+  captionY: 0.08,
+  draw(ctx, scene, slide) {
+    const { width, height, productTitle, subtitle, cta } = scene;
+    const { palette, fonts } = scene.brand;
+    const { safe, unit, landscape } = sceneLayout(scene);
+    const cx = safe.x + safe.width / 2;
+    const heading = { family: fonts.heading, weight: 700, color: palette.text, accent: palette.accent };
+    const body = { ...heading, family: fonts.body, weight: 500 };
+
+    const grd = ctx.createRadialGradient(width / 2, height / 2, 0, width / 2, height / 2, Math.max(width, height) * 0.7);
+    grd.addColorStop(0, palette.gradient[0]);
+    grd.addColorStop(1, palette.gradient[1]);
+    ctx.fillStyle = grd;
+    ctx.fillRect(0, 0, width, height);
+
+    ctx.textAlign = "center";
+    ctx.fillStyle = palette.text;
+    ctx.globalAlpha = 0.25;
+    ctx.font = font(900, Math.round(unit * 36), fonts.heading);
+    ctx.fillText("“", cx, safe.y + Math.round(safe.height * 0.33));
+    ctx.globalAlpha = 1;
+
+    // The quote and its attribution shrink to stay above the product title.
+    const titleY = safe.y + Math.round(safe.height * 0.74);
+    const quoteY = safe.y + Math.round(safe.height * 0.36);
+    const quoteW = landscape ? safe.width * 0.7 : safe.width - unit * 6;
+    const attributionH = Math.round(unit * 8);
+    drawEntrance(ctx, scene, slide, "text", slide.text, cx, quoteY, (visible) => {
+      const quote = drawText(ctx, slide.text, { ...heading, weight: 600, italic: true }, {
+        x: cx - quoteW / 2,
+        y: quoteY,
+        width: quoteW,
+        size: Math.round(unit * (landscape ? 8 : 7)),
+        maxLines: 4,
+        maxHeight: titleY - quoteY - (slide.kind === "benefit" ? attributionH : unit * 2),
+        lineHeight: 1.3,
+        align: "center",
+        shown: visible.length
+      });
+      if (slide.kind === "benefit") {
+        ctx.globalAlpha *= 0.8;
+        drawText(ctx, `— ${subtitle}`, body, {
+          x: cx - quoteW / 2,
+          y: quoteY + quote.height + unit,
+          width: quoteW,
+          size: Math.round(unit * 4.4),
+          maxLines: 1,
+          align: "center"
+        });
+      }
+    });
+
+    const titleW = safe.width - unit * 6;
+    drawEntrance(ctx, scene, slide, "title", productTitle, cx, titleY, (visible) => {
+      drawText(ctx, productTitle, heading, {
+        x: cx - titleW / 2,
+        y: titleY,
+        width: titleW,
+        size: Math.round(unit * 5.5),
+        maxLines: 1,
+        align: "center",
+        shown: visible.length
+      });
+    });
+
+    const pillY = titleY + Math.round(unit * 8.5);
+    const pillH = Math.round(unit * 8);
+    drawEntrance(ctx, scene, slide, "cta", cta, cx, pillY + pillH / 2, (visible) => {
+      drawCta(ctx, scene, slide, { ...body, weight: 700, color: palette.accent }, {
+        x: cx,
+        y: pillY,
+        height: pillH,
+        size: Math.round(unit * 4.4),
+        maxWidth: titleW,
+        fill: palette.text,
+        align: "center",
+        shown: visible.length
+      });
+    });
+  }
+};
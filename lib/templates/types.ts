@@ -0,0 +1,14 @@
+import type { Scene, SlideView } from "../draw";
+
+export type TemplateField = "productTitle" | "subtitle" | "text" | "cta" | "images";
+
+export type SlideTemplate = {
+  id: string;
+  name: string;
+  description: string;
+  fields: TemplateField[];
+  // Vertical center of the burned-in caption band as a fraction of the safe
+  // box height, chosen to stay clear of the template's text and card.
+  captionY: number;
+  draw: (ctx: CanvasRenderingContext2D, scene: Scene, slide: SlideView) => void;
+};
@@ -0,0 +1,453 @@
+import { font, fontsLoaded, roundRect } from "./canvas";
+
+// Text layout for everything templates draw. Text shrinks from `size` towards
+// `minSize` until it fits its box, and is cut with an ellipsis if it still
+// doesn't. Lines break where `Intl.Segmenter` finds word boundaries, so CJK
+// and Thai wrap without spaces and emoji clusters are never split.
+//
+// Markup: **bold** and ==highlight== (drawn in the accent color). A marker
+// without a closing partner is drawn as typed.
+
+export type TextAlign = "start" | "center";
+
+export type TextStyle = {
+  family: string;
+  weight: number;
+  color: string;
+  accent: string;
+  italic?: boolean;
+};
+
+export type TextBox = {
+  // Top-left corner and width of the box.
+  x: number;
+  y: number;
+  width: number;
+  // Largest font size; the text shrinks down to `minSize` to fit.
+  size: number;
+  minSize?: number;
+  maxLines?: number;
+  maxHeight?: number;
+  // Line spacing as a multiple of the font size.
+  lineHeight?: number;
+  // "start" is the left edge, or the right edge for right-to-left text.
+  align?: TextAlign;
+  // Source characters (UTF-16 units, markup included) shown so far, for
+  // typewriter entrances. Line breaks don't move while text appears.
+  shown?: number;
+};
+
+type Mark = { bold: boolean; highlight: boolean };
+
+type Piece = Mark & {
+  text: string;
+  // Offset of `text` in the source string, markup included.
+  start: number;
+  space: boolean;
+  width: number;
+};
+
+export type TextLine = { pieces: Piece[]; width: number };
+
+export type TextLayout = {
+  size: number;
+  lineHeight: number;
+  lines: TextLine[];
+  // Widest line, and the height of all lines.
+  width: number;
+  height: number;
+  rtl: boolean;
+  truncated: boolean;
+};
+
+// A `drawText` or `drawPill` call as `recordDrawnText` saw it. `background`
+// is the pill's fill; plain text has none.
+export type DrawnText = {
+  text: string;
+  size: number;
+  color: string;
+  alpha: number;
+  background: string | null;
+  truncated: boolean;
+};
+
+const ELLIPSIS = "…";
+const SHRINK_STEP = 0.92;
+const DEFAULT_LINE_HEIGHT = 1.2;
+const CACHE_LIMIT = 500;
+
+// Scripts written without spaces between words, where any word boundary is a
+// break opportunity.
+const NO_SPACE_CHARS = "\\u0E00-\\u0EFF\\u1000-\\u109F\\u1780-\\u17FF\\u2E80-\\u9FFF\\uF900-\\uFAFF\\uFF00-\\uFFEF";
+const NO_SPACE = new RegExp(`[${NO_SPACE_CHARS}]`);
+const FALLBACK_WORDS = new RegExp(`\\s+|[${NO_SPACE_CHARS}]|[^\\s${NO_SPACE_CHARS}]+`, "g");
+// Never break after an opening bracket or quote, or before closing
+// punctuation.
+const OPENING = /[([{«“‘「『（【〔〈《]$/;
+const CLOSING = /^[)\]}»”’」』）】〕〉》、。，．！？：；!?,.:;%]/;
+const RTL_CHAR = /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF]/;
+const LTR_CHAR = /[A-Za-z\u00C0-\u024F\u0370-\u04FF\u0E00-\u0EFF\u3040-\u30FF\u4E00-\u9FFF\uAC00-\uD7AF]/;
+
+let wordSegmenter: Intl.Segmenter | null = null;
+let drawnSink: DrawnText[] | null = null;
+let graphemeSegmenter: Intl.Segmenter | null = null;
+const hasSegmenter = typeof Intl !== "undefined" && "Segmenter" in Intl;
+
+function words(text: string): string[] {
+  if (!hasSegmenter) return text.match(FALLBACK_WORDS) ?? [];
+  wordSegmenter ??= new Intl.Segmenter(undefined, { granularity: "word" });
+  return Array.from(wordSegmenter.segment(text), (s) => s.segment);
+}
+
+export function graphemes(text: string): string[] {
+  if (!hasSegmenter) return Array.from(text);
+  graphemeSegmenter ??= new Intl.Segmenter(undefined, { granularity: "grapheme" });
+  return Array.from(graphemeSegmenter.segment(text), (s) => s.segment);
+}
+
+// Splits `source` into runs of the same markup, keeping each run's offset in
+// the source.
+export function parseMarkup(source: string): (Mark & { text: string; start: number })[] {
+  const runs: (Mark & { text: string; start: number })[] = [];
+  const markers = Array.from(source.matchAll(/\*\*|==/g));
+  let bold = false;
+  let highlight = false;
+  let from = 0;
+  markers.forEach((marker, i) => {
+    const isBold = marker[0] === "**";
+    const open = isBold ? bold : highlight;
+    if (!open && !markers.slice(i + 1).some((m) => m[0] === marker[0])) return;
+    const at = marker.index ?? 0;
+    if (at > from) runs.push({ text: source.slice(from, at), start: from, bold, highlight });
+    if (isBold) bold = !bold;
+    else highlight = !highlight;
+    from = at + marker[0].length;
+  });
+  if (from < source.length) runs.push({ text: source.slice(from), start: from, bold, highlight });
+  return runs;
+}
+
+// Plain text with the markup removed.
+export function stripMarkup(source: string) {
+  return parseMarkup(source)
+    .map((run) => run.text)
+    .join("");
+}
+
+function isRtl(text: string) {
+  for (const ch of text) {
+    if (RTL_CHAR.test(ch)) return true;
+    if (LTR_CHAR.test(ch)) return false;
+  }
+  return false;
+}
+
+function canBreakBetween(prev: Piece, next: Piece) {
+  if (next.space) return false;
+  if (prev.space) return true;
+  if (OPENING.test(prev.text) || CLOSING.test(next.text)) return false;
+  return NO_SPACE.test(prev.text.slice(-1)) || NO_SPACE.test(next.text.charAt(0));
+}
+
+// Groups of pieces that must stay on one line, each ending with any spaces
+// that follow it.
+function clusters(source: string): Piece[][] {
+  const groups: Piece[][] = [];
+  let prev: Piece | null = null;
+  for (const run of parseMarkup(source)) {
+    let offset = 0;
+    for (const text of words(run.text)) {
+      const piece: Piece = {
+        text,
+        start: run.start + offset,
+        bold: run.bold,
+        highlight: run.highlight,
+        space: /^\s+$/.test(text),
+        width: 0
+      };
+      offset += text.length;
+      if (!prev || canBreakBetween(prev, piece)) groups.push([piece]);
+      else groups[groups.length - 1].push(piece);
+      prev = piece;
+    }
+  }
+  return groups;
+}
+
+function pieceFont(style: TextStyle, mark: Mark, size: number) {
+  const weight = mark.bold ? Math.min(900, style.weight + 300) : style.weight;
+  return `${style.italic ? "italic " : ""}${font(weight, size, style.family)}`;
+}
+
+function measure(ctx: CanvasRenderingContext2D, piece: Piece, style: TextStyle, size: number): Piece {
+  ctx.font = pieceFont(style, piece, size);
+  return { ...piece, width: ctx.measureText(piece.text).width };
+}
+
+const inkWidth = (pieces: Piece[]) => {
+  let end = pieces.length;
+  while (end > 0 && pieces[end - 1].space) end--;
+  return pieces.slice(0, end).reduce((sum, p) => sum + p.width, 0);
+};
+
+function finishLine(pieces: Piece[]): TextLine {
+  let end = pieces.length;
+  while (end > 0 && pieces[end - 1].space) end--;
+  let start = 0;
+  while (start < end && pieces[start].space) start++;
+  const kept = pieces.slice(start, end);
+  return { pieces: kept, width: inkWidth(kept) };
+}
+
+// Greedy line breaking. A cluster wider than the box on its own is broken
+// between graphemes.
+function breakLines(
+  ctx: CanvasRenderingContext2D,
+  groups: Piece[][],
+  style: TextStyle,
+  size: number,
+  maxWidth: number
+): TextLine[] {
+  const lines: TextLine[] = [];
+  let line: Piece[] = [];
+  let width = 0;
+  const queue = groups.map((group) => group.map((p) => measure(ctx, p, style, size)));
+  while (queue.length > 0) {
+    const group = queue.shift()!;
+    const ink = inkWidth(group);
+    if (line.length > 0 && width + ink > maxWidth) {
+      lines.push(finishLine(line));
+      line = [];
+      width = 0;
+    }
+    if (line.length === 0 && ink > maxWidth && (group.length > 1 || graphemes(group[0].text).length > 1)) {
+      const split = group.flatMap((piece) => {
+        let offset = 0;
+        return graphemes(piece.text).map((text) => {
+          const part = measure(ctx, { ...piece, text, start: piece.start + offset }, style, size);
+          offset += text.length;
+          return [part];
+        });
+      });
+      queue.unshift(...split);
+      continue;
+    }
+    line.push(...group);
+    width += group.reduce((sum, p) => sum + p.width, 0);
+  }
+  if (line.length > 0) lines.push(finishLine(line));
+  return lines;
+}
+
+// Cuts the last kept line back until it fits with an ellipsis after it.
+function truncate(
+  ctx: CanvasRenderingContext2D,
+  lines: TextLine[],
+  count: number,
+  style: TextStyle,
+  size: number,
+  maxWidth: number
+): TextLine[] {
+  const kept = lines.slice(0, count);
+  const last = kept[kept.length - 1];
+  if (!last) return kept;
+  const pieces = last.pieces.slice();
+  const mark = pieces[pieces.length - 1] ?? { bold: false, highlight: false };
+  const ellipsis = measure(ctx, { ...mark, text: ELLIPSIS, start: 0, space: false, width: 0 }, style, size);
+  for (;;) {
+    while (pieces.length > 0 && pieces[pieces.length - 1].space) pieces.pop();
+    if (pieces.length === 0 || inkWidth(pieces) + ellipsis.width <= maxWidth) break;
+    const piece = pieces.pop()!;
+    const parts = graphemes(piece.text);
+    if (parts.length > 1) pieces.push(measure(ctx, { ...piece, text: parts.slice(0, -1).join("") }, style, size));
+  }
+  const end = pieces[pieces.length - 1];
+  const marked = { ...ellipsis, start: end ? end.start + end.text.length : 0 };
+  kept[kept.length - 1] = finishLine([...pieces, marked]);
+  return kept;
+}
+
+const cache = new Map<string, TextLayout>();
+// The fonts the cached layouts were measured with.
+let cacheFonts = fontsLoaded();
+
+export function layoutText(ctx: CanvasRenderingContext2D, text: string, style: TextStyle, box: TextBox): TextLayout {
+  if (cacheFonts !== fontsLoaded()) {
+    cache.clear();
+    cacheFonts = fontsLoaded();
+  }
+  const key = JSON.stringify([text, style.family, style.weight, style.italic, box.width, box.size, box.minSize, box.maxLines, box.maxHeight, box.lineHeight]);
+  const cached = cache.get(key);
+  if (cached) return cached;
+
+  ctx.save();
+  const groups = clusters(text);
+  const spacing = box.lineHeight ?? DEFAULT_LINE_HEIGHT;
+  const minSize = Math.min(box.size, box.minSize ?? Math.round(box.size * 0.6));
+  let size = box.size;
+  let layout: TextLayout;
+  for (;;) {
+    const lineHeight = Math.round(size * spacing);
+    const byHeight = box.maxHeight ? Math.max(1, Math.floor(box.maxHeight / lineHeight)) : Infinity;
+    const allowed = Math.min(box.maxLines ?? Infinity, byHeight);
+    let lines = breakLines(ctx, groups, style, size, box.width);
+    const next = Math.max(minSize, Math.floor(size * SHRINK_STEP));
+    const fits = lines.length <= allowed;
+    if (fits || next >= size) {
+      if (!fits) lines = truncate(ctx, lines, allowed, style, size, box.width);
+      layout = {
+        size,
+        lineHeight,
+        lines,
+        width: Math.max(0, ...lines.map((l) => l.width)),
+        height: lines.length * lineHeight,
+        rtl: isRtl(text),
+        truncated: !fits
+      };
+      break;
+    }
+    size = next;
+  }
+  ctx.restore();
+
+  if (cache.size >= CACHE_LIMIT) cache.clear();
+  cache.set(key, layout);
+  return layout;
+}
+
+// Pieces of `line` whose source has appeared, the last one cut between
+// graphemes.
+function shownPieces(pieces: Piece[], shown: number): Piece[] {
+  const visible: Piece[] = [];
+  for (const piece of pieces) {
+    if (piece.start >= shown) break;
+    if (piece.start + piece.text.length <= shown) {
+      visible.push(piece);
+      continue;
+    }
+    let text = "";
+    for (const part of graphemes(piece.text)) {
+      if (piece.start + text.length + part.length > shown) break;
+      text += part;
+    }
+    if (text) visible.push({ ...piece, text });
+    break;
+  }
+  return visible;
+}
+
+// Adjacent pieces with the same markup are drawn in one call so scripts that
+// join letters (Arabic) shape across word boundaries.
+function mergeRuns(pieces: Piece[]): Piece[] {
+  const runs: Piece[] = [];
+  for (const piece of pieces) {
+    const last = runs[runs.length - 1];
+    if (last && last.bold === piece.bold && last.highlight === piece.highlight) {
+      runs[runs.length - 1] = { ...last, text: last.text + piece.text, width: last.width + piece.width };
+    } else {
+      runs.push(piece);
+    }
+  }
+  return runs;
+}
+
+export function drawTextLayout(ctx: CanvasRenderingContext2D, layout: TextLayout, style: TextStyle, box: TextBox) {
+  const { x, y, width, align = "start", shown = Infinity } = box;
+  ctx.save();
+  ctx.textBaseline = "alphabetic";
+  ctx.direction = layout.rtl ? "rtl" : "ltr";
+  ctx.textAlign = layout.rtl ? "right" : "left";
+  layout.lines.forEach((line, i) => {
+    // Lines are placed by their full width so typed text doesn't drift.
+    const indent = align === "center" ? (width - line.width) / 2 : 0;
+    const baseline = y + i * layout.lineHeight + (layout.lineHeight + layout.size * 0.7) / 2;
+    let cursor = layout.rtl ? x + width - indent : x + indent;
+    for (const run of mergeRuns(shownPieces(line.pieces, shown))) {
+      ctx.font = pieceFont(style, run, layout.size);
+      ctx.fillStyle = run.highlight ? style.accent : style.color;
+      ctx.fillText(run.text, cursor, baseline);
+      cursor += layout.rtl ? -run.width : run.width;
+    }
+  });
+  ctx.restore();
+}
+
+// Collects every text drawn while `draw` runs, so checks can see what a
+// template actually drew: at which size, in which color and whether it fit.
+export function recordDrawnText(draw: () => void): DrawnText[] {
+  const previous = drawnSink;
+  const sink: DrawnText[] = [];
+  drawnSink = sink;
+  try {
+    draw();
+  } finally {
+    drawnSink = previous;
+  }
+  return sink;
+}
+
+function record(ctx: CanvasRenderingContext2D, text: string, style: TextStyle, layout: TextLayout, background: string | null) {
+  if (!drawnSink || !text.trim()) return;
+  drawnSink.push({
+    text,
+    size: layout.size,
+    color: style.color,
+    alpha: ctx.globalAlpha,
+    background,
+    truncated: layout.truncated
+  });
+}
+
+// Lays out and draws `text` in the box. The returned layout's `height` is
+// where the next element can start. `background` is the fill drawn behind
+// the text, if any, for contrast checks.
+export function drawText(
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  style: TextStyle,
+  box: TextBox,
+  background: string | null = null
+): TextLayout {
+  const layout = layoutText(ctx, text, style, box);
+  drawTextLayout(ctx, layout, style, box);
+  record(ctx, text, style, layout, background);
+  return layout;
+}
+
+// Draws `text` on a rounded pill sized to the full text, on one line that
+// shrinks and then truncates to fit `maxWidth`. `x` is the left edge, or the
+// center when `align` is "center". Returns the pill width.
+export function drawPill(
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  style: TextStyle,
+  options: {
+    x: number;
+    y: number;
+    height: number;
+    size: number;
+    maxWidth: number;
+    fill: string;
+    align?: "left" | "center";
+    shown?: number;
+  }
+): number {
+  const { x, y, height, size, maxWidth, fill, align = "left", shown } = options;
+  const padX = Math.round(height * 0.45);
+  const box = { x: 0, y: 0, width: Math.max(1, maxWidth - padX * 2), size, minSize: Math.round(size * 0.7), maxLines: 1 };
+  const layout = layoutText(ctx, text, style, box);
+  record(ctx, text, style, layout, fill);
+  const w = Math.round(layout.width + padX * 2);
+  const left = align === "center" ? x - w / 2 : x;
+  ctx.fillStyle = fill;
+  roundRect(ctx, left, y, w, height, height / 2);
+  ctx.fill();
+  drawTextLayout(ctx, layout, style, {
+    ...box,
+    x: left + padX,
+    y: y + (height - layout.lineHeight) / 2,
+    width: layout.width,
+    shown
+  });
+  return w;
+}
@@ -0,0 +1,84 @@
+import { ease } from "./easing";
+import type { Transition, TransitionKind } from "./types";
+
+export const TRANSITION_LABELS: Record<TransitionKind, string> = {
+  none: "Cut",
+  crossfade: "Crossfade",
+  push: "Push",
+  zoom: "Zoom",
+  wipe: "Wipe",
+  blur: "Blur"
+};
+
+export const DEFAULT_TRANSITION: Transition = { kind: "none", duration: 0.5 };
+
+// A transition from a project file, or undefined for anything else.
+export function normalizeTransition(value: unknown): Transition | undefined {
+  if (!value || typeof value !== "object") return undefined;
+  const data = value as Partial<Record<keyof Transition, unknown>>;
+  const kind = (Object.keys(TRANSITION_LABELS) as TransitionKind[]).find((id) => id === data.kind);
+  if (!kind) return undefined;
+  const duration = typeof data.duration === "number" && Number.isFinite(data.duration) ? data.duration : DEFAULT_TRANSITION.duration;
+  return { kind, duration: Math.min(3, Math.max(0.1, duration)) };
+}
+
+// Composites the outgoing and incoming slides at transition time t (0..1).
+export function drawTransition(
+  ctx: CanvasRenderingContext2D,
+  kind: TransitionKind,
+  from: CanvasImageSource,
+  to: CanvasImageSource,
+  t: number,
+  width: number,
+  height: number
+) {
+  const e = ease("easeInOutCubic", t);
+  ctx.save();
+  switch (kind) {
+    case "crossfade":
+      ctx.drawImage(from, 0, 0);
+      ctx.globalAlpha = e;
+      ctx.drawImage(to, 0, 0);
+      break;
+    case "push":
+      ctx.drawImage(from, -e * width, 0);
+      ctx.drawImage(to, (1 - e) * width, 0);
+      break;
+    case "zoom": {
+      // Scales about the center on top of the caller's transform, which may
+      // already scale the frame down for a preview.
+      const drawScaled = (source: CanvasImageSource, scale: number, alpha: number) => {
+        ctx.save();
+        ctx.globalAlpha = alpha;
+        ctx.translate(width / 2, height / 2);
+        ctx.scale(scale, scale);
+        ctx.drawImage(source, -width / 2, -height / 2);
+        ctx.restore();
+      };
+      drawScaled(from, 1 + e * 0.25, 1);
+      drawScaled(to, 1.15 - e * 0.15, e);
+      break;
+    }
+    case "wipe":
+      ctx.drawImage(from, 0, 0);
+      ctx.beginPath();
+      ctx.rect(0, 0, e * width, height);
+      ctx.clip();
+      ctx.drawImage(to, 0, 0);
+      break;
+    case "blur": {
+      // Filter lengths ignore the transform, so the radius is scaled to
+      // match a frame that is drawn smaller or larger.
+      const { a, b } = ctx.getTransform();
+      const radius = Math.sin(Math.PI * t) * 24 * Math.hypot(a, b);
+      ctx.filter = `blur(${radius.toFixed(1)}px)`;
+      ctx.drawImage(from, 0, 0);
+      ctx.globalAlpha = e;
+      ctx.drawImage(to, 0, 0);
+      break;
+    }
+    default:
+      ctx.drawImage(t < 1 ? from : to, 0, 0);
+  }
+  ctx.restore();
+}
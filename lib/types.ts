@@ -0,0 +1,173 @@
+import type { EasingName } from "./easing";
+
+export type Aspect = "9:16" | "1:1" | "4:5" | "16:9";
+
+// Fractions of the frame covered on each side.
+export type Insets = {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+};
+
+export type CutoutMode = "flood" | "key";
+
+// Background removal: "flood" clears the background connected to the image
+// edges, "key" clears every pixel close to the background color. `tolerance`
+// is the color distance (0..1) still counted as background.
+export type Cutout = {
+  mode: CutoutMode;
+  tolerance: number;
+};
+
+// Per-image edits applied before any template draws the image. `crop` is a
+// fraction of the original image and `focus` a point of the cropped image
+// (0..1) kept in view when it is cover-fitted. Filters are multipliers where
+// 1 leaves the image unchanged.
+export type ImageEdits = {
+  crop: { x: number; y: number; width: number; height: number };
+  focus: { x: number; y: number };
+  brightness: number;
+  contrast: number;
+  saturation: number;
+  opacity: number;
+  cutout: Cutout | null;
+};
+
+// How a video clip plays as slide media. `trimStart` and `trimEnd` are
+// seconds cut from each end of the source and `rate` is the playback speed;
+// the clip loops over what is left for as long as it is on screen. Its sound
+// joins the mix's clip track at `volume`.
+export type Clip = {
+  trimStart: number;
+  trimEnd: number;
+  rate: number;
+  volume: number;
+  muted: boolean;
+};
+
+// An uploaded image or, with `clip` set, a video clip. Images decode into
+// `element` and clips into `video`.
+export type UploadedImage = {
+  id: string;
+  file: File;
+  url: string;
+  element?: HTMLImageElement;
+  edits?: ImageEdits;
+  clip?: Clip;
+  video?: HTMLVideoElement;
+};
+
+export type TransitionKind = "none" | "crossfade" | "push" | "zoom" | "wipe" | "blur";
+
+export type Transition = {
+  kind: TransitionKind;
+  duration: number;
+};
+
+// Where the camera looks: `zoom` is relative to a cover fit and `x`/`y` is
+// the point of the image (0..1) kept centered in the frame.
+export type Framing = {
+  zoom: number;
+  x: number;
+  y: number;
+};
+
+export type KenBurns = {
+  from: Framing;
+  to: Framing;
+  easing: EasingName;
+};
+
+export type TextAnimation = "none" | "slide" | "fade-up" | "pop" | "typewriter";
+
+export type ElementAnimations = {
+  title: TextAnimation;
+  text: TextAnimation;
+  cta: TextAnimation;
+};
+
+export type SlideKind = "intro" | "benefit" | "outro";
+
+export type LayerKind = "price" | "rating" | "arrow" | "countdown" | "sticker" | "text";
+
+// An element placed freely over a slide. Position and size are fractions of
+// the frame, so layers keep their place in every aspect ratio. Later layers
+// in a slide's list draw on top.
+export type OverlayLayer = {
+  id: string;
+  kind: LayerKind;
+  // Center, as fractions of the frame width and height.
+  x: number;
+  y: number;
+  // Width as a fraction of the frame's short side; the height follows the kind.
+  size: number;
+  // Degrees clockwise.
+  rotation: number;
+  // Seconds into the slide; `end` null stays until the slide ends.
+  start: number;
+  end: number | null;
+  animation: TextAnimation;
+  // Null uses the brand accent.
+  color: string | null;
+  // The price, label, emoji or free text, by kind.
+  text: string;
+  // The struck-through original price, or a rating's review count.
+  detail: string;
+  // Stars out of 5, or the seconds a countdown starts from.
+  value: number;
+};
+
+export type Slide = {
+  id: string;
+  kind: SlideKind;
+  text: string;
+  imageIds: string[];
+  duration: number;
+  templateId?: string;
+  // How this slide enters from the previous one; unset uses the project default.
+  transition?: Transition;
+  kenBurns?: KenBurns;
+  layers?: OverlayLayer[];
+};
+
+// A timed line of on-screen text; `start` and `end` are seconds from the
+// start of the video.
+export type CaptionCue = {
+  id: string;
+  start: number;
+  end: number;
+  text: string;
+};
+
+export type CaptionStyle = "none" | "highlight" | "boxed" | "outline";
+
+// Mixer settings. Volumes are linear gains, times are seconds and
+// `duckDb` is how far the music drops while the voice is speaking.
+export type AudioMix = {
+  musicVolume: number;
+  musicMuted: boolean;
+  voiceVolume: number;
+  voiceMuted: boolean;
+  clipVolume: number;
+  clipMuted: boolean;
+  duckDb: number;
+  voiceOffset: number;
+  voiceTrimStart: number;
+  voiceTrimEnd: number;
+  fadeIn: number;
+  fadeOut: number;
+  normalize: boolean;
+  targetLufs: number;
+};
+
+export type MusicMood = "upbeat" | "chill" | "dramatic" | "lofi";
+
+// `key` is the tonic's pitch class, 0 = C.
+export type MusicSettings = {
+  source: "generated" | "upload";
+  mood: MusicMood;
+  bpm: number;
+  key: number;
+  snapToBeat: boolean;
+};
@@ -0,0 +1,215 @@
+import { slug } from "./batch";
+import { withBrandColor } from "./brand";
+import { sceneTotalFrames, type Scene } from "./draw";
+import { fillCode } from "./links";
+import { assertPreflight, type PreflightIssue } from "./preflight";
+import { renderVideoFile, type RenderJob, type RenderResult } from "./render";
+
+// A/B variants of the open project. Each axis lists alternatives for one
+// setting; variants are combinations of one pick per axis. An empty axis
+// keeps the project's own value.
+
+export type VariantAxes = {
+  // Alternative product titles, the headline every slide shows.
+  hooks: string[];
+  ctas: string[];
+  // Brand colors; see `withBrandColor`.
+  colors: string[];
+  // Slide numbers (1-based, as in the editor) to show, in order.
+  orders: number[][];
+};
+
+export type VariantSampling = {
+  // Every combination, or `count` of them picked with `seed`.
+  mode: "all" | "sample";
+  count: number;
+  seed: number;
+};
+
+// The exact settings one variant renders with.
+export type CreativeVariant = {
+  // Axis letter and 1-based pick per axis, e.g. "H2-C1-P1-O3"; stable when
+  // the sampling changes, so results from several runs line up.
+  id: string;
+  hook: string;
+  cta: string;
+  color: string;
+  order: number[];
+};
+
+// Everything a variant inherits from the open project.
+export type VariantBase = Omit<RenderJob, "scene"> & { scene: Scene };
+
+export type VariantStatus = "queued" | "rendering" | "done" | "error";
+
+export type VariantResult = {
+  variant: CreativeVariant;
+  status: VariantStatus;
+  file: string | null;
+  blob: Blob | null;
+  seconds: number;
+  error: string | null;
+};
+
+export const EMPTY_VARIANT_AXES: VariantAxes = { hooks: [], ctas: [], colors: [], orders: [] };
+
+export const DEFAULT_VARIANT_SAMPLING: VariantSampling = { mode: "all", count: 8, seed: 1 };
+
+// Renders are slow; larger sets have to be sampled.
+export const MAX_VARIANTS = 64;
+
+const AXIS_LETTERS = { hooks: "H", ctas: "C", colors: "P", orders: "O" };
+
+// Parses "1, 3, 2" into slide numbers. Numbers outside 1..`slideCount` and
+// repeats are errors, since the order would not be what was typed.
+export function parseSlideOrder(text: string, slideCount: number): number[] {
+  const parts = text.split(/[\s,]+/).filter(Boolean);
+  if (parts.length === 0) throw new Error("List at least one slide number");
+  const order = parts.map((part) => {
+    const n = Number(part);
+    if (!Number.isInteger(n) || n < 1 || n > slideCount) throw new Error(`No slide ${part}; slides run 1–${slideCount}`);
+    return n;
+  });
+  const repeated = order.find((n, i) => order.indexOf(n) !== i);
+  if (repeated !== undefined) throw new Error(`Slide ${repeated} is listed twice`);
+  return order;
+}
+
+export function variantCount(axes: VariantAxes) {
+  return (
+    Math.max(1, axes.hooks.length) *
+    Math.max(1, axes.ctas.length) *
+    Math.max(1, axes.colors.length) *
+    Math.max(1, axes.orders.length)
+  );
+}
+
+// Seeded, so the same seed samples the same variants.
+function shuffled<T>(items: T[], seed: number): T[] {
+  const out = items.slice();
+  let state = seed >>> 0 || 1;
+  for (let i = out.length - 1; i > 0; i--) {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    const j = Math.floor((state / 0x100000000) * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+// The cartesian product of the axes, or a sample of it in product order.
+// `scene` and `slideCount` fill in axes left empty.
+export function generateVariants(
+  axes: VariantAxes,
+  sampling: VariantSampling,
+  scene: Pick<Scene, "productTitle" | "cta" | "brand">,
+  slideCount: number
+): CreativeVariant[] {
+  const pick = <T>(values: T[], fallback: T) => (values.length > 0 ? values : [fallback]);
+  const hooks = pick(axes.hooks, scene.productTitle);
+  const ctas = pick(axes.ctas, scene.cta);
+  const colors = pick(axes.colors, scene.brand.palette.primary);
+  const orders = pick(axes.orders, Array.from({ length: slideCount }, (_, i) => i + 1));
+
+  const all: CreativeVariant[] = [];
+  hooks.forEach((hook, h) =>
+    ctas.forEach((cta, c) =>
+      colors.forEach((color, p) =>
+        orders.forEach((order, o) => {
+          const id = [
+            `${AXIS_LETTERS.hooks}${h + 1}`,
+            `${AXIS_LETTERS.ctas}${c + 1}`,
+            `${AXIS_LETTERS.colors}${p + 1}`,
+            `${AXIS_LETTERS.orders}${o + 1}`
+          ].join("-");
+          all.push({ id, hook, cta, color, order });
+        })
+      )
+    )
+  );
+
+  const count = sampling.mode === "all" ? all.length : Math.max(1, Math.min(sampling.count, all.length));
+  if (count >= all.length) return all.slice(0, MAX_VARIANTS);
+  const chosen = new Set(shuffled(all, sampling.seed).slice(0, Math.min(count, MAX_VARIANTS)));
+  return all.filter((v) => chosen.has(v));
+}
+
+// The project scene with the variant's settings. Captions and the voiceover
+// are timed to the edited order, so reordered variants go without captions;
+// `renderVariant` drops the voiceover for them too.
+export function variantScene(scene: Scene, variant: CreativeVariant, tag: boolean): Scene {
+  const { brand } = scene;
+  const slides = variant.order.map((n) => scene.slides[n - 1]).filter(Boolean);
+  const reordered = !isEditedOrder(variant.order, scene.slides.length);
+  return {
+    ...scene,
+    productTitle: variant.hook,
+    cta: fillCode(variant.cta, scene.link),
+    brand: variant.color === brand.palette.primary ? brand : { ...brand, palette: withBrandColor(brand.palette, variant.color) },
+    captions: reordered ? [] : scene.captions,
+    slides,
+    tag: tag ? variant.id : scene.tag
+  };
+}
+
+function isEditedOrder(order: number[], slideCount: number) {
+  return order.length === slideCount && order.every((n, i) => n === i + 1);
+}
+
+export function variantFileName(variant: CreativeVariant, title: string, format: string) {
+  return `${variant.id}-${slug(title)}.${format}`;
+}
+
+// `check` runs preflight on the variant's scene; errors fail the variant.
+export async function renderVariant(
+  base: VariantBase,
+  variant: CreativeVariant,
+  tag: boolean,
+  check?: (scene: Scene) => PreflightIssue[]
+): Promise<RenderResult & { seconds: number }> {
+  const scene = variantScene(base.scene, variant, tag);
+  if (scene.slides.length === 0) throw new Error("The slide order has no slides");
+  if (check) assertPreflight(check(scene));
+  const reordered = !isEditedOrder(variant.order, base.scene.slides.length);
+  const result = await renderVideoFile({ ...base, scene, voice: reordered ? null : base.voice });
+  return { ...result, seconds: sceneTotalFrames(scene, base.fps) / base.fps };
+}
+
+export function variantManifest(base: VariantBase, results: VariantResult[]) {
+  return {
+    generatedAt: new Date().toISOString(),
+    template: base.scene.templateId,
+    width: base.scene.width,
+    height: base.scene.height,
+    format: base.format,
+    link: base.scene.link && { url: base.scene.link.url, variant: base.scene.link.variant, code: base.scene.link.code },
+    variants: results.map((r) => ({
+      id: r.variant.id,
+      hook: r.variant.hook,
+      cta: r.variant.cta,
+      color: r.variant.color,
+      slideOrder: r.variant.order,
+      status: r.status,
+      file: r.file,
+      seconds: r.seconds,
+      error: r.error
+    }))
+  };
+}
+
+export function variantManifestCsv(results: VariantResult[]) {
+  const cell = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+  const rows = results.map((r) => [
+    r.variant.id,
+    r.variant.hook,
+    r.variant.cta,
+    r.variant.color,
+    r.variant.order.join(" "),
+    r.status,
+    r.file ?? "",
+    r.seconds.toFixed(2),
+    r.error ?? ""
+  ]);
+  return [["variant_id", "hook", "cta", "color", "slide_order", "status", "file", "seconds", "error"], ...rows]
+    .map((row) => row.map(cell).join(","))
+    .join("\n");
+}
@@ -1,6 +1,13 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
-  reactStrictMode: true
+  reactStrictMode: true,
+  experimental: {
+    // Native modules used by the server renderer (/api/render) must not be
+    // bundled. They are only needed there, so install them alongside the app
+    // when the render API is used: @napi-rs/canvas@^1 and
+    // node-web-audio-api@^2, plus an ffmpeg binary. See the README.
+    serverComponentsExternalPackages: ["@napi-rs/canvas", "node-web-audio-api"]
+  }
 };
 
 module.exports = nextConfig;
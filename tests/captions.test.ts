@@ -0,0 +1,40 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { DEFAULT_MIX } from "../lib/audio";
+import { formatCaptions, parseCaptions, placeCues } from "../lib/captions";
+
+const SRT = `1
+00:00:00,500 --> 00:00:02,000
+First line
+
+2
+00:00:02,000 --> 00:00:04,250
+<i>Second</i> line
+`;
+
+const times = (cues: { start: number; end: number }[]) => cues.map((cue) => [cue.start, cue.end]);
+
+describe("parseCaptions", () => {
+  it("reads SRT and writes it back", () => {
+    const cues = parseCaptions(SRT);
+    assert.deepEqual(times(cues), [[0.5, 2], [2, 4.25]]);
+    assert.equal(cues[1].text, "Second line");
+    assert.equal(formatCaptions(cues, "srt"), SRT.replace("<i>Second</i>", "Second"));
+  });
+});
+
+describe("placeCues", () => {
+  const cues = parseCaptions(SRT);
+
+  it("keeps cues as they are when the voice starts the video untrimmed", () => {
+    assert.equal(placeCues(cues, DEFAULT_MIX), cues);
+  });
+
+  it("moves cues by the voice start", () => {
+    assert.deepEqual(times(placeCues(cues, { ...DEFAULT_MIX, voiceOffset: 1.5 })), [[2, 3.5], [3.5, 5.75]]);
+  });
+
+  it("drops and clips cues the trim cuts off", () => {
+    assert.deepEqual(times(placeCues(cues, { ...DEFAULT_MIX, voiceOffset: 1, voiceTrimStart: 2.5 })), [[1, 2.75]]);
+  });
+});
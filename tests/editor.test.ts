@@ -0,0 +1,157 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  GROUP_WINDOW_MS,
+  canRedo,
+  canUndo,
+  createHistory,
+  historyReducer,
+  initialEditorState,
+  presentState,
+  type EditorAction,
+  type EditorHistory,
+  type HistoryAction
+} from "../lib/editor";
+import type { UploadedImage } from "../lib/types";
+
+// Action sequences through `historyReducer`, the way the editor dispatches
+// them. Decoded elements are stand-in objects, so no DOM is needed.
+
+const image = (id: string): UploadedImage => ({
+  id,
+  file: new File([new Uint8Array(16)], `${id}.jpg`, { type: "image/jpeg" }),
+  url: `blob:${id}`
+});
+
+const decoded = (id: string): UploadedImage => ({
+  ...image(id),
+  element: { naturalWidth: 4, naturalHeight: 4 } as HTMLImageElement
+});
+
+const apply = (action: EditorAction, at = 0): HistoryAction => ({ type: "apply", action, at });
+
+const run = (...actions: HistoryAction[]) => actions.reduce(historyReducer, createHistory(initialEditorState));
+
+const title = (history: EditorHistory) => presentState(history).productTitle;
+
+describe("historyReducer", () => {
+  it("undoes and redoes edits in order", () => {
+    let history = run(
+      apply({ type: "set", patch: { productTitle: "First" } }, 0),
+      apply({ type: "set", patch: { productTitle: "Second" } }, 5000)
+    );
+    assert.equal(title(history), "Second");
+    history = historyReducer(history, { type: "undo" });
+    assert.equal(title(history), "First");
+    history = historyReducer(history, { type: "undo" });
+    assert.equal(title(history), initialEditorState.productTitle);
+    assert.equal(canUndo(history), false);
+    assert.equal(historyReducer(history, { type: "undo" }), history);
+
+    history = historyReducer(history, { type: "redo" });
+    history = historyReducer(history, { type: "redo" });
+    assert.equal(title(history), "Second");
+    assert.equal(canRedo(history), false);
+  });
+
+  it("drops the redo branch when editing after an undo", () => {
+    const history = run(
+      apply({ type: "set", patch: { productTitle: "First" } }, 0),
+      apply({ type: "set", patch: { productTitle: "Second" } }, 5000),
+      { type: "undo" },
+      apply({ type: "set", patch: { cta: "Shop now" } }, 10000)
+    );
+    assert.equal(title(history), "First");
+    assert.equal(presentState(history).cta, "Shop now");
+    assert.equal(canRedo(history), false);
+    assert.deepEqual(
+      history.entries.map((entry) => entry.label),
+      ["Start", "Edit title", "Edit call to action"]
+    );
+  });
+
+  it("groups a burst of edits to the same field into one entry", () => {
+    const history = run(
+      apply({ type: "set", patch: { productTitle: "W" }, coalesce: true }, 0),
+      apply({ type: "set", patch: { productTitle: "Wi" }, coalesce: true }, 300),
+      apply({ type: "set", patch: { productTitle: "Wid" }, coalesce: true }, 600),
+      apply({ type: "set", patch: { productTitle: "Widget" }, coalesce: true }, 900)
+    );
+    assert.equal(history.entries.length, 2);
+    assert.equal(title(history), "Widget");
+    assert.equal(title(historyReducer(history, { type: "undo" })), initialEditorState.productTitle);
+  });
+
+  it("starts a new entry after a pause or a different field", () => {
+    const history = run(
+      apply({ type: "set", patch: { productTitle: "Wid" }, coalesce: true }, 0),
+      apply({ type: "set", patch: { productTitle: "Widget" }, coalesce: true }, GROUP_WINDOW_MS + 1),
+      apply({ type: "set", patch: { subtitle: "Small" }, coalesce: true }, GROUP_WINDOW_MS + 2),
+      apply({ type: "set", patch: { productTitle: "Widget Pro" }, coalesce: true }, GROUP_WINDOW_MS + 3)
+    );
+    assert.deepEqual(
+      history.entries.map((entry) => entry.label),
+      ["Start", "Edit title", "Edit title", "Edit subtitle", "Edit title"]
+    );
+  });
+
+  it("keeps structural slide edits apart from the typing around them", () => {
+    const [first, second, ...rest] = initialEditorState.slides;
+    const typed = [{ ...first, text: "Typed" }, second, ...rest];
+    const history = run(
+      apply({ type: "set", patch: { slides: typed }, coalesce: true }, 0),
+      apply({ type: "set", patch: { slides: [second, typed[0], ...rest] } }, 200),
+      apply({ type: "set", patch: { slides: [second, ...rest] } }, 400),
+      apply({ type: "set", patch: { slides: [{ ...second, text: "More" }, ...rest] }, coalesce: true }, 600)
+    );
+    assert.equal(history.entries.length, 5);
+    const undone = historyReducer(history, { type: "undo" });
+    assert.deepEqual(presentState(undone).slides, [second, ...rest]);
+  });
+
+  it("does not group into the entry that undo returned to", () => {
+    const history = run(
+      apply({ type: "set", patch: { productTitle: "First" }, coalesce: true }, 0),
+      apply({ type: "set", patch: { subtitle: "Sub" }, coalesce: true }, 100),
+      { type: "undo" },
+      apply({ type: "set", patch: { productTitle: "Again" }, coalesce: true }, 200)
+    );
+    assert.equal(history.entries.length, 3);
+    assert.equal(title(historyReducer(history, { type: "undo" })), "First");
+  });
+
+  it("gives decoded images to every entry, so undo and redo keep them", () => {
+    let history = run(
+      apply({ type: "addImages", images: [image("a")] }, 0),
+      apply({ type: "addImages", images: [image("b")] }, 5000),
+      apply({ type: "removeImage", id: "a" }, 10000)
+    );
+    history = historyReducer(history, apply({ type: "imagesDecoded", images: [decoded("a"), decoded("b")] }));
+    assert.equal(history.entries.length, 4);
+    assert.equal(history.index, 3);
+
+    const elements = (h: EditorHistory) => presentState(h).images.map((img) => [img.id, Boolean(img.element)]);
+    assert.deepEqual(elements(history), [["b", true]]);
+    history = historyReducer(history, { type: "undo" });
+    assert.deepEqual(elements(history), [["a", true], ["b", true]]);
+    history = historyReducer(history, { type: "undo" });
+    assert.deepEqual(elements(history), [["a", true]]);
+    history = historyReducer(history, { type: "jump", index: 3 });
+    assert.deepEqual(elements(history), [["b", true]]);
+  });
+
+  it("leaves history untouched when decoded images are not in it", () => {
+    const history = run(apply({ type: "addImages", images: [image("a")] }, 0));
+    assert.equal(historyReducer(history, apply({ type: "imagesDecoded", images: [decoded("z")] })), history);
+  });
+
+  it("starts over on a fresh load", () => {
+    const history = run(
+      apply({ type: "set", patch: { productTitle: "First" } }, 0),
+      apply({ type: "load", state: { ...initialEditorState, productTitle: "Opened" }, fresh: true }, 5000)
+    );
+    assert.equal(history.entries.length, 1);
+    assert.equal(title(history), "Opened");
+    assert.equal(canUndo(history), false);
+  });
+});
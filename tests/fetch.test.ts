@@ -0,0 +1,71 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { fetchPublic, isPublicAddress } from "../lib/server/fetch";
+
+// Only addresses that are rejected before connecting, so nothing here
+// touches the network.
+
+describe("isPublicAddress", () => {
+  it("accepts public IPv4 and IPv6 addresses", () => {
+    for (const address of ["93.184.216.34", "8.8.8.8", "2606:4700::6810:84e5", "::ffff:8.8.8.8", "64:ff9b::808:808"]) {
+      assert.equal(isPublicAddress(address), true, address);
+    }
+  });
+
+  it("rejects private and special-purpose IPv4 ranges", () => {
+    for (const address of [
+      "0.0.0.0",
+      "10.1.2.3",
+      "127.0.0.1",
+      "100.64.0.1",
+      "169.254.169.254",
+      "172.16.0.1",
+      "192.168.1.1",
+      "198.18.0.1",
+      "198.19.255.255",
+      "224.0.0.1"
+    ]) {
+      assert.equal(isPublicAddress(address), false, address);
+    }
+  });
+
+  it("judges IPv4-mapped, compatible, NAT64 and 6to4 forms by the embedded address", () => {
+    for (const address of [
+      "::ffff:127.0.0.1",
+      "::ffff:7f00:1",
+      "::ffff:a9fe:a9fe",
+      "::7f00:1",
+      "::127.0.0.1",
+      "::ffff:0:a00:1",
+      "64:ff9b::7f00:1",
+      "64:ff9b::a9fe:a9fe",
+      "2002:7f00:1::1"
+    ]) {
+      assert.equal(isPublicAddress(address), false, address);
+    }
+  });
+
+  it("rejects local and reserved IPv6 addresses", () => {
+    for (const address of ["::", "::1", "fc00::1", "fd12::1", "fe80::1", "ff02::1", "2001:db8::1", "2001::1", "64:ff9b:1::1"]) {
+      assert.equal(isPublicAddress(address), false, address);
+    }
+  });
+
+  it("rejects text that is not an address", () => {
+    for (const address of ["", "localhost", "1.2.3", "::ffff:999.0.0.1", "1::2::3", "12345::"]) {
+      assert.equal(isPublicAddress(address), false, address);
+    }
+  });
+});
+
+describe("fetchPublic", () => {
+  it("refuses private hosts before connecting", async () => {
+    for (const url of ["http://127.0.0.1/", "http://[::ffff:127.0.0.1]/", "http://[::ffff:a9fe:a9fe]/", "http://localhost:3000/"]) {
+      await assert.rejects(fetchPublic(url), /not a public address/, url);
+    }
+  });
+
+  it("refuses other schemes", async () => {
+    await assert.rejects(fetchPublic("file:///etc/passwd"), /Only http and https/);
+  });
+});
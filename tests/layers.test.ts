@@ -0,0 +1,34 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { discountLabel, formatCountdown } from "../lib/layers";
+
+describe("discountLabel", () => {
+  it("reads prices with either decimal separator", () => {
+    assert.equal(discountLabel("$29.99", "$39.99"), "-25%");
+    assert.equal(discountLabel("29,99 €", "39,99 €"), "-25%");
+    assert.equal(discountLabel("$39", "$52"), "-25%");
+  });
+
+  it("reads thousands separators as grouping", () => {
+    assert.equal(discountLabel("$974.25", "$1,299.00"), "-25%");
+    assert.equal(discountLabel("$974", "$1,299"), "-25%");
+    assert.equal(discountLabel("974,25 €", "1.299,00 €"), "-25%");
+    assert.equal(discountLabel("974 €", "1.299 €"), "-25%");
+    assert.equal(discountLabel("£974.25", "£1 299.00"), "-25%");
+  });
+
+  it("has no label without a lower, readable price", () => {
+    assert.equal(discountLabel("$39.99", "$29.99"), null);
+    assert.equal(discountLabel("$39.99", "$39.99"), null);
+    assert.equal(discountLabel("Free", "$10"), null);
+    assert.equal(discountLabel("$10", ""), null);
+  });
+});
+
+describe("formatCountdown", () => {
+  it("drops hours under an hour and rounds up", () => {
+    assert.equal(formatCountdown(59.2), "1:00");
+    assert.equal(formatCountdown(3725), "1:02:05");
+    assert.equal(formatCountdown(-3), "0:00");
+  });
+});
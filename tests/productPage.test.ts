@@ -0,0 +1,115 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { describe, it } from "node:test";
+import { parseProductPage, productBenefits, productSubtitle } from "../lib/productPage";
+
+// Saved product pages, parsed as if fetched from PAGE_URL. Nothing here
+// touches the network.
+
+const PAGE_URL = "https://shop.example.com/p/item/123?ref=feed";
+
+const parseFixture = (name: string) =>
+  parseProductPage(readFileSync(path.resolve("tests/fixtures/product-pages", name), "utf8"), PAGE_URL);
+
+describe("parseProductPage", () => {
+  it("prefers JSON-LD Product data inside @graph", () => {
+    const product = parseFixture("jsonld.html");
+    assert.equal(product.url, PAGE_URL);
+    assert.equal(product.title, "AeroPress Go Travel Coffee Maker & Mug");
+    assert.equal(product.description, "Brew smooth coffee anywhere in under a minute. Packs into its own mug. Dishwasher safe parts.");
+    assert.equal(product.price, "$39.95");
+    assert.equal(product.rating, 4.8);
+    assert.equal(product.reviewCount, 1204);
+  });
+
+  it("falls back to Open Graph and product meta tags", () => {
+    const product = parseFixture("opengraph.html");
+    assert.equal(product.title, "Lumen Desk Lamp");
+    assert.equal(product.description, "A warm, flicker-free light for late nights. Dims smoothly from 5% to 100%. USB-C powered.");
+    assert.equal(product.price, "€59.00");
+    assert.equal(product.rating, null);
+    assert.equal(product.reviewCount, null);
+    assert.deepEqual(product.features, []);
+  });
+
+  it("skips broken JSON-LD and recovers from raw newlines in strings", () => {
+    const product = parseFixture("malformed.html");
+    assert.equal(product.title, "Trail Runner 2");
+    assert.equal(product.description, "Grippy outsole for wet rock. Breathable mesh upper.");
+    assert.equal(product.price, null);
+  });
+
+  it("falls back to the page title", () => {
+    assert.equal(parseFixture("title-only.html").title, "Trail Runner 2 – Lightweight & Grippy");
+  });
+
+  it("returns empty details for a page without product data", () => {
+    assert.deepEqual(parseFixture("empty.html"), {
+      url: PAGE_URL,
+      title: "",
+      description: "",
+      price: null,
+      rating: null,
+      reviewCount: null,
+      features: [],
+      images: []
+    });
+  });
+
+  it("collects feature bullets without repeats or the fit notice", () => {
+    assert.deepEqual(parseFixture("jsonld.html").features, [
+      "FAST & EASY: brews a cup in about one minute",
+      "Compact travel size fits inside the included mug."
+    ]);
+    assert.deepEqual(parseFixture("malformed.html").features, [
+      "LONG LASTING GRIP: a sticky rubber outsole for wet and dry trails",
+      "Breathable mesh upper that dries quickly after river crossings and keeps feet cool on long climbs."
+    ]);
+  });
+
+  it("resolves image URLs against the page and drops duplicates, SVGs and other schemes", () => {
+    assert.deepEqual(parseFixture("jsonld.html").images, [
+      "https://shop.example.com/media/aeropress-go-front.jpg",
+      "https://cdn.example.com/aeropress-go-side.jpg",
+      "https://cdn.example.com/aeropress-go-box.jpg",
+      "https://cdn.example.com/og/aeropress-go.jpg"
+    ]);
+    assert.deepEqual(parseFixture("opengraph.html").images, [
+      "https://shop.example.com/p/images/lumen-lamp.jpg?w=1200&h=1200",
+      "https://cdn.example.com/lumen-lamp-2.jpg"
+    ]);
+    assert.deepEqual(parseFixture("malformed.html").images, ["https://cdn.example.com/trail-runner.webp"]);
+  });
+});
+
+describe("productSubtitle", () => {
+  it("uses the first sentence of the description", () => {
+    assert.equal(productSubtitle(parseFixture("jsonld.html")), "Brew smooth coffee anywhere in under a minute.");
+  });
+
+  it("falls back to the price and rating", () => {
+    const product = { ...parseFixture("jsonld.html"), description: "" };
+    assert.equal(productSubtitle(product), "$39.95 · ★ 4.8");
+  });
+});
+
+describe("productBenefits", () => {
+  it("turns bullet headings into short benefits", () => {
+    assert.deepEqual(productBenefits(parseFixture("jsonld.html")), [
+      "Fast & easy",
+      "Compact travel size fits inside the included mug"
+    ]);
+  });
+
+  it("truncates long bullets at a word", () => {
+    assert.deepEqual(productBenefits(parseFixture("malformed.html")), [
+      "Long lasting grip",
+      "Breathable mesh upper that dries quickly after river…"
+    ]);
+  });
+
+  it("uses the description after its first sentence when there are no bullets", () => {
+    assert.deepEqual(productBenefits(parseFixture("opengraph.html")), ["Dims smoothly from 5% to 100%", "USB-C powered"]);
+  });
+});
@@ -0,0 +1,117 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { DEFAULT_BRAND_KIT } from "../lib/brand";
+import { encodeBundle } from "../lib/bundle";
+import { PROJECT_VERSION, decodeProjectFile, defaultSettings, encodeProjectFile, migrateProject } from "../lib/project";
+
+const asset = (id: string) => ({ id, name: `${id}.jpg`, type: "image/jpeg", blob: new Blob([new Uint8Array(4)]) });
+
+describe("migrateProject", () => {
+  it("keeps a valid output format and replaces an unknown one", () => {
+    const saved = { version: PROJECT_VERSION, outputFormat: "webm" };
+    assert.equal(migrateProject(saved).outputFormat, "webm");
+    assert.equal(migrateProject({ ...saved, outputFormat: "gif" }).outputFormat, defaultSettings.outputFormat);
+  });
+
+  it("drops media entries without a blob or metadata", () => {
+    const project = migrateProject({
+      version: PROJECT_VERSION,
+      images: [asset("a"), null, { id: "b", name: "b.jpg", type: "image/jpeg" }, { ...asset("c"), id: 7 }, asset("d")],
+      voice: { id: "voice", name: "voice.mp3", type: "audio/mpeg", blob: "not a blob" },
+      musicTrack: asset("music")
+    });
+    assert.deepEqual(project.images.map((img) => img.id), ["a", "d"]);
+    assert.equal(project.voice, null);
+    assert.equal(project.musicTrack?.id, "music");
+  });
+
+  it("replaces unknown or out-of-range settings", () => {
+    const project = migrateProject({
+      version: PROJECT_VERSION,
+      aspect: "3:2",
+      safeZones: { "9:16": "tiktok", "16:9": "tiktok", "1:1": 4 },
+      transition: { kind: "spin", duration: 1 },
+      animations: { title: "pop", text: "explode", cta: null },
+      captionStyle: "glow",
+      music: { mood: "metal", bpm: 0, key: 14, source: "cloud" },
+      mix: { musicVolume: "loud", voiceOffset: 1.5, normalize: true }
+    });
+    assert.equal(project.aspect, defaultSettings.aspect);
+    assert.deepEqual(project.safeZones, { ...defaultSettings.safeZones, "9:16": "tiktok" });
+    assert.deepEqual(project.transition, defaultSettings.transition);
+    assert.deepEqual(project.animations, { ...defaultSettings.animations, title: "pop" });
+    assert.equal(project.captionStyle, defaultSettings.captionStyle);
+    assert.equal(project.music.mood, defaultSettings.music.mood);
+    assert.ok(project.music.bpm > 0);
+    assert.equal(project.music.key, 2);
+    assert.equal(project.music.source, "generated");
+    assert.equal(project.mix.musicVolume, defaultSettings.mix.musicVolume);
+    assert.equal(project.mix.voiceOffset, 1.5);
+    assert.equal(project.mix.normalize, true);
+  });
+
+  it("drops slides and captions that are not valid", () => {
+    const project = migrateProject({
+      version: PROJECT_VERSION,
+      slides: [
+        null,
+        { id: "a", kind: "intro", text: "Hi", imageIds: ["x", 3], duration: -1, transition: { kind: "zoom", duration: 9 } },
+        "slide",
+        { kind: "bogus", kenBurns: { from: { zoom: 1 }, to: null }, layers: [{ kind: "nope" }] }
+      ],
+      captions: [
+        { id: "c1", start: 0, end: 1.5, text: "Hello" },
+        null,
+        { start: 2, end: 1, text: "Backwards" },
+        { start: 3, end: 4 },
+        { start: 4, end: 5, text: "No id" }
+      ]
+    });
+    assert.deepEqual(project.slides, [
+      { id: "a", kind: "intro", text: "Hi", imageIds: ["x"], duration: 0.5, transition: { kind: "zoom", duration: 3 } },
+      { id: "slide-4", kind: "benefit", text: "", imageIds: [], duration: defaultSettings.secondsPerSlide, layers: [] }
+    ]);
+    assert.deepEqual(project.captions, [
+      { id: "c1", start: 0, end: 1.5, text: "Hello" },
+      { id: "cue-5", start: 4, end: 5, text: "No id" }
+    ]);
+  });
+
+  it("rejects data that is not a project", () => {
+    assert.throws(() => migrateProject(null), /Not a project/);
+    assert.throws(() => migrateProject({ version: PROJECT_VERSION + 1 }), /newer editor/);
+  });
+});
+
+describe("project files", () => {
+  it("round-trip media and brand assets", async () => {
+    const project = migrateProject({
+      version: PROJECT_VERSION,
+      productTitle: "Widget",
+      images: [asset("a"), asset("b")],
+      voice: { ...asset("voice"), type: "audio/mpeg" },
+      brandKit: { ...DEFAULT_BRAND_KIT, logo: asset("logo") }
+    });
+    const decoded = await decodeProjectFile(encodeProjectFile(project));
+    assert.equal(decoded.productTitle, "Widget");
+    assert.deepEqual(decoded.images.map((img) => [img.id, img.blob.size]), [["a", 4], ["b", 4]]);
+    assert.equal(decoded.voice?.type, "audio/mpeg");
+    assert.equal(decoded.brandKit.logo?.id, "logo");
+  });
+
+  it("drop refs that point outside the file", async () => {
+    const file = encodeBundle("FAVP", () => ({
+      version: PROJECT_VERSION,
+      images: [{ id: "a", name: "a.jpg", type: "image/jpeg", offset: 0, size: 999 }, { id: "b", offset: "0" }],
+      voice: "voice.mp3"
+    }));
+    const project = await decodeProjectFile(file);
+    assert.deepEqual(project.images, []);
+    assert.equal(project.voice, null);
+  });
+
+  it("reject other files", async () => {
+    await assert.rejects(decodeProjectFile(new Blob(["not a project"])), /Not a project file/);
+    await assert.rejects(decodeProjectFile(encodeBundle("FAVP", () => [1, 2])), /Not a project file/);
+  });
+});
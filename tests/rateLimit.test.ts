@@ -0,0 +1,16 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { rateLimited } from "../lib/server/rateLimit";
+
+const from = (ip: string) => new Request("http://localhost/api/import", { headers: { "x-forwarded-for": `${ip}, 10.0.0.1` } });
+
+describe("rateLimited", () => {
+  it("refuses a client over the limit and counts clients and buckets apart", () => {
+    assert.equal(rateLimited(from("1.1.1.1"), "test", 2), 0);
+    assert.equal(rateLimited(from("1.1.1.1"), "test", 2), 0);
+    const wait = rateLimited(from("1.1.1.1"), "test", 2);
+    assert.ok(wait > 0 && wait <= 60);
+    assert.equal(rateLimited(from("2.2.2.2"), "test", 2), 0);
+    assert.equal(rateLimited(from("1.1.1.1"), "other", 2), 0);
+  });
+});